@@ -0,0 +1,68 @@
+// src/app/api/gitea/webhook/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { InvalidWebhookPayloadError } from '@/services/event-router';
+import { createGiteaEventRouter } from '@/services/event-handlers';
+import { normalizeGiteaEvent, verifyGiteaSignature } from '@/services/forges';
+import { dispatchTasks } from '@/services/task-dispatcher';
+
+const router = createGiteaEventRouter();
+
+// POST handler for Gitea and Forgejo webhook deliveries
+export async function POST(request: NextRequest) {
+  try {
+    // The signature covers the raw body
+    const rawBody = await request.text();
+    const signature = request.headers.get('x-gitea-signature') ?? request.headers.get('x-forgejo-signature');
+    if (!verifyGiteaSignature(rawBody, signature)) {
+      console.warn('Gitea webhook signature verification failed');
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    let body: any;
+    try {
+      body = JSON.parse(rawBody);
+    } catch (parseError) {
+      console.warn('Failed to parse Gitea webhook JSON payload:', parseError instanceof Error ? parseError.message : 'Unknown parse error');
+      return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+    }
+
+    const eventName = request.headers.get('x-gitea-event') ?? request.headers.get('x-forgejo-event');
+    if (!eventName || !body || !router.handles(eventName, body.action ?? null)) {
+      return NextResponse.json({ message: 'Webhook processed successfully' }, { status: 200 });
+    }
+
+    const deliveryId = request.headers.get('x-gitea-delivery') ?? request.headers.get('x-forgejo-delivery');
+    const event = normalizeGiteaEvent(eventName, deliveryId, body);
+
+    let dispatches;
+    try {
+      dispatches = await router.route(event);
+    } catch (error) {
+      if (error instanceof InvalidWebhookPayloadError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const outcome = await dispatchTasks(event, dispatches);
+    if (outcome.status === 'duplicate') {
+      return NextResponse.json({ message: 'Duplicate delivery ignored' }, { status: 200 });
+    }
+    if (outcome.status === 'unchanged' || outcome.runs.length === 0) {
+      return NextResponse.json({ message: 'No action required' }, { status: 200 });
+    }
+
+    return NextResponse.json({
+      message: `${outcome.runs.map(run => run.taskId).join(', ')} task triggered`,
+      runId: outcome.runs[0]?.runId,
+      runs: outcome.runs
+    }, { status: 200 });
+  } catch (error) {
+    console.error('Error processing Gitea webhook:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json({
+      error: 'Error processing webhook',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
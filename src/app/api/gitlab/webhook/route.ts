@@ -0,0 +1,67 @@
+// src/app/api/gitlab/webhook/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { InvalidWebhookPayloadError } from '@/services/event-router';
+import { createGitLabEventRouter } from '@/services/event-handlers';
+import { normalizeGitLabEvent, verifyGitLabToken } from '@/services/forges';
+import { dispatchTasks } from '@/services/task-dispatcher';
+
+const router = createGitLabEventRouter();
+
+// POST handler for GitLab Note Hook and Merge Request Hook deliveries
+export async function POST(request: NextRequest) {
+  try {
+    // GitLab sends the shared secret in a header instead of signing the body
+    if (!verifyGitLabToken(request.headers.get('x-gitlab-token'))) {
+      console.warn('GitLab webhook token verification failed');
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      console.warn('Failed to parse GitLab webhook JSON payload:', parseError instanceof Error ? parseError.message : 'Unknown parse error');
+      return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+    }
+
+    if (!body || typeof body.object_kind !== 'string') {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const event = normalizeGitLabEvent(request.headers.get('x-gitlab-event-uuid'), body);
+    if (!router.handles(event.name, event.action)) {
+      return NextResponse.json({ message: 'Webhook processed successfully' }, { status: 200 });
+    }
+
+    let dispatches;
+    try {
+      dispatches = await router.route(event);
+    } catch (error) {
+      if (error instanceof InvalidWebhookPayloadError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const outcome = await dispatchTasks(event, dispatches);
+    if (outcome.status === 'duplicate') {
+      return NextResponse.json({ message: 'Duplicate delivery ignored' }, { status: 200 });
+    }
+    if (outcome.status === 'unchanged' || outcome.runs.length === 0) {
+      return NextResponse.json({ message: 'No action required' }, { status: 200 });
+    }
+
+    return NextResponse.json({
+      message: `${outcome.runs.map(run => run.taskId).join(', ')} task triggered`,
+      runId: outcome.runs[0]?.runId,
+      runs: outcome.runs
+    }, { status: 200 });
+  } catch (error) {
+    console.error('Error processing GitLab webhook:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json({
+      error: 'Error processing webhook',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
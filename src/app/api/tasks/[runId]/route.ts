@@ -0,0 +1,20 @@
+// src/app/api/tasks/[runId]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiRequest, getApiRunStatus, TaskApiError } from '@/services/task-api';
+
+// GET handler reporting the status of a run started through the task API
+export async function GET(request: NextRequest, { params }: { params: Promise<{ runId: string }> }) {
+  try {
+    const token = await authenticateApiRequest(request.headers.get('authorization'));
+    const { runId } = await params;
+
+    return NextResponse.json(await getApiRunStatus(token, runId), { status: 200 });
+  } catch (error) {
+    if (error instanceof TaskApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error reading task status:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json({ error: 'Error reading task status' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+// src/app/api/tasks/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiRequest, TaskApiError, triggerApiTask, validateTaskRequest } from '@/services/task-api';
+import { API_TRIGGERABLE_TASK_IDS } from '@/trigger/task-registry';
+
+// POST handler starting a task without an issue comment
+export async function POST(request: NextRequest) {
+  try {
+    const token = await authenticateApiRequest(request.headers.get('authorization'));
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      console.warn('Failed to parse task API JSON payload:', parseError instanceof Error ? parseError.message : 'Unknown parse error');
+      return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+    }
+
+    const taskRequest = validateTaskRequest(body, API_TRIGGERABLE_TASK_IDS);
+    const { runId } = await triggerApiTask(token, taskRequest);
+
+    return NextResponse.json({
+      message: `${taskRequest.taskId} task triggered`,
+      runId,
+      statusUrl: new URL(`/api/tasks/${runId}`, request.nextUrl.origin).toString()
+    }, { status: 202 });
+  } catch (error) {
+    if (error instanceof TaskApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error triggering task through the API:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json({ error: 'Error triggering task' }, { status: 500 });
+  }
+}
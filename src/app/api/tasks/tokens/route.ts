@@ -0,0 +1,56 @@
+// src/app/api/tasks/tokens/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiTokenRegistry } from '@/services/api-token-registry';
+import { getInstallationRegistry } from '@/services/installation-registry';
+import { TaskApiError, verifyAdminRequest } from '@/services/task-api';
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof TaskApiError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`Error ${action} API token:`, error instanceof Error ? error.message : 'Unknown error');
+  return NextResponse.json({ error: `Error ${action} API token` }, { status: 500 });
+}
+
+// POST handler issuing a task API token for an installation; the token is only shown once
+export async function POST(request: NextRequest) {
+  try {
+    verifyAdminRequest(request.headers.get('authorization'));
+
+    const body = await request.json().catch(() => null);
+    const installationId = body?.installationId;
+    const label = body?.label;
+    if (!Number.isInteger(installationId) || typeof label !== 'string' || !label.trim()) {
+      return NextResponse.json({ error: 'installationId and label are required' }, { status: 400 });
+    }
+
+    if (!await getInstallationRegistry().resolve(installationId)) {
+      return NextResponse.json({ error: `Installation ${installationId} is not active` }, { status: 404 });
+    }
+
+    const { token, record } = await getApiTokenRegistry().issue(installationId, label.trim());
+    return NextResponse.json({ token, ...record }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'issuing');
+  }
+}
+
+// DELETE handler revoking a token by its token ID
+export async function DELETE(request: NextRequest) {
+  try {
+    verifyAdminRequest(request.headers.get('authorization'));
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.tokenId !== 'string') {
+      return NextResponse.json({ error: 'tokenId is required' }, { status: 400 });
+    }
+
+    if (!await getApiTokenRegistry().revoke(body.tokenId)) {
+      return NextResponse.json({ error: 'Token not found' }, { status: 404 });
+    }
+    return NextResponse.json({ message: 'Token revoked' }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error, 'revoking');
+  }
+}
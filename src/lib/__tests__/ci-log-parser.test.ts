@@ -0,0 +1,66 @@
+import { cleanLogLine, formatCiFailures, parseCiLog } from '../ci-log-parser';
+
+describe('CI Log Parser', () => {
+  it('should strip Actions timestamps and terminal colors', () => {
+    expect(cleanLogLine('2024-05-01T12:00:00.1234567Z \u001b[31mFAIL\u001b[39m src/a.test.ts')).toBe('FAIL src/a.test.ts');
+  });
+
+  it('should extract TypeScript compiler errors in both formats', () => {
+    const log = [
+      '2024-05-01T12:00:00.0000000Z src/lib/config.ts(12,5): error TS2322: Type \'string\' is not assignable to type \'number\'.',
+      'src/app/page.tsx:3:10 - error TS2305: Module \'"./x"\' has no exported member \'y\'.'
+    ].join('\n');
+
+    expect(parseCiLog(log)).toEqual([
+      { kind: 'compiler', file: 'src/lib/config.ts', line: 12, message: 'TS2322: Type \'string\' is not assignable to type \'number\'.' },
+      { kind: 'compiler', file: 'src/app/page.tsx', line: 3, message: 'TS2305: Module \'"./x"\' has no exported member \'y\'.' }
+    ]);
+  });
+
+  it('should extract failing jest suites and tests', () => {
+    const log = [
+      'FAIL src/lib/__tests__/config.test.ts',
+      '  ● Config › should load defaults',
+      '  ● Config › should load defaults'
+    ].join('\n');
+
+    expect(parseCiLog(log)).toEqual([
+      { kind: 'test', file: 'src/lib/__tests__/config.test.ts', message: 'Test suite failed' },
+      { kind: 'test', message: 'Config › should load defaults' }
+    ]);
+  });
+
+  it('should attach eslint errors to their file and skip warnings', () => {
+    const log = [
+      '/home/runner/work/repo/src/lib/config.ts',
+      '  10:7  error    \'x\' is assigned a value but never used  @typescript-eslint/no-unused-vars',
+      '  12:1  warning  Unexpected any                        @typescript-eslint/no-explicit-any',
+      ''
+    ].join('\n');
+
+    expect(parseCiLog(log)).toEqual([{
+      kind: 'lint',
+      file: '/home/runner/work/repo/src/lib/config.ts',
+      line: 10,
+      message: '\'x\' is assigned a value but never used (@typescript-eslint/no-unused-vars)'
+    }]);
+  });
+
+  it('should only fall back to generic Actions errors', () => {
+    expect(parseCiLog('##[error]Process completed with exit code 1.')).toEqual([
+      { kind: 'error', message: 'Process completed with exit code 1.' }
+    ]);
+    expect(parseCiLog('src/a.ts(1,1): error TS1005: \';\' expected.\n##[error]Process completed with exit code 2.'))
+      .toHaveLength(1);
+  });
+
+  it('should cap the number of failures', () => {
+    const log = Array.from({ length: 50 }, (_, i) => `src/a.ts(${i + 1},1): error TS1005: ';' expected.`).join('\n');
+    expect(parseCiLog(log, 5)).toHaveLength(5);
+  });
+
+  it('should format failures as a markdown list', () => {
+    expect(formatCiFailures([{ kind: 'compiler', file: 'src/a.ts', line: 1, message: 'TS1005' }])).toBe('- **compiler** `src/a.ts:1` TS1005');
+    expect(formatCiFailures([])).toContain('No specific errors');
+  });
+});
@@ -0,0 +1,98 @@
+import { expandCommandAlias, expandCommandSteps, validateCommandAliases } from '../command-aliases';
+import { parseCommands } from '../command-parser';
+
+const aliases = {
+  sec: 'plan focus on security $*',
+  ship: ['approve', 'status'],
+  hotfix: 'dev fix $1 in $2 && review',
+  release: 'ship',
+  triage: 'plan'
+};
+
+describe('Command Aliases', () => {
+  describe('validateCommandAliases', () => {
+    it('should accept commands, lists and aliases of aliases', () => {
+      expect(validateCommandAliases(aliases)).toEqual([]);
+      expect(validateCommandAliases(undefined)).toEqual([]);
+    });
+
+    it('should report invalid names and commands', () => {
+      expect(validateCommandAliases({
+        'Two Words': 'plan',
+        plan: 'plan --max-issues 3',
+        empty: [],
+        number: 3,
+        mention: 'review @someone'
+      })).toEqual([
+        'Alias Two Words must be a single lowercase word',
+        'Alias plan would hide the built-in command plan',
+        'Alias empty has no command',
+        'Alias number must be a command or a list of commands',
+        'Alias mention must not contain mentions or line breaks'
+      ]);
+      expect(validateCommandAliases(['plan'])).toEqual(['Configuration section aliases must be a mapping']);
+    });
+
+    it('should report cycles between aliases', () => {
+      expect(validateCommandAliases({ a: 'b now', b: ['review', 'c'], c: 'a', d: 'd' })).toEqual([
+        'Alias cycle: a -> b -> c -> a',
+        'Alias cycle: d -> d'
+      ]);
+    });
+  });
+
+  describe('expandCommandAlias', () => {
+    it('should substitute arguments', () => {
+      expect(expandCommandAlias('sec --max-issues 3', aliases)).toEqual({ commands: ['plan focus on security --max-issues 3'], errors: [] });
+      expect(expandCommandAlias('hotfix login auth', aliases)).toEqual({ commands: ['dev fix login in auth', 'review'], errors: [] });
+    });
+
+    it('should append arguments to aliases without placeholders', () => {
+      expect(expandCommandAlias('triage the onboarding flow', aliases).commands).toEqual(['plan the onboarding flow']);
+    });
+
+    it('should expand aliases used by aliases', () => {
+      expect(expandCommandAlias('release', aliases).commands).toEqual(['approve', 'status']);
+    });
+
+    it('should report missing arguments', () => {
+      expect(expandCommandAlias('hotfix login', aliases)).toEqual({ commands: [], errors: ['`hotfix` needs 2 argument(s), got 1'] });
+    });
+
+    it('should stop at cycles that slipped through', () => {
+      expect(expandCommandAlias('a', { a: 'b', b: 'a' }).errors).toEqual([expect.stringMatching(/uses aliases more than 5 levels deep$/)]);
+    });
+  });
+
+  describe('expandCommandSteps', () => {
+    it('should chain the commands of an alias to the one it replaces', () => {
+      const steps = expandCommandSteps(parseCommands('@l review\n@l ship'), aliases);
+
+      expect(steps.map(step => [step.parsed.command, step.requiresSuccess, step.parsed.alias])).toEqual([
+        ['review', false, undefined],
+        ['approve', false, 'ship'],
+        ['status', true, 'ship']
+      ]);
+    });
+
+    it('should parse the flags of expanded commands', () => {
+      const [step] = expandCommandSteps(parseCommands('@l sec --max-issues 3'), aliases);
+
+      expect(step.parsed.args?.options).toEqual({ maxIssues: 3 });
+      expect(step.parsed.userQuery).toBe('focus on security');
+    });
+
+    it('should turn argument errors into a command reporting them', () => {
+      const [step] = expandCommandSteps(parseCommands('@l hotfix'), aliases);
+
+      expect(step.parsed.fullText).toBe('hotfix');
+      expect(step.parsed.args?.errors).toEqual(['`hotfix` needs 2 argument(s), got 0']);
+    });
+
+    it('should leave built-in and unknown commands alone', () => {
+      const steps = parseCommands('@l plan add caching\n@l what is this repo about');
+
+      expect(expandCommandSteps(steps, aliases)).toEqual(steps);
+    });
+  });
+});
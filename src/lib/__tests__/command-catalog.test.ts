@@ -0,0 +1,53 @@
+import { findCommand, getCommandCatalog, renderCommandHelp, resolveCommand } from '../command-catalog';
+import { getTaskType, parseCommand } from '../command-parser';
+import * as taskRegistry from '../../trigger/task-registry';
+
+describe('Command Catalog', () => {
+  it('should only declare commands for registered tasks, without duplicate names', () => {
+    const taskIds = Object.values(taskRegistry).map(value => (value as { id?: string }).id).filter(Boolean);
+    const names = getCommandCatalog().flatMap(entry => [entry.name, ...entry.aliases]);
+
+    for (const entry of getCommandCatalog()) {
+      expect(taskIds).toContain(entry.taskId);
+    }
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it('should route every declared name and example to its task', async () => {
+    for (const entry of getCommandCatalog()) {
+      for (const example of entry.examples) {
+        expect(await getTaskType(parseCommand(example))).toBe(entry.taskId);
+      }
+      if (entry.arguments !== 'required-text') {
+        for (const name of [entry.name, ...entry.aliases]) {
+          expect(resolveCommand(name)?.taskId).toBe(entry.taskId);
+        }
+      }
+    }
+  });
+
+  it('should prefer the longest name and ignore trailing punctuation', () => {
+    expect(resolveCommand('looks good!')?.name).toBe('approve');
+    expect(resolveCommand('plan.')?.name).toBe('plan');
+    expect(resolveCommand('dev')).toBeUndefined();
+    expect(resolveCommand('developing')).toBeUndefined();
+  });
+
+  it('should route help only for the overview and known commands', async () => {
+    expect(await getTaskType(parseCommand('@l help'))).toBe('help-task');
+    expect(await getTaskType(parseCommand('@l help r'))).toBe('help-task');
+    expect(await getTaskType(parseCommand('@l help me with this issue'))).toBe('general-response-task');
+  });
+
+  it('should render the overview and the details of a command', () => {
+    const overview = renderCommandHelp();
+    for (const entry of getCommandCatalog()) {
+      expect(overview).toContain(`\`@l ${entry.name}\``);
+    }
+
+    const plan = renderCommandHelp('analyze');
+    expect(plan).toContain('### `@l plan`');
+    expect(plan).toContain('| `--max-issues` | number |');
+    expect(plan).toContain(findCommand('plan')!.examples[1]);
+  });
+});
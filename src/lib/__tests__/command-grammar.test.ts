@@ -0,0 +1,79 @@
+import { parseCommandArguments, parseDurationDays, tokenizeCommand } from '../command-grammar';
+import { getCommandContextFields, getTaskType, parseCommand } from '../command-parser';
+
+describe('Command Grammar', () => {
+  describe('parseCommandArguments', () => {
+    it('should parse typed plan flags and keep the rest as the query', () => {
+      const args = parseCommandArguments('plan --max-issues 5 --labels security,auth --due=2w harden the login flow');
+
+      expect(args).toEqual({
+        name: 'plan',
+        options: { maxIssues: 5, labels: ['security', 'auth'], dueInDays: 14 },
+        positionals: ['harden', 'the', 'login', 'flow'],
+        errors: []
+      });
+    });
+
+    it('should resolve aliases and merge repeated list flags', () => {
+      const args = parseCommandArguments('r --files src/lib --files "src/app/api"');
+
+      expect(args?.name).toBe('review');
+      expect(args?.options.files).toEqual(['src/lib', 'src/app/api']);
+      expect(args?.errors).toEqual([]);
+    });
+
+    it('should collect errors for invalid flags', () => {
+      const args = parseCommandArguments('plan --max-issues five --due 2y --colour red --labels');
+
+      expect(args?.errors).toEqual([
+        '--max-issues expects a whole number, got "five"',
+        '--due expects a duration such as 14d or 2w, got "2y"',
+        'Unknown flag --colour for plan, expected one of: --max-issues, --labels, --due',
+        '--labels needs a value'
+      ]);
+    });
+
+    it('should enforce bounds and positional rules', () => {
+      expect(parseCommandArguments('plan --max-issues 0')?.errors).toEqual(['--max-issues must be between 1 and 50']);
+      expect(parseCommandArguments('review --files src extra')?.errors).toEqual(["review doesn't take arguments, unexpected: extra"]);
+    });
+
+    it('should leave commands without a schema and free-text reviews alone', () => {
+      expect(parseCommandArguments('dev fix the --verbose flag')).toBeNull();
+      expect(parseCommandArguments('review this for security issues')).toBeNull();
+    });
+  });
+
+  it('should tokenize quoted values and parse durations', () => {
+    expect(tokenizeCommand(`plan --labels "good first issue" 'x y'`)).toEqual(['plan', '--labels', 'good first issue', 'x y']);
+    expect(parseDurationDays('10')).toBe(10);
+    expect(parseDurationDays('3w')).toBe(21);
+    expect(parseDurationDays('soon')).toBeNull();
+  });
+
+  describe('command routing', () => {
+    it('should route flagged commands to their tasks with the parsed options', async () => {
+      const plan = parseCommand('@l plan --max-issues 3 caching layer');
+      const review = parseCommand('@l r --files src/lib');
+
+      expect(plan.userQuery).toBe('caching layer');
+      expect(await getTaskType(plan)).toBe('plan-task');
+      expect(getCommandContextFields(plan)).toEqual({ commandOptions: { maxIssues: 3 } });
+      expect(await getTaskType(review)).toBe('full-code-review');
+      expect(getCommandContextFields(review)).toEqual({ commandOptions: { files: ['src/lib'] } });
+    });
+
+    it('should send commands with invalid flags to the feedback task', async () => {
+      const parsed = parseCommand('@l plan --max-issues lots');
+
+      expect(await getTaskType(parsed)).toBe('command-feedback-task');
+      expect(getCommandContextFields(parsed)).toEqual({ commandErrors: ['--max-issues expects a whole number, got "lots"'] });
+    });
+
+    it('should keep routing free-text commands as before', async () => {
+      // review takes no text, so the offline classifier asks whether the review command was meant
+      expect(await getTaskType(parseCommand('@l review this for security issues'))).toBe('command-feedback-task');
+      expect(getCommandContextFields(parseCommand('@l dev fix typo'))).toEqual({});
+    });
+  });
+});
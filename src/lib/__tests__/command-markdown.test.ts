@@ -0,0 +1,73 @@
+import { formatCommandCode, maskCommandCode, restoreCommandCode, unmaskCommandCode } from '../command-markdown';
+
+describe('Command Markdown', () => {
+  describe('maskCommandCode', () => {
+    it('should take out code spans and fenced blocks verbatim', () => {
+      const masked = maskCommandCode('fix `src/__tests__/x.ts`\n```ts\nconst a = b && c;\n  return <div/>;\n```\nthanks');
+
+      expect(masked.code).toEqual([
+        { kind: 'fence', language: 'ts', content: 'const a = b && c;\n  return <div/>;' },
+        { kind: 'inline', content: 'src/__tests__/x.ts' }
+      ]);
+      expect(masked.text).not.toMatch(/[`&<]/);
+    });
+
+    it('should read code spans like CommonMark does', () => {
+      expect(maskCommandCode('use `` a`b `` here').code).toEqual([{ kind: 'inline', content: 'a`b' }]);
+      expect(maskCommandCode('an unclosed ` backtick').code).toEqual([]);
+    });
+
+    it('should run unclosed and tilde fences to their end', () => {
+      expect(maskCommandCode('~~~\n```\nnested\n```\n~~~').code).toEqual([{ kind: 'fence', content: '```\nnested\n```' }]);
+      expect(maskCommandCode('```py\nprint(1)').code).toEqual([{ kind: 'fence', language: 'py', content: 'print(1)' }]);
+    });
+
+    it('should ignore placeholder characters in the input', () => {
+      expect(maskCommandCode('0 plain').text).toBe('0 plain');
+    });
+  });
+
+  describe('restoreCommandCode', () => {
+    it('should put code back as markdown, fenced blocks on their own lines', () => {
+      const masked = maskCommandCode('dev `a` then\n```js\nx()\n```\nplease');
+      const collapsed = masked.text.replace(/\s+/g, ' ');
+
+      expect(restoreCommandCode(collapsed, masked.code)).toEqual({
+        text: 'dev `a` then\n```js\nx()\n```\nplease',
+        code: [masked.code[1], masked.code[0]]
+      });
+    });
+
+    it('should only list the code found in the text', () => {
+      const masked = maskCommandCode('`a` and `b`');
+      const [first] = masked.text.split(' and ');
+
+      expect(restoreCommandCode(first, masked.code).code).toEqual([{ kind: 'inline', content: 'a' }]);
+    });
+
+    it('should give back the bare content', () => {
+      const masked = maskCommandCode('--files `src/a b.ts`');
+
+      expect(unmaskCommandCode(masked.text, masked.code)).toBe('--files src/a b.ts');
+    });
+  });
+
+  describe('formatCommandCode', () => {
+    it('should pick delimiters the code cannot close', () => {
+      expect(formatCommandCode({ kind: 'inline', content: 'a`b' })).toBe('``a`b``');
+      expect(formatCommandCode({ kind: 'inline', content: '`tick' })).toBe('`` `tick ``');
+      expect(formatCommandCode({ kind: 'fence', content: '```\nx\n```' })).toBe('````\n```\nx\n```\n````');
+    });
+
+    it.each([
+      'see `a  b` and `` `c` ``',
+      'dev\n```ts\nif (a && b) {\n\treturn;\n}\n```',
+      '````md\n```js\nx\n```\n````'
+    ])('should round trip %j', text => {
+      const masked = maskCommandCode(text);
+      const restored = restoreCommandCode(masked.text, masked.code);
+
+      expect(maskCommandCode(restored.text).code).toEqual(masked.code);
+    });
+  });
+});
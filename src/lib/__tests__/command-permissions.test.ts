@@ -0,0 +1,69 @@
+import {
+  describeCommandPermission,
+  getCommandPermission,
+  meetsPermissionLevel,
+  parseCommandPermission
+} from '../command-permissions';
+import { buildPermissionRefusal } from '../../trigger/command-feedback-implementation';
+
+describe('Command Permissions', () => {
+  describe('meetsPermissionLevel', () => {
+    it('should rank associations from owner to none', () => {
+      expect(meetsPermissionLevel('OWNER', 'COLLABORATOR')).toBe(true);
+      expect(meetsPermissionLevel('MEMBER', 'COLLABORATOR')).toBe(true);
+      expect(meetsPermissionLevel('CONTRIBUTOR', 'COLLABORATOR')).toBe(false);
+      expect(meetsPermissionLevel('FIRST_TIME_CONTRIBUTOR', 'CONTRIBUTOR')).toBe(false);
+      expect(meetsPermissionLevel(undefined, 'NONE')).toBe(true);
+      expect(meetsPermissionLevel(undefined, 'CONTRIBUTOR')).toBe(false);
+    });
+  });
+
+  describe('parseCommandPermission', () => {
+    it('should read levels and team lists', () => {
+      expect(parseCommandPermission('member')).toEqual({ minimum: 'MEMBER' });
+      expect(parseCommandPermission({ minimum: 'COLLABORATOR', teams: ['core'] })).toEqual({ minimum: 'COLLABORATOR', teams: ['core'] });
+      expect(parseCommandPermission({ teams: ['acme/core'] })).toEqual({ minimum: 'OWNER', teams: ['acme/core'] });
+      expect(parseCommandPermission('admin')).toBeUndefined();
+      expect(parseCommandPermission({})).toBeUndefined();
+    });
+  });
+
+  describe('getCommandPermission', () => {
+    const plan = { name: 'plan', permission: { minimum: 'COLLABORATOR' as const } };
+
+    it('should use what the task declares without overrides', () => {
+      expect(getCommandPermission(plan, 'acme', 'api', {})).toEqual({ minimum: 'COLLABORATOR' });
+      expect(getCommandPermission({ name: 'help' }, 'acme', 'api', {})).toEqual({ minimum: 'NONE' });
+      expect(getCommandPermission(undefined, 'acme', 'api', {})).toEqual({ minimum: 'NONE' });
+    });
+
+    it('should prefer the most specific repository override', () => {
+      const env = {
+        COMMAND_PERMISSIONS: JSON.stringify({
+          '*': { plan: 'OWNER' },
+          'acme/*': { plan: 'MEMBER' },
+          'acme/docs': { plan: 'NONE' }
+        })
+      };
+
+      expect(getCommandPermission(plan, 'acme', 'api', env)).toEqual({ minimum: 'MEMBER' });
+      expect(getCommandPermission(plan, 'acme', 'docs', env)).toEqual({ minimum: 'NONE' });
+      expect(getCommandPermission(plan, 'other', 'api', env)).toEqual({ minimum: 'OWNER' });
+    });
+
+    it('should ignore invalid configuration', () => {
+      expect(getCommandPermission(plan, 'acme', 'api', { COMMAND_PERMISSIONS: '{not json' })).toEqual({ minimum: 'COLLABORATOR' });
+    });
+  });
+
+  describe('buildPermissionRefusal', () => {
+    it('should say who may run the command', () => {
+      const permission = { minimum: 'COLLABORATOR' as const, teams: ['core', 'other-org/release'] };
+
+      expect(describeCommandPermission(permission, 'acme')).toBe('collaborators or members of @acme/core, @other-org/release');
+      expect(buildPermissionRefusal('plan', permission, 'acme', 'stranger')).toBe(
+        "@stranger Sorry, I didn't run `plan`: in this repository it can only be started by collaborators or members of @acme/core, @other-org/release. A maintainer can run it for you."
+      );
+    });
+  });
+});
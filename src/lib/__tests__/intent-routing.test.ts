@@ -0,0 +1,167 @@
+import { parseCommand, routeCommand } from '../command-parser';
+import { buildCommandClarification } from '../../trigger/command-feedback-implementation';
+
+const mockFetch = jest.fn();
+
+// Thread of a plan, where approving, refining or cancelling acts on its milestone
+const planThread = async () => ({ recentMilestone: true });
+
+function classifierReply(classification: object) {
+  return {
+    ok: true,
+    json: async () => ({ choices: [{ message: { content: JSON.stringify(classification) } }] })
+  };
+}
+
+describe('AI intent routing', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    global.fetch = mockFetch as unknown as typeof fetch;
+    process.env.OPENAI_API_KEY = 'test-key';
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+    delete process.env.OPENAI_API_KEY;
+  });
+
+  it('should route confident classifications to the command they were classified as', async () => {
+    mockFetch.mockResolvedValue(classifierReply({ intent: 'approval', confidence: 0.93, normalizedCommand: 'approve', language: 'es', alternatives: [] }));
+
+    expect(await routeCommand(parseCommand('@l adelante con el plan'), planThread)).toEqual({ taskId: 'plan-approval-task' });
+  });
+
+  it('should ask which command was meant when the classification is uncertain', async () => {
+    mockFetch.mockResolvedValue(classifierReply({
+      intent: 'approval',
+      confidence: 0.6,
+      normalizedCommand: 'approve',
+      alternatives: [{ intent: 'plan', confidence: 0.55 }, { intent: 'review', confidence: 0.2 }]
+    }));
+
+    expect(await routeCommand(parseCommand('@l sounds about right i guess'))).toEqual({
+      taskId: 'command-feedback-task',
+      suggestions: ['approve', 'plan']
+    });
+  });
+
+  it('should never start code changes from a classification', async () => {
+    mockFetch.mockResolvedValue(classifierReply({ intent: 'codex', confidence: 0.95, normalizedCommand: 'fix the bug', alternatives: [] }));
+
+    expect(await routeCommand(parseCommand('@l fix the login bug'))).toEqual({ taskId: 'general-response-task' });
+  });
+
+  it('should leave unclear requests with the general response', async () => {
+    mockFetch.mockResolvedValue(classifierReply({ intent: 'review', confidence: 0.3, normalizedCommand: 'review', alternatives: [] }));
+
+    expect(await routeCommand(parseCommand('@l what does this do'))).toEqual({ taskId: 'general-response-task' });
+  });
+
+  it('should use the offline classification when the classifier fails', async () => {
+    mockFetch.mockRejectedValue(new Error('timeout'));
+
+    expect(await routeCommand(parseCommand('@l approvd, but only the first part'))).toEqual({ taskId: 'command-feedback-task', suggestions: ['approve'] });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use the offline classification once the time for the classifier is up', async () => {
+    const getIntentContext = async () => ({ classificationSignal: AbortSignal.abort() });
+
+    expect(await routeCommand(parseCommand('@l approvd, but only the first part'), getIntentContext)).toEqual({ taskId: 'command-feedback-task', suggestions: ['approve'] });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should route confident offline classifications without asking the AI', async () => {
+    expect(await routeCommand(parseCommand('@l aprove'), planThread)).toEqual({ taskId: 'plan-approval-task' });
+    expect(await routeCommand(parseCommand('@l cancle'), planThread)).toEqual({ taskId: 'plan-cancellation-task' });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should route offline when the AI is not configured', async () => {
+    delete process.env.OPENAI_API_KEY;
+
+    expect(await routeCommand(parseCommand('@l d\'accord'), planThread)).toEqual({ taskId: 'plan-approval-task' });
+    expect(await routeCommand(parseCommand('@l what does this do'))).toEqual({ taskId: 'general-response-task' });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should not classify catalog commands', async () => {
+    const getIntentContext = jest.fn();
+
+    expect(await routeCommand(parseCommand('@l lgtm'), getIntentContext)).toEqual({ taskId: 'plan-approval-task' });
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(getIntentContext).not.toHaveBeenCalled();
+  });
+
+  it('should pass the thread context to the classifier', async () => {
+    mockFetch.mockResolvedValue(classifierReply({ intent: 'approval', confidence: 0.9, normalizedCommand: 'approve', alternatives: [] }));
+
+    await routeCommand(parseCommand('@l sounds right to me'), async () => ({ recentMilestone: true, lastTaskType: 'plan-task' }));
+
+    const prompt = JSON.parse(mockFetch.mock.calls[0][1].body).messages[0].content;
+    expect(prompt).toContain('User recently created a milestone');
+    expect(prompt).toContain('Last task was: plan-task');
+  });
+
+  it('should offer the suggested commands as quick replies', () => {
+    const reply = buildCommandClarification('sounds about right', ['approve', 'plan'], 'alice');
+
+    expect(reply).toContain('@alice');
+    expect(reply).toContain('- `@l approve`');
+    expect(reply).toContain('- `@l plan`');
+  });
+});
+
+describe('Intent routing without a plan in the thread', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    global.fetch = mockFetch as unknown as typeof fetch;
+    delete process.env.OPENAI_API_KEY;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it.each(['no', 'update the readme', 'change the title', 'stop it', 'cancle'])('should not approve, refine or cancel on "%s"', async request => {
+    const route = await routeCommand(parseCommand(`@l ${request}`));
+
+    expect(['plan-approval-task', 'plan-refinement-task', 'plan-cancellation-task']).not.toContain(route?.taskId);
+  });
+
+  it.each([
+    'no idea why this fails',
+    'reject this pr',
+    'nope',
+    'change the button color to red',
+    'update the readme with install instructions',
+    'los',
+    'vamos',
+  ])('should not approve, refine or cancel on "%s" in a thread with a plan', async request => {
+    const route = await routeCommand(parseCommand(`@l ${request}`), planThread);
+
+    expect(['plan-approval-task', 'plan-refinement-task', 'plan-cancellation-task']).not.toContain(route?.taskId);
+  });
+
+  it('should ask whether a plan command was meant', async () => {
+    expect(await routeCommand(parseCommand('@l cancle'))).toEqual({ taskId: 'command-feedback-task', suggestions: ['cancel'] });
+    expect(await routeCommand(parseCommand('@l cancle'), planThread)).toEqual({ taskId: 'plan-cancellation-task' });
+    expect(await routeCommand(parseCommand('@l reject this pr'), planThread)).toEqual({ taskId: 'command-feedback-task', suggestions: ['cancel'] });
+  });
+
+  it('should not read "stop" as cancelling the plan', async () => {
+    expect(await routeCommand(parseCommand('@l stop it'), planThread)).not.toEqual({ taskId: 'plan-cancellation-task' });
+  });
+
+  it('should ask about confident AI classifications too', async () => {
+    process.env.OPENAI_API_KEY = 'test-key';
+    mockFetch.mockResolvedValue(classifierReply({ intent: 'refine', confidence: 0.95, normalizedCommand: 'refine', alternatives: [] }));
+
+    expect(await routeCommand(parseCommand('@l tweak the wording of the error'))).toEqual({ taskId: 'command-feedback-task', suggestions: ['refine'] });
+    delete process.env.OPENAI_API_KEY;
+  });
+});
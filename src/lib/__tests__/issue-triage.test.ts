@@ -0,0 +1,99 @@
+import {
+  classifyIssueByKeywords,
+  calculateTitleSimilarity,
+  findDuplicateCandidates,
+  parseCodeOwners,
+  findCodeOwners,
+  extractMentionedPaths,
+  getTriageConfig
+} from '../issue-triage';
+
+describe('Issue Triage', () => {
+  describe('classifyIssueByKeywords', () => {
+    it('should classify crash reports as bugs', () => {
+      const result = classifyIssueByKeywords('App crashes on startup', 'Steps to reproduce: open the app');
+      expect(result.category).toBe('bug');
+      expect(result.confidence).toBeGreaterThan(0.5);
+    });
+
+    it('should classify requests as features', () => {
+      expect(classifyIssueByKeywords('Add support for GitLab', 'It would be nice to have this').category).toBe('feature');
+    });
+
+    it('should classify questions by their title', () => {
+      expect(classifyIssueByKeywords('How do I configure the webhook?', '').category).toBe('question');
+    });
+
+    it('should flag security and critical issues', () => {
+      const result = classifyIssueByKeywords('Critical XSS vulnerability in comments', '');
+      expect(result.labels).toEqual(['security', 'critical']);
+    });
+  });
+
+  describe('duplicate detection', () => {
+    it('should ignore stop words and punctuation', () => {
+      expect(calculateTitleSimilarity('Webhook fails for the comment', 'webhook fails: comment')).toBe(1);
+      expect(calculateTitleSimilarity('Webhook fails', 'Add dark mode')).toBe(0);
+    });
+
+    it('should return similar open issues, best match first, excluding the issue and PRs', () => {
+      const candidates = findDuplicateCandidates(
+        { number: 10, title: 'Webhook signature verification fails' },
+        [
+          { number: 10, title: 'Webhook signature verification fails' },
+          { number: 3, title: 'Webhook signature verification fails behind proxy' },
+          { number: 4, title: 'Webhook signature verification fails', pull_request: {} },
+          { number: 5, title: 'Add dark mode' }
+        ],
+        0.5
+      );
+
+      expect(candidates.map(candidate => candidate.number)).toEqual([3]);
+    });
+  });
+
+  describe('CODEOWNERS', () => {
+    const rules = parseCodeOwners(`
+# Default owners
+*                 @org/maintainers
+/src/lib/         @alice
+*.md              @docs-team   # docs
+src/lib/config.ts @bob
+`);
+
+    it('should use the last matching rule for each path', () => {
+      expect(findCodeOwners(rules, ['src/lib/config.ts'])).toEqual(['@bob']);
+      expect(findCodeOwners(rules, ['src/lib/codex.ts', 'README.md'])).toEqual(['@alice', '@docs-team']);
+    });
+
+    it('should fall back to the catch-all owners', () => {
+      expect(findCodeOwners(rules, [])).toEqual(['@org/maintainers']);
+    });
+
+    it('should extract file paths mentioned in the issue body', () => {
+      expect(extractMentionedPaths('The bug is in `src/lib/config.ts` and (docs/setup.md)')).toEqual([
+        'src/lib/config.ts',
+        'docs/setup.md'
+      ]);
+    });
+  });
+
+  describe('getTriageConfig', () => {
+    it('should be enabled by default', () => {
+      expect(getTriageConfig('owner', 'repo', {}).enabled).toBe(true);
+    });
+
+    it('should be disabled for listed repositories and owners', () => {
+      const env = { TRIAGE_DISABLED_REPOS: 'owner/repo, other/*' };
+      expect(getTriageConfig('owner', 'repo', env).enabled).toBe(false);
+      expect(getTriageConfig('other', 'anything', env).enabled).toBe(false);
+      expect(getTriageConfig('owner', 'second', env).enabled).toBe(true);
+    });
+
+    it('should read individual switches', () => {
+      const config = getTriageConfig('owner', 'repo', { TRIAGE_DETECT_DUPLICATES: 'false', TRIAGE_DUPLICATE_THRESHOLD: '0.8' });
+      expect(config.detectDuplicates).toBe(false);
+      expect(config.duplicateThreshold).toBe(0.8);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { classifyCommandOffline, editDistance, normalizeIntentText } from '../offline-intent-classifier';
+
+describe('Offline intent classifier', () => {
+  it('should normalize accents, apostrophes and punctuation', () => {
+    expect(normalizeIntentText("  D'accord, ALLEZ-Y! ")).toBe('daccord allez y');
+    expect(normalizeIntentText('Sí, adelante')).toBe('si adelante');
+  });
+
+  it('should count swapped letters as one edit', () => {
+    expect(editDistance('cancle', 'cancel')).toBe(1);
+    expect(editDistance('refien', 'refine')).toBe(1);
+    expect(editDistance('aprove', 'approve')).toBe(1);
+    expect(editDistance('plan', 'plan')).toBe(0);
+  });
+
+  it('should tolerate typos in longer keywords only', () => {
+    expect(classifyCommandOffline('refien')).toMatchObject({ intent: 'refine', normalizedCommand: 'refine', source: 'offline' });
+    expect(classifyCommandOffline('cancle').intent).toBe('cancel');
+    expect(classifyCommandOffline('not approve').intent).toBe('approval');
+    expect(classifyCommandOffline('not approve').confidence).toBeLessThan(0.5);
+  });
+
+  it('should leave stopping the running task to @l stop', () => {
+    expect(classifyCommandOffline('stop it').intent).not.toBe('cancel');
+    expect(classifyCommandOffline('arrêter').intent).not.toBe('cancel');
+  });
+
+  it.each([
+    ['adelante', 'approval', 'es'],
+    ['oui', 'approval', 'fr'],
+    ['einverstanden', 'approval', 'de'],
+    ['concordo', 'approval', 'pt'],
+    ['va bene', 'approval', 'it'],
+    ['давай', 'approval', 'ru'],
+    ['好的', 'approval', 'zh'],
+    ['はい', 'approval', 'ja'],
+    ['annuler', 'cancel', 'fr'],
+    ['コードレビュー', 'review', 'ja'],
+    ['修改', 'refine', 'zh'],
+  ])('should recognize "%s" as %s in %s', (command, intent, language) => {
+    const classification = classifyCommandOffline(command);
+
+    expect(classification.intent).toBe(intent);
+    expect(classification.language).toBe(language);
+    expect(classification.confidence).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('should lower the confidence of keywords followed by a sentence', () => {
+    const short = classifyCommandOffline('review');
+    const sentence = classifyCommandOffline('review why the build fails on main and the tests of the parser');
+
+    expect(short).toMatchObject({ intent: 'review', confidence: 0.95 });
+    expect(sentence.intent).toBe('review');
+    expect(sentence.confidence).toBeLessThan(0.8);
+  });
+
+  it('should make plan commands more likely when the thread has a plan', () => {
+    const withoutPlan = classifyCommandOffline('aprove');
+    const withPlan = classifyCommandOffline('aprove', { recentMilestone: true });
+
+    expect(withPlan.confidence).toBeGreaterThan(withoutPlan.confidence);
+  });
+
+  it.each([
+    'no idea why this fails',
+    'reject this pr',
+    'change the button color to red',
+    'update the readme with install instructions',
+    'aprove it please now',
+  ])('should keep the plan action in "%s" below the routing threshold', command => {
+    expect(classifyCommandOffline(command, { recentMilestone: true }).confidence).toBeLessThan(0.8);
+  });
+
+  it.each(['no', 'nope', 'los', 'vamos'])('should not read the everyday word "%s" as a plan action', command => {
+    expect(classifyCommandOffline(command, { recentMilestone: true })).toMatchObject({ intent: 'codex' });
+  });
+
+  it('should lower the confidence of ambiguous commands and list the alternatives', () => {
+    // "revisar" reviews code, "revisar el plan" reworks the plan
+    const classification = classifyCommandOffline('revisar el plan');
+
+    expect(classification.intent).toBe('refine');
+    expect(classification.confidence).toBeLessThan(0.8);
+    expect(classification.alternatives?.[0]).toEqual({ intent: 'review', confidence: expect.any(Number) });
+  });
+
+  it('should leave requests without keywords unclassified', () => {
+    expect(classifyCommandOffline('what does this function do')).toEqual({
+      intent: 'codex',
+      confidence: 0.5,
+      originalCommand: 'what does this function do',
+      normalizedCommand: 'what does this function do',
+      source: 'offline'
+    });
+  });
+
+  it('should be deterministic', () => {
+    expect(classifyCommandOffline('genehmigt, los geht')).toEqual(classifyCommandOffline('genehmigt, los geht'));
+  });
+});
@@ -0,0 +1,204 @@
+import {
+  ConfigReference,
+  parseConfigReference,
+  parseRepositoryConfig,
+  resolveRepositoryConfig,
+  resolveRepositoryConfigLayers
+} from '../repository-config';
+import { validateConfig } from '../config';
+
+describe('Repository Config', () => {
+  describe('parseRepositoryConfig', () => {
+    it('should read the command sections and normalize permissions', () => {
+      const { config, errors } = parseRepositoryConfig(`
+plan:
+  maxIssues: 5
+  labels: [planned]
+review:
+  files: [src/lib]
+codex:
+  enabled: false
+permissions:
+  Dev: member
+  plan:
+    minimum: collaborator
+    teams: [planners]
+`);
+
+      expect(errors).toEqual([]);
+      expect(config.plan).toEqual({ maxIssues: 5, labels: ['planned'] });
+      expect(config.review).toEqual({ files: ['src/lib'] });
+      expect(config.codex).toEqual({ enabled: false });
+      expect(config.permissions).toEqual({
+        dev: { minimum: 'MEMBER' },
+        plan: { minimum: 'COLLABORATOR', teams: ['planners'] }
+      });
+    });
+
+    it('should turn custom dangerous patterns into regular expressions', () => {
+      const { config, errors } = parseRepositoryConfig(`
+fileOperations:
+  customDangerousPatterns:
+    - pattern: "eval\\\\("
+      severity: 40
+      description: eval call
+`);
+
+      expect(errors).toEqual([]);
+      expect(config.fileOperations?.customDangerousPatterns?.[0].pattern).toEqual(/eval\(/);
+    });
+
+    it('should treat an empty file as no configuration', () => {
+      expect(parseRepositoryConfig('')).toEqual({ config: {}, errors: [], extends: [], enforce: [] });
+    });
+
+    it('should reject invalid files as a whole', () => {
+      const { config, errors } = parseRepositoryConfig(`
+plan:
+  maxIssues: 80
+  milestone: true
+codex:
+  enabled: "no"
+permissions:
+  dev: admin
+triage: {}
+`);
+
+      expect(config).toEqual({});
+      expect(errors).toEqual(expect.arrayContaining([
+        'Unknown setting: plan.milestone',
+        'Setting codex.enabled must be of type boolean',
+        'Unknown configuration section: triage',
+        'Maximum issues per plan must be between 1 and 50',
+        'Permission of dev must be OWNER, MEMBER, COLLABORATOR, CONTRIBUTOR or NONE, optionally with teams'
+      ]));
+    });
+
+    it('should report YAML syntax errors', () => {
+      expect(parseRepositoryConfig('plan: [unclosed').errors[0]).toMatch(/^Invalid YAML/);
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('should check the type of every setting', () => {
+      const { errors } = validateConfig({
+        gitOperations: { defaultBranch: 3 as unknown as string },
+        review: { files: 'src' as unknown as string[] }
+      });
+
+      expect(errors).toEqual([
+        'Setting gitOperations.defaultBranch must be of type string',
+        'Setting review.files must be of type string[]'
+      ]);
+    });
+  });
+
+  describe('parseConfigReference', () => {
+    it('should default the owner and the path', () => {
+      expect(parseConfigReference('platform-config', 'acme')).toEqual({ owner: 'acme', repo: 'platform-config', path: '.github/uwularpy.yml' });
+      expect(parseConfigReference('.github', 'acme')).toEqual({ owner: 'acme', repo: '.github', path: 'uwularpy.yml' });
+      expect(parseConfigReference('other/platform:profiles/service.yml', 'acme')).toEqual({ owner: 'other', repo: 'platform', path: 'profiles/service.yml' });
+      expect(parseConfigReference('not a repo', 'acme')).toBeUndefined();
+    });
+  });
+});
+
+describe('Repository Config Inheritance', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.GIT_MAX_RETRIES;
+    delete process.env.GIT_BASE_DELAY;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('resolveRepositoryConfig', () => {
+    it('should merge the repository configuration over the environment defaults', () => {
+      process.env = { ...originalEnv, GIT_MAX_RETRIES: '5', GIT_BASE_DELAY: '200' };
+
+      const config = resolveRepositoryConfig({ gitOperations: { maxRetries: 1 }, plan: { dueInDays: 14 } });
+
+      expect(config.gitOperations).toEqual({ maxRetries: 1, baseDelay: 200 });
+      expect(config.plan).toEqual({ dueInDays: 14 });
+    });
+  });
+
+  // Serves files keyed by "owner/repo:path"
+  function reader(files: Record<string, string>) {
+    return async ({ owner, repo, path }: ConfigReference) => files[`${owner}/${repo}:${path}`] ?? null;
+  }
+
+  it('should merge the repository file over the organization defaults setting by setting', async () => {
+    const resolved = await resolveRepositoryConfigLayers('acme', 'api', reader({
+      'acme/.github:uwularpy.yml': 'plan:\n  maxIssues: 5\n  labels: [planned, ai]\nreview:\n  tone: strict\n',
+      'acme/api:.github/uwularpy.yml': 'plan:\n  labels: [api]\n'
+    }));
+
+    expect(resolved.layers.map(layer => layer.source)).toEqual(['acme/.github:uwularpy.yml', 'acme/api:.github/uwularpy.yml']);
+    expect(resolved.config.plan).toEqual({ maxIssues: 5, labels: ['api'] });
+    expect(resolved.config.review).toEqual({ tone: 'strict' });
+  });
+
+  it('should apply extended files below the file extending them', async () => {
+    const resolved = await resolveRepositoryConfigLayers('acme', 'api', reader({
+      'acme/.github:uwularpy.yml': 'plan:\n  dueInDays: 30\n',
+      'acme/api:.github/uwularpy.yml': 'extends: platform:profiles/service.yml\nplan:\n  maxIssues: 3\n',
+      'acme/platform:profiles/service.yml': 'plan:\n  maxIssues: 10\n  dueInDays: 14\n'
+    }));
+
+    expect(resolved.layers.map(layer => layer.source)).toEqual([
+      'acme/.github:uwularpy.yml',
+      'acme/platform:profiles/service.yml',
+      'acme/api:.github/uwularpy.yml'
+    ]);
+    expect(resolved.config.plan).toEqual({ maxIssues: 3, dueInDays: 14 });
+  });
+
+  it('should keep enforced settings from the file that enforces them', async () => {
+    const resolved = await resolveRepositoryConfigLayers('acme', 'api', reader({
+      'acme/.github:uwularpy.yml': 'enforce: [codex.protectedPaths, plan.maxIssues]\ncodex:\n  protectedPaths: [.github/workflows]\nplan:\n  maxIssues: 5\n',
+      'acme/api:.github/uwularpy.yml': 'codex:\n  enabled: false\n  protectedPaths: []\nplan:\n  maxIssues: 20\n  dueInDays: 7\n'
+    }));
+
+    expect(resolved.config.codex).toEqual({ enabled: false, protectedPaths: ['.github/workflows'] });
+    expect(resolved.config.plan).toEqual({ maxIssues: 5, dueInDays: 7 });
+    expect(resolved.enforced).toEqual([
+      { setting: 'codex.protectedPaths', source: 'acme/.github:uwularpy.yml' },
+      { setting: 'plan.maxIssues', source: 'acme/.github:uwularpy.yml' }
+    ]);
+  });
+
+  it('should report circular, missing and invalid files without applying them', async () => {
+    const resolved = await resolveRepositoryConfigLayers('acme', 'api', reader({
+      'acme/.github:uwularpy.yml': 'extends: [base, gone]\nplan:\n  maxIssues: 4\n',
+      'acme/base:.github/uwularpy.yml': 'extends: .github\nreview:\n  tone: neutral\n',
+      'acme/api:.github/uwularpy.yml': 'enforce: [triage]\nplan:\n  maxIssues: 9\n'
+    }));
+
+    const errors = Object.fromEntries(resolved.layers.map(layer => [layer.source, layer.errors]));
+    expect(errors['acme/.github:uwularpy.yml']).toEqual([]);
+    expect(errors['acme/base:.github/uwularpy.yml']).toEqual([]);
+    expect(resolved.layers.find(layer => layer.errors[0]?.startsWith('Circular extends'))?.errors).toEqual([
+      'Circular extends: acme/.github:uwularpy.yml -> acme/base:.github/uwularpy.yml -> acme/.github:uwularpy.yml'
+    ]);
+    expect(errors['acme/gone:.github/uwularpy.yml']).toEqual(["Extended by acme/.github:uwularpy.yml but doesn't exist"]);
+    expect(errors['acme/api:.github/uwularpy.yml']).toEqual(['Unknown enforced setting: triage']);
+    expect(resolved.config.plan).toEqual({ maxIssues: 4 });
+    expect(resolved.config.review).toEqual({ tone: 'neutral' });
+  });
+
+  it('should drop the aliases when the files together form a cycle', async () => {
+    const resolved = await resolveRepositoryConfigLayers('acme', 'api', reader({
+      'acme/.github:uwularpy.yml': 'aliases:\n  ship: [approve, release]\n',
+      'acme/api:.github/uwularpy.yml': 'aliases:\n  release: ship\n'
+    }));
+
+    expect(resolved.layers.every(layer => layer.errors.length === 0)).toBe(true);
+    expect(resolved.errors).toEqual(['Alias cycle: ship -> release -> ship']);
+    expect(resolved.config.aliases).toEqual({});
+  });
+});
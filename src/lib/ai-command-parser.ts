@@ -1,23 +1,38 @@
 import { logger } from "@trigger.dev/sdk/v3";
+import { classifyCommandOffline } from "./offline-intent-classifier";
 
-interface IntentClassification {
+// The classifier runs while the webhook waits, so it gets a short deadline
+const CLASSIFICATION_TIMEOUT_MS = 5000;
+
+export interface IntentAlternative {
+  intent: string;
+  confidence: number;
+}
+
+export interface IntentClassification {
   intent: string;
   confidence: number;
   originalCommand: string;
   normalizedCommand: string;
   language?: string;
+  // Next most likely intents, most likely first
+  alternatives?: IntentAlternative[];
+  // 'offline' when the local classifier answered, because the AI wasn't needed, configured or reachable
+  source: 'ai' | 'offline';
 }
 
 /**
  * Uses AI to intelligently parse user intent from commands
  * Handles typos, multiple languages, and various phrasings
+ * @param signal Ends the classification early, e.g. when the webhook's time for it is up
  */
 export async function classifyCommandIntent(
   command: string,
   context?: { 
     recentMilestone?: boolean;
     lastTaskType?: string;
-  }
+  },
+  signal?: AbortSignal
 ): Promise<IntentClassification> {
   
   const systemPrompt = `You are a command intent classifier for a GitHub bot. Your job is to understand what the user wants to do, regardless of typos, language, or phrasing.
@@ -60,8 +75,11 @@ OUTPUT FORMAT:
   "intent": "approval|plan|refine|cancel|review|execute|codex",
   "confidence": 0.0-1.0,
   "normalizedCommand": "the intent in standard english",
-  "language": "detected language code (en, es, fr, etc.)"
-}`;
+  "language": "detected language code (en, es, fr, etc.)",
+  "alternatives": [{ "intent": "next most likely intent", "confidence": 0.0-1.0 }]
+}
+
+List at most 2 alternatives, leave the array empty when the intent is clear.`;
 
   const userPrompt = `Classify this command: "${command}"
 
@@ -90,8 +108,9 @@ Remember to:
           { role: "user", content: userPrompt }
         ],
         temperature: 0.3, // Lower temperature for more consistent classification
-        max_tokens: 150
-      })
+        max_tokens: 200
+      }),
+      signal: requestSignal(signal)
     });
 
     if (!response.ok) {
@@ -106,97 +125,56 @@ Remember to:
     }
 
     // Parse the JSON response
-    const classification = JSON.parse(content) as IntentClassification;
-    classification.originalCommand = command;
+    const parsed = JSON.parse(content);
+    const classification: IntentClassification = {
+      intent: String(parsed.intent),
+      confidence: clampConfidence(parsed.confidence),
+      originalCommand: command,
+      normalizedCommand: String(parsed.normalizedCommand ?? command),
+      language: parsed.language,
+      alternatives: Array.isArray(parsed.alternatives)
+        ? parsed.alternatives
+            .filter((alternative: any) => typeof alternative?.intent === 'string')
+            .map((alternative: any) => ({ intent: alternative.intent, confidence: clampConfidence(alternative.confidence) }))
+        : [],
+      source: 'ai'
+    };
 
     logger.info("AI command classification", { ...classification });
     return classification;
 
   } catch (error) {
-    logger.error("AI classification failed, using fallback", { error });
-    
-    // Fallback to basic pattern matching
-    return fallbackClassification(command);
+    logger.error("AI classification failed, using the offline classifier", { error });
+    return classifyCommandOffline(command, context);
   }
 }
 
+// The request ends at its own deadline, or earlier when the caller's signal fires
+function requestSignal(signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(CLASSIFICATION_TIMEOUT_MS);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+function clampConfidence(value: unknown): number {
+  const confidence = Number(value);
+  return Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0;
+}
+
 /**
- * Fallback classification using basic patterns
+ * Maps an intent to the @l command that carries it out.
+ * "codex" stands for any other or unclear request and maps to nothing: code changes
+ * only start from an explicit "@l dev" command. "execute" has no command of its own yet.
  */
-function fallbackClassification(command: string): IntentClassification {
-  const normalized = command.toLowerCase().trim();
-  
-  // Approval patterns (more flexible)
-  if (/^(y|yes|ok|okay|approve|lgtm|ship|go\s+ahead|looks\s+good)/i.test(normalized)) {
-    return {
-      intent: 'approval',
-      confidence: 0.8,
-      originalCommand: command,
-      normalizedCommand: 'approve',
-      language: 'en'
-    };
-  }
-  
-  // Plan patterns
-  if (/^(plan|planning|analyze)/i.test(normalized)) {
-    return {
-      intent: 'plan',
-      confidence: 0.9,
-      originalCommand: command,
-      normalizedCommand: normalized,
-      language: 'en'
-    };
-  }
-  
-  // Other patterns...
-  if (/^(refine|revise|modify|update|change|edit)/i.test(normalized)) {
-    return {
-      intent: 'refine',
-      confidence: 0.8,
-      originalCommand: command,
-      normalizedCommand: 'refine',
-      language: 'en'
-    };
-  }
-  
-  if (/^(cancel|reject|no|abort|stop)/i.test(normalized)) {
-    return {
-      intent: 'cancel',
-      confidence: 0.8,
-      originalCommand: command,
-      normalizedCommand: 'cancel',
-      language: 'en'
-    };
-  }
-  
-  if (/^(r|review)/i.test(normalized)) {
-    return {
-      intent: 'review',
-      confidence: 0.9,
-      originalCommand: command,
-      normalizedCommand: 'review',
-      language: 'en'
-    };
-  }
-  
-  if (/^(go|proceed|continue|start|begin|lfg|let'?s\s+go|do\s+it)/i.test(normalized)) {
-    return {
-      intent: 'execute',
-      confidence: 0.8,
-      originalCommand: command,
-      normalizedCommand: 'execute',
-      language: 'en'
-    };
-  }
-  
-  // Default to codex
-  return {
-    intent: 'codex',
-    confidence: 0.5,
-    originalCommand: command,
-    normalizedCommand: command,
-    language: 'en'
+export function intentToCommand(intent: string): string | null {
+  const mapping: Record<string, string> = {
+    'approval': 'approve',
+    'plan': 'plan',
+    'refine': 'refine',
+    'cancel': 'cancel',
+    'review': 'review'
   };
+
+  return mapping[intent] || null;
 }
 
 /**
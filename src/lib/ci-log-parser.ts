@@ -0,0 +1,95 @@
+/**
+ * Extracts the relevant errors from CI job logs so they can be summarized
+ * on the pull request and handed to code generation for a fix.
+ */
+
+export type CiFailureKind = 'compiler' | 'test' | 'lint' | 'error';
+
+export interface CiFailure {
+  kind: CiFailureKind;
+  message: string;
+  file?: string;
+  line?: number;
+}
+
+// Maximum failures returned, logs of broken builds can contain thousands of errors
+const MAX_FAILURES = 20;
+
+// Actions prefixes every log line with an ISO timestamp
+const TIMESTAMP_PREFIX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z\s?/;
+
+const ANSI_ESCAPE = /\u001b\[[0-9;]*m/g;
+
+const TSC_PAREN_ERROR = /^(.+?)\((\d+),\d+\): error (TS\d+: .+)$/;
+const TSC_PRETTY_ERROR = /^(.+?):(\d+):\d+ - error (TS\d+: .+)$/;
+const JEST_FAILURE = /^●\s+(.+ › .+)$/;
+const JEST_FAILED_SUITE = /^FAIL\s+(\S+)/;
+const ESLINT_FILE = /^(\/|\.\/|[A-Za-z]:\\|src\/)\S+\.(ts|tsx|js|jsx|mjs|cjs)$/;
+const ESLINT_ERROR = /^(\d+):\d+\s+error\s+(.+?)\s{2,}(\S+)$/;
+const ACTIONS_ERROR = /^##\[error\](.+)$/;
+
+/**
+ * Normalizes a raw log line: strips timestamps and terminal colors
+ */
+export function cleanLogLine(line: string): string {
+  return line.replace(TIMESTAMP_PREFIX, '').replace(ANSI_ESCAPE, '').trimEnd();
+}
+
+/**
+ * Extracts compiler, test and lint failures from a CI log.
+ * Generic `##[error]` lines are only reported when nothing more specific was found.
+ */
+export function parseCiLog(log: string, maxFailures: number = MAX_FAILURES): CiFailure[] {
+  const failures: CiFailure[] = [];
+  const genericErrors: CiFailure[] = [];
+  const seen = new Set<string>();
+  let eslintFile: string | undefined;
+
+  const add = (failure: CiFailure, target: CiFailure[] = failures) => {
+    const key = `${failure.kind}:${failure.file ?? ''}:${failure.line ?? ''}:${failure.message}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      target.push(failure);
+    }
+  };
+
+  for (const rawLine of log.split('\n')) {
+    const line = cleanLogLine(rawLine);
+    const trimmed = line.trim();
+    let match: RegExpMatchArray | null;
+
+    if ((match = trimmed.match(TSC_PAREN_ERROR) ?? trimmed.match(TSC_PRETTY_ERROR))) {
+      add({ kind: 'compiler', file: match[1], line: Number(match[2]), message: match[3] });
+    } else if ((match = trimmed.match(JEST_FAILURE))) {
+      add({ kind: 'test', message: match[1] });
+    } else if ((match = trimmed.match(JEST_FAILED_SUITE))) {
+      add({ kind: 'test', file: match[1], message: 'Test suite failed' });
+    } else if (ESLINT_FILE.test(trimmed)) {
+      eslintFile = trimmed;
+    } else if (eslintFile && (match = trimmed.match(ESLINT_ERROR))) {
+      add({ kind: 'lint', file: eslintFile, line: Number(match[1]), message: `${match[2]} (${match[3]})` });
+    } else if ((match = trimmed.match(ACTIONS_ERROR))) {
+      add({ kind: 'error', message: match[1] }, genericErrors);
+    } else if (trimmed === '') {
+      eslintFile = undefined;
+    }
+  }
+
+  return (failures.length > 0 ? failures : genericErrors).slice(0, maxFailures);
+}
+
+/**
+ * Formats failures as a markdown list
+ */
+export function formatCiFailures(failures: CiFailure[]): string {
+  if (failures.length === 0) {
+    return '_No specific errors could be extracted from the logs._';
+  }
+
+  return failures
+    .map(failure => {
+      const location = failure.file ? `\`${failure.file}${failure.line ? `:${failure.line}` : ''}\` ` : '';
+      return `- **${failure.kind}** ${location}${failure.message}`;
+    })
+    .join('\n');
+}
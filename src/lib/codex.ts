@@ -7,6 +7,7 @@ import { createAppAuth } from "@octokit/auth-app";
 import { safeGitCommit, hasStageChanges, getStagedDiff, setGitUser, getRepositoryStructure, getRepositoryStructureAsync, safeGitCommand, safeGitPushWithRetry } from "./git-utils";
 import { generateCommitMessage, generateCodeChanges } from "./openai-operations";
 import { processSearchReplaceBlocks } from "./file-operations";
+import { getCodexConfig } from "./config";
 
 // Constants for regex patterns and delimiters
 const REGEX_PATTERNS = {
@@ -121,6 +122,28 @@ export interface CodeGenerationResult {
   changesApplied?: number;
 }
 
+/**
+ * Options for running codex against a repository.
+ */
+export interface CodexRepositoryOptions {
+  // Check out an existing remote branch (e.g. a pull request head) instead of creating a new one.
+  // Nothing is committed or pushed when the generation produced no changes.
+  existingBranch?: boolean;
+  // Clone URL carrying credentials for repositories outside GitHub. Used instead of
+  // authenticating repoUrl with the GitHub App and never logged.
+  cloneUrl?: string;
+}
+
+/**
+ * Result of a codex run, including whether a commit was pushed.
+ */
+export interface CodexRepositoryResult {
+  repoDir: string;
+  committed: boolean;
+  commitMessage?: string;
+  changesApplied: number;
+}
+
 /**
  * Clone a repository, run OpenAI API in a self-ask flow by repeatedly sending prompts,
  * commit & push changes.
@@ -132,14 +155,37 @@ export interface CodeGenerationResult {
  * @param repoUrl - HTTPS clone URL of the repository.
  * @param branchName - Name of the branch to create and push.
  * @param installationId - Optional GitHub App installation ID for authentication.
+ * @param options - Clone options.
  * @returns Local path to the cloned repository.
  */
 export async function codexRepository(
   prompt: string,
   repoUrl: string,
   branchName: string,
-  installationId?: string
+  installationId?: string,
+  options: CodexRepositoryOptions = {}
 ): Promise<string> {
+  const result = await codexRepositoryWithResult(prompt, repoUrl, branchName, installationId, options);
+  return result.repoDir;
+}
+
+/**
+ * Same as codexRepository, but reports whether a commit was pushed.
+ *
+ * @param prompt - The initial prompt for OpenAI.
+ * @param repoUrl - HTTPS clone URL of the repository.
+ * @param branchName - Name of the branch to create (or check out) and push.
+ * @param installationId - Optional GitHub App installation ID for authentication.
+ * @param options - Branch handling and clone options.
+ * @returns Local path to the cloned repository and commit details.
+ */
+export async function codexRepositoryWithResult(
+  prompt: string,
+  repoUrl: string,
+  branchName: string,
+  installationId?: string,
+  options: CodexRepositoryOptions = {}
+): Promise<CodexRepositoryResult> {
   try {
     logger.log("codexRepository start", { repoUrl, branchName });
 
@@ -148,8 +194,8 @@ export async function codexRepository(
     logger.log("created temp dir", { tempDir });
 
     // Prepare authenticated URL if GitHub App creds are provided
-    let cloneUrl = repoUrl;
-    if (process.env.GITHUB_APP_ID && process.env.GITHUB_PRIVATE_KEY && installationId) {
+    let cloneUrl = options.cloneUrl ?? repoUrl;
+    if (!options.cloneUrl && process.env.GITHUB_APP_ID && process.env.GITHUB_PRIVATE_KEY && installationId) {
       try {
         const auth = createAppAuth({
           appId: parseInt(process.env.GITHUB_APP_ID, 10),
@@ -169,7 +215,11 @@ export async function codexRepository(
 
     // Clone the repository and checkout branch using safe git commands
     safeGitCommand(['clone', cloneUrl, tempDir], { cwd: process.cwd(), stdio: 'inherit' });
-    safeGitCommand(['checkout', '-b', branchName], { cwd: tempDir, stdio: 'inherit' });
+    if (options.existingBranch) {
+      safeGitCommand(['checkout', branchName], { cwd: tempDir, stdio: 'inherit' });
+    } else {
+      safeGitCommand(['checkout', '-b', branchName], { cwd: tempDir, stdio: 'inherit' });
+    }
 
     // Set Git identity using safe utilities
     setGitUser(tempDir, "bot@larp.dev", "larp0");
@@ -236,10 +286,21 @@ export async function codexRepository(
 
     // Commit and push changes using safe git utilities
     safeGitCommand(['add', '.'], { cwd: tempDir, stdio: 'inherit' });
+
+    const droppedFiles = dropProtectedChanges(tempDir, getCodexConfig().protectedPaths ?? []);
+    if (droppedFiles.length > 0) {
+      logger.warn("Dropped changes to protected paths", { files: droppedFiles });
+    }
     
     // Check if there are any changes to commit
     const hasChanges = hasStageChanges(tempDir);
     
+    // Never push empty commits onto someone else's branch
+    if (options.existingBranch && !hasChanges) {
+      logger.log("No changes to push to existing branch", { branchName });
+      return { repoDir: tempDir, committed: false, changesApplied: totalChangesApplied };
+    }
+    
     // Generate AI commit message based on success/failure and actual changes
     let commitMessage: string;
     if (generationResult.isErrorFallback) {
@@ -260,7 +321,7 @@ export async function codexRepository(
     // Push with retry and backoff for resilience
     await safeGitPushWithRetry(tempDir, branchName);
 
-    return tempDir;
+    return { repoDir: tempDir, committed: true, commitMessage, changesApplied: totalChangesApplied };
   } catch (err: unknown) {
     let msg: string;
     if (err instanceof Error && err.message) {
@@ -275,6 +336,43 @@ export async function codexRepository(
   }
 }
 
+/**
+ * Checks whether a file is one of the given paths or inside one of them
+ */
+function isUnderPaths(filePath: string, paths: string[]): boolean {
+  return paths.some(candidate => {
+    const prefix = candidate.replace(/^\.?\/+/, '').replace(/\/+$/, '');
+    return prefix === '' || filePath === prefix || filePath.startsWith(`${prefix}/`);
+  });
+}
+
+/**
+ * Undoes the staged changes to paths the repository protects, so they never reach the commit.
+ * Added files are removed, changed and deleted ones restored.
+ * @returns The files whose changes were dropped
+ */
+function dropProtectedChanges(repoPath: string, protectedPaths: string[]): string[] {
+  if (protectedPaths.length === 0) {
+    return [];
+  }
+
+  const staged = (safeGitCommand(['diff', '--cached', '--name-status', '--no-renames'], { cwd: repoPath }) ?? '')
+    .split('\n')
+    .map(line => line.split('\t'))
+    .filter(([status, file]) => status && file && isUnderPaths(file, protectedPaths));
+
+  for (const [status, file] of staged) {
+    if (status === 'A') {
+      safeGitCommand(['rm', '--cached', '-q', '--', file], { cwd: repoPath });
+      fs.rmSync(path.join(repoPath, file), { force: true });
+    } else {
+      safeGitCommand(['reset', '-q', 'HEAD', '--', file], { cwd: repoPath });
+      safeGitCommand(['checkout', '--', file], { cwd: repoPath });
+    }
+  }
+  return staged.map(([, file]) => file);
+}
+
 /**
  * DEPRECATED: Run the @openai/codex CLI tool to process code generation requests.
  * This function is no longer used as it was causing failures.
@@ -0,0 +1,214 @@
+// Repository-defined shortcuts for @l commands, expanded before the commands are routed.
+//
+//   aliases:
+//     sec: plan focus on security $*
+//     ship: [approve, status]
+//     hotfix: dev fix $1 && review
+//
+// An alias stands for one or more commands: a list, or commands chained with "&&", runs them in order,
+// each only after the one before it succeeded. $1 to $9 take the words written after the alias and $*
+// all of them; an alias without placeholders gets them appended to its last command.
+// Aliases may use other aliases. Built-in commands always win, so an alias can't hide one.
+
+import { CommandStep, MAX_COMMANDS_PER_COMMENT, ParsedCommand, parseCommand } from './command-parser';
+import { findCommand, resolveCommand } from './command-catalog';
+
+/**
+ * What an alias stands for: a command, or commands run one after the other
+ */
+export type CommandAlias = string | string[];
+
+// Aliases using aliases deeper than this are cut, cycles are already rejected when the config is loaded
+const MAX_ALIAS_DEPTH = 5;
+
+const ALIAS_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+const PLACEHOLDER_PATTERN = /\$([1-9*])/g;
+
+/**
+ * Commands an alias stands for, as written
+ */
+export function getAliasCommands(alias: CommandAlias): string[] {
+  const commands = Array.isArray(alias) ? alias : [alias];
+  return commands.flatMap(command => command.split(/\s*&&\s*/)).map(command => command.trim()).filter(Boolean);
+}
+
+function firstWord(command: string): string {
+  return command.trim().split(/\s+/)[0]?.toLowerCase() ?? '';
+}
+
+// Names of the aliases an alias uses directly
+function getAliasReferences(alias: CommandAlias, aliases: Record<string, CommandAlias>): string[] {
+  return getAliasCommands(alias).map(firstWord).filter(name => name in aliases);
+}
+
+// Reports every cycle once, as "a -> b -> a"
+function findAliasCycles(aliases: Record<string, CommandAlias>): string[] {
+  const cycles: string[] = [];
+  const done = new Set<string>();
+
+  const visit = (name: string, chain: string[]) => {
+    if (chain.includes(name)) {
+      cycles.push([...chain.slice(chain.indexOf(name)), name].join(' -> '));
+      return;
+    }
+    if (done.has(name)) {
+      return;
+    }
+    for (const reference of getAliasReferences(aliases[name], aliases)) {
+      visit(reference, [...chain, name]);
+    }
+    done.add(name);
+  };
+
+  for (const name of Object.keys(aliases)) {
+    visit(name, []);
+  }
+  return cycles;
+}
+
+// What is wrong with an alias, undefined when it is valid
+function findAliasProblem(name: string, alias: unknown): string | undefined {
+  if (!ALIAS_NAME_PATTERN.test(name)) {
+    return `Alias ${name} must be a single lowercase word`;
+  }
+  const command = findCommand(name);
+  if (command) {
+    return `Alias ${name} would hide the built-in command ${command.name}`;
+  }
+  const isCommandList = Array.isArray(alias) && alias.every(item => typeof item === 'string');
+  if (typeof alias !== 'string' && !isCommandList) {
+    return `Alias ${name} must be a command or a list of commands`;
+  }
+
+  const commands = getAliasCommands(alias as CommandAlias);
+  if (commands.length === 0) {
+    return `Alias ${name} has no command`;
+  }
+  if (commands.length > MAX_COMMANDS_PER_COMMENT) {
+    return `Alias ${name} runs more than ${MAX_COMMANDS_PER_COMMENT} commands`;
+  }
+  if (commands.some(item => /[\n@]/.test(item))) {
+    return `Alias ${name} must not contain mentions or line breaks`;
+  }
+  return undefined;
+}
+
+/**
+ * Validates the aliases section of a configuration: names, commands, and cycles between aliases
+ * @returns The problems found, empty when the aliases are valid
+ */
+export function validateCommandAliases(aliases: unknown): string[] {
+  if (aliases === undefined) {
+    return [];
+  }
+  if (!aliases || typeof aliases !== 'object' || Array.isArray(aliases)) {
+    return ['Configuration section aliases must be a mapping'];
+  }
+
+  const errors: string[] = [];
+  const valid: Record<string, CommandAlias> = {};
+  for (const [name, alias] of Object.entries(aliases as Record<string, unknown>)) {
+    const problem = findAliasProblem(name, alias);
+    if (problem) {
+      errors.push(problem);
+    } else {
+      valid[name] = alias as CommandAlias;
+    }
+  }
+
+  errors.push(...findAliasCycles(valid).map(cycle => `Alias cycle: ${cycle}`));
+  return errors;
+}
+
+// Fills in the placeholders of a command, or appends the arguments when it has none
+function substituteArguments(command: string, args: string[], appendArguments: boolean): string {
+  if (appendArguments) {
+    return [command, ...args].join(' ');
+  }
+  return command.replace(PLACEHOLDER_PATTERN, (_, index: string) =>
+    index === '*' ? args.join(' ') : args[Number(index) - 1]
+  ).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Expands a command written with an alias into the commands it stands for.
+ * Commands that don't start with an alias are returned as they are.
+ * @param command The command text after the mention
+ * @returns The commands to run in order, or what is wrong with the arguments
+ */
+export function expandCommandAlias(
+  command: string,
+  aliases: Record<string, CommandAlias>,
+  depth = 0
+): { commands: string[]; errors: string[] } {
+  const [name, ...args] = command.trim().split(/\s+/);
+  const alias = aliases[name.toLowerCase()];
+  if (!alias || resolveCommand(command.toLowerCase())) {
+    return { commands: [command.trim()], errors: [] };
+  }
+  if (depth >= MAX_ALIAS_DEPTH) {
+    return { commands: [], errors: [`Alias ${name} uses aliases more than ${MAX_ALIAS_DEPTH} levels deep`] };
+  }
+
+  const aliasCommands = getAliasCommands(alias);
+  const placeholders = aliasCommands.flatMap(aliasCommand => [...aliasCommand.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]));
+  const needed = Math.max(0, ...placeholders.filter(index => index !== '*').map(Number));
+  if (args.length < needed) {
+    return { commands: [], errors: [`\`${name}\` needs ${needed} argument(s), got ${args.length}`] };
+  }
+
+  const expanded = { commands: [] as string[], errors: [] as string[] };
+  aliasCommands.forEach((aliasCommand, index) => {
+    const appendArguments = placeholders.length === 0 && index === aliasCommands.length - 1;
+    const result = expandCommandAlias(substituteArguments(aliasCommand, args, appendArguments), aliases, depth + 1);
+    expanded.commands.push(...result.commands);
+    expanded.errors.push(...result.errors);
+  });
+  return expanded;
+}
+
+/**
+ * Name of the alias a command may be written with: its first word, unless the command is a built-in one
+ */
+export function findAliasName(parsed: ParsedCommand): string | undefined {
+  if (!parsed.isMention || !parsed.command || resolveCommand(parsed.command, parsed.args)) {
+    return undefined;
+  }
+  return firstWord(parsed.command);
+}
+
+/**
+ * Replaces the commands written with an alias by the commands it stands for.
+ * The first expanded command keeps the chaining of the one it replaces, the others wait for the command before them.
+ * Aliases with wrong arguments become a command whose errors are reported back to the user.
+ */
+export function expandCommandSteps(steps: CommandStep[], aliases: Record<string, CommandAlias>): CommandStep[] {
+  const expanded: CommandStep[] = [];
+  for (const step of steps) {
+    const name = findAliasName(step.parsed);
+    if (!name || !aliases[name]) {
+      expanded.push(step);
+      continue;
+    }
+
+    const { commands, errors } = expandCommandAlias(step.parsed.fullText, aliases);
+    if (errors.length > 0) {
+      const args = { name, options: {}, positionals: [], errors };
+      expanded.push({ ...step, parsed: { ...step.parsed, alias: name, args } });
+      continue;
+    }
+    console.log(`Expanded alias "${name}" of "${step.parsed.fullText}" to:`, commands);
+    commands.forEach((command, index) => {
+      expanded.push({
+        parsed: { ...parseCommand(`@l ${command}`), alias: name },
+        requiresSuccess: index === 0 ? step.requiresSuccess : true,
+      });
+    });
+  }
+
+  if (expanded.length > MAX_COMMANDS_PER_COMMENT) {
+    console.warn(`Aliases expand to ${expanded.length} commands, only the first ${MAX_COMMANDS_PER_COMMENT} are run`);
+    return expanded.slice(0, MAX_COMMANDS_PER_COMMENT);
+  }
+  return expanded;
+}
@@ -0,0 +1,135 @@
+// Catalog of the commands users can write after @l.
+// The commands are declared in command-declarations.ts; routing and @l help both read them from here.
+
+import type { CommandArguments, FlagSpec } from './command-grammar';
+import type { CommandPermission } from './command-permissions';
+import { COMMAND_CATALOG } from './command-declarations';
+
+/**
+ * What may follow a command:
+ * - 'text': optional free text
+ * - 'required-text': free text that must be present
+ * - 'flags': nothing but the command's flags
+ * - 'command': optionally the name of another command
+ */
+export type CommandArgumentKind = 'text' | 'required-text' | 'flags' | 'command';
+
+/**
+ * A command as declared in command-declarations.ts
+ */
+export interface CommandSpec {
+  name: string;
+  aliases: string[];
+  arguments: CommandArgumentKind;
+  // Keyed by flag name without the leading dashes
+  flags?: Record<string, FlagSpec>;
+  description: string;
+  examples: string[];
+  // The task is given the runs started from the thread (ForgeContext.threadRuns)
+  threadRuns?: boolean;
+  // Who may run the command unless the repository overrides it, anyone when unset
+  permission?: CommandPermission;
+}
+
+/**
+ * A command and the task it starts
+ */
+export interface CatalogEntry extends CommandSpec {
+  taskId: string;
+}
+
+/**
+ * Lists every command of the catalog
+ */
+export function getCommandCatalog(): readonly CatalogEntry[] {
+  return COMMAND_CATALOG;
+}
+
+/**
+ * Finds a command by its name or one of its aliases
+ */
+export function findCommand(name: string): CatalogEntry | undefined {
+  const normalized = name.toLowerCase().trim();
+  return COMMAND_CATALOG.find(entry => entry.name === normalized || entry.aliases.includes(normalized));
+}
+
+/**
+ * Checks whether a command text is written as the given name of an entry
+ */
+function matchesName(entry: CatalogEntry, name: string, command: string, args?: CommandArguments): boolean {
+  if (command !== name && !command.startsWith(`${name} `)) {
+    return false;
+  }
+
+  const rest = command.slice(name.length).trim();
+  switch (entry.arguments) {
+    case 'text':
+      return true;
+    case 'required-text':
+      return rest.length > 0;
+    case 'flags':
+      return rest.length === 0 || args?.name === entry.name;
+    case 'command':
+      return rest.length === 0 || findCommand(rest) !== undefined;
+  }
+}
+
+/**
+ * Resolves a normalized command text to its catalog entry.
+ * The longest matching name wins, so multi-word aliases like "ship it" take precedence.
+ * @param command The lowercased command text after the mention
+ * @param args The parsed flags of the command, when it has any
+ * @returns The entry, or undefined for free-form requests
+ */
+export function resolveCommand(command: string, args?: CommandArguments): CatalogEntry | undefined {
+  // Trailing punctuation doesn't change the command: "lgtm!" approves
+  const normalized = command.toLowerCase().trim().replace(/[.!?]+$/, '');
+
+  let match: CatalogEntry | undefined;
+  let matchLength = -1;
+  for (const entry of COMMAND_CATALOG) {
+    for (const name of [entry.name, ...entry.aliases]) {
+      if (name.length > matchLength && matchesName(entry, name, normalized, args)) {
+        match = entry;
+        matchLength = name.length;
+      }
+    }
+  }
+  return match;
+}
+
+/**
+ * Renders the help comment: an overview of all commands, or the details of one
+ * @param topic Command name or alias to describe, all commands when empty
+ */
+export function renderCommandHelp(topic?: string): string {
+  const entry = topic ? findCommand(topic) : undefined;
+  if (!entry) {
+    const rows = COMMAND_CATALOG.map(command => {
+      const aliases = command.aliases.length > 0 ? command.aliases.map(alias => `\`${alias}\``).join(', ') : '-';
+      return `| \`@l ${command.name}\` | ${aliases} | ${command.description} |`;
+    });
+
+    return `### Commands
+
+| Command | Aliases | Description |
+|---------|---------|-------------|
+${rows.join('\n')}
+
+Anything else after \`@l\` is answered from the context of the thread.
+Use \`@l help <command>\` for the flags and examples of a command.`;
+  }
+
+  const sections = [`### \`@l ${entry.name}\`\n\n${entry.description}`];
+  if (entry.aliases.length > 0) {
+    sections.push(`**Aliases:** ${entry.aliases.map(alias => `\`${alias}\``).join(', ')}`);
+  }
+  if (entry.flags && Object.keys(entry.flags).length > 0) {
+    const flags = Object.entries(entry.flags).map(([name, spec]) => `| \`--${name}\` | ${spec.type} | ${spec.description} |`);
+    sections.push(`| Flag | Type | Description |\n|------|------|-------------|\n${flags.join('\n')}`);
+  }
+  if (entry.examples.length > 0) {
+    sections.push(`**Examples:**\n\`\`\`\n${entry.examples.join('\n')}\n\`\`\``);
+  }
+  return sections.join('\n\n');
+}
@@ -0,0 +1,109 @@
+// The @l commands and the tasks they start. Plain data: the webhook routes read it
+// without loading the Trigger.dev task definitions in task-registry.ts.
+
+import type { CatalogEntry } from './command-catalog';
+
+/**
+ * Every @l command with the task it starts, in the order @l help lists them
+ */
+export const COMMAND_CATALOG: readonly CatalogEntry[] = [
+  {
+    taskId: 'codex-task',
+    name: 'dev',
+    aliases: [],
+    arguments: 'required-text',
+    description: 'Implements the described change and opens a pull request. On a diff line, pushes the fix to the pull request branch',
+    examples: ['@l dev add input validation to the signup form'],
+    permission: { minimum: 'COLLABORATOR' },
+  },
+  {
+    taskId: 'full-code-review',
+    name: 'review',
+    aliases: ['r'],
+    arguments: 'flags',
+    flags: {
+      'files': { type: 'list', description: 'Comma separated paths to limit the review to' },
+    },
+    description: 'Reviews the changes of a pull request, or the repository when used on an issue',
+    examples: ['@l r', '@l review --files src/lib,src/app/api'],
+    permission: { minimum: 'CONTRIBUTOR' },
+  },
+  {
+    taskId: 'plan-task',
+    name: 'plan',
+    aliases: ['planning', 'analyze'],
+    arguments: 'text',
+    flags: {
+      'max-issues': { type: 'number', description: 'Create at most this many issues on approval', min: 1, max: 50 },
+      'labels': { type: 'list', description: 'Comma separated labels added to every created issue' },
+      'due': { type: 'duration', description: 'Milestone due date from now, e.g. 14d or 2w', min: 1, max: 365 },
+    },
+    description: 'Analyzes the repository and creates a milestone with a development plan, optionally focused on a request',
+    examples: ['@l plan', '@l plan --max-issues 5 --labels security --due 14d harden the login flow'],
+    permission: { minimum: 'COLLABORATOR' },
+  },
+  {
+    taskId: 'plan-approval-task',
+    name: 'approve',
+    aliases: ['yes', 'y', 'ok', 'okay', 'lgtm', 'i approve', 'ship it', 'looks good', 'go ahead'],
+    arguments: 'text',
+    description: 'Turns the latest plan milestone into issues',
+    examples: ['@l approve', '@l lgtm'],
+    permission: { minimum: 'COLLABORATOR' },
+  },
+  {
+    taskId: 'plan-refinement-task',
+    name: 'refine',
+    aliases: ['revise'],
+    arguments: 'required-text',
+    description: 'Reworks the plan milestone linked in the thread with your feedback before it is approved',
+    examples: ['@l refine focus more on security improvements', '@l refine drop the innovation ideas'],
+    permission: { minimum: 'COLLABORATOR' },
+  },
+  {
+    taskId: 'plan-cancellation-task',
+    name: 'cancel',
+    aliases: ['cancel plan', 'reject'],
+    // A bare command: "cancel the retries" is a request, not a cancellation
+    arguments: 'flags',
+    description: 'Cancels the plan linked in the thread: closes its milestone and the issues not started yet, and takes Copilot off the ones in progress',
+    examples: ['@l cancel'],
+    permission: { minimum: 'COLLABORATOR' },
+  },
+  {
+    taskId: 'help-task',
+    name: 'help',
+    aliases: [],
+    arguments: 'command',
+    description: 'Lists the commands, or shows the flags and examples of one',
+    examples: ['@l help', '@l help plan'],
+  },
+  {
+    taskId: 'status-task',
+    name: 'status',
+    aliases: ['progress'],
+    arguments: 'flags',
+    description: 'Reports the runs started from this thread, their phase and elapsed time, and the progress of its plan',
+    examples: ['@l status'],
+    threadRuns: true,
+  },
+  {
+    taskId: 'config-task',
+    name: 'config',
+    aliases: ['show config', 'configuration'],
+    arguments: 'flags',
+    description: 'Shows the configuration resolved for this repository and the files it comes from',
+    examples: ['@l config'],
+    permission: { minimum: 'COLLABORATOR' },
+  },
+  {
+    taskId: 'stop-task',
+    name: 'stop',
+    aliases: ['cancel run', 'cancel runs', 'abort'],
+    arguments: 'flags',
+    description: 'Cancels the runs started from this thread that are still going and deletes the empty branches they left',
+    examples: ['@l stop', '@l cancel run'],
+    threadRuns: true,
+    permission: { minimum: 'COLLABORATOR' },
+  },
+];
@@ -0,0 +1,192 @@
+// Grammar for the flags and positional arguments of @l commands
+
+import { CommandSpec, findCommand } from './command-catalog';
+
+/**
+ * Value types a flag can take
+ */
+export type FlagType = 'number' | 'list' | 'duration';
+
+export interface FlagSpec {
+  type: FlagType;
+  description: string;
+  // Bounds for number flags, and for duration flags in days
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Options parsed from command flags, passed to the tasks that honor them
+ */
+export interface CommandOptions {
+  // plan: upper bound for the issues created on approval
+  maxIssues?: number;
+  // plan: labels added to every issue created on approval
+  labels?: string[];
+  // plan: milestone due date, in days from now
+  dueInDays?: number;
+  // review: only review changed files under these paths
+  files?: string[];
+}
+
+/**
+ * Result of parsing a command against the flags it declares
+ */
+export interface CommandArguments {
+  // Canonical command name
+  name: string;
+  options: CommandOptions;
+  positionals: string[];
+  // Problems found in the flags, reported back to the user instead of running the command
+  errors: string[];
+}
+
+// Maps flag names to the option they set
+const OPTION_KEYS: Record<string, keyof CommandOptions> = {
+  'max-issues': 'maxIssues',
+  'labels': 'labels',
+  'due': 'dueInDays',
+  'files': 'files',
+};
+
+const DURATION_UNITS: Record<string, number> = { d: 1, w: 7 };
+
+/**
+ * Splits command text into words, keeping quoted strings together
+ */
+export function tokenizeCommand(text: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return tokens;
+}
+
+/**
+ * Parses a duration such as "14d", "2w" or "10" (days)
+ * @returns The number of days, or null when the value isn't a duration
+ */
+export function parseDurationDays(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d+)\s*([dw]?)$/);
+  if (!match) {
+    return null;
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2] || 'd'];
+}
+
+/**
+ * Converts a flag value to its type, collecting an error when it doesn't fit the spec
+ */
+function convertFlagValue(flag: string, spec: FlagSpec, value: string, errors: string[]): number | string[] | undefined {
+  switch (spec.type) {
+    case 'list': {
+      const items = value.split(',').map(item => item.trim()).filter(Boolean);
+      if (items.length === 0) {
+        errors.push(`--${flag} needs at least one value`);
+        return undefined;
+      }
+      return items;
+    }
+    case 'number':
+    case 'duration': {
+      const parsed = spec.type === 'number'
+        ? (/^\d+$/.test(value) ? parseInt(value, 10) : null)
+        : parseDurationDays(value);
+      if (parsed === null) {
+        errors.push(spec.type === 'number'
+          ? `--${flag} expects a whole number, got "${value}"`
+          : `--${flag} expects a duration such as 14d or 2w, got "${value}"`);
+        return undefined;
+      }
+      if ((spec.min !== undefined && parsed < spec.min) || (spec.max !== undefined && parsed > spec.max)) {
+        const unit = spec.type === 'duration' ? ' days' : '';
+        errors.push(`--${flag} must be between ${spec.min}${unit} and ${spec.max}${unit}`);
+        return undefined;
+      }
+      return parsed;
+    }
+  }
+}
+
+/**
+ * Parses the flags and positional arguments of a command.
+ * Supports "--flag value" and "--flag=value"; repeated list flags are merged.
+ * @param text The command text after the mention, e.g. "plan --max-issues 5 add caching"
+ * @returns null when the command declares no flags, or takes nothing but flags and was
+ * written as free text (e.g. "review this for security"), so it is routed as a free-form request
+ */
+export function parseCommandArguments(text: string): CommandArguments | null {
+  const [first, ...rest] = tokenizeCommand(text);
+  const command = first ? findCommand(first) : undefined;
+  const flags = command?.flags;
+  if (!command || !flags) {
+    return null;
+  }
+
+  const options: CommandOptions = {};
+  const positionals: string[] = [];
+  const errors: string[] = [];
+  let sawFlag = false;
+
+  for (let i = 0; i < rest.length; i++) {
+    const token = rest[i];
+    if (!token.startsWith('--') || token === '--') {
+      positionals.push(token);
+      continue;
+    }
+
+    sawFlag = true;
+    const equals = token.indexOf('=');
+    const flag = equals === -1 ? token.slice(2) : token.slice(2, equals);
+    const inlineValue = equals === -1 ? undefined : token.slice(equals + 1);
+    const spec = flags[flag.toLowerCase()];
+    if (!spec) {
+      const known = Object.keys(flags).map(name => `--${name}`).join(', ');
+      errors.push(`Unknown flag --${flag} for ${command.name}, expected one of: ${known}`);
+      continue;
+    }
+
+    let value = inlineValue;
+    if (value === undefined) {
+      const next = rest[i + 1];
+      if (next === undefined || next.startsWith('--')) {
+        errors.push(`--${flag} needs a value`);
+        continue;
+      }
+      value = next;
+      i++;
+    }
+
+    const key = OPTION_KEYS[flag.toLowerCase()];
+    const converted = convertFlagValue(flag.toLowerCase(), spec, value, errors);
+    if (converted === undefined) {
+      continue;
+    }
+    if (Array.isArray(converted)) {
+      const existing = (options[key] as string[] | undefined) ?? [];
+      (options as Record<string, unknown>)[key] = [...existing, ...converted];
+    } else {
+      (options as Record<string, unknown>)[key] = converted;
+    }
+  }
+
+  if (command.arguments === 'flags' && positionals.length > 0) {
+    if (!sawFlag) {
+      return null;
+    }
+    errors.push(`${command.name} doesn't take arguments, unexpected: ${positionals.join(' ')}`);
+  }
+
+  return { name: command.name, options, positionals, errors };
+}
+
+/**
+ * Describes the flags of a command for error replies
+ */
+export function describeCommandFlags(command: CommandSpec): string {
+  return Object.entries(command.flags ?? {})
+    .map(([name, spec]) => `- \`--${name}\` (${spec.type}): ${spec.description}`)
+    .join('\n');
+}
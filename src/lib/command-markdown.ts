@@ -0,0 +1,128 @@
+// Code in command text: fenced blocks and code spans are set aside before the text is sanitized
+// and put back verbatim afterwards, so prompts get the code exactly as the user wrote it
+
+/**
+ * Code written in a command, verbatim
+ */
+export interface CommandCode {
+  kind: 'inline' | 'fence';
+  // Language of a fenced block, e.g. "ts" for ```ts
+  language?: string;
+  content: string;
+}
+
+/**
+ * Command text with its code replaced by placeholders
+ */
+export interface MaskedCommandText {
+  text: string;
+  code: CommandCode[];
+}
+
+// Private use characters around the index of a code in the masked text, removed from the input
+const PLACEHOLDER_PATTERN = /\uE000(\d+)\uE001/g;
+const PLACEHOLDER_CHARACTERS = /[\uE000\uE001]/g;
+
+const OPENING_FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+// A run of backticks, anything up to a run of the same length, as CommonMark reads code spans
+const CODE_SPAN_PATTERN = /(?<!`)(`+)(?!`)([\s\S]*?[^`])\1(?!`)/g;
+
+function placeholder(index: number): string {
+  return `\uE000${index}\uE001`;
+}
+
+// A closing fence uses the character of the opening one, at least as many times, and nothing else
+function isClosingFence(line: string, opening: string): boolean {
+  const match = line.match(/^ {0,3}(`{3,}|~{3,})\s*$/);
+  return !!match && match[1][0] === opening[0] && match[1].length >= opening.length;
+}
+
+// Replaces every fenced block with a line holding its placeholder; unclosed blocks run to the end of the text
+function maskFencedBlocks(text: string, code: CommandCode[]): string {
+  const lines = text.split('\n');
+  const masked: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const opening = lines[i].match(OPENING_FENCE_PATTERN);
+    // Backtick fences can't have backticks after them, that's inline code
+    if (!opening || (opening[1][0] === '`' && opening[2].includes('`'))) {
+      masked.push(lines[i]);
+      continue;
+    }
+
+    const content: string[] = [];
+    let end = i + 1;
+    while (end < lines.length && !isClosingFence(lines[end], opening[1])) {
+      content.push(lines[end]);
+      end++;
+    }
+    const language = opening[2].trim().split(/\s+/)[0];
+    code.push({ kind: 'fence', ...(language ? { language } : {}), content: content.join('\n') });
+    masked.push(placeholder(code.length - 1));
+    i = end;
+  }
+  return masked.join('\n');
+}
+
+/**
+ * Takes the fenced blocks and code spans out of a command text, leaving placeholders that
+ * no sanitizing or whitespace handling changes
+ */
+export function maskCommandCode(text: string): MaskedCommandText {
+  const code: CommandCode[] = [];
+  const withoutBlocks = maskFencedBlocks(text.replace(PLACEHOLDER_CHARACTERS, ''), code);
+  const masked = withoutBlocks.replace(CODE_SPAN_PATTERN, (_, delimiter: string, content: string) => {
+    // One space on both sides only separates the code from the backticks
+    const stripped = /^ [\s\S]* $/.test(content) && content.trim() ? content.slice(1, -1) : content;
+    code.push({ kind: 'inline', content: stripped });
+    return placeholder(code.length - 1);
+  });
+  return { text: masked, code };
+}
+
+/**
+ * Writes code back as markdown, with delimiters longer than any backtick run of the code
+ */
+export function formatCommandCode(code: CommandCode): string {
+  const longestRun = Math.max(0, ...(code.content.match(/`+/g) ?? []).map(run => run.length));
+  if (code.kind === 'fence') {
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    return `${fence}${code.language ?? ''}\n${code.content}\n${fence}`;
+  }
+
+  const delimiter = '`'.repeat(longestRun + 1);
+  const padded = /^`|`$/.test(code.content) || /^ [\s\S]* $/.test(code.content) ? ` ${code.content} ` : code.content;
+  return `${delimiter}${padded}${delimiter}`;
+}
+
+/**
+ * Puts the code back into masked text: code spans where they were, fenced blocks on their own lines
+ * @returns The text, and the code it holds in the order it's written
+ */
+export function restoreCommandCode(text: string, code: CommandCode[]): MaskedCommandText {
+  const restored: CommandCode[] = [];
+  // Split around the placeholders: the indexes of the code are at the odd positions
+  const parts = text.split(PLACEHOLDER_PATTERN);
+  for (let i = 1; i < parts.length; i += 2) {
+    const block = code[Number(parts[i])];
+    if (!block) {
+      parts[i] = '';
+    } else if (block.kind === 'fence') {
+      parts[i - 1] = parts[i - 1].trimEnd();
+      parts[i + 1] = parts[i + 1].trimStart();
+      parts[i] = `\n${formatCommandCode(block)}\n`;
+    } else {
+      parts[i] = formatCommandCode(block);
+    }
+    if (block) {
+      restored.push(block);
+    }
+  }
+  return { text: parts.join('').trim(), code: restored };
+}
+
+/**
+ * Puts back the bare content of the code, for values such as flag arguments
+ */
+export function unmaskCommandCode(text: string, code: CommandCode[]): string {
+  return text.replace(PLACEHOLDER_PATTERN, (_, index: string) => code[Number(index)]?.content ?? '');
+}
@@ -1,5 +1,11 @@
 // Utility functions for parsing commands from GitHub comments
 
+import { CommandArguments, CommandOptions, parseCommandArguments } from './command-grammar';
+import { findCommand, resolveCommand } from './command-catalog';
+import { classifyCommandIntent, IntentClassification, intentToCommand } from './ai-command-parser';
+import { classifyCommandOffline, threadHasPlan } from './offline-intent-classifier';
+import { CommandCode, maskCommandCode, restoreCommandCode, unmaskCommandCode } from './command-markdown';
+
 export interface ParsedCommand {
   command: string;
   fullText: string;
@@ -8,11 +14,15 @@ export interface ParsedCommand {
   aiIntent?: string; // AI-classified intent
   aiConfidence?: number; // AI confidence score
   isDevCommand?: boolean; // True if this is a "@l dev " command
+  args?: CommandArguments; // Flags and arguments of commands with a schema, e.g. "plan --max-issues 5"
+  alias?: string; // Repository alias the command was expanded from, e.g. "ship"
+  code?: CommandCode[]; // Code spans and fenced blocks of the command, verbatim; fullText carries them as markdown
 }
 
 /**
- * Strips HTML and markdown tags from text for safety
- * @param text The text to sanitize
+ * Strips HTML and markdown formatting from the prose of a command. Code is masked beforehand,
+ * so it stays verbatim and can only come back inside code spans and fenced blocks
+ * @param text The text to sanitize, with its code masked
  * @returns Sanitized text
  */
 function sanitizeText(text: string): string {
@@ -24,8 +34,11 @@ function sanitizeText(text: string): string {
   // Remove markdown links but keep the text
   sanitized = sanitized.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1');
   
-  // Remove markdown formatting
-  sanitized = sanitized.replace(/[*_`~]/g, '');
+  // Remove emphasis around words, leaving markers inside words alone: src/__tests__/x.ts is a path
+  sanitized = sanitized.replace(/(^|[\s(])(\*{1,3}|_{1,3}|~{1,2})(?=\S)(.*?\S)\2(?=[\s.,;:!?)]|$)/gm, '$1$3');
+  
+  // Remove the backticks of unclosed code spans
+  sanitized = sanitized.replace(/`/g, '');
   
   // Remove potential script injection attempts
   sanitized = sanitized.replace(/javascript:/gi, '');
@@ -50,16 +63,17 @@ export function parseCommand(comment: string): ParsedCommand {
     };
   }
   
-  // Sanitize the comment to prevent potential security issues
-  const sanitizedComment = sanitizeText(comment);
-  
   // Check for length limits to prevent abuse
-  if (sanitizedComment.length > 10000) {
+  if (comment.length > 10000) {
     console.warn('Comment too long, truncating for processing');
-    const truncated = sanitizedComment.slice(0, 10000);
+    const truncated = comment.slice(0, 10000);
     return parseCommand(truncated);
   }
   
+  // Sanitize the comment to prevent potential security issues, keeping its code out of reach
+  const masked = maskCommandCode(comment);
+  const sanitizedComment = sanitizeText(masked.text);
+  
   // Check if the comment mentions @uwularpy, @l, or self@ with various patterns
   // Handle multiple mentions by taking the first one
   // IMPORTANT: @l should only trigger when at the beginning of the message
@@ -79,7 +93,7 @@ export function parseCommand(comment: string): ParsedCommand {
   if (!isMention) {
     return {
       command: '',
-      fullText: sanitizedComment,
+      fullText: restoreCommandCode(sanitizedComment, masked.code).text,
       isMention: false
     };
   }
@@ -113,7 +127,7 @@ export function parseCommand(comment: string): ParsedCommand {
     }
   }
   
-  // Additional cleanup to handle any hidden characters or extra whitespace
+  // Additional cleanup to handle any hidden characters or extra whitespace, the masked code keeps its own
   textAfterMention = textAfterMention.replace(/\s+/g, ' ').trim();
 
   // Handle edge case where mention is at the end with no command
@@ -125,13 +139,17 @@ export function parseCommand(comment: string): ParsedCommand {
     };
   }
 
-  // Extract user query for plan commands
+  const restored = restoreCommandCode(textAfterMention, masked.code);
+  const maskedArgs = parseCommandArguments(textAfterMention);
+  const args = restoreArgumentCode(maskedArgs, masked.code);
+
+  // Extract user query for plan commands, without the flags
   let userQuery = '';
-  const planCommandMatch = textAfterMention.match(/^(plan|planning|analyze)\s+(.+)$/i);
-  const refineCommandMatch = textAfterMention.match(/^(refine|revise|modify|update|change|edit)\s+(.+)$/i);
+  const refineCommandMatch = restored.text.match(/^(refine|revise|modify|update|change|edit)\s+([\s\S]+)$/i);
   
-  if (planCommandMatch) {
-    userQuery = planCommandMatch[2].trim();
+  if (maskedArgs?.name === 'plan') {
+    // Joined before the code is put back, so fenced blocks keep their own lines
+    userQuery = restoreCommandCode(maskedArgs.positionals.join(' '), masked.code).text;
   } else if (refineCommandMatch) {
     userQuery = refineCommandMatch[2].trim();
   }
@@ -140,120 +158,266 @@ export function parseCommand(comment: string): ParsedCommand {
   const isDevCommand = textAfterMention.toLowerCase().startsWith('dev ');
 
   return {
-    command: textAfterMention.trim().toLowerCase(),
-    fullText: textAfterMention,
+    command: restored.text.replace(/\s+/g, ' ').toLowerCase(),
+    fullText: restored.text,
     isMention: true,
     userQuery,
-    isDevCommand
+    isDevCommand,
+    args,
+    ...(restored.code.length > 0 ? { code: restored.code } : {})
+  };
+}
+
+// Puts the code back into parsed arguments: the bare content in flag values, markdown in the free text
+function restoreArgumentCode(args: CommandArguments | null, code: CommandCode[]): CommandArguments | undefined {
+  if (!args || code.length === 0) {
+    return args ?? undefined;
+  }
+  const options: CommandOptions = { ...args.options };
+  if (options.labels) {
+    options.labels = options.labels.map(label => unmaskCommandCode(label, code));
+  }
+  if (options.files) {
+    options.files = options.files.map(file => unmaskCommandCode(file, code));
+  }
+  return {
+    ...args,
+    options,
+    positionals: args.positionals.map(positional => restoreCommandCode(positional, code).text),
+    errors: args.errors.map(error => restoreCommandCode(error, code).text)
   };
 }
 
 /**
- * Determines the task type based on the parsed command
- * Now uses AI to understand intent, typos, and multiple languages
+ * A command of a comment, which can carry several: one per line, or chained with "&&"
+ */
+export interface CommandStep {
+  parsed: ParsedCommand;
+  // Chained with "&&" to the command before it: only runs when that one succeeded
+  requiresSuccess: boolean;
+}
+
+// Commands beyond this number in one comment are ignored
+export const MAX_COMMANDS_PER_COMMENT = 5;
+
+// A line starting with a mention starts a new command
+const COMMAND_LINE_PATTERN = /^\s*@(l|uwularpy)\b/i;
+
+/**
+ * Parses every command of a comment, in the order they were written.
+ * Lines that don't start with a mention belong to the command above them, so a comment
+ * with a single mention is parsed exactly like parseCommand does.
+ * @param comment The comment text to parse
+ * @returns The commands, empty when the comment doesn't mention the bot
+ */
+export function parseCommands(comment: string): CommandStep[] {
+  if (!comment || typeof comment !== 'string') {
+    return [];
+  }
+
+  // Lines of fenced blocks are masked, a block can't start a command
+  const masked = maskCommandCode(comment);
+  const segments: string[] = [];
+  for (const line of masked.text.split('\n')) {
+    if (segments.length > 0 && COMMAND_LINE_PATTERN.test(line)) {
+      segments.push(line);
+    } else if (segments.length === 0) {
+      segments.push(line);
+    } else {
+      segments[segments.length - 1] += `\n${line}`;
+    }
+  }
+
+  const steps: CommandStep[] = [];
+  for (const segment of segments) {
+    const parsed = parseCommand(restoreCommandCode(segment, masked.code).text);
+    if (!parsed.isMention) {
+      continue;
+    }
+
+    // "&&" in code is part of the code
+    const chain = maskCommandCode(parsed.fullText);
+    const links = chain.text.split(/\s*&&\s*/).filter(Boolean);
+    if (links.length <= 1) {
+      steps.push({ parsed, requiresSuccess: false });
+      continue;
+    }
+    links.forEach((link, index) => {
+      steps.push({ parsed: parseCommand(`@l ${restoreCommandCode(link, chain.code).text}`), requiresSuccess: index > 0 });
+    });
+  }
+
+  if (steps.length > MAX_COMMANDS_PER_COMMENT) {
+    console.warn(`Comment carries ${steps.length} commands, only the first ${MAX_COMMANDS_PER_COMMENT} are run`);
+    return steps.slice(0, MAX_COMMANDS_PER_COMMENT);
+  }
+  return steps;
+}
+
+/**
+ * Context fields carrying the parsed flags of a command to its task,
+ * or the flag errors to the command feedback task
+ */
+export function getCommandContextFields(parsedCommand: ParsedCommand): { commandOptions?: CommandOptions; commandErrors?: string[] } {
+  const { args } = parsedCommand;
+  if (!args) {
+    return {};
+  }
+  return args.errors.length > 0 ? { commandErrors: args.errors } : { commandOptions: args.options };
+}
+
+// Free-form requests classified at least this confidently run the command they were classified as
+export const INTENT_ROUTING_THRESHOLD = 0.8;
+
+// Below routing confidence but at least this confident, the user is asked which command they meant
+export const INTENT_CLARIFICATION_THRESHOLD = 0.5;
+
+// Commands offered in a clarification question
+const MAX_COMMAND_SUGGESTIONS = 3;
+
+// Commands that change the plan of the thread: without a plan, "no" or "update the readme" are
+// more likely ordinary requests, so these are only offered as suggestions
+const PLAN_ACTION_COMMANDS = ['approve', 'refine', 'cancel'];
+const PLAN_ACTION_CONFIDENCE_CAP = 0.7;
+
+/**
+ * What the thread tells the intent classifier about the command
+ */
+export interface IntentRoutingContext {
+  // A plan was made in the thread, so approving or refining it is likely
+  recentMilestone?: boolean;
+  // Task of the last command written in the thread
+  lastTaskType?: string;
+  // Ends the AI classification early; the offline classification is used instead
+  classificationSignal?: AbortSignal;
+}
+
+/**
+ * Where a command goes
+ */
+export interface CommandRoute {
+  taskId: string;
+  // Commands to offer when the intent of the request was unclear
+  suggestions?: string[];
+}
+
+/**
+ * Commands a classification points at that exist in the catalog, most likely first.
+ * Without a plan in the thread, the plan commands stay below the routing confidence
+ */
+function classifiedCommands(
+  classification: IntentClassification,
+  hasPlan: boolean
+): { command: string; confidence: number }[] {
+  const candidates = [
+    { intent: classification.intent, confidence: classification.confidence },
+    ...(classification.alternatives ?? []),
+  ];
+
+  const commands: { command: string; confidence: number }[] = [];
+  for (const candidate of candidates) {
+    const command = intentToCommand(candidate.intent);
+    if (command && findCommand(command) && !commands.some(existing => existing.command === command)) {
+      const capped = !hasPlan && PLAN_ACTION_COMMANDS.includes(command);
+      commands.push({ command, confidence: capped ? Math.min(candidate.confidence, PLAN_ACTION_CONFIDENCE_CAP) : candidate.confidence });
+    }
+  }
+  return commands.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Classifies a free-form request and routes it by confidence: confident classifications run their command,
+ * uncertain ones ask which command was meant. The offline classifier answers first; the AI, when configured,
+ * is only asked about the requests it can't route confidently.
+ * @returns The route, or null when the request stays with the general response
+ */
+async function routeByIntent(command: string, context: IntentRoutingContext): Promise<CommandRoute | null> {
+  const { classificationSignal, ...threadContext } = context;
+  let classification = classifyCommandOffline(command, threadContext);
+  // Once the time for the AI is up, the offline classification stands
+  if (classification.confidence < INTENT_ROUTING_THRESHOLD && process.env.OPENAI_API_KEY && !classificationSignal?.aborted) {
+    classification = await classifyCommandIntent(command, threadContext, classificationSignal);
+  }
+
+  const commands = classifiedCommands(classification, threadHasPlan(threadContext));
+  const [best] = commands;
+  if (!best || best.confidence < INTENT_CLARIFICATION_THRESHOLD) {
+    return null;
+  }
+
+  if (intentToCommand(classification.intent) === best.command && best.confidence >= INTENT_ROUTING_THRESHOLD) {
+    const entry = findCommand(best.command)!;
+    console.log(`[getTaskType] Classified "${command}" as ${classification.intent} (${best.confidence}, ${classification.source}), routing to ${entry.taskId}`);
+    return { taskId: entry.taskId };
+  }
+
+  const suggestions = commands
+    .filter(candidate => candidate.confidence >= INTENT_CLARIFICATION_THRESHOLD)
+    .slice(0, MAX_COMMAND_SUGGESTIONS)
+    .map(candidate => candidate.command);
+  console.log(`[getTaskType] Unclear intent for "${command}", asking between:`, suggestions);
+  return { taskId: 'command-feedback-task', suggestions };
+}
+
+/**
+ * Determines where a command goes.
+ * Commands are routed by the command catalog, so @l help always describes what runs;
+ * requests the catalog doesn't match are classified offline, and by the AI when that isn't conclusive.
  * @param parsedCommand The parsed command object
- * @param context Optional context for better AI classification
- * @returns The task type to trigger
+ * @param getIntentContext Loads what the thread tells about the command, only called for the classification
+ * @returns The route, or null when the comment isn't a command
  */
-export async function getTaskType(
-  parsedCommand: ParsedCommand
-): Promise<string | null> {
+export async function routeCommand(
+  parsedCommand: ParsedCommand,
+  getIntentContext: () => Promise<IntentRoutingContext> = async () => ({})
+): Promise<CommandRoute | null> {
   if (!parsedCommand || !parsedCommand.isMention) {
     return null;
   }
 
   // If no command text, analyze the thread and provide general response
   if (!parsedCommand.command) {
-    return 'general-response-task';
+    return { taskId: 'general-response-task' };
   }
 
-  // Priority commands that should work without AI
-  const normalizedCommand = parsedCommand.command.toLowerCase().trim();
-  
-  // Handle critical commands directly without AI to ensure they always work
-  // Use a comprehensive list that matches isApprovalCommand patterns
-  const directApprovalPatterns = ['approve', 'yes', 'y', 'ok', 'okay', 'lgtm'];
-  if (directApprovalPatterns.includes(normalizedCommand)) {
-    console.log('[getTaskType] Direct match for approval command:', normalizedCommand);
-    return 'plan-approval-task';
-  }
-  
-  if (normalizedCommand === 'plan' || normalizedCommand === 'planning' || normalizedCommand === 'analyze' ||
-      normalizedCommand.startsWith('plan ') || normalizedCommand.startsWith('planning ') || normalizedCommand.startsWith('analyze ')) {
-    console.log('[getTaskType] Direct match for plan command:', normalizedCommand);
-    return 'plan-task';
-  }
-  
-  if (normalizedCommand === 'review' || normalizedCommand === 'r') {
-    console.log('[getTaskType] Direct match for review command:', normalizedCommand);
-    return 'full-code-review';
+  // Commands with invalid flags are answered with what's wrong instead of running with a guess
+  if (parsedCommand.args && parsedCommand.args.errors.length > 0) {
+    console.log('[getTaskType] Invalid command flags, routing to command feedback:', parsedCommand.args.errors);
+    return { taskId: 'command-feedback-task' };
   }
 
-  // Before checking dev commands, let's check for multi-word approval commands
-  // using the comprehensive isApprovalCommand function
-  if (isApprovalCommand(normalizedCommand)) {
-    console.log('[getTaskType] Multi-word approval command detected:', normalizedCommand);
-    return 'plan-approval-task';
+  // Commands declared in the catalog go straight to their task; "@l dev " is the only way to start codex-task
+  const normalizedCommand = parsedCommand.command.toLowerCase().trim();
+  const entry = resolveCommand(normalizedCommand, parsedCommand.args);
+  if (entry) {
+    console.log(`[getTaskType] Matched catalog command "${entry.name}", routing to ${entry.taskId}:`, normalizedCommand);
+    return { taskId: entry.taskId };
   }
 
-  // IMPORTANT: Only "@l dev " commands should trigger codex-task
-  if (parsedCommand.isDevCommand) {
-    console.log('[getTaskType] Detected dev command, routing to codex-task:', normalizedCommand);
-    return 'codex-task';
+  // Typos, other languages and rephrasings of commands are left to the intent classifiers
+  const route = await routeByIntent(normalizedCommand, await getIntentContext());
+  if (route) {
+    return route;
   }
 
   // For other @l commands, we analyze the thread and provide contextual responses
   // This fetches all messages from the thread and generates appropriate responses
   console.log('[getTaskType] Non-dev @l command detected, routing to general response:', normalizedCommand);
-  return 'general-response-task';
+  return { taskId: 'general-response-task' };
 }
 
 /**
- * Checks if a command is an approval command for milestone decomposition
- * @param command The normalized command to check
- * @returns true if the command is an approval
+ * Determines the task type based on the parsed command
+ * @param parsedCommand The parsed command object
+ * @param getIntentContext Loads what the thread tells about the command, for the AI classification
+ * @returns The task type to trigger
  */
-function isApprovalCommand(command: string): boolean {
-  const approvalPatterns = [
-    'y',
-    'yes',
-    'ok',
-    'okay',
-    'approve',
-    'i approve',
-    'lgtm',
-    'ship it',
-    'looks good',
-    'go ahead'
-  ];
-  
-  // Debug logging
-  console.log('[isApprovalCommand] Checking command:', command);
-  
-  // Simple direct match first
-  if (approvalPatterns.includes(command)) {
-    console.log('[isApprovalCommand] Direct match found');
-    return true;
-  }
-  
-  // Check if command starts with any approval pattern
-  const startsWithApproval = approvalPatterns.some(pattern =>
-    command === pattern || command.startsWith(pattern + ' ')
-  );
-  
-  if (startsWithApproval) {
-    console.log('[isApprovalCommand] Starts with approval pattern');
-    return true;
-  }
-  
-  // Check for common variations
-  if (/^(ship\s+it|looks\s+good|go\s+ahead)/i.test(command)) {
-    console.log('[isApprovalCommand] Matches common variation');
-    return true;
-  }
-  
-  console.log('[isApprovalCommand] No approval pattern matched');
-  return false;
+export async function getTaskType(
+  parsedCommand: ParsedCommand,
+  getIntentContext?: () => Promise<IntentRoutingContext>
+): Promise<string | null> {
+  const route = await routeCommand(parsedCommand, getIntentContext);
+  return route?.taskId ?? null;
 }
 
 /**
@@ -0,0 +1,191 @@
+/**
+ * Who may start a command: the author_association GitHub reports for the comment,
+ * or membership of one of the teams a repository lists for the command.
+ */
+
+import type { CatalogEntry } from "./command-catalog";
+
+/**
+ * Relation of a comment's author to the repository, as sent in GitHub webhooks
+ */
+export type AuthorAssociation =
+  | 'OWNER'
+  | 'MEMBER'
+  | 'COLLABORATOR'
+  | 'CONTRIBUTOR'
+  | 'FIRST_TIME_CONTRIBUTOR'
+  | 'FIRST_TIMER'
+  | 'MANNEQUIN'
+  | 'NONE';
+
+/**
+ * Levels a command can require, from the most to the least trusted
+ */
+export type PermissionLevel = 'OWNER' | 'MEMBER' | 'COLLABORATOR' | 'CONTRIBUTOR' | 'NONE';
+
+/**
+ * What a command requires from the comment's author
+ */
+export interface CommandPermission {
+  // Lowest association allowed to run the command
+  minimum: PermissionLevel;
+  // Teams whose members may run it whatever their association, as "team-slug" or "org/team-slug"
+  teams?: string[];
+}
+
+const PERMISSION_LEVELS: readonly PermissionLevel[] = ['OWNER', 'MEMBER', 'COLLABORATOR', 'CONTRIBUTOR', 'NONE'];
+
+// First-time contributors and mannequins (imported users) are trusted like anyone else
+const ASSOCIATION_RANK: Record<AuthorAssociation, number> = {
+  OWNER: 4,
+  MEMBER: 3,
+  COLLABORATOR: 2,
+  CONTRIBUTOR: 1,
+  FIRST_TIME_CONTRIBUTOR: 0,
+  FIRST_TIMER: 0,
+  MANNEQUIN: 0,
+  NONE: 0,
+};
+
+/**
+ * Commands whose task declares no permission can be run by anyone
+ */
+export const DEFAULT_COMMAND_PERMISSION: CommandPermission = { minimum: 'NONE' };
+
+/**
+ * Checks whether an association reaches a level. Unknown associations count as NONE.
+ */
+export function meetsPermissionLevel(association: string | undefined, level: PermissionLevel): boolean {
+  const rank = ASSOCIATION_RANK[(association ?? 'NONE').toUpperCase() as AuthorAssociation] ?? 0;
+  return rank >= ASSOCIATION_RANK[level];
+}
+
+function toPermissionLevel(value: unknown): PermissionLevel | undefined {
+  const level = typeof value === 'string' ? value.toUpperCase() : undefined;
+  return PERMISSION_LEVELS.find(candidate => candidate === level);
+}
+
+/**
+ * Reads a permission written as a level ("MEMBER") or as { "minimum": "MEMBER", "teams": ["core"] }.
+ * A permission listing only teams is closed to everyone else.
+ */
+export function parseCommandPermission(value: unknown): CommandPermission | undefined {
+  const level = toPermissionLevel(value);
+  if (level) {
+    return { minimum: level };
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const { minimum, teams } = value as { minimum?: unknown; teams?: unknown };
+  const teamList = Array.isArray(teams)
+    ? teams.filter((team): team is string => typeof team === 'string' && team.trim().length > 0).map(team => team.trim())
+    : [];
+  const minimumLevel = minimum === undefined ? (teamList.length > 0 ? 'OWNER' : undefined) : toPermissionLevel(minimum);
+  if (!minimumLevel) {
+    return undefined;
+  }
+
+  return teamList.length > 0 ? { minimum: minimumLevel, teams: teamList } : { minimum: minimumLevel };
+}
+
+/**
+ * Reads the per-repository permission overrides from COMMAND_PERMISSIONS, a JSON object keyed by
+ * "*", "owner/*" or "owner/repo" whose values map command names to permissions.
+ * More specific keys win command by command. Invalid entries are ignored.
+ * @returns The overrides for the repository, keyed by command name
+ */
+export function getPermissionOverrides(
+  owner: string,
+  repo: string,
+  env: Record<string, string | undefined> = process.env
+): Record<string, CommandPermission> {
+  if (!env.COMMAND_PERMISSIONS) {
+    return {};
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(env.COMMAND_PERMISSIONS);
+  } catch {
+    console.warn('COMMAND_PERMISSIONS is not valid JSON, using the default command permissions');
+    return {};
+  }
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return {};
+  }
+
+  const entries = Object.entries(config as Record<string, unknown>);
+  const keys = ['*', `${owner}/*`, `${owner}/${repo}`].map(key => key.toLowerCase());
+  const overrides: Record<string, CommandPermission> = {};
+
+  for (const key of keys) {
+    const commands = entries.find(([name]) => name.toLowerCase() === key)?.[1];
+    if (!commands || typeof commands !== 'object') {
+      continue;
+    }
+    for (const [command, value] of Object.entries(commands as Record<string, unknown>)) {
+      const permission = parseCommandPermission(value);
+      if (permission) {
+        overrides[command.toLowerCase()] = permission;
+      } else {
+        console.warn(`Ignoring invalid permission for "${command}" in COMMAND_PERMISSIONS["${key}"]`);
+      }
+    }
+  }
+
+  return overrides;
+}
+
+/**
+ * Resolves what a command requires in a repository: the permissions of the repository's configuration file,
+ * else the COMMAND_PERMISSIONS override, else what its task declares
+ * @param entry The catalog entry of the command, undefined for free-form requests
+ * @param repositoryPermissions The permissions section of .github/uwularpy.yml, keyed by command name
+ */
+export function getCommandPermission(
+  entry: Pick<CatalogEntry, 'name' | 'permission'> | undefined,
+  owner: string,
+  repo: string,
+  env: Record<string, string | undefined> = process.env,
+  repositoryPermissions: Record<string, CommandPermission> = {}
+): CommandPermission {
+  if (!entry) {
+    return DEFAULT_COMMAND_PERMISSION;
+  }
+  return repositoryPermissions[entry.name]
+    ?? getPermissionOverrides(owner, repo, env)[entry.name]
+    ?? entry.permission
+    ?? DEFAULT_COMMAND_PERMISSION;
+}
+
+/**
+ * Splits a team reference into its organization and slug, the organization defaults to the repository owner
+ */
+export function parseTeamReference(team: string, owner: string): { org: string; slug: string } {
+  const [org, slug] = team.replace(/^@/, '').split('/', 2);
+  return slug ? { org, slug } : { org: owner, slug: org };
+}
+
+/**
+ * Describes who may run a command, e.g. "collaborators or members of @acme/core"
+ */
+export function describeCommandPermission(permission: CommandPermission, owner: string): string {
+  const levels: Record<PermissionLevel, string> = {
+    OWNER: 'the repository owner',
+    MEMBER: 'organization members',
+    COLLABORATOR: 'collaborators',
+    CONTRIBUTOR: 'contributors',
+    NONE: 'anyone',
+  };
+  const teams = (permission.teams ?? []).map(team => {
+    const { org, slug } = parseTeamReference(team, owner);
+    return `@${org}/${slug}`;
+  });
+
+  if (teams.length === 0) {
+    return levels[permission.minimum];
+  }
+  return `${levels[permission.minimum]} or members of ${teams.join(', ')}`;
+}
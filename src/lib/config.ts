@@ -1,3 +1,6 @@
+import { CommandPermission, parseCommandPermission } from "./command-permissions";
+import type { CommandAlias } from "./command-aliases";
+
 /**
  * Configuration interface for file operations and security settings.
  * Provides flexibility for backup TTL and security thresholds.
@@ -148,13 +151,61 @@ export const DEFAULT_CODE_GENERATION_CONFIG: Required<CodeGenerationConfig> = {
   enableAdvancedValidation: true
 };
 
+/**
+ * Plan defaults for a repository, the flags of @l plan take precedence.
+ */
+export interface PlanConfig {
+  maxIssues?: number;                    // Upper bound for the issues created on approval (default: all)
+  labels?: string[];                     // Labels added to every issue created on approval
+  dueInDays?: number;                    // Milestone due date in days from now (default: 7)
+}
+
+/**
+ * Tone of the review comments: the default playful roast, a neutral one, or terse and strict.
+ */
+export type ReviewTone = 'playful' | 'neutral' | 'strict';
+
+export const REVIEW_TONES: readonly ReviewTone[] = ['playful', 'neutral', 'strict'];
+
+/**
+ * Review defaults for a repository, the flags of @l review take precedence.
+ */
+export interface ReviewConfig {
+  files?: string[];                      // Only review changed files under these paths (default: all)
+  tone?: ReviewTone;                     // Tone of the review comments (default: 'playful')
+}
+
+/**
+ * Code change settings for a repository.
+ */
+export interface CodexConfig {
+  enabled?: boolean;                     // Let @l dev push branches and open pull requests (default: true)
+  protectedPaths?: string[];             // Files and directories @l dev never changes (default: none)
+}
+
+/**
+ * How tasks acknowledge the commands of a repository.
+ */
+export interface AcknowledgementsConfig {
+  verbose?: boolean;                     // Post "started" comments instead of 👀 reactions (default: false)
+}
+
 /**
  * Global configuration interface combining all subsystem configurations.
+ * The command sections are usually set per repository from .github/uwularpy.yml.
  */
 export interface GlobalConfig {
   fileOperations?: Partial<FileOperationsConfig>;
   gitOperations?: Partial<GitOperationsConfig>;
   codeGeneration?: Partial<CodeGenerationConfig>;
+  plan?: PlanConfig;
+  review?: ReviewConfig;
+  codex?: CodexConfig;
+  acknowledgements?: AcknowledgementsConfig;
+  // Who may run each command, keyed by command name; overrides the COMMAND_PERMISSIONS environment variable
+  permissions?: Record<string, CommandPermission>;
+  // Shortcuts for commands, keyed by alias name; validated by validateCommandAliases when a file is loaded
+  aliases?: Record<string, CommandAlias>;
 }
 
 // Global configuration instance
@@ -168,10 +219,23 @@ export function setGlobalConfig(config: GlobalConfig): void {
     return; // Ignore invalid config
   }
   
-  globalConfig = {
-    fileOperations: { ...globalConfig.fileOperations, ...config.fileOperations },
-    gitOperations: { ...globalConfig.gitOperations, ...config.gitOperations },
-    codeGeneration: { ...globalConfig.codeGeneration, ...config.codeGeneration }
+  globalConfig = mergeConfig(globalConfig, config);
+}
+
+/**
+ * Merges two configurations section by section, the override wins field by field.
+ */
+export function mergeConfig(base: GlobalConfig, override: GlobalConfig): GlobalConfig {
+  return {
+    fileOperations: { ...base.fileOperations, ...override.fileOperations },
+    gitOperations: { ...base.gitOperations, ...override.gitOperations },
+    codeGeneration: { ...base.codeGeneration, ...override.codeGeneration },
+    plan: { ...base.plan, ...override.plan },
+    review: { ...base.review, ...override.review },
+    codex: { ...base.codex, ...override.codex },
+    acknowledgements: { ...base.acknowledgements, ...override.acknowledgements },
+    permissions: { ...base.permissions, ...override.permissions },
+    aliases: { ...base.aliases, ...override.aliases }
   };
 }
 
@@ -212,6 +276,27 @@ export function getCodeGenerationConfig(): Required<CodeGenerationConfig> {
   };
 }
 
+/**
+ * Get the review configuration of the repository being worked on.
+ */
+export function getReviewConfig(): ReviewConfig {
+  return { ...globalConfig.review };
+}
+
+/**
+ * Get the code change configuration of the repository being worked on.
+ */
+export function getCodexConfig(): CodexConfig {
+  return { ...globalConfig.codex };
+}
+
+/**
+ * Get the acknowledgement configuration of the repository being worked on.
+ */
+export function getAcknowledgementsConfig(): AcknowledgementsConfig {
+  return { ...globalConfig.acknowledgements };
+}
+
 /**
  * Reset configuration to defaults.
  */
@@ -219,12 +304,22 @@ export function resetConfig(): void {
   globalConfig = {};
 }
 
+// Settings the environment switches on for a list of repositories
+function loadRepositorySwitchesFromEnvironment(repository?: { owner: string; repo: string }): GlobalConfig {
+  const config: GlobalConfig = {};
+  if (repository && isRepositoryListed(process.env.ACK_VERBOSE_REPOS, repository.owner, repository.repo)) {
+    config.acknowledgements = { verbose: true };
+  }
+  return config;
+}
+
 /**
  * Environment-based configuration loader.
  * Loads configuration from environment variables with sensible defaults.
+ * @param repository The repository the configuration is for, needed by the per-repository switches
  */
-export function loadConfigFromEnvironment(): GlobalConfig {
-  const config: GlobalConfig = {};
+export function loadConfigFromEnvironment(repository?: { owner: string; repo: string }): GlobalConfig {
+  const config = loadRepositorySwitchesFromEnvironment(repository);
   
   // File operations config from environment
   if (process.env.BACKUP_TTL && !isNaN(parseInt(process.env.BACKUP_TTL, 10))) {
@@ -288,11 +383,141 @@ export function loadConfigFromEnvironment(): GlobalConfig {
   return config;
 }
 
+type SettingType = 'number' | 'boolean' | 'string' | 'string[]' | 'patterns';
+
+// Type of every setting of every section, used to reject unknown or mistyped settings
+const SETTING_TYPES: Record<string, Record<string, SettingType>> = {
+  fileOperations: {
+    backupTTL: 'number',
+    enableBackups: 'boolean',
+    maxBackupsPerFile: 'number',
+    minSecurityScore: 'number',
+    maxFileSize: 'number',
+    maxSearchReplaceSize: 'number',
+    enableSyntaxValidation: 'boolean',
+    enableComplexityAnalysis: 'boolean',
+    maxComplexityForHighSecurity: 'string',
+    maxContextLength: 'number',
+    maxFileContentSize: 'number',
+    maxFilesPerCategory: 'number',
+    customDangerousPatterns: 'patterns',
+    strictMode: 'boolean',
+    enableDetailedLogging: 'boolean'
+  },
+  gitOperations: {
+    maxRetries: 'number',
+    baseDelay: 'number',
+    maxDelay: 'number',
+    enableShellSanitization: 'boolean',
+    maxCommitMessageLength: 'number',
+    commandTimeout: 'number',
+    enableStructuredLogging: 'boolean',
+    defaultBranch: 'string',
+    enableGitLFS: 'boolean'
+  },
+  codeGeneration: {
+    enableContentValidation: 'boolean',
+    maxResponseSize: 'number',
+    enablePatternFiltering: 'boolean',
+    enableRepositoryContext: 'boolean',
+    enableAsyncOperations: 'boolean',
+    enableResponseOptimization: 'boolean',
+    enableAdvancedValidation: 'boolean'
+  },
+  plan: {
+    maxIssues: 'number',
+    labels: 'string[]',
+    dueInDays: 'number'
+  },
+  review: {
+    files: 'string[]',
+    tone: 'string'
+  },
+  codex: {
+    enabled: 'boolean',
+    protectedPaths: 'string[]'
+  },
+  acknowledgements: {
+    verbose: 'boolean'
+  }
+};
+
+function hasSettingType(value: unknown, type: SettingType): boolean {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && !isNaN(value);
+    case 'boolean':
+    case 'string':
+      return typeof value === type;
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string');
+    case 'patterns':
+      return Array.isArray(value) && value.every(item =>
+        item instanceof Object && item.pattern instanceof RegExp &&
+        typeof item.severity === 'number' && typeof item.description === 'string');
+  }
+}
+
+// Reports unknown sections and settings, and settings of the wrong type
+function validateSettingTypes(config: GlobalConfig, errors: string[]): void {
+  for (const [section, settings] of Object.entries(config)) {
+    if (section === 'permissions' || section === 'aliases' || settings === undefined) {
+      continue;
+    }
+    const types = SETTING_TYPES[section];
+    if (!types) {
+      errors.push(`Unknown configuration section: ${section}`);
+      continue;
+    }
+    if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+      errors.push(`Configuration section ${section} must be a mapping`);
+      continue;
+    }
+    for (const [name, value] of Object.entries(settings as Record<string, unknown>)) {
+      if (!types[name]) {
+        errors.push(`Unknown setting: ${section}.${name}`);
+      } else if (value !== undefined && !hasSettingType(value, types[name])) {
+        errors.push(`Setting ${section}.${name} must be of type ${types[name]}`);
+      }
+    }
+  }
+}
+
+// Command permissions must already be normalized by parseCommandPermission
+function validatePermissions(permissions: GlobalConfig['permissions'], errors: string[]): void {
+  if (!permissions || typeof permissions !== 'object' || Array.isArray(permissions)) {
+    errors.push('Configuration section permissions must be a mapping');
+    return;
+  }
+  for (const [command, permission] of Object.entries(permissions)) {
+    const parsed = parseCommandPermission(permission);
+    if (!parsed || parsed.minimum !== permission.minimum) {
+      errors.push(`Permission of ${command} must be OWNER, MEMBER, COLLABORATOR, CONTRIBUTOR or NONE, optionally with teams`);
+    }
+  }
+}
+
+/**
+ * Checks whether a section ("plan") or setting ("plan.maxIssues", "permissions.dev", "aliases.ship") exists.
+ */
+export function isKnownSetting(setting: string): boolean {
+  const [section, name, ...rest] = setting.split('.');
+  if (rest.length > 0) {
+    return false;
+  }
+  if (section === 'permissions' || section === 'aliases') {
+    return true;
+  }
+  return !!SETTING_TYPES[section] && (name === undefined || !!SETTING_TYPES[section][name]);
+}
+
 /**
  * Validate configuration values for consistency and security.
  */
 export function validateConfig(config: GlobalConfig): { isValid: boolean; errors: string[] } {
   const errors: string[] = [];
+
+  validateSettingTypes(config, errors);
   
   // Validate file operations config
   if (config.fileOperations) {
@@ -354,6 +579,27 @@ export function validateConfig(config: GlobalConfig): { isValid: boolean; errors
       errors.push('Maximum response size should be at least 1024 bytes');
     }
   }
+
+  // Validate plan defaults, with the bounds of the @l plan flags
+  if (config.plan) {
+    const planConfig = config.plan;
+
+    if (planConfig.maxIssues !== undefined && (planConfig.maxIssues < 1 || planConfig.maxIssues > 50)) {
+      errors.push('Maximum issues per plan must be between 1 and 50');
+    }
+
+    if (planConfig.dueInDays !== undefined && (planConfig.dueInDays < 1 || planConfig.dueInDays > 365)) {
+      errors.push('Plan due date must be between 1 and 365 days');
+    }
+  }
+
+  if (config.review?.tone !== undefined && !REVIEW_TONES.includes(config.review.tone)) {
+    errors.push(`Review tone must be one of ${REVIEW_TONES.join(', ')}`);
+  }
+
+  if (config.permissions !== undefined) {
+    validatePermissions(config.permissions, errors);
+  }
   
   return {
     isValid: errors.length === 0,
@@ -449,4 +695,20 @@ export function createPresetConfig(preset: 'development' | 'testing' | 'producti
     default:
       return {};
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Checks whether a repository appears in a comma separated list of
+ * owner/repo or owner/* entries, as used by per-repository environment switches.
+ */
+export function isRepositoryListed(list: string | undefined, owner: string, repo: string): boolean {
+  if (!list) {
+    return false;
+  }
+
+  const fullName = `${owner}/${repo}`.toLowerCase();
+  return list
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .some(entry => entry === fullName || entry === `${owner.toLowerCase()}/*`);
+}
@@ -0,0 +1,227 @@
+/**
+ * Issue triage helpers: keyword classification, duplicate detection,
+ * CODEOWNERS matching and triage settings.
+ */
+
+import { isRepositoryListed } from "./config";
+
+export type IssueCategory = 'bug' | 'feature' | 'question';
+
+export interface IssueClassification {
+  category: IssueCategory;
+  confidence: number;
+  // Extra labels beyond the category label, e.g. 'security' or 'critical'
+  labels: string[];
+}
+
+export interface DuplicateCandidate {
+  number: number;
+  title: string;
+  url?: string;
+  similarity: number;
+}
+
+export interface CodeOwnersRule {
+  pattern: string;
+  owners: string[];
+}
+
+/**
+ * Triage settings for one repository
+ */
+export interface TriageConfig {
+  enabled: boolean;
+  applyLabels: boolean;
+  detectDuplicates: boolean;
+  suggestOwners: boolean;
+  postComment: boolean;
+  duplicateThreshold: number;   // Minimum title similarity (0-1) to report a duplicate
+  maxDuplicates: number;        // Maximum number of duplicates listed in the comment
+}
+
+export const DEFAULT_TRIAGE_CONFIG: TriageConfig = {
+  enabled: true,
+  applyLabels: true,
+  detectDuplicates: true,
+  suggestOwners: true,
+  postComment: true,
+  duplicateThreshold: 0.6,
+  maxDuplicates: 3
+};
+
+// Words that carry no meaning when comparing issue titles
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'when', 'from', 'that', 'this', 'not', 'does', 'are', 'was', 'into', 'should', 'can', 'cannot'
+]);
+
+const BUG_PATTERNS = [
+  /\b(bug|error|exception|crash(es|ed)?|broken|fails?|failing|failure|regression|stack ?trace|traceback|doesn'?t work|not working|unexpected)\b/i,
+  /\b(steps to reproduce|expected behaviou?r|actual behaviou?r)\b/i
+];
+
+const FEATURE_PATTERNS = [
+  /\b(feature|add support|support for|would be nice|enhancement|proposal|suggest(ion)?|allow|ability to|implement|request)\b/i
+];
+
+const QUESTION_PATTERNS = [
+  /\?\s*$/m,
+  /^(how|what|why|where|when|is it|can i|does|do you)\b/i,
+  /\b(question|help wanted|how do i|how to|is it possible)\b/i
+];
+
+const SECURITY_PATTERN = /\b(security|vulnerab(le|ility)|cve-\d+|xss|csrf|injection|exploit|leak(ed|s)?)\b/i;
+const CRITICAL_PATTERN = /\b(critical|urgent|data loss|production down|outage|blocker)\b/i;
+
+/**
+ * Classifies an issue with keyword heuristics. Used on its own or as the AI fallback.
+ */
+export function classifyIssueByKeywords(title: string, body: string | null | undefined): IssueClassification {
+  const text = `${title}\n${body ?? ''}`;
+  const countMatches = (patterns: RegExp[]) => patterns.filter(pattern => pattern.test(text)).length;
+
+  const scores: Record<IssueCategory, number> = {
+    bug: countMatches(BUG_PATTERNS),
+    feature: countMatches(FEATURE_PATTERNS),
+    // Only the title decides whether the issue is asked as a question
+    question: QUESTION_PATTERNS.filter(pattern => pattern.test(title)).length
+  };
+
+  const [category, score] = (Object.entries(scores) as Array<[IssueCategory, number]>)
+    .sort((a, b) => b[1] - a[1])[0];
+
+  const labels: string[] = [];
+  if (SECURITY_PATTERN.test(text)) labels.push('security');
+  if (CRITICAL_PATTERN.test(text)) labels.push('critical');
+
+  return {
+    category: score > 0 ? category : 'question',
+    confidence: score > 0 ? Math.min(0.5 + score * 0.2, 0.9) : 0.3,
+    labels
+  };
+}
+
+function titleWords(title: string): string[] {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Jaccard similarity of the meaningful words of two titles
+ */
+export function calculateTitleSimilarity(a: string, b: string): number {
+  const wordsA = new Set(titleWords(a));
+  const wordsB = new Set(titleWords(b));
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return 0;
+  }
+
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * Finds open issues whose titles are similar to the new issue, best match first
+ */
+export function findDuplicateCandidates(
+  issue: { number: number; title: string },
+  openIssues: Array<{ number: number; title: string; html_url?: string; pull_request?: unknown }>,
+  threshold: number = DEFAULT_TRIAGE_CONFIG.duplicateThreshold,
+  limit: number = DEFAULT_TRIAGE_CONFIG.maxDuplicates
+): DuplicateCandidate[] {
+  return openIssues
+    .filter(candidate => candidate.number !== issue.number && !candidate.pull_request)
+    .map(candidate => ({
+      number: candidate.number,
+      title: candidate.title,
+      url: candidate.html_url,
+      similarity: calculateTitleSimilarity(issue.title, candidate.title)
+    }))
+    .filter(candidate => candidate.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+/**
+ * Parses a CODEOWNERS file. Later rules take precedence, as on GitHub.
+ */
+export function parseCodeOwners(content: string): CodeOwnersRule[] {
+  return content
+    .split('\n')
+    .map(line => line.replace(/#.*$/, '').trim())
+    .filter(line => line.length > 0)
+    .map(line => {
+      const [pattern, ...owners] = line.split(/\s+/);
+      return { pattern, owners: owners.filter(owner => owner.startsWith('@') || owner.includes('@')) };
+    })
+    .filter(rule => rule.owners.length > 0);
+}
+
+function codeOwnersPatternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.startsWith('/');
+  const trimmed = pattern.replace(/^\//, '').replace(/\/$/, '/**');
+  const source = trimmed
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*/g, '\u0000')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]')
+    .replace(/\u0000/g, '.*');
+
+  return new RegExp(`${anchored ? '^' : '(^|/)'}${source}($|/)`);
+}
+
+/**
+ * Finds the owners of the given paths, falling back to the catch-all rule
+ */
+export function findCodeOwners(rules: CodeOwnersRule[], paths: string[]): string[] {
+  const owners = new Set<string>();
+
+  for (const path of paths) {
+    const rule = [...rules].reverse().find(candidate => codeOwnersPatternToRegExp(candidate.pattern).test(path));
+    rule?.owners.forEach(owner => owners.add(owner));
+  }
+
+  if (owners.size === 0) {
+    const catchAll = [...rules].reverse().find(rule => rule.pattern === '*');
+    catchAll?.owners.forEach(owner => owners.add(owner));
+  }
+
+  return [...owners];
+}
+
+/**
+ * Extracts file paths mentioned in an issue body, e.g. `src/lib/config.ts`
+ */
+export function extractMentionedPaths(body: string | null | undefined): string[] {
+  if (!body) {
+    return [];
+  }
+
+  const matches = body.match(/(?:^|[\s`'"(])((?:[\w.-]+\/)+[\w.-]+\.[a-z0-9]+)/gim) ?? [];
+  return [...new Set(matches.map(match => match.trim().replace(/^[`'"(]/, '')))];
+}
+
+function readFlag(value: string | undefined, fallback: boolean): boolean {
+  return value === undefined ? fallback : value.toLowerCase() === 'true';
+}
+
+/**
+ * Resolves triage settings for a repository from the environment.
+ * TRIAGE_DISABLED_REPOS takes a comma separated list of owner/repo or owner/* entries.
+ */
+export function getTriageConfig(owner: string, repo: string, env: Record<string, string | undefined> = process.env): TriageConfig {
+  const threshold = parseFloat(env.TRIAGE_DUPLICATE_THRESHOLD ?? '');
+
+  return {
+    ...DEFAULT_TRIAGE_CONFIG,
+    enabled: readFlag(env.TRIAGE_ENABLED, DEFAULT_TRIAGE_CONFIG.enabled) &&
+      !isRepositoryListed(env.TRIAGE_DISABLED_REPOS, owner, repo),
+    applyLabels: readFlag(env.TRIAGE_APPLY_LABELS, DEFAULT_TRIAGE_CONFIG.applyLabels),
+    detectDuplicates: readFlag(env.TRIAGE_DETECT_DUPLICATES, DEFAULT_TRIAGE_CONFIG.detectDuplicates),
+    suggestOwners: readFlag(env.TRIAGE_SUGGEST_OWNERS, DEFAULT_TRIAGE_CONFIG.suggestOwners),
+    postComment: readFlag(env.TRIAGE_POST_COMMENT, DEFAULT_TRIAGE_CONFIG.postComment),
+    duplicateThreshold: threshold >= 0 && threshold <= 1 ? threshold : DEFAULT_TRIAGE_CONFIG.duplicateThreshold
+  };
+}
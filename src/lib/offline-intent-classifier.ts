@@ -0,0 +1,277 @@
+// Local intent classifier: keywords of the languages the AI classifier knows, matched with typo tolerance.
+// It is deterministic and needs no network, so routing works without the AI, which is
+// only asked about the commands this classifier can't tell confidently.
+
+import type { IntentAlternative, IntentClassification } from './ai-command-parser';
+
+type Intent = 'approval' | 'plan' | 'refine' | 'cancel' | 'review' | 'execute';
+
+/**
+ * Words and phrases that carry each intent, by language. Matched after normalization,
+ * so accents, apostrophes and punctuation don't matter.
+ * Everyday words such as "no" or "vamos" are left out: they start too many ordinary sentences.
+ */
+const INTENT_KEYWORDS: Record<Intent, Record<string, string[]>> = {
+  approval: {
+    en: ['yes', 'yeah', 'yep', 'sure', 'ok', 'okay', 'approve', 'approved', 'accept', 'agreed', 'confirm', 'go ahead', 'looks good', 'sounds good', 'lgtm', 'ship it', "let's do it"],
+    es: ['sí', 'vale', 'aprobar', 'apruebo', 'aprobado', 'adelante', 'de acuerdo', 'dale'],
+    fr: ['oui', "d'accord", 'approuver', "j'approuve", 'allez-y', 'vas-y', 'parfait'],
+    de: ['ja', 'genehmigen', 'genehmigt', 'einverstanden', 'passt', 'klingt gut'],
+    pt: ['sim', 'aprovar', 'aprovado', 'aprovo', 'pode ir', 'concordo'],
+    it: ['sì', 'approvare', 'approvato', 'approvo', 'va bene', "d'accordo", 'vai'],
+    ru: ['да', 'ок', 'одобрить', 'одобряю', 'давай', 'согласен', 'хорошо'],
+    zh: ['是的', '好的', '批准', '同意', '可以', '开始'],
+    ja: ['はい', '承認', '了解', 'いいです', 'オーケー', '始めましょう'],
+  },
+  plan: {
+    en: ['plan', 'planning', 'analyze', 'analyse', 'roadmap', 'break down'],
+    es: ['planificar', 'planear', 'plan de trabajo', 'analizar'],
+    fr: ['planifier', 'analyser', 'plan de travail'],
+    de: ['planen', 'planung', 'analysieren'],
+    pt: ['planejar', 'planear', 'analisar'],
+    it: ['pianificare', 'piano', 'analizzare'],
+    ru: ['план', 'спланировать', 'планировать', 'проанализировать'],
+    zh: ['计划', '规划', '分析'],
+    ja: ['計画', 'プラン', '分析'],
+  },
+  refine: {
+    en: ['refine', 'revise', 'modify', 'update', 'change', 'edit', 'adjust', 'rework'],
+    es: ['refinar', 'revisar el plan', 'modificar', 'cambiar', 'ajustar'],
+    fr: ['affiner', 'modifier', 'changer', 'ajuster'],
+    de: ['verfeinern', 'überarbeiten', 'ändern', 'anpassen'],
+    pt: ['refinar', 'modificar', 'alterar', 'ajustar', 'mudar'],
+    it: ['rifinire', 'modificare', 'cambiare', 'aggiustare'],
+    ru: ['уточнить', 'изменить', 'доработать', 'поправить'],
+    zh: ['修改', '调整', '完善'],
+    ja: ['修正', '変更', '調整'],
+  },
+  cancel: {
+    en: ['cancel', 'reject', 'abort', 'discard', 'scrap'],
+    es: ['cancelar', 'rechazar', 'descartar'],
+    fr: ['non', 'annuler', 'rejeter'],
+    de: ['nein', 'abbrechen', 'ablehnen', 'verwerfen'],
+    pt: ['não', 'cancelar', 'rejeitar', 'descartar'],
+    it: ['annullare', 'rifiutare', 'scartare'],
+    ru: ['нет', 'отменить', 'отклонить', 'отмена'],
+    zh: ['不', '取消', '拒绝'],
+    ja: ['いいえ', 'キャンセル', '取り消し', '却下'],
+  },
+  review: {
+    en: ['review', 'code review', 'check the code', 'audit'],
+    es: ['revisar', 'revisión', 'revisa el código'],
+    fr: ['réviser', 'relire', 'revue de code'],
+    de: ['überprüfen', 'prüfen', 'code review'],
+    pt: ['revisar', 'revisão', 'revise o código'],
+    it: ['revisionare', 'revisione', 'controllare il codice'],
+    ru: ['ревью', 'проверить код', 'проверь код'],
+    zh: ['审查', '代码审查', '审核'],
+    ja: ['レビュー', 'コードレビュー', '確認して'],
+  },
+  execute: {
+    en: ['go', 'proceed', 'continue', 'start', 'begin', 'lfg', "let's go", 'do it', 'execute', 'run it'],
+    es: ['ejecutar', 'empezar', 'comenzar', 'continuar'],
+    fr: ['exécuter', 'commencer', 'démarrer', 'continuer'],
+    de: ['ausführen', 'starten', 'anfangen', 'weiter'],
+    pt: ['executar', 'começar', 'iniciar', 'continuar'],
+    it: ['eseguire', 'iniziare', 'cominciare', 'continuare'],
+    ru: ['выполнить', 'начать', 'запустить', 'продолжить'],
+    zh: ['执行', '继续'],
+    ja: ['実行', '続けて'],
+  },
+};
+
+// How each intent is written as a command
+const INTENT_COMMANDS: Record<Intent, string> = {
+  approval: 'approve',
+  plan: 'plan',
+  refine: 'refine',
+  cancel: 'cancel',
+  review: 'review',
+  execute: 'execute',
+};
+
+// Intents that act on a plan, more likely once the thread has one
+const PLAN_INTENTS: readonly Intent[] = ['approval', 'refine', 'cancel', 'execute'];
+
+// Intents that change or close the milestone of the plan
+const PLAN_ACTION_INTENTS: readonly Intent[] = ['approval', 'refine', 'cancel'];
+
+// Scores of a keyword written at the start of the command, and anywhere else in it.
+// A keyword inside a sentence is only a hint, too weak to run or suggest a command on its own.
+const LEADING_MATCH_SCORE = 0.95;
+const INNER_MATCH_SCORE = 0.4;
+// Taken off a leading match for every word after the keyword: "no idea why" isn't a cancellation
+const EXTRA_WORD_PENALTY = 0.04;
+const MAX_EXTRA_WORDS_PENALTY = 0.3;
+// Added to the plan intents when the thread has a plan
+const PLAN_CONTEXT_BOOST = 0.05;
+// Highest confidence of a plan action followed by a sentence, below the routing threshold of the command parser:
+// "change the button color" is a request, not a refinement of the plan
+const PLAN_ACTION_SENTENCE_CONFIDENCE = 0.7;
+// Intents scored this close to the best one make the classification ambiguous
+const AMBIGUITY_MARGIN = 0.1;
+// Confidence of requests no keyword matched, which go to the general response
+const UNMATCHED_CONFIDENCE = 0.5;
+
+const CJK_PATTERN = /[぀-ヿ㐀-鿿]/;
+
+/**
+ * Lowercases a text and removes accents, apostrophes and punctuation, so keywords match however they are typed
+ */
+export function normalizeIntentText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/['’`]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of adjacent characters,
+ * so "cancle" is one edit away from "cancel"
+ */
+export function editDistance(a: string, b: string): number {
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+// Typos tolerated in a keyword: none up to three letters ("not" isn't "non"), then one every four letters
+function allowedEdits(length: number): number {
+  return length < 4 ? 0 : Math.floor(length / 4);
+}
+
+/**
+ * How well a keyword matches the command
+ */
+interface KeywordMatch {
+  // 0 when the keyword isn't in the command
+  score: number;
+  // The command is the keyword alone, typos aside
+  bare: boolean;
+}
+
+function scoreKeyword(keyword: string, text: string, words: string[]): KeywordMatch {
+  if (CJK_PATTERN.test(keyword)) {
+    const compact = text.replace(/ /g, '');
+    if (compact.startsWith(keyword)) {
+      // Without spaces words can't be counted, every few characters after the keyword count as one
+      const extraWords = Math.ceil((compact.length - keyword.length) / 3);
+      const score = LEADING_MATCH_SCORE - Math.min(MAX_EXTRA_WORDS_PENALTY, extraWords * EXTRA_WORD_PENALTY);
+      return { score, bare: extraWords === 0 };
+    }
+    return { score: compact.includes(keyword) ? INNER_MATCH_SCORE : 0, bare: false };
+  }
+
+  const length = keyword.split(' ').length;
+  const leading = words.slice(0, length).join(' ');
+  const distance = editDistance(leading, keyword);
+  const longest = Math.max(leading.length, keyword.length);
+  if (distance <= allowedEdits(keyword.length)) {
+    // Typos in short words are more likely another word, they cost more
+    const extraWords = Math.max(0, words.length - length);
+    const extraWordsPenalty = Math.min(MAX_EXTRA_WORDS_PENALTY, extraWords * EXTRA_WORD_PENALTY);
+    return { score: LEADING_MATCH_SCORE - (0.5 * distance) / longest - extraWordsPenalty, bare: extraWords === 0 };
+  }
+
+  for (let start = 1; start + length <= words.length; start++) {
+    if (words.slice(start, start + length).join(' ') === keyword) {
+      return { score: INNER_MATCH_SCORE, bare: false };
+    }
+  }
+  return { score: 0, bare: false };
+}
+
+// Confidence of an intent: plan intents are more likely in a thread with a plan,
+// but plan actions only reach the routing threshold as a bare keyword
+function intentConfidence(intent: Intent, match: KeywordMatch, hasPlan: boolean): number {
+  const confidence = Math.min(1, match.score + (hasPlan && PLAN_INTENTS.includes(intent) ? PLAN_CONTEXT_BOOST : 0));
+  return PLAN_ACTION_INTENTS.includes(intent) && !match.bare ? Math.min(confidence, PLAN_ACTION_SENTENCE_CONFIDENCE) : confidence;
+}
+
+// Normalized keywords, computed once
+let normalizedKeywords: Array<{ intent: Intent; language: string; keyword: string }> | undefined;
+
+function getNormalizedKeywords() {
+  if (!normalizedKeywords) {
+    normalizedKeywords = Object.entries(INTENT_KEYWORDS).flatMap(([intent, languages]) =>
+      Object.entries(languages).flatMap(([language, keywords]) =>
+        keywords.map(keyword => ({ intent: intent as Intent, language, keyword: normalizeIntentText(keyword) }))
+      )
+    );
+  }
+  return normalizedKeywords;
+}
+
+/**
+ * Checks whether the thread has a plan that approving, refining or cancelling could act on
+ */
+export function threadHasPlan(context?: { recentMilestone?: boolean; lastTaskType?: string }): boolean {
+  return !!context?.recentMilestone || context?.lastTaskType === 'plan-task';
+}
+
+/**
+ * Classifies a command without the AI: keywords in the languages of the AI classifier, typos within a few edits,
+ * and a plan in the thread making the plan commands more likely.
+ * Ambiguous commands and keywords followed by a sentence get a lower confidence, so the AI can be asked about them;
+ * approving, refining or cancelling the plan followed by a sentence never reaches the routing threshold.
+ */
+export function classifyCommandOffline(
+  command: string,
+  context?: { recentMilestone?: boolean; lastTaskType?: string }
+): IntentClassification {
+  const text = normalizeIntentText(command);
+  const words = text ? text.split(' ') : [];
+  const hasPlan = threadHasPlan(context);
+
+  const best = new Map<Intent, { match: KeywordMatch; language: string }>();
+  for (const { intent, language, keyword } of getNormalizedKeywords()) {
+    const match = scoreKeyword(keyword, text, words);
+    if (match.score > (best.get(intent)?.match.score ?? 0)) {
+      best.set(intent, { match, language });
+    }
+  }
+
+  const ranked = [...best.entries()]
+    .map(([intent, { match, language }]) => ({ intent, language, confidence: intentConfidence(intent, match, hasPlan) }))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const [top, ...others] = ranked;
+  if (!top) {
+    return {
+      intent: 'codex',
+      confidence: UNMATCHED_CONFIDENCE,
+      originalCommand: command,
+      normalizedCommand: command,
+      source: 'offline'
+    };
+  }
+
+  const isAmbiguous = others.length > 0 && top.confidence - others[0].confidence < AMBIGUITY_MARGIN;
+  const alternatives: IntentAlternative[] = others.slice(0, 2).map(({ intent, confidence }) => ({ intent, confidence: round(confidence) }));
+  return {
+    intent: top.intent,
+    confidence: round(isAmbiguous ? top.confidence * 0.8 : top.confidence),
+    originalCommand: command,
+    normalizedCommand: INTENT_COMMANDS[top.intent],
+    language: top.language,
+    alternatives,
+    source: 'offline'
+  };
+}
+
+function round(confidence: number): number {
+  return Math.round(Math.max(0, confidence) * 100) / 100;
+}
@@ -0,0 +1,310 @@
+/**
+ * Per-repository configuration read from .github/uwularpy.yml, on top of the organization's defaults.
+ * The files use the sections of GlobalConfig, e.g.
+ *
+ *   extends: [acme/platform-config:profiles/service.yml]
+ *   enforce: [codex.protectedPaths]
+ *   plan:
+ *     maxIssues: 5
+ *     labels: [planned]
+ *   review:
+ *     files: [src]
+ *     tone: neutral
+ *   codex:
+ *     protectedPaths: [.github/workflows]
+ *   permissions:
+ *     dev: COLLABORATOR
+ *     plan: { minimum: MEMBER, teams: [planners] }
+ *   aliases:
+ *     sec: plan focus on security $*
+ *     ship: [approve, status]
+ *
+ * Files are layered from the lowest precedence up: the environment, the organization's file in its
+ * .github repository, the files the repository's file extends, then the repository's file.
+ * Settings override the ones below them setting by setting (lists are replaced, not joined), except
+ * the settings a file enforces, which keep their value for every layer above it.
+ */
+
+import yaml from "js-yaml";
+import { GlobalConfig, isKnownSetting, loadConfigFromEnvironment, mergeConfig, validateConfig } from "./config";
+import { parseCommandPermission } from "./command-permissions";
+import { validateCommandAliases } from "./command-aliases";
+
+/**
+ * Where the configuration lives in the repository, read from the default branch
+ */
+export const REPOSITORY_CONFIG_PATH = '.github/uwularpy.yml';
+
+/**
+ * Repository holding the organization's defaults, and where they live in it
+ */
+export const ORGANIZATION_CONFIG_REPOSITORY = '.github';
+export const ORGANIZATION_CONFIG_PATH = 'uwularpy.yml';
+
+// extends chains longer than this are cut, they are almost certainly a mistake
+const MAX_EXTENDS_DEPTH = 5;
+
+/**
+ * A configuration file in a repository
+ */
+export interface ConfigReference {
+  owner: string;
+  repo: string;
+  path: string;
+}
+
+/**
+ * Result of parsing a configuration file: the configuration is empty when there are errors
+ */
+export interface RepositoryConfigResult {
+  config: GlobalConfig;
+  errors: string[];
+  // Files this one builds on, as written: "repo", "owner/repo" or either with ":path"
+  extends: string[];
+  // Sections or settings ("plan.maxIssues") the files above this one can't override
+  enforce: string[];
+}
+
+/**
+ * A configuration file as read during resolution
+ */
+export interface ConfigLayer {
+  source: string;
+  config: GlobalConfig;
+  enforce: string[];
+  // Files with errors are listed but not applied
+  errors: string[];
+}
+
+/**
+ * The configuration of a repository with the files it was resolved from
+ */
+export interface ResolvedRepositoryConfig {
+  config: GlobalConfig;
+  // Lowest precedence first
+  layers: ConfigLayer[];
+  // Enforced settings with the file that enforced them
+  enforced: Array<{ setting: string; source: string }>;
+  // Problems only the merged files have, e.g. aliases of different files using each other in a cycle
+  errors: string[];
+}
+
+/**
+ * Reads a configuration file, null when it doesn't exist
+ */
+export type ConfigFileReader = (reference: ConfigReference) => Promise<string | null>;
+
+// YAML has no regular expressions, custom dangerous patterns are written as strings
+function toDangerousPatterns(value: unknown, errors: string[]): unknown {
+  if (!Array.isArray(value)) {
+    return value;
+  }
+  return value.map(item => {
+    if (!item || typeof item !== 'object' || typeof item.pattern !== 'string') {
+      return item;
+    }
+    try {
+      return { ...item, pattern: new RegExp(item.pattern) };
+    } catch {
+      errors.push(`Invalid custom dangerous pattern: ${item.pattern}`);
+      return item;
+    }
+  });
+}
+
+// Reads a list of strings written as a single string or a sequence
+function readStringList(value: unknown, key: string, errors: string[]): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const list = Array.isArray(value) ? value : [value];
+  if (!list.every(item => typeof item === 'string')) {
+    errors.push(`${key} must be a string or a list of strings`);
+    return [];
+  }
+  return list;
+}
+
+// Command names are case-insensitive, sections keyed by them are stored lowercased
+function normalizeCommandKeys(section: unknown, normalize: (value: unknown) => unknown): unknown {
+  if (!section || typeof section !== 'object' || Array.isArray(section)) {
+    return section;
+  }
+  return Object.fromEntries(Object.entries(section).map(([name, value]) => [name.toLowerCase(), normalize(value)]));
+}
+
+/**
+ * Parses and validates the contents of a configuration file.
+ * Permissions may be written as a level or as a level with teams, they are normalized here.
+ */
+export function parseRepositoryConfig(source: string): RepositoryConfigResult {
+  let document: unknown;
+  try {
+    document = yaml.load(source);
+  } catch (error) {
+    return { config: {}, errors: [`Invalid YAML: ${error instanceof Error ? error.message : 'Unknown error'}`], extends: [], enforce: [] };
+  }
+
+  if (document === undefined || document === null) {
+    return { config: {}, errors: [], extends: [], enforce: [] };
+  }
+  if (typeof document !== 'object' || Array.isArray(document)) {
+    return { config: {}, errors: ['The configuration must be a mapping of sections'], extends: [], enforce: [] };
+  }
+
+  const errors: string[] = [];
+  const { extends: extendsValue, enforce: enforceValue, ...config } = document as Record<string, unknown>;
+  const bases = readStringList(extendsValue, 'extends', errors);
+  const enforce = readStringList(enforceValue, 'enforce', errors);
+  errors.push(...enforce.filter(setting => !isKnownSetting(setting)).map(setting => `Unknown enforced setting: ${setting}`));
+
+  const fileOperations = config.fileOperations as Record<string, unknown> | undefined;
+  if (fileOperations && typeof fileOperations === 'object' && 'customDangerousPatterns' in fileOperations) {
+    config.fileOperations = {
+      ...fileOperations,
+      customDangerousPatterns: toDangerousPatterns(fileOperations.customDangerousPatterns, errors)
+    };
+  }
+
+  // Invalid permissions are kept as written for validateConfig to report
+  config.permissions = normalizeCommandKeys(config.permissions, value => parseCommandPermission(value) ?? value);
+  config.aliases = normalizeCommandKeys(config.aliases, value => value);
+  errors.push(...validateCommandAliases(config.aliases));
+
+  errors.push(...validateConfig(config as GlobalConfig).errors);
+  return errors.length > 0
+    ? { config: {}, errors, extends: [], enforce: [] }
+    : { config: config as GlobalConfig, errors, extends: bases, enforce };
+}
+
+/**
+ * Merges a repository's configuration over the environment defaults
+ */
+export function resolveRepositoryConfig(repositoryConfig: GlobalConfig): GlobalConfig {
+  return mergeConfig(loadConfigFromEnvironment(), repositoryConfig);
+}
+
+function defaultConfigPath(repo: string): string {
+  return repo === ORGANIZATION_CONFIG_REPOSITORY ? ORGANIZATION_CONFIG_PATH : REPOSITORY_CONFIG_PATH;
+}
+
+/**
+ * Reads an extends entry: "repo" and "repo:path" are looked up in the owner of the file that extends them
+ */
+export function parseConfigReference(value: string, owner: string): ConfigReference | undefined {
+  const match = /^(?:([\w.-]+)\/)?([\w.-]+)(?::(.+))?$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  const repo = match[2];
+  return { owner: match[1] ?? owner, repo, path: match[3]?.trim() || defaultConfigPath(repo) };
+}
+
+/**
+ * Formats a reference as "owner/repo:path"
+ */
+export function formatConfigReference(reference: ConfigReference): string {
+  return `${reference.owner}/${reference.repo}:${reference.path}`;
+}
+
+type ConfigSections = Record<string, Record<string, unknown> | undefined>;
+
+// Copies an enforced section or setting from the configuration it was enforced in
+function pinSetting(target: ConfigSections, pinned: ConfigSections, setting: string): void {
+  const [section, name] = setting.split('.');
+  if (name === undefined) {
+    target[section] = pinned[section];
+    return;
+  }
+  const values = { ...target[section] };
+  const value = pinned[section]?.[name];
+  if (value === undefined) {
+    delete values[name];
+  } else {
+    values[name] = value;
+  }
+  target[section] = values;
+}
+
+/**
+ * Resolves the configuration of a repository from the organization's file, the files the repository's
+ * file extends and the repository's file. Missing files are skipped, invalid ones are reported in their
+ * layer and left out.
+ */
+export async function resolveRepositoryConfigLayers(
+  owner: string,
+  repo: string,
+  readFile: ConfigFileReader
+): Promise<ResolvedRepositoryConfig> {
+  const layers: ConfigLayer[] = [];
+  const visited = new Set<string>();
+
+  const visit = async (reference: ConfigReference, chain: string[]): Promise<void> => {
+    const source = formatConfigReference(reference);
+    if (chain.includes(source)) {
+      layers.push({ source, config: {}, enforce: [], errors: [`Circular extends: ${[...chain, source].join(' -> ')}`] });
+      return;
+    }
+    // A file extended twice is applied where it was first reached
+    if (visited.has(source)) {
+      return;
+    }
+    visited.add(source);
+
+    const content = await readFile(reference);
+    if (content === null) {
+      if (chain.length > 0) {
+        layers.push({ source, config: {}, enforce: [], errors: [`Extended by ${chain[chain.length - 1]} but doesn't exist`] });
+      }
+      return;
+    }
+
+    const parsed = parseRepositoryConfig(content);
+    const errors = [...parsed.errors];
+    if (parsed.extends.length > 0 && chain.length >= MAX_EXTENDS_DEPTH) {
+      errors.push(`extends goes deeper than ${MAX_EXTENDS_DEPTH} files`);
+    } else {
+      for (const base of parsed.extends) {
+        const baseReference = parseConfigReference(base, reference.owner);
+        if (baseReference) {
+          await visit(baseReference, [...chain, source]);
+        } else {
+          errors.push(`Invalid extends entry: ${base}`);
+        }
+      }
+    }
+    layers.push(errors.length > 0
+      ? { source, config: {}, enforce: [], errors }
+      : { source, config: parsed.config, enforce: parsed.enforce, errors });
+  };
+
+  await visit({ owner, repo: ORGANIZATION_CONFIG_REPOSITORY, path: ORGANIZATION_CONFIG_PATH }, []);
+  await visit({ owner, repo, path: REPOSITORY_CONFIG_PATH }, []);
+
+  // Merge layer by layer, remembering the configuration as of each layer that enforces settings
+  let config = loadConfigFromEnvironment({ owner, repo });
+  const pins: Array<{ setting: string; source: string; config: GlobalConfig }> = [];
+  for (const layer of layers) {
+    config = mergeConfig(config, layer.config);
+    pins.push(...layer.enforce.map(setting => ({ setting, source: layer.source, config })));
+  }
+
+  // The lowest layer enforcing a setting wins, so apply the pins from the top down
+  const sections = { ...config } as ConfigSections;
+  for (const pin of [...pins].reverse()) {
+    pinSetting(sections, pin.config as ConfigSections, pin.setting);
+  }
+
+  // Each file's aliases are valid on their own, but together they can still form a cycle
+  const errors = validateCommandAliases(sections.aliases);
+  if (errors.length > 0) {
+    sections.aliases = {};
+  }
+
+  return {
+    config: sections as GlobalConfig,
+    layers,
+    enforced: pins.map(({ setting, source }) => ({ setting, source })),
+    errors,
+  };
+}
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { computeContentHash, DeliveryLedger, DeliveryRecord } from '../delivery-ledger';
+import { FileStateStore, MemoryStateStore } from '../state-store';
+
+describe('Delivery Ledger', () => {
+  describe('computeContentHash', () => {
+    it('should be stable for the same comment and action', () => {
+      expect(computeContentHash(123, 'created')).toBe(computeContentHash(123, 'created'));
+      expect(computeContentHash(123, 'created')).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it('should differ between actions and comments', () => {
+      expect(computeContentHash(123, 'created')).not.toBe(computeContentHash(123, 'edited'));
+      expect(computeContentHash(123, 'created')).not.toBe(computeContentHash(124, 'created'));
+    });
+  });
+
+  describe('claim', () => {
+    let ledger: DeliveryLedger;
+
+    beforeEach(() => {
+      ledger = new DeliveryLedger(new MemoryStateStore<DeliveryRecord>());
+    });
+
+    it('should accept the first delivery', async () => {
+      const claim = await ledger.claim('delivery-1', computeContentHash(1, 'created'));
+      expect(claim.duplicate).toBe(false);
+    });
+
+    it('should reject a redelivery with the same delivery ID', async () => {
+      const hash = computeContentHash(1, 'created');
+      await ledger.claim('delivery-1', hash);
+
+      const claim = await ledger.claim('delivery-1', hash);
+      expect(claim.duplicate).toBe(true);
+      expect(claim.reason).toBe('delivery');
+    });
+
+    it('should reject a retry with a new delivery ID but the same content', async () => {
+      const hash = computeContentHash(1, 'created');
+      await ledger.claim('delivery-1', hash);
+
+      const claim = await ledger.claim('delivery-2', hash);
+      expect(claim.duplicate).toBe(true);
+      expect(claim.reason).toBe('content');
+    });
+
+    it('should deduplicate by content when the delivery header is missing', async () => {
+      const hash = computeContentHash(1, 'created');
+      expect((await ledger.claim(null, hash)).duplicate).toBe(false);
+      expect((await ledger.claim(null, hash)).duplicate).toBe(true);
+    });
+
+    it('should allow processing again after a claim is released', async () => {
+      const hash = computeContentHash(1, 'created');
+      await ledger.claim('delivery-1', hash);
+      await ledger.release('delivery-1', hash);
+
+      expect((await ledger.claim('delivery-1', hash)).duplicate).toBe(false);
+    });
+
+    it('should ignore entries older than the retention window', async () => {
+      const store = new MemoryStateStore<DeliveryRecord>();
+      const shortLedger = new DeliveryLedger(store, 1000);
+      const hash = computeContentHash(1, 'created');
+      await store.set(`content:${hash}`, { deliveryId: 'old', contentHash: hash, event: null, receivedAt: Date.now() - 5000 });
+
+      expect((await shortLedger.claim('delivery-2', hash)).duplicate).toBe(false);
+    });
+
+    it('should prune expired entries', async () => {
+      const store = new MemoryStateStore<DeliveryRecord>();
+      const shortLedger = new DeliveryLedger(store, 1000);
+      await shortLedger.claim('delivery-1', computeContentHash(1, 'created'));
+
+      expect(await shortLedger.prune(Date.now() + 5000)).toBe(2);
+      expect(await store.entries()).toHaveLength(0);
+    });
+  });
+
+  describe('file backed store', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should persist claims across ledger instances', async () => {
+      const filePath = path.join(tempDir, 'delivery-ledger.json');
+      const hash = computeContentHash(1, 'created');
+
+      await new DeliveryLedger(new FileStateStore<DeliveryRecord>(filePath)).claim('delivery-1', hash);
+      const claim = await new DeliveryLedger(new FileStateStore<DeliveryRecord>(filePath)).claim('delivery-1', hash);
+
+      expect(claim.duplicate).toBe(true);
+    });
+
+    it('should only let one of several concurrent claims through', async () => {
+      const ledger = new DeliveryLedger(new FileStateStore<DeliveryRecord>(path.join(tempDir, 'ledger.json')));
+      const hash = computeContentHash(1, 'created');
+
+      const claims = await Promise.all([
+        ledger.claim('delivery-1', hash),
+        ledger.claim('delivery-1', hash),
+        ledger.claim('delivery-2', hash)
+      ]);
+
+      expect(claims.filter(claim => !claim.duplicate)).toHaveLength(1);
+    });
+  });
+});
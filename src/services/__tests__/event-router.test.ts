@@ -0,0 +1,78 @@
+import { ANY_ACTION, createContextFromEvent, InvalidWebhookPayloadError, normalizeWebhookEvent, WebhookEventRouter } from '../event-router';
+
+const repositoryPayload = {
+  repository: { name: 'test-repo', owner: { login: 'test-owner' } },
+  installation: { id: 456 },
+  sender: { login: 'octocat' }
+};
+
+describe('Webhook Event Router', () => {
+  describe('normalizeWebhookEvent', () => {
+    it('should extract repository, installation and sender', () => {
+      const event = normalizeWebhookEvent('issue_comment', 'delivery-1', {
+        ...repositoryPayload,
+        action: 'created',
+        comment: { id: 99 }
+      });
+
+      expect(event.name).toBe('issue_comment');
+      expect(event.action).toBe('created');
+      expect(event.deliveryId).toBe('delivery-1');
+      expect(event.owner).toBe('test-owner');
+      expect(event.repo).toBe('test-repo');
+      expect(event.installationId).toBe(456);
+      expect(event.sender).toBe('octocat');
+      expect(event.contentHash).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it('should leave missing fields null', () => {
+      const event = normalizeWebhookEvent('ping', null, {});
+      expect(event.action).toBeNull();
+      expect(event.owner).toBeNull();
+      expect(event.installationId).toBeNull();
+      expect(event.contentHash).toBeNull();
+    });
+  });
+
+  describe('WebhookEventRouter', () => {
+    const event = normalizeWebhookEvent('issue_comment', 'delivery-1', { ...repositoryPayload, action: 'created' });
+    const context = createContextFromEvent(event, { issueNumber: 1, requester: 'octocat', message: 'plan' });
+
+    it('should only invoke handlers registered for the event and action', async () => {
+      const matching = jest.fn().mockReturnValue([{ taskId: 'plan-task', context }]);
+      const otherAction = jest.fn().mockReturnValue([]);
+      const otherEvent = jest.fn().mockReturnValue([]);
+
+      const router = new WebhookEventRouter()
+        .on('issue_comment', 'created', matching)
+        .on('issue_comment', 'deleted', otherAction)
+        .on('pull_request', 'created', otherEvent);
+
+      const dispatches = await router.route(event);
+
+      expect(dispatches).toEqual([{ taskId: 'plan-task', context }]);
+      expect(matching).toHaveBeenCalledWith(event);
+      expect(otherAction).not.toHaveBeenCalled();
+      expect(otherEvent).not.toHaveBeenCalled();
+    });
+
+    it('should support several actions and the wildcard', async () => {
+      const router = new WebhookEventRouter()
+        .on('issue_comment', ['edited', 'created'], () => [{ taskId: 'a', context }])
+        .on('issue_comment', ANY_ACTION, async () => [{ taskId: 'b', context }]);
+
+      const dispatches = await router.route(event);
+      expect(dispatches.map(dispatch => dispatch.taskId)).toEqual(['a', 'b']);
+      expect(router.handles('issue_comment', 'deleted')).toBe(true);
+      expect(router.handles('issues', 'opened')).toBe(false);
+    });
+  });
+
+  describe('createContextFromEvent', () => {
+    it('should reject events without an installation', () => {
+      const event = normalizeWebhookEvent('issue_comment', null, { ...repositoryPayload, installation: undefined });
+      expect(() => createContextFromEvent(event, { issueNumber: 1, requester: 'octocat' }))
+        .toThrow(InvalidWebhookPayloadError);
+    });
+  });
+});
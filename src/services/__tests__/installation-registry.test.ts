@@ -0,0 +1,47 @@
+import { InstallationRecord, InstallationRegistry, InstallationResolver } from '../installation-registry';
+import { MemoryStateStore } from '../state-store';
+
+describe('Installation Registry', () => {
+  let registry: InstallationRegistry;
+  let resolver: jest.Mocked<InstallationResolver>;
+
+  beforeEach(async () => {
+    resolver = {
+      getInstallation: jest.fn().mockResolvedValue(null),
+      getRepositoryInstallation: jest.fn().mockResolvedValue(null)
+    };
+    registry = new InstallationRegistry(new MemoryStateStore<InstallationRecord>(), resolver);
+    await registry.recordInstallation(456, 'acme', 'Organization', ['acme/api']);
+  });
+
+  it('should look up installations missed by the webhooks once', async () => {
+    resolver.getInstallation.mockResolvedValue({ installationId: 789, account: 'globex', accountType: 'User' });
+
+    await expect(registry.resolve(789)).resolves.toMatchObject({ installationId: 789, account: 'globex', repositories: [] });
+    await expect(registry.resolve(789)).resolves.toBeDefined();
+    expect(resolver.getInstallation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should add repositories GitHub reports under the same installation', async () => {
+    resolver.getRepositoryInstallation.mockResolvedValue({ installationId: 456, account: 'acme', accountType: 'Organization' });
+
+    await expect(registry.coversRepository(456, 'acme', 'web')).resolves.toBe(true);
+    expect(await registry.get(456)).toMatchObject({ repositories: ['acme/api', 'acme/web'] });
+  });
+
+  it('should refuse repositories of other installations', async () => {
+    resolver.getRepositoryInstallation.mockResolvedValue({ installationId: 999, account: 'acme', accountType: 'Organization' });
+
+    await expect(registry.coversRepository(456, 'acme', 'secret')).resolves.toBe(false);
+    expect(await registry.get(456)).toMatchObject({ repositories: ['acme/api'] });
+  });
+
+  it('should not ask GitHub about removed installations', async () => {
+    await registry.markRemoved(456);
+
+    await expect(registry.resolve(456)).resolves.toBeUndefined();
+    await expect(registry.coversRepository(456, 'acme', 'api')).resolves.toBe(false);
+    expect(resolver.getInstallation).not.toHaveBeenCalled();
+    expect(resolver.getRepositoryInstallation).not.toHaveBeenCalled();
+  });
+});
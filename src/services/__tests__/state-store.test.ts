@@ -0,0 +1,37 @@
+import os from 'os';
+import path from 'path';
+import { createStateStore, getStateDirectory, MemoryStateStore } from '../state-store';
+
+describe('State Store', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.STATE_STORE;
+    delete process.env.STATE_STORE_DIR;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should use the configured directory', () => {
+    process.env.STATE_STORE_DIR = '/var/lib/uwularpy';
+
+    expect(getStateDirectory()).toBe('/var/lib/uwularpy');
+  });
+
+  it('should fall back to the temp directory outside production', () => {
+    process.env = { ...process.env, NODE_ENV: 'development' };
+
+    expect(getStateDirectory()).toBe(path.join(os.tmpdir(), 'uwularpy-state'));
+  });
+
+  it('should refuse a temporary directory in production', () => {
+    process.env = { ...process.env, NODE_ENV: 'production' };
+
+    expect(() => createStateStore('delivery-ledger')).toThrow(/STATE_STORE_DIR/);
+    process.env.STATE_STORE = 'memory';
+    expect(createStateStore('delivery-ledger')).toBeInstanceOf(MemoryStateStore);
+  });
+});
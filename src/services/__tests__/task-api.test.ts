@@ -0,0 +1,112 @@
+import { ApiTokenRecord, ApiTokenRegistry, hashApiToken } from '../api-token-registry';
+import { InstallationRecord, InstallationRegistry, InstallationResolver } from '../installation-registry';
+import { MemoryStateStore } from '../state-store';
+import { authenticateApiRequest, TaskApiError, triggerApiTask, validateTaskRequest, verifyAdminRequest } from '../task-api';
+import { triggerTask } from '../trigger-client';
+
+jest.mock('../trigger-client', () => ({
+  triggerTask: jest.fn()
+}));
+
+const mockTriggerTask = triggerTask as jest.MockedFunction<typeof triggerTask>;
+const allowedTasks = ['plan-task', 'full-code-review', 'codex-task'];
+
+describe('Task API', () => {
+  let tokens: ApiTokenRegistry;
+  let store: MemoryStateStore<ApiTokenRecord>;
+  let installations: InstallationRegistry;
+  let resolver: jest.Mocked<InstallationResolver>;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    store = new MemoryStateStore<ApiTokenRecord>();
+    tokens = new ApiTokenRegistry(store);
+    resolver = { getInstallation: jest.fn().mockResolvedValue(null), getRepositoryInstallation: jest.fn().mockResolvedValue(null) };
+    installations = new InstallationRegistry(new MemoryStateStore<InstallationRecord>(), resolver);
+    await installations.recordInstallation(456, 'acme', 'Organization', ['acme/api', 'acme/web']);
+    mockTriggerTask.mockResolvedValue({ id: 'run_1' } as any);
+  });
+
+  describe('tokens', () => {
+    it('should store only the hash of issued tokens', async () => {
+      const { token, record } = await tokens.issue(456, 'deploy-bot');
+
+      const [[key, stored]] = await store.entries();
+      expect(token).toMatch(/^ulp_[a-f0-9]{48}$/);
+      expect(key).toBe(`token:${hashApiToken(token)}`);
+      expect(JSON.stringify(stored)).not.toContain(token);
+      expect(record.tokenId).toBe(hashApiToken(token).slice(0, 12));
+    });
+
+    it('should authenticate bearer tokens until they are revoked', async () => {
+      const { token, record } = await tokens.issue(456, 'deploy-bot');
+
+      await expect(authenticateApiRequest(`Bearer ${token}`, tokens)).resolves.toMatchObject({ installationId: 456, lastUsedAt: expect.any(Number) });
+      expect(await tokens.revoke(record.tokenId)).toBe(true);
+      await expect(authenticateApiRequest(`Bearer ${token}`, tokens)).rejects.toMatchObject({ status: 401 });
+      await expect(authenticateApiRequest(null, tokens)).rejects.toBeInstanceOf(TaskApiError);
+    });
+
+    it('should require the configured admin token for token management', () => {
+      expect(() => verifyAdminRequest('Bearer admin-secret', 'admin-secret')).not.toThrow();
+      expect(() => verifyAdminRequest('Bearer wrong', 'admin-secret')).toThrow(TaskApiError);
+      expect(() => verifyAdminRequest('Bearer admin-secret', undefined)).toThrow(TaskApiError);
+    });
+  });
+
+  describe('validateTaskRequest', () => {
+    const valid = { taskId: 'plan-task', owner: 'acme', repo: 'api', issueNumber: 12, message: 'plan the cache rework' };
+
+    it('should accept registered tasks', () => {
+      expect(validateTaskRequest(valid, allowedTasks)).toEqual({ ...valid, requester: undefined });
+      expect(validateTaskRequest({ ...valid, message: undefined }, allowedTasks).message).toBe('');
+    });
+
+    it('should reject unknown tasks and malformed targets', () => {
+      expect(() => validateTaskRequest({ ...valid, taskId: 'pr-merge-progression-task' }, allowedTasks)).toThrow(/Unknown task/);
+      expect(() => validateTaskRequest({ ...valid, owner: '../etc' }, allowedTasks)).toThrow(TaskApiError);
+      expect(() => validateTaskRequest({ ...valid, issueNumber: '12' }, allowedTasks)).toThrow(/issueNumber/);
+      expect(() => validateTaskRequest(null, allowedTasks)).toThrow(/JSON object/);
+    });
+  });
+
+  describe('triggerApiTask', () => {
+    it('should trigger the task with the installation of the token', async () => {
+      const { record } = await tokens.issue(456, 'deploy-bot');
+
+      const result = await triggerApiTask(record, { taskId: 'codex-task', owner: 'acme', repo: 'web', issueNumber: 3, message: 'dev fix typo' }, installations);
+
+      expect(result).toEqual({ runId: 'run_1' });
+      expect(mockTriggerTask).toHaveBeenCalledWith('codex-task', expect.objectContaining({
+        owner: 'acme',
+        repo: 'web',
+        issueNumber: 3,
+        installationId: 456,
+        requester: 'deploy-bot',
+        message: 'dev fix typo'
+      }));
+    });
+
+    it('should refuse repositories outside the installation', async () => {
+      const { record } = await tokens.issue(456, 'deploy-bot');
+
+      await expect(triggerApiTask(record, { taskId: 'plan-task', owner: 'other', repo: 'api', issueNumber: 1, message: '' }, installations))
+        .rejects.toMatchObject({ status: 403 });
+      expect(mockTriggerTask).not.toHaveBeenCalled();
+    });
+
+    it('should look up repositories the registry has not recorded and remember them', async () => {
+      resolver.getRepositoryInstallation.mockResolvedValue({ installationId: 789, account: 'globex', accountType: 'User' });
+      const { record } = await tokens.issue(789, 'deploy-bot');
+      const request = { taskId: 'plan-task', owner: 'globex', repo: 'site', issueNumber: 1, message: '' };
+
+      await triggerApiTask(record, request, installations);
+      await triggerApiTask(record, request, installations);
+
+      expect(resolver.getRepositoryInstallation).toHaveBeenCalledTimes(1);
+      expect(resolver.getRepositoryInstallation).toHaveBeenCalledWith('globex', 'site');
+      expect(await installations.get(789)).toMatchObject({ account: 'globex', repositories: ['globex/site'] });
+      expect(mockTriggerTask).toHaveBeenCalledTimes(2);
+    });
+  });
+});
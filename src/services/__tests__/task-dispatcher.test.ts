@@ -0,0 +1,152 @@
+import { DeliveryLedger, DeliveryRecord } from '../delivery-ledger';
+import { createContextFromEvent, normalizeWebhookEvent } from '../event-router';
+import { handleInstallation } from '../event-handlers/installation';
+import { InstallationRecord, InstallationRegistry } from '../installation-registry';
+import { CommentRunRecord, RunRegistry } from '../run-registry';
+import { MemoryStateStore } from '../state-store';
+import { dispatchTasks } from '../task-dispatcher';
+import { cancelRunIfActive, triggerTask } from '../trigger-client';
+
+jest.mock('../trigger-client', () => ({
+  triggerTask: jest.fn(),
+  cancelRunIfActive: jest.fn()
+}));
+
+const mockTriggerTask = triggerTask as jest.MockedFunction<typeof triggerTask>;
+const mockCancelRunIfActive = cancelRunIfActive as jest.MockedFunction<typeof cancelRunIfActive>;
+
+function commentEvent(action: string, body: string, updatedAt = '2024-01-01T00:00:00Z') {
+  return normalizeWebhookEvent('issue_comment', `delivery-${action}-${updatedAt}`, {
+    action,
+    comment: { id: 7, body, updated_at: updatedAt, user: { login: 'octocat' } },
+    issue: { number: 42 },
+    repository: { name: 'test-repo', owner: { login: 'test-owner' } },
+    installation: { id: 456 }
+  });
+}
+
+function dispatchFor(event: ReturnType<typeof commentEvent>, taskId: string, message: string) {
+  return [{ taskId, context: createContextFromEvent(event, { issueNumber: 42, requester: 'octocat', message, commentId: 7 }) }];
+}
+
+describe('Task Dispatcher', () => {
+  let ledger: DeliveryLedger;
+  let registry: RunRegistry;
+  let runCounter: number;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    ledger = new DeliveryLedger(new MemoryStateStore<DeliveryRecord>());
+    registry = new RunRegistry(new MemoryStateStore<CommentRunRecord>());
+    runCounter = 0;
+    mockTriggerTask.mockImplementation(async () => ({ id: `run_${++runCounter}` }) as any);
+    mockCancelRunIfActive.mockResolvedValue(true);
+  });
+
+  it('should record the runs started by a command comment', async () => {
+    const event = commentEvent('created', '@l plan security');
+    const outcome = await dispatchTasks(event, dispatchFor(event, 'plan-task', 'plan security'), ledger, registry);
+
+    expect(outcome).toEqual({ status: 'triggered', runs: [{ taskId: 'plan-task', runId: 'run_1' }], cancelled: [] });
+    expect(await registry.getCommentRuns(7)).toMatchObject({ message: 'plan security', runs: [{ runId: 'run_1' }] });
+    expect(await registry.getCommentRuns(7, 'gitea')).toBeUndefined();
+  });
+
+  it('should cancel the previous run and start the corrected command when a comment is edited', async () => {
+    const created = commentEvent('created', '@l plan security');
+    await dispatchTasks(created, dispatchFor(created, 'plan-task', 'plan security'), ledger, registry);
+
+    const edited = commentEvent('edited', '@l plan performance', '2024-01-01T00:05:00Z');
+    const outcome = await dispatchTasks(edited, dispatchFor(edited, 'plan-task', 'plan performance'), ledger, registry);
+
+    expect(mockCancelRunIfActive).toHaveBeenCalledWith('run_1');
+    expect(outcome).toEqual({
+      status: 'triggered',
+      runs: [{ taskId: 'plan-task', runId: 'run_2' }],
+      cancelled: [{ taskId: 'plan-task', runId: 'run_1' }]
+    });
+    expect(await registry.getCommentRuns(7)).toMatchObject({ message: 'plan performance', runs: [{ runId: 'run_2' }] });
+  });
+
+  it('should keep the run when an edit leaves the command unchanged', async () => {
+    const created = commentEvent('created', '@l plan security');
+    await dispatchTasks(created, dispatchFor(created, 'plan-task', 'plan security'), ledger, registry);
+
+    const edited = commentEvent('edited', '@l  plan security', '2024-01-01T00:05:00Z');
+    const outcome = await dispatchTasks(edited, dispatchFor(edited, 'plan-task', 'plan security'), ledger, registry);
+
+    expect(outcome).toEqual({ status: 'unchanged' });
+    expect(mockCancelRunIfActive).not.toHaveBeenCalled();
+    expect(mockTriggerTask).toHaveBeenCalledTimes(1);
+  });
+
+  it('should link chained commands to the run triggered before them', async () => {
+    const event = commentEvent('created', '@l plan && approve');
+    const [plan] = dispatchFor(event, 'plan-task', 'plan');
+    const [approve] = dispatchFor(event, 'plan-approval-task', 'approve');
+    approve.context.chain = { requiresSuccess: true };
+
+    const outcome = await dispatchTasks(event, [plan, approve], ledger, registry);
+
+    expect(outcome).toMatchObject({ status: 'triggered', runs: [{ runId: 'run_1' }, { runId: 'run_2' }] });
+    expect(mockTriggerTask.mock.calls[0][1].chain).toBeUndefined();
+    expect(mockTriggerTask.mock.calls[1][1].chain).toEqual({ requiresSuccess: true, previousRunId: 'run_1' });
+    expect(await registry.getCommentRuns(7)).toMatchObject({ message: 'plan\napprove' });
+
+    // Re-saving the comment unchanged keeps both runs
+    const edited = commentEvent('edited', '@l plan && approve', '2024-01-01T00:05:00Z');
+    expect(await dispatchTasks(edited, [plan, approve], ledger, registry)).toEqual({ status: 'unchanged' });
+  });
+
+  it('should cancel the runs of a deleted comment', async () => {
+    const created = commentEvent('created', '@l plan security');
+    await dispatchTasks(created, dispatchFor(created, 'plan-task', 'plan security'), ledger, registry);
+
+    const outcome = await dispatchTasks(commentEvent('deleted', '@l plan security'), [], ledger, registry);
+
+    expect(outcome).toEqual({ status: 'triggered', runs: [], cancelled: [{ taskId: 'plan-task', runId: 'run_1' }] });
+    expect(await registry.getCommentRuns(7)).toBeUndefined();
+  });
+
+  it('should not report runs that already finished as cancelled', async () => {
+    const created = commentEvent('created', '@l plan security');
+    await dispatchTasks(created, dispatchFor(created, 'plan-task', 'plan security'), ledger, registry);
+    mockCancelRunIfActive.mockResolvedValue(false);
+
+    const outcome = await dispatchTasks(commentEvent('deleted', '@l plan security'), [], ledger, registry);
+
+    expect(outcome).toEqual({ status: 'triggered', runs: [], cancelled: [] });
+  });
+
+  it('should treat successive edits as separate events', async () => {
+    const first = commentEvent('edited', '@l plan a', '2024-01-01T00:05:00Z');
+    const second = commentEvent('edited', '@l plan b', '2024-01-01T00:06:00Z');
+
+    expect(first.contentHash).not.toBe(second.contentHash);
+  });
+});
+
+describe('Task Dispatcher for events without a subject', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTriggerTask.mockResolvedValue({ id: 'run_1' } as Awaited<ReturnType<typeof triggerTask>>);
+  });
+
+  it('should ignore redeliveries of events without a subject', async () => {
+    const ledger = new DeliveryLedger(new MemoryStateStore<DeliveryRecord>());
+    const registry = new RunRegistry(new MemoryStateStore<CommentRunRecord>());
+    const installations = new InstallationRegistry(new MemoryStateStore<InstallationRecord>());
+    const installation = normalizeWebhookEvent('installation', 'delivery-install', {
+      action: 'created',
+      installation: { id: 456, account: { login: 'test-owner', type: 'Organization' } },
+      repositories: [{ full_name: 'test-owner/test-repo' }]
+    });
+
+    await dispatchTasks(installation, await handleInstallation(installation, installations), ledger, registry);
+    const outcome = await dispatchTasks(installation, await handleInstallation(installation, installations), ledger, registry);
+
+    expect(outcome).toEqual({ status: 'duplicate', reason: 'delivery' });
+    expect(mockTriggerTask).toHaveBeenCalledTimes(1);
+    expect(mockTriggerTask.mock.calls[0][2]).toEqual({ idempotencyKey: 'repository-onboarding-task:delivery:delivery-install' });
+  });
+});
@@ -0,0 +1,115 @@
+// src/services/api-token-registry.ts
+
+import crypto from "crypto";
+import { createStateStore, StateStore } from "./state-store";
+
+// Issued tokens start with this prefix so they are recognizable in logs and secret scanners
+export const API_TOKEN_PREFIX = 'ulp_';
+
+/**
+ * An API token as stored; the token itself is never persisted, only its hash
+ */
+export interface ApiTokenRecord {
+  // First characters of the hash, used to refer to the token without revealing it
+  tokenId: string;
+  installationId: number;
+  label: string;
+  createdAt: number;
+  lastUsedAt: number | null;
+}
+
+/**
+ * Hashes a token for storage and lookup
+ */
+export function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+/**
+ * Tokens that let scripts trigger tasks for the repositories of one installation
+ * through the /api/tasks routes.
+ */
+export class ApiTokenRegistry {
+  constructor(
+    private readonly store: StateStore<ApiTokenRecord> = createStateStore<ApiTokenRecord>('api-tokens')
+  ) {}
+
+  /**
+   * Issues a new token for an installation
+   * @returns The token, which is only available now, and its stored record
+   */
+  async issue(installationId: number, label: string): Promise<{ token: string; record: ApiTokenRecord }> {
+    const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+    const hash = hashApiToken(token);
+    const record: ApiTokenRecord = {
+      tokenId: hash.slice(0, 12),
+      installationId,
+      label,
+      createdAt: Date.now(),
+      lastUsedAt: null
+    };
+
+    await this.store.set(this.key(hash), record);
+    return { token, record };
+  }
+
+  /**
+   * Looks up the record of a presented token and marks it as used
+   * @returns The record, or undefined for unknown or revoked tokens
+   */
+  async authenticate(token: string): Promise<ApiTokenRecord | undefined> {
+    if (!token.startsWith(API_TOKEN_PREFIX)) {
+      return undefined;
+    }
+
+    const key = this.key(hashApiToken(token));
+    const record = await this.store.get(key);
+    if (!record) {
+      return undefined;
+    }
+
+    const used = { ...record, lastUsedAt: Date.now() };
+    await this.store.set(key, used);
+    return used;
+  }
+
+  /**
+   * Revokes a token by its token ID
+   * @returns true if a token was revoked
+   */
+  async revoke(tokenId: string): Promise<boolean> {
+    for (const [key, record] of await this.store.entries()) {
+      if (record.tokenId === tokenId) {
+        await this.store.delete(key);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Lists the tokens of an installation, newest first
+   */
+  async list(installationId: number): Promise<ApiTokenRecord[]> {
+    return (await this.store.entries())
+      .map(([, record]) => record)
+      .filter(record => record.installationId === installationId)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  private key(hash: string): string {
+    return `token:${hash}`;
+  }
+}
+
+let _registry: ApiTokenRegistry | null = null;
+
+/**
+ * Shared registry instance used by the API routes
+ */
+export function getApiTokenRegistry(): ApiTokenRegistry {
+  if (!_registry) {
+    _registry = new ApiTokenRegistry();
+  }
+  return _registry;
+}
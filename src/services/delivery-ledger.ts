@@ -0,0 +1,142 @@
+// src/services/delivery-ledger.ts
+
+import crypto from "crypto";
+import { createStateStore, StateStore } from "./state-store";
+
+// GitHub lets deliveries be redelivered manually for a few days; keep entries a bit longer
+export const DELIVERY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Expired entries are swept after this many claims
+const PRUNE_INTERVAL = 100;
+
+/**
+ * Ledger entry persisted for each processed delivery
+ */
+export interface DeliveryRecord {
+  deliveryId: string | null;
+  // Null for events without a subject, which are only deduplicated by delivery ID
+  contentHash: string | null;
+  event: string | null;
+  receivedAt: number;
+}
+
+/**
+ * Outcome of trying to claim a delivery
+ */
+export interface DeliveryClaim {
+  duplicate: boolean;
+  reason?: 'delivery' | 'content';
+  contentHash: string | null;
+}
+
+/**
+ * Computes the content hash used to detect retries that arrive with a new delivery ID.
+ * The subject is the comment (or pull request) the event is about.
+ *
+ * @param subjectId The comment ID, or pull request ID for PR events
+ * @param action The webhook action (created, opened, ...)
+ * @returns A hex encoded SHA-256 hash
+ */
+export function computeContentHash(subjectId: string | number, action: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${subjectId}:${action}`, 'utf8')
+    .digest('hex');
+}
+
+/**
+ * Records processed webhook deliveries so redeliveries and retries never start
+ * a second run for the same event.
+ */
+export class DeliveryLedger {
+  private claimsSincePrune = 0;
+
+  constructor(
+    private readonly store: StateStore<DeliveryRecord> = createStateStore<DeliveryRecord>('delivery-ledger'),
+    private readonly retentionMs: number = DELIVERY_RETENTION_MS
+  ) {}
+
+  /**
+   * Claims a delivery for processing.
+   * Both the delivery ID and the content hash are recorded; a hit on either marks the delivery as a duplicate.
+   * Events without a subject, such as installations, have no content hash and are claimed by delivery ID alone.
+   */
+  async claim(deliveryId: string | null, contentHash: string | null, event: string | null = null): Promise<DeliveryClaim> {
+    if (++this.claimsSincePrune >= PRUNE_INTERVAL) {
+      this.claimsSincePrune = 0;
+      await this.prune();
+    }
+
+    const record: DeliveryRecord = {
+      deliveryId,
+      contentHash,
+      event,
+      receivedAt: Date.now()
+    };
+
+    if (deliveryId && !(await this.claimKey(`delivery:${deliveryId}`, record))) {
+      return { duplicate: true, reason: 'delivery', contentHash };
+    }
+
+    if (contentHash && !(await this.claimKey(`content:${contentHash}`, record))) {
+      // Keep the delivery ID recorded: this delivery is a duplicate either way
+      return { duplicate: true, reason: 'content', contentHash };
+    }
+
+    return { duplicate: false, contentHash };
+  }
+
+  /**
+   * Releases a claim so that GitHub's retry can be processed, e.g. after triggering failed
+   */
+  async release(deliveryId: string | null, contentHash: string | null): Promise<void> {
+    if (deliveryId) {
+      await this.store.delete(`delivery:${deliveryId}`);
+    }
+    if (contentHash) {
+      await this.store.delete(`content:${contentHash}`);
+    }
+  }
+
+  /**
+   * Removes entries older than the retention window
+   * @returns The number of removed entries
+   */
+  async prune(now: number = Date.now()): Promise<number> {
+    let removed = 0;
+    for (const [key, record] of await this.store.entries()) {
+      if (now - record.receivedAt > this.retentionMs) {
+        await this.store.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private async claimKey(key: string, record: DeliveryRecord): Promise<boolean> {
+    if (await this.store.setIfAbsent(key, record)) {
+      return true;
+    }
+
+    // Expired entries do not count as duplicates
+    const existing = await this.store.get(key);
+    if (existing && Date.now() - existing.receivedAt > this.retentionMs) {
+      await this.store.set(key, record);
+      return true;
+    }
+
+    return false;
+  }
+}
+
+let _ledger: DeliveryLedger | null = null;
+
+/**
+ * Shared ledger instance used by the webhook route
+ */
+export function getDeliveryLedger(): DeliveryLedger {
+  if (!_ledger) {
+    _ledger = new DeliveryLedger();
+  }
+  return _ledger;
+}
@@ -0,0 +1,53 @@
+import { normalizeWebhookEvent } from '../../event-router';
+import { createGitHubEventRouter } from '..';
+import { handleCheckCompleted } from '../check-run';
+
+const repositoryPayload = {
+  repository: { name: 'test-repo', owner: { login: 'test-owner' } },
+  installation: { id: 456 },
+  sender: { login: 'github-actions[bot]' }
+};
+
+function checkSuiteEvent(conclusion: string, headBranch = 'dev-issue-12', id = 800, deliveryId = 'delivery-1') {
+  return normalizeWebhookEvent('check_suite', deliveryId, {
+    ...repositoryPayload,
+    action: 'completed',
+    check_suite: {
+      id,
+      head_branch: headBranch,
+      head_sha: 'abc1234def',
+      conclusion,
+      app: { name: 'GitHub Actions' },
+      pull_requests: [{ number: 34, head: { ref: headBranch } }]
+    }
+  });
+}
+
+describe('Check Run Handler', () => {
+  it('should start the analysis when a check suite fails on a bot branch', () => {
+    const dispatches = handleCheckCompleted(checkSuiteEvent('failure'));
+
+    expect(dispatches).toHaveLength(1);
+    expect(dispatches[0].taskId).toBe('ci-failure-analysis-task');
+    expect(dispatches[0].context).toMatchObject({
+      issueNumber: 34,
+      ciFailure: { headBranch: 'dev-issue-12', headSha: 'abc1234def', checkSuiteId: 800, checkName: 'GitHub Actions' }
+    });
+  });
+
+  it('should ignore passing suites and branches not created by the bot', () => {
+    expect(handleCheckCompleted(checkSuiteEvent('success'))).toEqual([]);
+    expect(handleCheckCompleted(checkSuiteEvent('failure', 'feature/login'))).toEqual([]);
+    expect(handleCheckCompleted(checkSuiteEvent('timed_out'))).toHaveLength(1);
+  });
+
+  it('should leave single check runs to the completion of their suite', () => {
+    expect(createGitHubEventRouter().handles('check_run', 'completed')).toBe(false);
+  });
+
+  it('should analyze a commit once across its check suites', () => {
+    const otherSuite = checkSuiteEvent('failure', 'dev-issue-12', 801, 'delivery-2');
+
+    expect(checkSuiteEvent('failure').contentHash).toBe(otherSuite.contentHash);
+  });
+});
@@ -0,0 +1,85 @@
+import { createForgeClient } from '../../../trigger/forge-clients';
+import { normalizeGitLabEvent } from '../../forges';
+import { dispatchTasks } from '../../task-dispatcher';
+import { triggerTask } from '../../trigger-client';
+import { forgeCommandDispatches } from '../forge-command';
+
+jest.mock('../../trigger-client', () => ({
+  triggerTask: jest.fn(),
+  cancelRunIfActive: jest.fn()
+}));
+
+jest.mock('../../../trigger/forge-clients', () => ({
+  createForgeClient: jest.fn()
+}));
+
+const mockTriggerTask = triggerTask as jest.MockedFunction<typeof triggerTask>;
+const mockCreateForgeClient = createForgeClient as jest.MockedFunction<typeof createForgeClient>;
+const mockGetAuthorAssociation = jest.fn();
+
+function noteEvent(id: number, note: string) {
+  return normalizeGitLabEvent(`uuid-${id}`, {
+    object_kind: 'note',
+    user: { username: 'alice' },
+    project: { id: 77, path_with_namespace: 'group/app' },
+    object_attributes: { id, note, noteable_type: 'Issue' }
+  });
+}
+
+// Dispatches the command of a note the way the GitLab webhook route does
+async function comment(id: number, note: string, number: number, isPullRequest: boolean = false) {
+  const event = noteEvent(id, note);
+  const dispatches = await forgeCommandDispatches(event, { forge: 'gitlab', body: note, number, isPullRequest, commentId: id });
+  await dispatchTasks(event, dispatches);
+  return dispatches;
+}
+
+describe('Forge Command Dispatches', () => {
+  beforeAll(() => {
+    process.env.STATE_STORE = 'memory';
+  });
+
+  beforeEach(() => {
+    let runCounter = 0;
+    mockTriggerTask.mockImplementation(async () => ({ id: `run_${++runCounter}` }) as any);
+    mockGetAuthorAssociation.mockReset().mockResolvedValue('COLLABORATOR');
+    mockCreateForgeClient.mockResolvedValue({ getAuthorAssociation: mockGetAuthorAssociation, getFileContent: async () => null } as any);
+  });
+
+  it('should record the runs of a thread and hand them to @l status', async () => {
+    await comment(501, '@l plan', 3);
+
+    const [status] = await comment(502, '@l status', 3);
+
+    expect(status.taskId).toBe('status-task');
+    expect(status.context.threadRuns).toEqual([
+      { taskId: 'plan-task', runId: 'run_1', command: 'plan', requestedAt: expect.any(Number) }
+    ]);
+  });
+
+  it('should keep merge request threads apart from issues with the same number', async () => {
+    await comment(601, '@l plan', 4);
+
+    const [status] = await comment(602, '@l status', 4, true);
+
+    expect(status.context.threadRuns).toEqual([]);
+  });
+
+  it('should refuse commands beyond the access of the author on the forge', async () => {
+    mockGetAuthorAssociation.mockResolvedValue('CONTRIBUTOR');
+
+    const [plan] = await forgeCommandDispatches(noteEvent(701, '@l plan'), { forge: 'gitlab', body: '@l plan', number: 5, isPullRequest: false });
+
+    expect(mockGetAuthorAssociation).toHaveBeenCalledWith('alice');
+    expect(plan).toMatchObject({ taskId: 'command-feedback-task', context: { deniedPermission: { minimum: 'COLLABORATOR' } } });
+  });
+
+  it('should only run open commands when the access lookup fails', async () => {
+    mockGetAuthorAssociation.mockRejectedValue(new Error('GitLab API GET /users failed: 401'));
+    const command = { forge: 'gitlab' as const, body: '@l plan\n@l help', number: 5, isPullRequest: false };
+
+    const dispatches = await forgeCommandDispatches(noteEvent(702, command.body), command);
+
+    expect(dispatches.map(dispatch => dispatch.taskId)).toEqual(['command-feedback-task', 'help-task']);
+  });
+});
@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+import { normalizeGiteaEvent, verifyGiteaSignature } from '../../forges';
+import { handleGiteaIssueComment } from '../gitea';
+
+jest.mock('../../../trigger/forge-clients', () => ({
+  createForgeClient: async () => ({ getAuthorAssociation: async () => 'OWNER', getFileContent: async () => null })
+}));
+
+const repository = { name: 'app', full_name: 'mirrors/app', owner: { login: 'mirrors' } };
+const sender = { login: 'alice' };
+
+function commentEvent(body: string, isPull = false) {
+  return normalizeGiteaEvent('issue_comment', 'delivery-1', {
+    action: 'created',
+    issue: { number: 8, pull_request: isPull ? { merged: false } : null },
+    comment: { id: 4001, body },
+    repository,
+    sender,
+    is_pull: isPull
+  });
+}
+
+describe('Gitea Handlers', () => {
+  it('should normalize comment deliveries without an installation', () => {
+    const event = commentEvent('@l plan');
+
+    expect(event).toMatchObject({ name: 'issue_comment', action: 'created', owner: 'mirrors', repo: 'app', sender: 'alice', installationId: null });
+    expect(event.contentHash).not.toBe(normalizeGiteaEvent('issue_comment', 'delivery-2', { ...event.payload, action: 'edited' }).contentHash);
+  });
+
+  it('should dispatch the plan workflow with a Gitea context', async () => {
+    const [plan] = await handleGiteaIssueComment(commentEvent('@l plan'));
+    const [approval] = await handleGiteaIssueComment(commentEvent('@l approve'));
+
+    expect(plan.taskId).toBe('plan-task');
+    expect(plan.context).toMatchObject({ owner: 'mirrors', repo: 'app', issueNumber: 8, installationId: 0, forge: 'gitea', isPullRequest: false, commentId: 4001 });
+    expect(approval.taskId).toBe('plan-approval-task');
+  });
+
+  it('should mark pull request comments and ignore GitHub-only tasks', async () => {
+    expect(await handleGiteaIssueComment(commentEvent('@l r', true))).toMatchObject([
+      { taskId: 'full-code-review', context: { issueNumber: 8, isPullRequest: true } }
+    ]);
+    expect(await handleGiteaIssueComment(commentEvent('@l explain this thread'))).toEqual([]);
+  });
+
+  it('should verify the hex HMAC signature of the raw body', () => {
+    const body = JSON.stringify({ action: 'created' });
+    const signature = crypto.createHmac('sha256', 'secret').update(body).digest('hex');
+
+    expect(verifyGiteaSignature(body, signature, 'secret')).toBe(true);
+    expect(verifyGiteaSignature(body, `sha256=${signature}`, 'secret')).toBe(false);
+    expect(verifyGiteaSignature(`${body} `, signature, 'secret')).toBe(false);
+    expect(verifyGiteaSignature(body, signature, undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+import { normalizeGitLabEvent, verifyGitLabToken } from '../../forges';
+import { handleGitLabMergeRequest, handleGitLabNote } from '../gitlab';
+
+jest.mock('../../../trigger/forge-clients', () => ({
+  createForgeClient: async () => ({ getAuthorAssociation: async () => 'OWNER', getFileContent: async () => null })
+}));
+
+const project = { id: 77, path_with_namespace: 'group/subgroup/app' };
+const user = { username: 'alice' };
+
+function noteEvent(note: string, noteableType: 'Issue' | 'MergeRequest' | 'Commit' = 'Issue') {
+  return normalizeGitLabEvent('uuid-1', {
+    object_kind: 'note',
+    user,
+    project,
+    object_attributes: { id: 501, note, noteable_type: noteableType },
+    issue: noteableType === 'Issue' ? { iid: 3 } : undefined,
+    merge_request: noteableType === 'MergeRequest' ? { iid: 9 } : undefined
+  });
+}
+
+describe('GitLab Handlers', () => {
+  it('should normalize nested namespaces into owner and repo', () => {
+    const event = noteEvent('@l plan');
+
+    expect(event).toMatchObject({ name: 'note', action: 'create', owner: 'group/subgroup', repo: 'app', sender: 'alice', installationId: null });
+    expect(event.contentHash).toEqual(expect.any(String));
+  });
+
+  it('should dispatch issue notes with a GitLab context', async () => {
+    const dispatches = await handleGitLabNote(noteEvent('@l plan'));
+
+    expect(dispatches).toHaveLength(1);
+    expect(dispatches[0].taskId).toBe('plan-task');
+    expect(dispatches[0].context).toMatchObject({
+      owner: 'group/subgroup',
+      repo: 'app',
+      issueNumber: 3,
+      requester: 'alice',
+      installationId: 0,
+      forge: 'gitlab',
+      isPullRequest: false,
+      commentId: 501
+    });
+  });
+
+  it('should mark merge request notes as pull requests', async () => {
+    const dispatches = await handleGitLabNote(noteEvent('@l r', 'MergeRequest'));
+
+    expect(dispatches[0]).toMatchObject({ taskId: 'full-code-review', context: { issueNumber: 9, isPullRequest: true } });
+  });
+
+  it('should ignore commit notes and tasks that only run on GitHub', async () => {
+    expect(await handleGitLabNote(noteEvent('@l plan', 'Commit'))).toEqual([]);
+    expect(await handleGitLabNote(noteEvent('@l explain this thread'))).toEqual([]);
+  });
+
+  it('should pick up commands from merge request descriptions', async () => {
+    const event = normalizeGitLabEvent('uuid-2', {
+      object_kind: 'merge_request',
+      user,
+      project,
+      object_attributes: { id: 600, iid: 4, action: 'open', title: 'Add cache', description: '@l review' }
+    });
+
+    const dispatches = await handleGitLabMergeRequest(event);
+
+    expect(dispatches[0]).toMatchObject({ taskId: 'full-code-review', context: { issueNumber: 4, isPullRequest: true } });
+  });
+
+  it('should verify the webhook token', () => {
+    expect(verifyGitLabToken('secret', 'secret')).toBe(true);
+    expect(verifyGitLabToken('wrong', 'secret')).toBe(false);
+    expect(verifyGitLabToken(null, 'secret')).toBe(false);
+    expect(verifyGitLabToken('secret', undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { normalizeWebhookEvent } from '../../event-router';
+import { InstallationRecord, InstallationRegistry } from '../../installation-registry';
+import { MemoryStateStore } from '../../state-store';
+import { handleInstallation, handleInstallationRepositories, opensWelcomeIssues } from '../installation';
+
+const installation = { id: 456, account: { login: 'test-org', type: 'Organization' } };
+const sender = { login: 'octocat' };
+
+describe('Installation Handlers', () => {
+  let registry: InstallationRegistry;
+
+  beforeEach(() => {
+    registry = new InstallationRegistry(new MemoryStateStore<InstallationRecord>());
+  });
+
+  it('should record the installation and onboard every repository', async () => {
+    const event = normalizeWebhookEvent('installation', 'delivery-1', {
+      action: 'created',
+      installation,
+      sender,
+      repositories: [{ full_name: 'test-org/api' }, { full_name: 'test-org/web' }]
+    });
+
+    const dispatches = await handleInstallation(event, registry);
+
+    expect(dispatches.map(dispatch => dispatch.taskId)).toEqual(['repository-onboarding-task', 'repository-onboarding-task']);
+    expect(dispatches[1].context).toMatchObject({ owner: 'test-org', repo: 'web', installationId: 456, requester: 'octocat', welcomeIssue: true });
+    expect(await registry.get(456)).toMatchObject({
+      account: 'test-org',
+      accountType: 'Organization',
+      repositories: ['test-org/api', 'test-org/web'],
+      removedAt: null
+    });
+  });
+
+  it('should only onboard added repositories and keep the registry in sync', async () => {
+    await registry.recordInstallation(456, 'test-org', 'Organization', ['test-org/api', 'test-org/web']);
+
+    const added = await handleInstallationRepositories(normalizeWebhookEvent('installation_repositories', 'delivery-2', {
+      action: 'added',
+      installation,
+      sender,
+      repositories_added: [{ full_name: 'test-org/docs' }],
+      repositories_removed: []
+    }), registry);
+    const removed = await handleInstallationRepositories(normalizeWebhookEvent('installation_repositories', 'delivery-3', {
+      action: 'removed',
+      installation,
+      sender,
+      repositories_added: [],
+      repositories_removed: [{ full_name: 'test-org/web' }]
+    }), registry);
+
+    expect(added.map(dispatch => dispatch.context.repo)).toEqual(['docs']);
+    expect(removed).toEqual([]);
+    expect((await registry.get(456))?.repositories).toEqual(['test-org/api', 'test-org/docs']);
+  });
+
+  it('should onboard bulk installs without welcome issues', async () => {
+    const repositories = Array.from({ length: 6 }, (_, index) => ({ full_name: `test-org/repo-${index}` }));
+
+    const dispatches = await handleInstallation(
+      normalizeWebhookEvent('installation', 'delivery-5', { action: 'created', installation, sender, repositories }),
+      registry
+    );
+
+    expect(dispatches).toHaveLength(6);
+    expect(dispatches.every(dispatch => dispatch.context.welcomeIssue === false)).toBe(true);
+  });
+
+  it('should read the welcome issue settings from the environment', () => {
+    expect(opensWelcomeIssues(5, {})).toBe(true);
+    expect(opensWelcomeIssues(1, { ONBOARDING_WELCOME_ISSUE: 'false' })).toBe(false);
+    expect(opensWelcomeIssues(20, { ONBOARDING_MAX_WELCOME_ISSUES: '50' })).toBe(true);
+    expect(opensWelcomeIssues(1, { ONBOARDING_MAX_WELCOME_ISSUES: '0' })).toBe(false);
+  });
+
+  it('should keep removed installations for admin views', async () => {
+    await registry.recordInstallation(456, 'test-org', 'Organization', ['test-org/api']);
+
+    await handleInstallation(normalizeWebhookEvent('installation', 'delivery-4', { action: 'deleted', installation, sender }), registry);
+
+    expect(await registry.list()).toEqual([]);
+    expect((await registry.list(true))[0].removedAt).not.toBeNull();
+  });
+});
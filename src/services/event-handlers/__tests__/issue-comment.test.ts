@@ -0,0 +1,147 @@
+import { normalizeWebhookEvent, InvalidWebhookPayloadError } from '../../event-router';
+import { handleIssueComment, shouldProcessComment } from '../issue-comment';
+import { getRunRegistry } from '../../run-registry';
+import { createAuthenticatedOctokit } from '../../../trigger/github-auth';
+
+jest.mock('../../../trigger/github-auth', () => ({
+  createAuthenticatedOctokit: jest.fn()
+}));
+
+function commentEvent(body: string, login = 'octocat', overrides: Record<string, unknown> = {}) {
+  return normalizeWebhookEvent('issue_comment', 'delivery-1', {
+    action: 'created',
+    comment: { id: 1, body, user: { login }, author_association: 'OWNER' },
+    issue: { number: 42 },
+    repository: { name: 'test-repo', owner: { login: 'test-owner' } },
+    installation: { id: 456 },
+    ...overrides
+  });
+}
+
+describe('Issue Comment Handler', () => {
+  it('should dispatch the task for an @l command', async () => {
+    const dispatches = await handleIssueComment(commentEvent('@l plan add caching'));
+
+    expect(dispatches).toHaveLength(1);
+    expect(dispatches[0].taskId).toBe('plan-task');
+    expect(dispatches[0].context).toMatchObject({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      issueNumber: 42,
+      requester: 'octocat',
+      installationId: 456,
+      message: 'plan add caching'
+    });
+  });
+
+  it('should dispatch every command of a comment, chaining the later ones', async () => {
+    const dispatches = await handleIssueComment(commentEvent('@l plan security\n@l r\n@l plan && approve'));
+
+    expect(dispatches.map(dispatch => [dispatch.taskId, dispatch.context.message, dispatch.context.chain])).toEqual([
+      ['plan-task', 'plan security', undefined],
+      ['full-code-review', 'r', { requiresSuccess: false }],
+      ['plan-task', 'plan', { requiresSuccess: false }],
+      ['plan-approval-task', 'approve', { requiresSuccess: true }]
+    ]);
+  });
+
+  it('should hand the runs of the thread to @l status', async () => {
+    process.env.STATE_STORE = 'memory';
+    await getRunRegistry().recordCommentRuns({
+      commentId: 7,
+      owner: 'test-owner',
+      repo: 'test-repo',
+      issueNumber: 42,
+      message: 'plan',
+      runs: [{ taskId: 'plan-task', runId: 'run_plan' }]
+    });
+
+    const [status] = await handleIssueComment(commentEvent('@l status'));
+    const [plan] = await handleIssueComment(commentEvent('@l plan'));
+
+    expect(status.taskId).toBe('status-task');
+    expect(status.context.threadRuns).toEqual([
+      { taskId: 'plan-task', runId: 'run_plan', command: 'plan', requestedAt: expect.any(Number) }
+    ]);
+    expect(plan.context.threadRuns).toBeUndefined();
+  });
+
+  it('should ignore comments without a mention', async () => {
+    expect(await handleIssueComment(commentEvent('just a regular comment'))).toEqual([]);
+  });
+
+  it('should ignore the bot unless it uses the self@ prefix', async () => {
+    expect(await handleIssueComment(commentEvent('@l r', 'uwularpy'))).toEqual([]);
+    expect(shouldProcessComment('uwularpy', 'self@ r')).toBe(true);
+    expect(shouldProcessComment('octocat', '@l r')).toBe(true);
+  });
+
+  it('should reject payloads without an issue number', async () => {
+    await expect(handleIssueComment(commentEvent('@l r', 'octocat', { issue: undefined })))
+      .rejects.toThrow(InvalidWebhookPayloadError);
+  });
+
+  it('should reject payloads without an installation', async () => {
+    await expect(handleIssueComment(commentEvent('@l r', 'octocat', { installation: undefined })))
+      .rejects.toThrow('Missing installation ID');
+  });
+});
+
+describe('Issue Comment Permissions', () => {
+  it('should answer commands the author may not run with a refusal', async () => {
+    const dispatches = await handleIssueComment(commentEvent('@l plan\n@l help', 'stranger', {
+      comment: { id: 1, body: '@l plan\n@l help', user: { login: 'stranger' }, author_association: 'NONE' }
+    }));
+
+    expect(dispatches.map(dispatch => dispatch.taskId)).toEqual(['command-feedback-task', 'help-task']);
+    expect(dispatches[0].context).toMatchObject({ message: 'plan', deniedPermission: { minimum: 'COLLABORATOR' } });
+  });
+
+  it('should let members of a team listed for the repository run the command', async () => {
+    process.env.COMMAND_PERMISSIONS = JSON.stringify({ 'test-owner/*': { plan: { minimum: 'OWNER', teams: ['planners'] } } });
+    const getMembershipForUserInOrg = jest.fn().mockResolvedValue({ data: { state: 'active' } });
+    (createAuthenticatedOctokit as jest.Mock).mockResolvedValue({ teams: { getMembershipForUserInOrg } });
+
+    try {
+      const [dispatch] = await handleIssueComment(commentEvent('@l plan', 'carol', {
+        comment: { id: 1, body: '@l plan', user: { login: 'carol' }, author_association: 'CONTRIBUTOR' }
+      }));
+
+      expect(dispatch.taskId).toBe('plan-task');
+      expect(getMembershipForUserInOrg).toHaveBeenCalledWith({ org: 'test-owner', team_slug: 'planners', username: 'carol' });
+    } finally {
+      delete process.env.COMMAND_PERMISSIONS;
+    }
+  });
+
+  it('should apply the permissions of the repository configuration file', async () => {
+    const content = Buffer.from('permissions:\n  help: COLLABORATOR\n').toString('base64');
+    const getContent = jest.fn().mockResolvedValue({ data: { content } });
+    (createAuthenticatedOctokit as jest.Mock).mockResolvedValue({ repos: { getContent } });
+
+    const [dispatch] = await handleIssueComment(commentEvent('@l help', 'dave', {
+      comment: { id: 1, body: '@l help', user: { login: 'dave' }, author_association: 'CONTRIBUTOR' }
+    }));
+
+    expect(getContent).toHaveBeenCalledWith(expect.objectContaining({ path: '.github/uwularpy.yml' }));
+    expect(dispatch.taskId).toBe('command-feedback-task');
+    expect(dispatch.context.deniedPermission).toEqual({ minimum: 'COLLABORATOR' });
+  });
+
+  it('should expand the aliases of the repository configuration before checking permissions', async () => {
+    const content = Buffer.from('aliases:\n  ship: [approve, status]\n').toString('base64');
+    const getContent = jest.fn().mockImplementation(async ({ repo }) => {
+      if (repo !== 'test-repo') {
+        throw Object.assign(new Error('Not Found'), { status: 404 });
+      }
+      return { data: { content } };
+    });
+    (createAuthenticatedOctokit as jest.Mock).mockResolvedValue({ repos: { getContent } });
+
+    const dispatches = await handleIssueComment(commentEvent('@l ship'));
+
+    expect(dispatches.map(dispatch => dispatch.taskId)).toEqual(['plan-approval-task', 'status-task']);
+    expect(dispatches[0].context).toMatchObject({ message: 'approve' });
+    expect(dispatches[1].context).toMatchObject({ message: 'status', chain: { requiresSuccess: true } });
+  });
+});
@@ -0,0 +1,68 @@
+import { normalizeWebhookEvent, InvalidWebhookPayloadError } from '../../event-router';
+import { handlePullRequestReviewComment } from '../pull-request-review-comment';
+
+function reviewCommentEvent(body: string, commentOverrides: Record<string, unknown> = {}) {
+  return normalizeWebhookEvent('pull_request_review_comment', 'delivery-1', {
+    action: 'created',
+    comment: {
+      id: 11,
+      body,
+      user: { login: 'octocat' },
+      author_association: 'COLLABORATOR',
+      path: 'src/index.ts',
+      start_line: 10,
+      line: 12,
+      original_line: 12,
+      diff_hunk: '@@ -10,3 +10,3 @@\n-const a = b.c;\n+const a = b?.c;',
+      commit_id: 'abc123',
+      ...commentOverrides
+    },
+    pull_request: {
+      number: 7,
+      head: { ref: 'feature-branch', repo: { full_name: 'test-owner/test-repo' } }
+    },
+    repository: { name: 'test-repo', owner: { login: 'test-owner' } },
+    installation: { id: 456 }
+  });
+}
+
+describe('Pull Request Review Comment Handler', () => {
+  it('should dispatch with the diff location in the context', async () => {
+    const dispatches = await handlePullRequestReviewComment(reviewCommentEvent('@l dev make this null-safe'));
+
+    expect(dispatches).toHaveLength(1);
+    expect(dispatches[0].taskId).toBe('codex-task');
+    expect(dispatches[0].context).toMatchObject({
+      issueNumber: 7,
+      requester: 'octocat',
+      message: 'dev make this null-safe',
+      reviewComment: {
+        commentId: 11,
+        threadCommentId: 11,
+        path: 'src/index.ts',
+        startLine: 10,
+        line: 12,
+        commitId: 'abc123',
+        headBranch: 'feature-branch',
+        headRepository: 'test-owner/test-repo'
+      }
+    });
+  });
+
+  it('should reply in the thread the comment belongs to', async () => {
+    const dispatches = await handlePullRequestReviewComment(
+      reviewCommentEvent('@l r', { in_reply_to_id: 3, line: null, start_line: null, original_line: 8 })
+    );
+
+    expect(dispatches[0].context.reviewComment).toMatchObject({ threadCommentId: 3, startLine: null, line: 8 });
+  });
+
+  it('should ignore review comments without a mention', async () => {
+    expect(await handlePullRequestReviewComment(reviewCommentEvent('looks good to me'))).toEqual([]);
+  });
+
+  it('should reject comments without a file path', async () => {
+    await expect(handlePullRequestReviewComment(reviewCommentEvent('@l r', { path: undefined })))
+      .rejects.toThrow(InvalidWebhookPayloadError);
+  });
+});
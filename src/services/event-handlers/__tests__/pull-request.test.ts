@@ -0,0 +1,26 @@
+import { normalizeWebhookEvent } from '../../event-router';
+import { handlePullRequest } from '../pull-request';
+
+function pullRequestEvent(action: string, merged = false) {
+  return normalizeWebhookEvent('pull_request', 'delivery-1', {
+    action,
+    pull_request: { id: 7, number: 12, title: 'Fix things', merged, user: { login: 'copilot' } },
+    repository: { name: 'test-repo', owner: { login: 'test-owner' } },
+    installation: { id: 456 }
+  });
+}
+
+describe('Pull Request Handler', () => {
+  it('should start PR monitoring when a PR is opened', () => {
+    const dispatches = handlePullRequest(pullRequestEvent('opened'));
+    expect(dispatches).toHaveLength(1);
+    expect(dispatches[0].taskId).toBe('pr-monitoring-task');
+    expect(dispatches[0].context.issueNumber).toBe(12);
+    expect(dispatches[0].context.message).toBe('PR opened: Fix things');
+  });
+
+  it('should start merge progression only for merged PRs', () => {
+    expect(handlePullRequest(pullRequestEvent('closed', true))[0].taskId).toBe('pr-merge-progression-task');
+    expect(handlePullRequest(pullRequestEvent('closed', false))).toEqual([]);
+  });
+});
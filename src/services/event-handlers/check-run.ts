@@ -0,0 +1,81 @@
+// src/services/event-handlers/check-run.ts
+
+import { createContextFromEvent, TaskDispatch, WebhookEvent } from "../event-router";
+import { CiFailureContext } from "../task-types";
+
+// Branches created by the codex task for @l dev requests
+const BOT_BRANCH_PATTERN = /^dev-issue-\d+$/;
+
+// Conclusions that mean the check did not pass because of the code
+const FAILED_CONCLUSIONS = ['failure', 'timed_out'];
+
+interface CheckPullRequest {
+  number: number;
+  head?: { ref: string };
+}
+
+/**
+ * Fields of the check_suite payload used by the handler
+ */
+export interface CheckEventPayload {
+  action: string;
+  check_suite?: {
+    id: number;
+    head_branch: string | null;
+    head_sha: string;
+    conclusion: string | null;
+    app?: { name?: string };
+    pull_requests?: CheckPullRequest[];
+  };
+}
+
+/**
+ * Extracts the failed check suite, or null when it passed or did not run on a bot branch
+ */
+export function getFailedCheck(payload: CheckEventPayload): { failure: CiFailureContext; pullRequests: CheckPullRequest[] } | null {
+  const checkSuite = payload.check_suite;
+  if (!checkSuite?.conclusion || !FAILED_CONCLUSIONS.includes(checkSuite.conclusion) || !BOT_BRANCH_PATTERN.test(checkSuite.head_branch ?? '')) {
+    return null;
+  }
+
+  return {
+    failure: {
+      headBranch: checkSuite.head_branch ?? '',
+      headSha: checkSuite.head_sha,
+      checkSuiteId: checkSuite.id,
+      checkName: checkSuite.app?.name ?? 'check suite',
+    },
+    pullRequests: checkSuite.pull_requests ?? []
+  };
+}
+
+/**
+ * Starts the CI failure analysis when a check suite fails on a bot-created pull request.
+ * The analysis covers every failed check of the commit, so it waits for the suite
+ * instead of starting once per failing check run.
+ */
+export function handleCheckCompleted(event: WebhookEvent<CheckEventPayload>): TaskDispatch[] {
+  const failedCheck = getFailedCheck(event.payload);
+  if (!failedCheck || !event.owner || !event.repo || !event.installationId) {
+    return [];
+  }
+
+  const { failure, pullRequests } = failedCheck;
+  const pullRequest = pullRequests.find(candidate => candidate.head?.ref === failure.headBranch) ?? pullRequests[0];
+  if (!pullRequest) {
+    console.log(`Check ${failure.checkName} failed on ${failure.headBranch} without an open pull request`);
+    return [];
+  }
+
+  return [{
+    taskId: 'ci-failure-analysis-task',
+    context: {
+      ...createContextFromEvent(event, {
+        issueNumber: pullRequest.number,
+        requester: event.sender || 'unknown',
+        message: `CI failed: ${failure.checkName}`,
+      }),
+      ciFailure: failure,
+    },
+  }];
+}
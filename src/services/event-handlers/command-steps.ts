@@ -0,0 +1,234 @@
+// src/services/event-handlers/command-steps.ts
+
+import { CommandStep, getCommandContextFields, IntentRoutingContext, routeCommand } from "../../lib/command-parser";
+import { CatalogEntry, getCommandCatalog } from "../../lib/command-catalog";
+import { CommandPermission, getCommandPermission, meetsPermissionLevel, parseTeamReference } from "../../lib/command-permissions";
+import { expandCommandSteps, findAliasName } from "../../lib/command-aliases";
+import { GlobalConfig } from "../../lib/config";
+import { TaskDispatch } from "../event-router";
+import { getRunRegistry } from "../run-registry";
+import { GitHubContext, ThreadRun } from "../task-types";
+
+// Most recent runs handed to commands that declare threadRuns
+const MAX_THREAD_RUNS = 10;
+// The webhook waits for the AI classification of all the commands of a comment at most this long together
+const CLASSIFICATION_BUDGET_MS = 3000;
+
+/**
+ * Author of a comment, as far as permissions are concerned
+ */
+export interface CommandAuthor {
+  login: string;
+  // author_association of the comment, or the author's access level on other forges mapped to one;
+  // unknown associations count as NONE
+  association?: string;
+}
+
+/**
+ * How the commands of a comment are turned into dispatches
+ */
+export interface CommandStepOptions {
+  // Leaves out tasks that can't run where the comment was written
+  isAvailable?: (taskId: string) => boolean;
+  // Checks every command against its permission when set
+  author?: CommandAuthor;
+}
+
+/**
+ * Checks whether a user belongs to a GitHub team, through the installation of the repository.
+ * Lookups that fail count as not a member.
+ */
+export async function isTeamMember(installationId: number, org: string, slug: string, login: string): Promise<boolean> {
+  try {
+    const { createAuthenticatedOctokit } = await import("../../trigger/github-auth");
+    const octokit = await createAuthenticatedOctokit(installationId);
+    const { data } = await octokit.teams.getMembershipForUserInOrg({ org, team_slug: slug, username: login });
+    return data.state === 'active';
+  } catch (error) {
+    console.warn(`Could not check whether ${login} is in team ${org}/${slug}:`, error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
+/**
+ * Checks whether an author may run a command: their association reaches the minimum level,
+ * or they belong to one of the listed teams
+ * @param isMember Looks up team membership, only called when the association isn't enough
+ */
+export async function hasCommandPermission(
+  permission: CommandPermission,
+  author: CommandAuthor,
+  owner: string,
+  isMember: (org: string, slug: string) => Promise<boolean>
+): Promise<boolean> {
+  if (meetsPermissionLevel(author.association, permission.minimum)) {
+    return true;
+  }
+  for (const team of permission.teams ?? []) {
+    const { org, slug } = parseTeamReference(team, owner);
+    if (await isMember(org, slug)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Lists the runs started from the thread by earlier commands, oldest first
+ */
+export async function loadThreadRuns(context: GitHubContext): Promise<ThreadRun[]> {
+  const records = await getRunRegistry().getThreadRuns(context);
+  return records.flatMap(record => record.runs.map(run => ({
+    taskId: run.taskId,
+    runId: run.runId,
+    command: record.message,
+    requestedAt: record.recordedAt,
+  })));
+}
+
+/**
+ * Derives what the commands written earlier in the thread tell about the next one
+ */
+export async function loadIntentContext(context: GitHubContext): Promise<IntentRoutingContext> {
+  const runs = await loadThreadRuns(context);
+
+  return {
+    recentMilestone: runs.some(run => run.taskId === 'plan-task'),
+    lastTaskType: runs[runs.length - 1]?.taskId,
+  };
+}
+
+/**
+ * Sections of the repository's configuration that shape how commands are dispatched
+ */
+export type RepositoryCommandConfig = Required<Pick<GlobalConfig, 'permissions' | 'aliases'>>;
+
+/**
+ * Reads the repository's configuration for its command permissions and aliases.
+ * When it can't be read, the COMMAND_PERMISSIONS and task defaults apply and no aliases are defined.
+ */
+export async function loadRepositoryCommandConfig(context: GitHubContext): Promise<RepositoryCommandConfig> {
+  try {
+    const { createForgeClient } = await import("../../trigger/forge-clients");
+    const { readRepositoryConfig } = await import("../../trigger/repository-config");
+    const { permissions, aliases } = await readRepositoryConfig(await createForgeClient(context));
+    return { permissions: permissions ?? {}, aliases: aliases ?? {} };
+  } catch (error) {
+    console.warn("Could not read the repository's command configuration:", error instanceof Error ? error.message : error);
+    return { permissions: {}, aliases: {} };
+  }
+}
+
+// Expands the repository's aliases, reading its configuration only when a command may be one
+async function expandRepositoryAliases(
+  steps: CommandStep[],
+  getRepositoryConfig: () => Promise<RepositoryCommandConfig>
+): Promise<CommandStep[]> {
+  if (!steps.some(step => findAliasName(step.parsed))) {
+    return steps;
+  }
+  return expandCommandSteps(steps, (await getRepositoryConfig()).aliases);
+}
+
+// Permission the author lacks for a command, undefined when they may run it
+async function findDeniedPermission(
+  entry: CatalogEntry | undefined,
+  context: GitHubContext,
+  author: CommandAuthor,
+  repositoryPermissions: Record<string, CommandPermission>,
+  isMember: (org: string, slug: string) => Promise<boolean>
+): Promise<CommandPermission | undefined> {
+  const permission = getCommandPermission(entry, context.owner, context.repo, process.env, repositoryPermissions);
+  if (await hasCommandPermission(permission, author, context.owner, isMember)) {
+    return undefined;
+  }
+  console.log(`${author.login} (${author.association ?? 'NONE'}) may not run @l ${entry?.name}, replying with a refusal`);
+  return permission;
+}
+
+/**
+ * Turns the commands of a comment into dispatches, in the order they were written.
+ * Every command after the first is part of a chain: the dispatcher links it to the run
+ * started before it, and the task waits for that run to finish.
+ * Commands written with one of the repository's aliases are expanded first, and
+ * commands the author isn't allowed to run are answered with a refusal instead.
+ * @param context Context shared by the commands, the message is set per command
+ */
+export async function commandStepDispatches(
+  steps: CommandStep[],
+  context: GitHubContext,
+  { isAvailable = () => true, author }: CommandStepOptions = {}
+): Promise<TaskDispatch[]> {
+  const dispatches: TaskDispatch[] = [];
+  // A comment often lists the same team for several commands, each is looked up once
+  const memberships = new Map<string, Promise<boolean>>();
+  const isMember = (org: string, slug: string) => {
+    const key = `${org}/${slug}`.toLowerCase();
+    let membership = memberships.get(key);
+    if (!membership) {
+      // Teams are GitHub teams, authors on other forges are never members
+      membership = (context.forge ?? 'github') === 'github'
+        ? isTeamMember(context.installationId, org, slug, author?.login ?? '')
+        : Promise.resolve(false);
+      memberships.set(key, membership);
+    }
+    return membership;
+  };
+  // Read once per comment, only when the author's permissions are checked or a command may be an alias
+  let repositoryConfig: Promise<RepositoryCommandConfig> | undefined;
+  const getRepositoryConfig = () => {
+    if (!repositoryConfig) {
+      repositoryConfig = loadRepositoryCommandConfig(context);
+    }
+    return repositoryConfig;
+  };
+  // Only loaded when a command needs the AI classification, and then once per comment
+  let intentContext: Promise<IntentRoutingContext> | undefined;
+  const getIntentContext = () => {
+    if (!intentContext) {
+      const classificationSignal = AbortSignal.timeout(CLASSIFICATION_BUDGET_MS);
+      intentContext = loadIntentContext(context)
+        .catch(error => {
+          console.warn("Could not load the thread's earlier commands:", error instanceof Error ? error.message : error);
+          return {};
+        })
+        .then(threadContext => ({ ...threadContext, classificationSignal }));
+    }
+    return intentContext;
+  };
+
+  for (const step of await expandRepositoryAliases(steps, getRepositoryConfig)) {
+    const route = await routeCommand(step.parsed, getIntentContext);
+    console.log(`Determined task type for "${step.parsed.fullText}": ${route?.taskId ?? null}`);
+    if (!route || !isAvailable(route.taskId)) {
+      continue;
+    }
+
+    const chain = dispatches.length > 0 ? { chain: { requiresSuccess: step.requiresSuccess } } : {};
+    const entry = getCommandCatalog().find(candidate => candidate.taskId === route.taskId);
+    const deniedPermission = author && await findDeniedPermission(entry, context, author, (await getRepositoryConfig()).permissions, isMember);
+    if (deniedPermission) {
+      dispatches.push({
+        taskId: 'command-feedback-task',
+        context: { ...context, message: step.parsed.fullText, deniedPermission, ...chain },
+      });
+      continue;
+    }
+
+    const threadRuns = entry?.threadRuns ? (await loadThreadRuns(context)).slice(-MAX_THREAD_RUNS) : undefined;
+
+    dispatches.push({
+      taskId: route.taskId,
+      context: {
+        ...context,
+        ...(threadRuns ? { threadRuns } : {}),
+        message: step.parsed.fullText,
+        ...getCommandContextFields(step.parsed),
+        ...(route.suggestions ? { commandSuggestions: route.suggestions } : {}),
+        ...chain,
+      },
+    });
+  }
+
+  return dispatches;
+}
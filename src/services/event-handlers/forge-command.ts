@@ -0,0 +1,82 @@
+// src/services/event-handlers/forge-command.ts
+
+import { parseCommands } from "../../lib/command-parser";
+import { AuthorAssociation } from "../../lib/command-permissions";
+import { TaskDispatch, WebhookEvent } from "../event-router";
+import { FORGE_NEUTRAL_TASKS } from "../forges";
+import { ForgeContext, ForgeKind, generateRequestId } from "../task-types";
+import { commandStepDispatches } from "./command-steps";
+
+const FORGE_NAMES: Record<ForgeKind, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  gitea: 'Gitea',
+};
+
+export interface ForgeCommand {
+  forge: ForgeKind;
+  body: string;
+  number: number;
+  isPullRequest: boolean;
+  // Note or comment that carried the command, unset for merge request descriptions
+  commentId?: number;
+}
+
+/**
+ * Asks the forge about the author's access to the repository, which its comment webhooks don't tell.
+ * Lookups that fail count as no access, so commands that declare a permission are refused.
+ */
+export async function lookUpAuthorAssociation(context: ForgeContext, login: string): Promise<AuthorAssociation> {
+  try {
+    const { createForgeClient } = await import("../../trigger/forge-clients");
+    return await (await createForgeClient(context)).getAuthorAssociation(login);
+  } catch (error) {
+    console.warn(`Could not look up the access of ${login} to ${context.owner}/${context.repo}:`, error instanceof Error ? error.message : error);
+    return 'NONE';
+  }
+}
+
+/**
+ * Turns the @l commands of a comment on a forge other than GitHub into dispatches for the tasks that can run there.
+ * There is no installation outside GitHub, the client authenticates with the forge's access token.
+ * Command permissions are checked against the author's access level on the forge.
+ */
+export async function forgeCommandDispatches(event: WebhookEvent, command: ForgeCommand): Promise<TaskDispatch[]> {
+  const steps = parseCommands(command.body);
+  if (steps.length === 0) {
+    return [];
+  }
+
+  const forgeName = FORGE_NAMES[command.forge];
+  const requester = event.sender || 'unknown';
+  // GitLab writes merge request references as !N
+  const reference = `${command.isPullRequest && command.forge === 'gitlab' ? '!' : '#'}${command.number}`;
+  console.log(`${forgeName} mention detected in ${event.owner}/${event.repo}${reference} by ${requester}`);
+
+  const context = {
+    owner: event.owner!,
+    repo: event.repo!,
+    issueNumber: command.number,
+    requester,
+    installationId: 0,
+    forge: command.forge,
+    isPullRequest: command.isPullRequest,
+    requestTimestamp: new Date().toISOString(),
+    requestId: generateRequestId(),
+    message: steps[0].parsed.fullText,
+    ...(command.commentId ? { commentId: command.commentId } : {}),
+  };
+
+  const author = { login: requester, association: await lookUpAuthorAssociation(context, requester) };
+
+  return await commandStepDispatches(steps, context, {
+    author,
+    isAvailable: taskId => {
+      if (!FORGE_NEUTRAL_TASKS.includes(taskId)) {
+        console.log(`Task ${taskId} is not available on ${forgeName}, ignoring command`);
+        return false;
+      }
+      return true;
+    },
+  });
+}
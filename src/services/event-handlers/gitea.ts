@@ -0,0 +1,28 @@
+// src/services/event-handlers/gitea.ts
+
+import { InvalidWebhookPayloadError, TaskDispatch, WebhookEvent } from "../event-router";
+import { GiteaWebhookPayload } from "../forges";
+import { forgeCommandDispatches } from "./forge-command";
+import { shouldProcessComment } from "./issue-comment";
+
+/**
+ * Handles new comments on Gitea issues and pull requests
+ */
+export async function handleGiteaIssueComment(event: WebhookEvent<GiteaWebhookPayload>): Promise<TaskDispatch[]> {
+  const { comment, issue } = event.payload;
+
+  if (!shouldProcessComment(event.sender ?? undefined, comment?.body)) {
+    return [];
+  }
+  if (!comment?.body || !issue?.number || !event.owner || !event.repo) {
+    throw new InvalidWebhookPayloadError('Missing required fields');
+  }
+
+  return await forgeCommandDispatches(event, {
+    forge: 'gitea',
+    body: comment.body,
+    number: issue.number,
+    isPullRequest: Boolean(event.payload.is_pull || issue.pull_request),
+    commentId: comment.id,
+  });
+}
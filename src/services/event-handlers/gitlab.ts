@@ -0,0 +1,44 @@
+// src/services/event-handlers/gitlab.ts
+
+import { InvalidWebhookPayloadError, TaskDispatch, WebhookEvent } from "../event-router";
+import { GitLabWebhookPayload } from "../forges";
+import { forgeCommandDispatches } from "./forge-command";
+import { shouldProcessComment } from "./issue-comment";
+
+/**
+ * Handles new notes on issues and merge requests. Notes on commits and snippets are ignored.
+ */
+export async function handleGitLabNote(event: WebhookEvent<GitLabWebhookPayload>): Promise<TaskDispatch[]> {
+  const { object_attributes: note, issue, merge_request: mergeRequest } = event.payload;
+
+  if (!shouldProcessComment(event.sender ?? undefined, note?.note)) {
+    return [];
+  }
+  if (!note?.note || !event.owner || !event.repo) {
+    throw new InvalidWebhookPayloadError('Missing required fields');
+  }
+
+  if (note.noteable_type === 'Issue' && issue?.iid) {
+    return await forgeCommandDispatches(event, { forge: 'gitlab', body: note.note, number: issue.iid, isPullRequest: false, commentId: note.id });
+  }
+  if (note.noteable_type === 'MergeRequest' && mergeRequest?.iid) {
+    return await forgeCommandDispatches(event, { forge: 'gitlab', body: note.note, number: mergeRequest.iid, isPullRequest: true, commentId: note.id });
+  }
+  return [];
+}
+
+/**
+ * Handles opened merge requests whose description carries a command, e.g. "@l review"
+ */
+export async function handleGitLabMergeRequest(event: WebhookEvent<GitLabWebhookPayload>): Promise<TaskDispatch[]> {
+  const mergeRequest = event.payload.object_attributes;
+
+  if (!mergeRequest?.iid || !mergeRequest.description || !event.owner || !event.repo) {
+    return [];
+  }
+  if (!shouldProcessComment(event.sender ?? undefined, mergeRequest.description)) {
+    return [];
+  }
+
+  return await forgeCommandDispatches(event, { forge: 'gitlab', body: mergeRequest.description, number: mergeRequest.iid, isPullRequest: true });
+}
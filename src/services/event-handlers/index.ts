@@ -0,0 +1,49 @@
+// src/services/event-handlers/index.ts
+// Registers every webhook event handler with the router
+
+import { WebhookEventRouter } from "../event-router";
+import { handleCheckCompleted } from "./check-run";
+import { handleGiteaIssueComment } from "./gitea";
+import { handleGitLabMergeRequest, handleGitLabNote } from "./gitlab";
+import { handleInstallation, handleInstallationRepositories } from "./installation";
+import { handleCommentDeleted, handleIssueComment } from "./issue-comment";
+import { handleIssues } from "./issues";
+import { handlePullRequest } from "./pull-request";
+import { handlePullRequestReviewComment } from "./pull-request-review-comment";
+
+/**
+ * Creates the router used by the GitHub webhook route
+ */
+export function createGitHubEventRouter(): WebhookEventRouter {
+  return new WebhookEventRouter()
+    .on('check_suite', 'completed', handleCheckCompleted)
+    .on('installation', ['created', 'deleted'], handleInstallation)
+    .on('installation_repositories', ['added', 'removed'], handleInstallationRepositories)
+    .on('issue_comment', ['created', 'edited'], handleIssueComment)
+    .on('issue_comment', 'deleted', handleCommentDeleted)
+    .on('issues', 'opened', handleIssues)
+    .on('pull_request', ['opened', 'closed'], handlePullRequest)
+    .on('pull_request_review_comment', ['created', 'edited'], handlePullRequestReviewComment)
+    .on('pull_request_review_comment', 'deleted', handleCommentDeleted);
+}
+
+/**
+ * Creates the router used by the GitLab webhook route.
+ * Events are named after the payload's object_kind.
+ */
+export function createGitLabEventRouter(): WebhookEventRouter {
+  return new WebhookEventRouter()
+    .on('merge_request', 'open', handleGitLabMergeRequest)
+    .on('note', 'create', handleGitLabNote);
+}
+
+/**
+ * Creates the router used by the Gitea (and Forgejo) webhook route.
+ * Gitea sends comments on pull requests as issue_comment events, or as
+ * pull_request_comment when the webhook subscribes to that event type.
+ */
+export function createGiteaEventRouter(): WebhookEventRouter {
+  return new WebhookEventRouter()
+    .on('issue_comment', 'created', handleGiteaIssueComment)
+    .on('pull_request_comment', 'created', handleGiteaIssueComment);
+}
@@ -0,0 +1,128 @@
+// src/services/event-handlers/installation.ts
+
+import { TaskDispatch, WebhookEvent } from "../event-router";
+import { getInstallationRegistry, InstallationRegistry } from "../installation-registry";
+import { generateRequestId } from "../task-types";
+
+interface InstallationRepository {
+  full_name: string;
+}
+
+/**
+ * Fields of the installation and installation_repositories payloads used by the handlers
+ */
+export interface InstallationPayload {
+  action: string;
+  installation?: {
+    id: number;
+    account?: { login: string; type?: string };
+  };
+  repositories?: InstallationRepository[];
+  repositories_added?: InstallationRepository[];
+  repositories_removed?: InstallationRepository[];
+}
+
+// Installs on more repositories than this, e.g. on all repositories of an organization, open no welcome issues
+const DEFAULT_MAX_WELCOME_ISSUES = 5;
+
+/**
+ * Decides whether onboarding opens welcome issues for this many repositories.
+ * ONBOARDING_WELCOME_ISSUE=false turns them off, ONBOARDING_MAX_WELCOME_ISSUES changes the bulk install limit.
+ */
+export function opensWelcomeIssues(repositoryCount: number, env: Record<string, string | undefined> = process.env): boolean {
+  const limit = parseInt(env.ONBOARDING_MAX_WELCOME_ISSUES ?? '', 10);
+  const maxWelcomeIssues = Number.isInteger(limit) && limit >= 0 ? limit : DEFAULT_MAX_WELCOME_ISSUES;
+  return env.ONBOARDING_WELCOME_ISSUE?.toLowerCase() !== 'false' && repositoryCount <= maxWelcomeIssues;
+}
+
+/**
+ * Builds one onboarding dispatch per repository.
+ * Onboarding is not about an issue, so the issue number is 0.
+ */
+function onboardingDispatches(event: WebhookEvent<InstallationPayload>, repositories: InstallationRepository[]): TaskDispatch[] {
+  const installationId = event.payload.installation?.id;
+  if (!installationId) {
+    return [];
+  }
+
+  const welcomeIssue = opensWelcomeIssues(repositories.length);
+  if (!welcomeIssue && repositories.length > 0) {
+    console.log(`Onboarding ${repositories.length} repositories of installation ${installationId} without welcome issues`);
+  }
+
+  return repositories.map(repository => {
+    const [owner, repo] = repository.full_name.split('/');
+    return {
+      taskId: 'repository-onboarding-task',
+      context: {
+        owner,
+        repo,
+        issueNumber: 0,
+        requester: event.sender || 'unknown',
+        installationId,
+        requestTimestamp: new Date().toISOString(),
+        requestId: generateRequestId(),
+        message: `App installed on ${repository.full_name}`,
+        welcomeIssue,
+      },
+    };
+  });
+}
+
+const fullNames = (repositories: InstallationRepository[] | undefined) =>
+  (repositories ?? []).map(repository => repository.full_name);
+
+/**
+ * Records new and removed installations and onboards the repositories of new ones
+ */
+export async function handleInstallation(
+  event: WebhookEvent<InstallationPayload>,
+  registry: InstallationRegistry = getInstallationRegistry()
+): Promise<TaskDispatch[]> {
+  const { installation, repositories } = event.payload;
+  if (!installation?.id) {
+    return [];
+  }
+
+  if (event.action === 'deleted') {
+    await registry.markRemoved(installation.id);
+    console.log(`Installation ${installation.id} removed`);
+    return [];
+  }
+
+  await registry.recordInstallation(
+    installation.id,
+    installation.account?.login ?? 'unknown',
+    installation.account?.type ?? null,
+    fullNames(repositories)
+  );
+  console.log(`Installation ${installation.id} created for ${installation.account?.login}`);
+
+  return onboardingDispatches(event, repositories ?? []);
+}
+
+/**
+ * Keeps the registry in sync with repository selection changes and onboards added repositories
+ */
+export async function handleInstallationRepositories(
+  event: WebhookEvent<InstallationPayload>,
+  registry: InstallationRegistry = getInstallationRegistry()
+): Promise<TaskDispatch[]> {
+  const { installation, repositories_added: added, repositories_removed: removed } = event.payload;
+  if (!installation?.id) {
+    return [];
+  }
+
+  const record = await registry.updateRepositories(installation.id, fullNames(added), fullNames(removed));
+  if (!record) {
+    // The installation predates the registry, record what we know now
+    await registry.recordInstallation(
+      installation.id,
+      installation.account?.login ?? 'unknown',
+      installation.account?.type ?? null,
+      fullNames(added)
+    );
+  }
+
+  return event.action === 'added' ? onboardingDispatches(event, added ?? []) : [];
+}
@@ -0,0 +1,80 @@
+// src/services/event-handlers/issue-comment.ts
+
+import { parseCommands } from "../../lib/command-parser";
+import { createContextFromEvent, InvalidWebhookPayloadError, TaskDispatch, WebhookEvent } from "../event-router";
+import { commandStepDispatches } from "./command-steps";
+
+/**
+ * Fields of the issue_comment payload used by the handler
+ */
+export interface IssueCommentPayload {
+  action: string;
+  comment?: {
+    id: number;
+    body?: string;
+    user?: { login: string };
+    // Relation of the author to the repository, e.g. OWNER or NONE
+    author_association?: string;
+  };
+  issue?: {
+    number: number;
+    pull_request?: unknown;
+  };
+}
+
+/**
+ * Checks whether a comment should be processed.
+ * Allow self-triggering only with "self@" prefix, otherwise exclude uwularpy bot messages
+ */
+export function shouldProcessComment(author: string | undefined, body: string | undefined): boolean {
+  const isFromBot = author === 'uwularpy';
+  const hasSelfPrefix = !!body?.includes('self@');
+  return !isFromBot || hasSelfPrefix;
+}
+
+/**
+ * Turns @l mentions in new and edited issue/PR comments into task dispatches.
+ * Runs started by an earlier version of an edited comment are cancelled by the dispatcher.
+ */
+export async function handleIssueComment(event: WebhookEvent<IssueCommentPayload>): Promise<TaskDispatch[]> {
+  const { comment, issue } = event.payload;
+
+  if (!shouldProcessComment(comment?.user?.login, comment?.body)) {
+    return [];
+  }
+
+  // Validate required fields
+  if (!comment?.body || !issue?.number || !event.repo || !event.owner) {
+    console.warn('Missing required fields in webhook payload');
+    throw new InvalidWebhookPayloadError('Missing required fields');
+  }
+
+  // Parse the commands from the comment with enhanced safety
+  const steps = parseCommands(comment.body);
+  if (steps.length === 0) {
+    return [];
+  }
+
+  const requester = comment.user?.login || 'unknown';
+  console.log(`Mention detected in issue #${issue.number} by ${requester}`);
+  console.log(`Raw comment: "${comment.body}"`);
+  console.log(`Parsed commands:`, steps.map(step => step.parsed));
+
+  const context = createContextFromEvent(event, {
+    issueNumber: issue.number,
+    requester,
+    message: steps[0].parsed.fullText,
+    commentId: comment.id,
+  });
+
+  return await commandStepDispatches(steps, context, {
+    author: { login: requester, association: comment.author_association },
+  });
+}
+
+/**
+ * Deleted comments start nothing; the dispatcher cancels the runs they started
+ */
+export function handleCommentDeleted(): TaskDispatch[] {
+  return [];
+}
@@ -0,0 +1,47 @@
+// src/services/event-handlers/issues.ts
+
+import { getTriageConfig } from "../../lib/issue-triage";
+import { createContextFromEvent, TaskDispatch, WebhookEvent } from "../event-router";
+
+/**
+ * Fields of the issues payload used by the handler
+ */
+export interface IssuesPayload {
+  action: string;
+  issue?: {
+    id: number;
+    number: number;
+    title: string;
+    user?: { login: string; type?: string };
+  };
+}
+
+/**
+ * Starts the triage task for newly opened issues
+ */
+export function handleIssues(event: WebhookEvent<IssuesPayload>): TaskDispatch[] {
+  const issue = event.payload.issue;
+
+  if (event.action !== 'opened' || !issue?.number || !event.owner || !event.repo || !event.installationId) {
+    return [];
+  }
+
+  // Issues created by bots (including the plan approval workflow) are already labelled
+  if (issue.user?.type === 'Bot') {
+    return [];
+  }
+
+  if (!getTriageConfig(event.owner, event.repo).enabled) {
+    console.log(`Issue triage disabled for ${event.owner}/${event.repo}`);
+    return [];
+  }
+
+  return [{
+    taskId: 'issue-triage-task',
+    context: createContextFromEvent(event, {
+      issueNumber: issue.number,
+      requester: issue.user?.login || 'unknown',
+      message: `Issue opened: ${issue.title}`,
+    }),
+  }];
+}
@@ -0,0 +1,96 @@
+// src/services/event-handlers/pull-request-review-comment.ts
+
+import { parseCommands } from "../../lib/command-parser";
+import { createContextFromEvent, InvalidWebhookPayloadError, TaskDispatch, WebhookEvent } from "../event-router";
+import { ReviewCommentContext } from "../task-types";
+import { commandStepDispatches } from "./command-steps";
+import { shouldProcessComment } from "./issue-comment";
+
+/**
+ * Fields of the pull_request_review_comment payload used by the handler
+ */
+export interface PullRequestReviewCommentPayload {
+  action: string;
+  comment?: {
+    id: number;
+    body?: string;
+    user?: { login: string };
+    // Relation of the author to the repository, e.g. OWNER or NONE
+    author_association?: string;
+    path: string;
+    line?: number | null;
+    start_line?: number | null;
+    original_line?: number | null;
+    diff_hunk: string;
+    commit_id: string;
+    in_reply_to_id?: number;
+  };
+  pull_request?: {
+    number: number;
+    head: {
+      ref: string;
+      repo?: { full_name: string } | null;
+    };
+  };
+}
+
+/**
+ * Extracts the diff location of the comment
+ */
+export function toReviewCommentContext(
+  comment: NonNullable<PullRequestReviewCommentPayload['comment']>,
+  pullRequest: NonNullable<PullRequestReviewCommentPayload['pull_request']>
+): ReviewCommentContext {
+  return {
+    commentId: comment.id,
+    threadCommentId: comment.in_reply_to_id ?? comment.id,
+    path: comment.path,
+    startLine: comment.start_line ?? null,
+    // Outdated comments lose their line, fall back to where they were written
+    line: comment.line ?? comment.original_line ?? null,
+    diffHunk: comment.diff_hunk,
+    commitId: comment.commit_id,
+    headBranch: pullRequest.head.ref,
+    headRepository: pullRequest.head.repo?.full_name ?? '',
+  };
+}
+
+/**
+ * Turns @l mentions written on a diff line into task dispatches carrying the diff location
+ */
+export async function handlePullRequestReviewComment(
+  event: WebhookEvent<PullRequestReviewCommentPayload>
+): Promise<TaskDispatch[]> {
+  const { comment, pull_request: pullRequest } = event.payload;
+
+  if (!shouldProcessComment(comment?.user?.login, comment?.body)) {
+    return [];
+  }
+
+  if (!comment?.body || !comment.path || !pullRequest?.number) {
+    console.warn('Missing required fields in review comment payload');
+    throw new InvalidWebhookPayloadError('Missing required fields');
+  }
+
+  const steps = parseCommands(comment.body);
+  if (steps.length === 0) {
+    return [];
+  }
+
+  const requester = comment.user?.login || 'unknown';
+  console.log(`Mention detected on ${comment.path} in PR #${pullRequest.number} by ${requester}`);
+
+  const context = {
+    ...createContextFromEvent(event, {
+      issueNumber: pullRequest.number,
+      requester,
+      message: steps[0].parsed.fullText,
+      commentId: comment.id,
+    }),
+    reviewComment: toReviewCommentContext(comment, pullRequest),
+  };
+
+  return await commandStepDispatches(steps, context, {
+    author: { login: requester, association: comment.author_association },
+  });
+}
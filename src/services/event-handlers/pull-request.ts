@@ -0,0 +1,57 @@
+// src/services/event-handlers/pull-request.ts
+
+import { createContextFromEvent, TaskDispatch, WebhookEvent } from "../event-router";
+
+/**
+ * Fields of the pull_request payload used by the handler
+ */
+export interface PullRequestPayload {
+  action: string;
+  pull_request?: {
+    id: number;
+    number: number;
+    title: string;
+    merged?: boolean;
+    user?: { login: string };
+  };
+}
+
+/**
+ * Starts the automated workflow tasks for opened and merged pull requests
+ */
+export function handlePullRequest(event: WebhookEvent<PullRequestPayload>): TaskDispatch[] {
+  const pullRequest = event.payload.pull_request;
+
+  // PR events without the fields we need are ignored rather than rejected
+  if (!pullRequest?.number || !event.owner || !event.repo || !event.installationId) {
+    return [];
+  }
+
+  const requester = pullRequest.user?.login || 'unknown';
+
+  if (event.action === 'opened') {
+    // Trigger the PR monitoring task for new PRs
+    return [{
+      taskId: 'pr-monitoring-task',
+      context: createContextFromEvent(event, {
+        issueNumber: pullRequest.number,
+        requester,
+        message: `PR opened: ${pullRequest.title}`,
+      }),
+    }];
+  }
+
+  if (event.action === 'closed' && pullRequest.merged) {
+    // Trigger the PR merge progression task for merged PRs
+    return [{
+      taskId: 'pr-merge-progression-task',
+      context: createContextFromEvent(event, {
+        issueNumber: pullRequest.number,
+        requester,
+        message: `PR merged: ${pullRequest.title}`,
+      }),
+    }];
+  }
+
+  return [];
+}
@@ -0,0 +1,189 @@
+// src/services/event-router.ts
+
+import { computeContentHash } from "./delivery-ledger";
+import { generateRequestId, GitHubContext } from "./task-types";
+
+/**
+ * Webhook delivery normalized into the fields every handler needs
+ */
+export interface WebhookEvent<TPayload = any> {
+  name: string;
+  action: string | null;
+  deliveryId: string | null;
+  installationId: number | null;
+  owner: string | null;
+  repo: string | null;
+  sender: string | null;
+  // Hash of the event subject (comment, pull request, ...) and action, used for deduplication
+  contentHash: string | null;
+  payload: TPayload;
+}
+
+/**
+ * A task run a handler wants the webhook to start
+ */
+export interface TaskDispatch {
+  taskId: string;
+  context: GitHubContext;
+}
+
+/**
+ * Handler for one or more (event, action) pairs
+ */
+export type EventHandler<TPayload = any> = (
+  event: WebhookEvent<TPayload>
+) => Promise<TaskDispatch[]> | TaskDispatch[];
+
+/**
+ * Raised by handlers when a delivery they are responsible for is malformed.
+ * The webhook route answers these with a 400.
+ */
+export class InvalidWebhookPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidWebhookPayloadError';
+  }
+}
+
+// Matches every action of an event
+export const ANY_ACTION = '*';
+
+interface HandlerRegistration {
+  event: string;
+  actions: string[];
+  handler: EventHandler;
+}
+
+/**
+ * Routes webhook events to the handlers registered for their (event, action) pair
+ */
+export class WebhookEventRouter {
+  private registrations: HandlerRegistration[] = [];
+
+  /**
+   * Registers a handler
+   * @param event The webhook event name (x-github-event header)
+   * @param actions One or more actions, or ANY_ACTION
+   * @param handler The handler to invoke
+   */
+  on<TPayload>(event: string, actions: string | string[], handler: EventHandler<TPayload>): this {
+    this.registrations.push({
+      event,
+      actions: Array.isArray(actions) ? actions : [actions],
+      handler: handler as EventHandler
+    });
+    return this;
+  }
+
+  /**
+   * Checks whether any handler is registered for the pair
+   */
+  handles(event: string, action: string | null): boolean {
+    return this.findHandlers(event, action).length > 0;
+  }
+
+  /**
+   * Runs every matching handler and collects their dispatches in registration order
+   */
+  async route(event: WebhookEvent): Promise<TaskDispatch[]> {
+    const dispatches: TaskDispatch[] = [];
+    for (const registration of this.findHandlers(event.name, event.action)) {
+      dispatches.push(...await registration.handler(event));
+    }
+    return dispatches;
+  }
+
+  private findHandlers(event: string, action: string | null): HandlerRegistration[] {
+    return this.registrations.filter(registration =>
+      registration.event === event &&
+      (registration.actions.includes(ANY_ACTION) || (action !== null && registration.actions.includes(action)))
+    );
+  }
+}
+
+/**
+ * Picks the ID of the object a delivery is about
+ */
+function getSubjectId(payload: any): string | number | null {
+  return payload?.comment?.id
+    ?? payload?.review?.id
+    ?? payload?.pull_request?.id
+    ?? payload?.issue?.id
+    // A failed suite is analyzed per commit: the analysis covers every failed check of the commit
+    ?? (payload?.check_suite?.head_sha !== undefined ? `check_suite:${payload.check_suite.head_sha}` : undefined)
+    ?? null;
+}
+
+/**
+ * Picks the part of the hash that tells deliveries for the same subject apart.
+ * Every edit of a comment is a new event, so edits include the edit time.
+ */
+function getSubjectRevision(payload: any, action: string): string {
+  if (action === 'edited') {
+    const updatedAt = payload?.comment?.updated_at ?? payload?.issue?.updated_at ?? payload?.pull_request?.updated_at;
+    return updatedAt ? `${action}@${updatedAt}` : action;
+  }
+  return action;
+}
+
+/**
+ * Returns the comment an edited or deleted comment event is about
+ */
+export function getChangedCommentId(event: WebhookEvent): number | null {
+  const isCommentEvent = event.name === 'issue_comment' || event.name === 'pull_request_review_comment';
+  if (!isCommentEvent || (event.action !== 'edited' && event.action !== 'deleted')) {
+    return null;
+  }
+  return typeof event.payload?.comment?.id === 'number' ? event.payload.comment.id : null;
+}
+
+/**
+ * Normalizes a raw GitHub webhook delivery
+ * @param name The x-github-event header
+ * @param deliveryId The x-github-delivery header
+ * @param payload The parsed JSON body
+ */
+export function normalizeWebhookEvent(name: string, deliveryId: string | null, payload: any): WebhookEvent {
+  const action = typeof payload?.action === 'string' ? payload.action : null;
+  const subjectId = getSubjectId(payload);
+
+  return {
+    name,
+    action,
+    deliveryId,
+    installationId: typeof payload?.installation?.id === 'number' ? payload.installation.id : null,
+    owner: payload?.repository?.owner?.login ?? null,
+    repo: payload?.repository?.name ?? null,
+    sender: payload?.sender?.login ?? null,
+    contentHash: subjectId !== null ? computeContentHash(subjectId, getSubjectRevision(payload, action ?? name)) : null,
+    payload
+  };
+}
+
+/**
+ * Builds the task context for an event that targets a repository
+ * @throws InvalidWebhookPayloadError when the repository or installation is missing
+ */
+export function createContextFromEvent(
+  event: WebhookEvent,
+  fields: Pick<GitHubContext, 'issueNumber' | 'requester' | 'message' | 'commentId'>
+): GitHubContext {
+  if (!event.owner || !event.repo) {
+    throw new InvalidWebhookPayloadError('Missing repository in webhook payload');
+  }
+  if (!event.installationId) {
+    throw new InvalidWebhookPayloadError('Missing installation ID');
+  }
+
+  return {
+    owner: event.owner,
+    repo: event.repo,
+    issueNumber: fields.issueNumber,
+    requester: fields.requester,
+    installationId: event.installationId,
+    requestTimestamp: new Date().toISOString(),
+    requestId: generateRequestId(),
+    message: fields.message,
+    commentId: fields.commentId,
+  };
+}
@@ -0,0 +1,166 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { GiteaForgeClient, splitUnifiedDiff } from '../gitea-client';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization: string | undefined;
+  body: any;
+}
+
+// Local stand-in for the Gitea API: answers with canned responses keyed by "METHOD path"
+function startGiteaStandIn(routes: Record<string, { status?: number; body: unknown }>) {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      requests.push({
+        method: req.method!,
+        url: req.url!,
+        authorization: req.headers['authorization'],
+        body: raw ? JSON.parse(raw) : undefined
+      });
+      const route = routes[`${req.method} ${req.url}`];
+      res.writeHead(route?.status ?? (route ? 200 : 404), { 'Content-Type': 'application/json' });
+      const body = route?.body ?? { message: 'Not Found' };
+      res.end(typeof body === 'string' ? body : JSON.stringify(body));
+    });
+  });
+
+  return new Promise<{ baseUrl: string; requests: RecordedRequest[]; close: () => Promise<void> }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        baseUrl: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise(done => server.close(() => done()))
+      });
+    });
+  });
+}
+
+const repo = '/api/v1/repos/mirrors/app';
+
+describe('GiteaForgeClient', () => {
+  let standIn: Awaited<ReturnType<typeof startGiteaStandIn>>;
+
+  afterEach(async () => {
+    await standIn?.close();
+  });
+
+  function createClient() {
+    return new GiteaForgeClient({ baseUrl: standIn.baseUrl, token: 'gitea-token' }, 'mirrors', 'app');
+  }
+
+  it('should embed the token in the clone URL', () => {
+    const client = new GiteaForgeClient({ baseUrl: 'https://git.example.com', token: 'gitea-token' }, 'mirrors', 'app');
+
+    expect(client.getAuthenticatedCloneUrl()).toBe('https://gitea-token@git.example.com/mirrors/app.git');
+  });
+
+  it('should create milestones and issues, resolving label names to IDs', async () => {
+    standIn = await startGiteaStandIn({
+      [`POST ${repo}/milestones`]: { status: 201, body: { id: 31, title: 'Plan', description: 'Goals', due_on: null } },
+      [`GET ${repo}/labels?limit=100`]: { body: [{ id: 5, name: 'bug' }] },
+      [`POST ${repo}/labels`]: { status: 201, body: { id: 6, name: 'critical' } },
+      [`POST ${repo}/issues`]: {
+        status: 201,
+        body: {
+          number: 12,
+          title: 'Bug',
+          body: 'Details',
+          state: 'open',
+          labels: [{ id: 5, name: 'bug' }, { id: 6, name: 'critical' }],
+          assignees: null,
+          milestone: { id: 31 },
+          html_url: 'https://git.example.com/mirrors/app/issues/12'
+        }
+      }
+    });
+    const client = createClient();
+
+    const milestone = await client.createMilestone({ title: 'Plan', description: 'Goals' });
+    const issue = await client.createIssue({ title: 'Bug', body: 'Details', labels: ['bug', 'critical'], milestone: milestone.number });
+
+    expect(milestone).toEqual({
+      number: 31,
+      title: 'Plan',
+      description: 'Goals',
+      dueOn: null,
+      url: `${standIn.baseUrl}/mirrors/app/milestone/31`
+    });
+    expect(issue).toMatchObject({ number: 12, labels: ['bug', 'critical'], assignees: [], milestone: 31 });
+    expect(standIn.requests[2].body).toEqual({ name: 'critical', color: '#ededed' });
+    expect(standIn.requests[3]).toMatchObject({
+      authorization: 'token gitea-token',
+      body: { title: 'Bug', body: 'Details', labels: [5, 6], milestone: 31 }
+    });
+  });
+
+  it('should list the latest comments first and post new ones', async () => {
+    standIn = await startGiteaStandIn({
+      [`GET ${repo}/issues/3/comments`]: {
+        body: [
+          { id: 1, body: 'first', user: { login: 'alice' }, created_at: '2026-01-01T00:00:00Z' },
+          { id: 2, body: 'second', user: { login: 'bot' }, created_at: '2026-01-02T00:00:00Z' },
+          { id: 3, body: 'third', user: { login: 'alice' }, created_at: '2026-01-03T00:00:00Z' }
+        ]
+      },
+      [`POST ${repo}/issues/3/comments`]: { status: 201, body: { id: 4 } }
+    });
+    const client = createClient();
+
+    const comments = await client.listComments({ number: 3 }, 2);
+    await client.postComment({ number: 3, isPullRequest: true }, 'done');
+
+    expect(comments.map(comment => comment.id)).toEqual([3, 2]);
+    expect(comments[1]).toEqual({ id: 2, author: 'bot', body: 'second', createdAt: '2026-01-02T00:00:00Z' });
+    expect(standIn.requests[1]).toMatchObject({ method: 'POST', body: { body: 'done' } });
+  });
+
+  it('should list milestone issues and treat missing milestones as absent', async () => {
+    standIn = await startGiteaStandIn({
+      [`GET ${repo}/issues?milestones=31&state=all&type=issues&limit=50`]: {
+        body: [{ number: 12, title: 'Bug', state: 'closed', labels: [], assignees: [{ login: 'copilot' }], milestone: { id: 31 }, html_url: 'u' }]
+      }
+    });
+    const client = createClient();
+
+    expect(await client.listMilestoneIssues(31)).toMatchObject([{ number: 12, state: 'closed', assignees: ['copilot'] }]);
+    expect(await client.getMilestone(99)).toBeNull();
+  });
+
+  it('should map collaborator permissions to author associations', async () => {
+    standIn = await startGiteaStandIn({
+      [`GET ${repo}/collaborators/alice/permission`]: { body: { permission: 'write' } },
+      [`GET ${repo}/collaborators/reader/permission`]: { body: { permission: 'read' } }
+    });
+    const client = createClient();
+
+    expect(await client.getAuthorAssociation('alice')).toBe('COLLABORATOR');
+    expect(await client.getAuthorAssociation('reader')).toBe('NONE');
+    expect(await client.getAuthorAssociation('stranger')).toBe('NONE');
+  });
+
+  it('should split pull request diffs into per-file patches', () => {
+    const diff = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      'index 1..2 100644',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1 +1 @@',
+      '-old',
+      '+new',
+      'diff --git a/logo.png b/logo.png',
+      'Binary files differ',
+      ''
+    ].join('\n');
+
+    expect(splitUnifiedDiff(diff)).toEqual([
+      { path: 'src/a.ts', patch: '@@ -1 +1 @@\n-old\n+new' },
+      { path: 'logo.png', patch: null }
+    ]);
+  });
+});
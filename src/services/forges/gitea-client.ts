@@ -0,0 +1,484 @@
+// src/services/forges/gitea-client.ts
+
+import type { AuthorAssociation } from "../../lib/command-permissions";
+import {
+  CommentTarget,
+  CreateIssueInput,
+  CreateMilestoneInput,
+  CreatePullRequestInput,
+  ForgeApiError,
+  ForgeClient,
+  ForgeComment,
+  ForgeCommit,
+  ForgeFileChange,
+  ForgeIssue,
+  ForgeMilestone,
+  ForgePullRequest,
+  ForgeRepository,
+  ForgeTreeEntry,
+} from "./types";
+
+export interface GiteaConfig {
+  // Instance URL without the /api/v1 suffix
+  baseUrl: string;
+  // Access token with repository and issue write scopes
+  token: string;
+}
+
+// Color of labels created on the fly, Gitea only attaches existing labels to new issues
+const DEFAULT_LABEL_COLOR = '#ededed';
+// Recursive trees are paginated, stop before huge repositories exhaust the rate limit
+const MAX_TREE_PAGES = 50;
+// Collaborator permissions, read access is what anyone has on public repositories
+const PERMISSION_ASSOCIATIONS: Record<string, AuthorAssociation> = {
+  owner: 'OWNER',
+  admin: 'MEMBER',
+  write: 'COLLABORATOR',
+};
+
+/**
+ * Reads the Gitea (or Forgejo) connection settings
+ * @throws Error when GITEA_URL or GITEA_TOKEN is missing
+ */
+export function getGiteaConfig(env: Record<string, string | undefined> = process.env): GiteaConfig {
+  // Self-hosted only, there is no default instance
+  if (!env.GITEA_URL) {
+    throw new Error("Gitea URL not configured");
+  }
+  if (!env.GITEA_TOKEN) {
+    throw new Error("Gitea token not configured");
+  }
+  return {
+    baseUrl: env.GITEA_URL.replace(/\/+$/, ''),
+    token: env.GITEA_TOKEN,
+  };
+}
+
+// Fields of the Gitea API responses the client reads
+
+interface GiteaLabel {
+  id: number;
+  name: string;
+}
+
+interface GiteaIssue {
+  number: number;
+  title: string;
+  body: string | null;
+  state: string;
+  labels?: GiteaLabel[];
+  assignees?: Array<{ login: string }> | null;
+  milestone?: { id: number } | null;
+  html_url: string;
+}
+
+interface GiteaMilestone {
+  id: number;
+  title: string;
+  description: string | null;
+  due_on: string | null;
+}
+
+interface GiteaPullRequest {
+  number: number;
+  title: string;
+  body: string | null;
+  head: { ref: string; sha: string };
+  base: { ref: string; sha: string };
+  merge_base?: string;
+  html_url: string;
+}
+
+interface GiteaRepository {
+  full_name: string;
+  name: string;
+  description: string | null;
+  language: string | null;
+  default_branch: string | null;
+  stars_count?: number;
+  forks_count?: number;
+  open_issues_count?: number;
+  created_at?: string;
+  updated_at?: string;
+  html_url: string;
+  clone_url: string;
+}
+
+interface GiteaCommit {
+  sha: string;
+  commit?: { message?: string; author?: { name?: string } | null };
+}
+
+interface GiteaContentEntry {
+  path: string;
+  type: 'file' | 'dir' | 'symlink' | 'submodule';
+}
+
+interface GiteaTree {
+  tree?: Array<{ path: string; type: 'blob' | 'tree' | 'commit' }>;
+  truncated: boolean;
+}
+
+interface GiteaComment {
+  id: number;
+  user?: { login: string } | null;
+  body: string | null;
+  created_at: string;
+}
+
+function toForgeIssue(issue: GiteaIssue): ForgeIssue {
+  return {
+    number: issue.number,
+    title: issue.title,
+    body: issue.body ?? '',
+    state: issue.state === 'closed' ? 'closed' : 'open',
+    labels: (issue.labels ?? []).map(label => label.name),
+    assignees: (issue.assignees ?? []).map(assignee => assignee.login),
+    milestone: issue.milestone?.id ?? null,
+    url: issue.html_url,
+  };
+}
+
+function toForgeMilestone(milestone: GiteaMilestone, repositoryUrl: string): ForgeMilestone {
+  return {
+    number: milestone.id,
+    title: milestone.title,
+    description: milestone.description ?? '',
+    dueOn: milestone.due_on ?? null,
+    // The API doesn't return the milestone page
+    url: `${repositoryUrl}/milestone/${milestone.id}`,
+  };
+}
+
+function toForgePullRequest(pr: GiteaPullRequest): ForgePullRequest {
+  return {
+    number: pr.number,
+    title: pr.title,
+    body: pr.body ?? '',
+    headBranch: pr.head.ref,
+    baseBranch: pr.base.ref,
+    headSha: pr.head.sha,
+    baseSha: pr.merge_base ?? pr.base.sha,
+    url: pr.html_url,
+  };
+}
+
+/**
+ * Splits a unified diff of several files into one patch per file
+ */
+export function splitUnifiedDiff(diff: string): ForgeFileChange[] {
+  return diff
+    .split(/^(?=diff --git )/m)
+    .filter(section => section.startsWith('diff --git '))
+    .map(section => {
+      const path = section.match(/^diff --git a\/.+? b\/(.+)$/m)?.[1] ?? '';
+      const hunkStart = section.indexOf('\n@@');
+      return { path, patch: hunkStart === -1 ? null : section.slice(hunkStart + 1).trimEnd() };
+    });
+}
+
+/**
+ * Forge client for the Gitea REST API (v1), which Forgejo serves unchanged.
+ * Issues and pull requests share one numbering like on GitHub, but milestones are
+ * addressed by ID and issues reference labels by ID.
+ */
+export class GiteaForgeClient implements ForgeClient {
+  readonly kind = 'gitea' as const;
+  private defaultBranch?: string;
+
+  constructor(
+    private readonly config: GiteaConfig,
+    readonly owner: string,
+    readonly repo: string
+  ) {}
+
+  private get repoPath(): string {
+    return `/repos/${encodeURIComponent(this.owner)}/${encodeURIComponent(this.repo)}`;
+  }
+
+  private get repositoryUrl(): string {
+    return `${this.config.baseUrl}/${this.owner}/${this.repo}`;
+  }
+
+  private async request(method: string, path: string, body?: unknown): Promise<Response> {
+    const response = await fetch(`${this.config.baseUrl}/api/v1${path}`, {
+      method,
+      headers: {
+        'Authorization': `token ${this.config.token}`,
+        'Accept': 'application/json',
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {})
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new ForgeApiError(`Gitea API ${method} ${path} failed: ${response.status} ${detail}`.trim(), response.status);
+    }
+    return response;
+  }
+
+  private async requestJson<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await this.request(method, path, body);
+    return await response.json() as T;
+  }
+
+  // Resolves to null instead of throwing when the resource doesn't exist
+  private async findJson<T = unknown>(path: string): Promise<T | null> {
+    try {
+      return await this.requestJson<T>('GET', path);
+    } catch (error) {
+      if (error instanceof ForgeApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async getDefaultBranch(): Promise<string> {
+    if (!this.defaultBranch) {
+      this.defaultBranch = (await this.getRepository()).defaultBranch;
+    }
+    return this.defaultBranch;
+  }
+
+  /**
+   * Maps label names to IDs, creating the labels the repository doesn't have yet
+   */
+  private async getLabelIds(names: string[]): Promise<number[]> {
+    if (names.length === 0) {
+      return [];
+    }
+    const existing = await this.requestJson<GiteaLabel[]>('GET', `${this.repoPath}/labels?limit=100`);
+    const idsByName = new Map<string, number>(existing.map(label => [label.name, label.id]));
+
+    const ids: number[] = [];
+    for (const name of names) {
+      let id = idsByName.get(name);
+      if (id === undefined) {
+        const label = await this.requestJson<GiteaLabel>('POST', `${this.repoPath}/labels`, { name, color: DEFAULT_LABEL_COLOR });
+        id = label.id;
+        idsByName.set(name, id);
+      }
+      ids.push(id);
+    }
+    return ids;
+  }
+
+  forRepository(owner: string, repo: string): ForgeClient {
+    return new GiteaForgeClient(this.config, owner, repo);
+  }
+
+  async getRepository(): Promise<ForgeRepository> {
+    const repository = await this.requestJson<GiteaRepository>('GET', this.repoPath);
+    this.defaultBranch = repository.default_branch || 'main';
+    return {
+      fullName: repository.full_name,
+      name: repository.name,
+      description: repository.description || null,
+      language: repository.language || null,
+      defaultBranch: this.defaultBranch!,
+      stars: repository.stars_count ?? 0,
+      forks: repository.forks_count ?? 0,
+      openIssues: repository.open_issues_count ?? 0,
+      createdAt: repository.created_at ?? null,
+      updatedAt: repository.updated_at ?? null,
+      webUrl: repository.html_url,
+      cloneUrl: repository.clone_url,
+    };
+  }
+
+  async getAuthorAssociation(login: string): Promise<AuthorAssociation> {
+    const access = await this.findJson<{ permission: string }>(`${this.repoPath}/collaborators/${encodeURIComponent(login)}/permission`);
+    return (access && PERMISSION_ASSOCIATIONS[access.permission]) ?? 'NONE';
+  }
+
+  async listLanguages(): Promise<Record<string, number>> {
+    return await this.requestJson<Record<string, number>>('GET', `${this.repoPath}/languages`);
+  }
+
+  async listRecentCommits(limit: number): Promise<ForgeCommit[]> {
+    // stat, verification and files make the listing much slower and aren't needed
+    const query = new URLSearchParams({ limit: String(limit), stat: 'false', verification: 'false', files: 'false' });
+    const commits = await this.requestJson<GiteaCommit[]>('GET', `${this.repoPath}/commits?${query}`);
+    return commits.map(commit => ({
+      sha: commit.sha,
+      message: commit.commit?.message ?? '',
+      author: commit.commit?.author?.name ?? null,
+    }));
+  }
+
+  async listDirectory(path: string, ref?: string): Promise<ForgeTreeEntry[]> {
+    const query = new URLSearchParams({ ref: ref ?? await this.getDefaultBranch() });
+    const contentsPath = path ? `/contents/${path.split('/').map(encodeURIComponent).join('/')}` : '/contents';
+    // A file path returns the file instead of a listing
+    const entries = await this.requestJson<GiteaContentEntry[] | GiteaContentEntry>('GET', `${this.repoPath}${contentsPath}?${query}`);
+    if (!Array.isArray(entries)) {
+      return [];
+    }
+    return entries.map(entry => ({ path: entry.path, type: entry.type === 'dir' ? 'dir' : 'file' }));
+  }
+
+  async listTree(branch: string): Promise<ForgeTreeEntry[]> {
+    const entries: ForgeTreeEntry[] = [];
+
+    for (let page = 1; page <= MAX_TREE_PAGES; page++) {
+      const query = new URLSearchParams({ recursive: 'true', per_page: '1000', page: String(page) });
+      const tree = await this.requestJson<GiteaTree>('GET', `${this.repoPath}/git/trees/${encodeURIComponent(branch)}?${query}`);
+      entries.push(...(tree.tree ?? [])
+        .filter(item => item.type === 'blob' || item.type === 'tree')
+        .map(item => ({ path: item.path, type: item.type === 'tree' ? 'dir' as const : 'file' as const })));
+      if (!tree.truncated) {
+        break;
+      }
+    }
+
+    return entries;
+  }
+
+  async getFileContent(path: string, ref?: string): Promise<string | null> {
+    const query = new URLSearchParams({ ref: ref ?? await this.getDefaultBranch() });
+    try {
+      const response = await this.request('GET', `${this.repoPath}/raw/${path.split('/').map(encodeURIComponent).join('/')}?${query}`);
+      return await response.text();
+    } catch (error) {
+      if (error instanceof ForgeApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async branchExists(branch: string): Promise<boolean> {
+    return await this.findJson(`${this.repoPath}/branches/${encodeURIComponent(branch)}`) !== null;
+  }
+
+  async countCommitsAhead(branch: string, base: string): Promise<number> {
+    const comparison = await this.requestJson<{ total_commits?: number; commits?: unknown[] }>('GET', `${this.repoPath}/compare/${encodeURIComponent(base)}...${encodeURIComponent(branch)}`);
+    return comparison.total_commits ?? (comparison.commits ?? []).length;
+  }
+
+  async deleteBranch(branch: string): Promise<void> {
+    await this.request('DELETE', `${this.repoPath}/branches/${encodeURIComponent(branch)}`);
+  }
+
+  async postComment(target: CommentTarget, body: string): Promise<void> {
+    await this.requestJson('POST', `${this.repoPath}/issues/${target.number}/comments`, { body });
+  }
+
+  async listComments(target: CommentTarget, limit: number): Promise<ForgeComment[]> {
+    // Comments come oldest first and the endpoint isn't paginated
+    const comments = await this.requestJson<GiteaComment[]>('GET', `${this.repoPath}/issues/${target.number}/comments`);
+    return comments
+      .slice(-limit)
+      .reverse()
+      .map(comment => ({
+        id: comment.id,
+        author: comment.user?.login ?? null,
+        body: comment.body ?? '',
+        createdAt: comment.created_at,
+      }));
+  }
+
+  async getIssue(issueNumber: number): Promise<ForgeIssue> {
+    return toForgeIssue(await this.requestJson<GiteaIssue>('GET', `${this.repoPath}/issues/${issueNumber}`));
+  }
+
+  async createIssue(input: CreateIssueInput): Promise<ForgeIssue> {
+    const issue = await this.requestJson<GiteaIssue>('POST', `${this.repoPath}/issues`, {
+      title: input.title,
+      body: input.body,
+      labels: await this.getLabelIds(input.labels ?? []),
+      milestone: input.milestone
+    });
+    return toForgeIssue(issue);
+  }
+
+  async setIssueMilestone(issueNumber: number, milestoneNumber: number): Promise<void> {
+    await this.requestJson('PATCH', `${this.repoPath}/issues/${issueNumber}`, { milestone: milestoneNumber });
+  }
+
+  async addLabels(issueNumber: number, labels: string[]): Promise<void> {
+    await this.requestJson('POST', `${this.repoPath}/issues/${issueNumber}/labels`, { labels: await this.getLabelIds(labels) });
+  }
+
+  async removeLabel(issueNumber: number, label: string): Promise<void> {
+    const existing = await this.requestJson<GiteaLabel[]>('GET', `${this.repoPath}/issues/${issueNumber}/labels`);
+    const match = existing.find(candidate => candidate.name === label);
+    if (match) {
+      await this.request('DELETE', `${this.repoPath}/issues/${issueNumber}/labels/${match.id}`);
+    }
+  }
+
+  async assignIssue(issueNumber: number, assignees: string[]): Promise<void> {
+    await this.requestJson('PATCH', `${this.repoPath}/issues/${issueNumber}`, { assignees });
+  }
+
+  async unassignIssue(issueNumber: number, assignees: string[]): Promise<void> {
+    // Gitea replaces the assignees, so send the ones that stay
+    const issue = await this.getIssue(issueNumber);
+    const remaining = issue.assignees.filter(assignee => !assignees.includes(assignee));
+    await this.requestJson('PATCH', `${this.repoPath}/issues/${issueNumber}`, { assignees: remaining });
+  }
+
+  async closeIssue(issueNumber: number): Promise<void> {
+    await this.requestJson('PATCH', `${this.repoPath}/issues/${issueNumber}`, { state: 'closed' });
+  }
+
+  async createMilestone(input: CreateMilestoneInput): Promise<ForgeMilestone> {
+    const milestone = await this.requestJson<GiteaMilestone>('POST', `${this.repoPath}/milestones`, {
+      title: input.title,
+      description: input.description,
+      due_on: input.dueOn?.toISOString()
+    });
+    return toForgeMilestone(milestone, this.repositoryUrl);
+  }
+
+  async getMilestone(milestoneNumber: number): Promise<ForgeMilestone | null> {
+    const milestone = await this.findJson<GiteaMilestone>(`${this.repoPath}/milestones/${milestoneNumber}`);
+    return milestone ? toForgeMilestone(milestone, this.repositoryUrl) : null;
+  }
+
+  async updateMilestoneDescription(milestoneNumber: number, description: string): Promise<ForgeMilestone> {
+    const milestone = await this.requestJson<GiteaMilestone>('PATCH', `${this.repoPath}/milestones/${milestoneNumber}`, { description });
+    return toForgeMilestone(milestone, this.repositoryUrl);
+  }
+
+  async closeMilestone(milestoneNumber: number): Promise<void> {
+    await this.requestJson('PATCH', `${this.repoPath}/milestones/${milestoneNumber}`, { state: 'closed' });
+  }
+
+  async listMilestoneIssues(milestoneNumber: number): Promise<ForgeIssue[]> {
+    const query = new URLSearchParams({ milestones: String(milestoneNumber), state: 'all', type: 'issues', limit: '50' });
+    const issues = await this.requestJson<GiteaIssue[]>('GET', `${this.repoPath}/issues?${query}`);
+    return issues.map(toForgeIssue);
+  }
+
+  async getPullRequest(number: number): Promise<ForgePullRequest | null> {
+    const pr = await this.findJson<GiteaPullRequest>(`${this.repoPath}/pulls/${number}`);
+    return pr ? toForgePullRequest(pr) : null;
+  }
+
+  async listPullRequestChanges(pullRequest: ForgePullRequest): Promise<ForgeFileChange[]> {
+    // The files endpoint has no patches, split the pull request diff instead
+    const response = await this.request('GET', `${this.repoPath}/pulls/${pullRequest.number}.diff`);
+    return splitUnifiedDiff(await response.text());
+  }
+
+  async createPullRequest(input: CreatePullRequestInput): Promise<ForgePullRequest> {
+    const pr = await this.requestJson<GiteaPullRequest>('POST', `${this.repoPath}/pulls`, {
+      title: input.title,
+      body: input.body,
+      head: input.head,
+      base: input.base
+    });
+    return toForgePullRequest(pr);
+  }
+
+  getAuthenticatedCloneUrl(): string | null {
+    // Gitea accepts an access token as the basic auth username
+    const url = new URL(`${this.repositoryUrl}.git`);
+    url.username = this.config.token;
+    return url.toString();
+  }
+}
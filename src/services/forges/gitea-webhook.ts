@@ -0,0 +1,82 @@
+// src/services/forges/gitea-webhook.ts
+
+import crypto from "crypto";
+import { computeContentHash } from "../delivery-ledger";
+import { WebhookEvent } from "../event-router";
+
+/**
+ * Fields of Gitea issue_comment payloads used by the handlers. Forgejo sends the same payloads.
+ */
+export interface GiteaWebhookPayload {
+  action?: string;
+  issue?: { number: number; pull_request?: unknown | null };
+  comment?: { id: number; body?: string; updated_at?: string };
+  repository?: { name: string; full_name?: string; owner?: { login?: string; username?: string } };
+  sender?: { login?: string; username?: string };
+  // Set on comments of pull requests
+  is_pull?: boolean;
+}
+
+/**
+ * Verify the X-Gitea-Signature header using HMAC-SHA256.
+ * Unlike GitHub, Gitea sends the bare hex digest without a "sha256=" prefix.
+ *
+ * @param payload The raw request body
+ * @param signature The X-Gitea-Signature (or X-Forgejo-Signature) header
+ * @returns boolean indicating if the signature is valid
+ */
+export function verifyGiteaSignature(
+  payload: string,
+  signature: string | null,
+  secret: string | undefined = process.env.GITEA_WEBHOOK_SECRET
+): boolean {
+  if (!secret) {
+    console.error("GITEA_WEBHOOK_SECRET environment variable not set");
+    return false;
+  }
+  if (!signature || !/^[0-9a-f]{64}$/i.test(signature)) {
+    console.warn("Invalid or missing Gitea webhook signature");
+    return false;
+  }
+
+  const digest = crypto.createHmac("sha256", secret).update(payload, 'utf8').digest();
+  return crypto.timingSafeEqual(digest, Buffer.from(signature, 'hex'));
+}
+
+/**
+ * Every edit of a comment is a new event, so edits include the edit time
+ */
+function getSubjectRevision(payload: GiteaWebhookPayload, action: string): string {
+  if (action === 'edited' && payload.comment?.updated_at) {
+    return `${action}@${payload.comment.updated_at}`;
+  }
+  return action;
+}
+
+/**
+ * Normalizes a Gitea webhook delivery into the shape the event router works with.
+ * Gitea reports pull request comments as issue_comment events too.
+ *
+ * @param name The X-Gitea-Event header
+ * @param deliveryId The X-Gitea-Delivery header
+ * @param payload The parsed JSON body
+ */
+export function normalizeGiteaEvent(name: string, deliveryId: string | null, payload: GiteaWebhookPayload): WebhookEvent<GiteaWebhookPayload> {
+  const action = typeof payload.action === 'string' ? payload.action : null;
+  const owner = payload.repository?.owner;
+
+  return {
+    name,
+    action,
+    deliveryId,
+    installationId: null,
+    owner: owner?.login ?? owner?.username ?? null,
+    repo: payload.repository?.name ?? null,
+    sender: payload.sender?.login ?? payload.sender?.username ?? null,
+    // Gitea IDs can collide with GitHub ones, keep the subjects apart in the ledger
+    contentHash: payload.comment?.id !== undefined
+      ? computeContentHash(`gitea:comment:${payload.comment.id}`, getSubjectRevision(payload, action ?? name))
+      : null,
+    payload
+  };
+}
@@ -0,0 +1,360 @@
+// src/services/forges/github-client.ts
+
+import { Octokit } from "@octokit/rest";
+import type { AuthorAssociation } from "../../lib/command-permissions";
+import {
+  CommentTarget,
+  CreateIssueInput,
+  CreateMilestoneInput,
+  CreatePullRequestInput,
+  ForgeClient,
+  ForgeComment,
+  ForgeCommit,
+  ForgeFileChange,
+  ForgeIssue,
+  ForgeMilestone,
+  ForgePullRequest,
+  ForgeRepository,
+  ForgeTreeEntry,
+} from "./types";
+
+const isNotFound = (error: unknown) => (error as { status?: number })?.status === 404;
+
+// Repository roles, read access is what anyone has on public repositories
+const ROLE_ASSOCIATIONS: Record<string, AuthorAssociation> = {
+  admin: 'OWNER',
+  maintain: 'MEMBER',
+  write: 'COLLABORATOR',
+  triage: 'CONTRIBUTOR',
+};
+
+function toForgeIssue(issue: {
+  number: number;
+  title: string;
+  body?: string | null;
+  state: string;
+  labels: Array<string | { name?: string }>;
+  assignees?: Array<{ login: string }> | null;
+  milestone?: { number: number } | null;
+  html_url: string;
+}): ForgeIssue {
+  return {
+    number: issue.number,
+    title: issue.title,
+    body: issue.body ?? '',
+    state: issue.state === 'closed' ? 'closed' : 'open',
+    labels: issue.labels
+      .map(label => typeof label === 'string' ? label : label.name ?? '')
+      .filter(Boolean),
+    assignees: (issue.assignees ?? []).map(assignee => assignee.login),
+    milestone: issue.milestone?.number ?? null,
+    url: issue.html_url,
+  };
+}
+
+function toForgeMilestone(milestone: {
+  number: number;
+  title: string;
+  description: string | null;
+  due_on: string | null;
+  html_url: string;
+}): ForgeMilestone {
+  return {
+    number: milestone.number,
+    title: milestone.title,
+    description: milestone.description ?? '',
+    dueOn: milestone.due_on,
+    url: milestone.html_url,
+  };
+}
+
+function toForgePullRequest(pr: {
+  number: number;
+  title: string;
+  body: string | null;
+  html_url: string;
+  head: { ref: string; sha: string };
+  base: { ref: string; sha: string };
+}): ForgePullRequest {
+  return {
+    number: pr.number,
+    title: pr.title,
+    body: pr.body ?? '',
+    headBranch: pr.head.ref,
+    baseBranch: pr.base.ref,
+    headSha: pr.head.sha,
+    baseSha: pr.base.sha,
+    url: pr.html_url,
+  };
+}
+
+/**
+ * Forge client backed by an installation-authenticated Octokit.
+ * Tasks that need GitHub-only features (reactions, review threads) use the octokit directly.
+ */
+export class GitHubForgeClient implements ForgeClient {
+  readonly kind = 'github' as const;
+
+  constructor(
+    readonly octokit: Octokit,
+    readonly owner: string,
+    readonly repo: string
+  ) {}
+
+  forRepository(owner: string, repo: string): ForgeClient {
+    return new GitHubForgeClient(this.octokit, owner, repo);
+  }
+
+  async getRepository(): Promise<ForgeRepository> {
+    const { data } = await this.octokit.repos.get({ owner: this.owner, repo: this.repo });
+    return {
+      fullName: data.full_name,
+      name: data.name,
+      description: data.description,
+      language: data.language,
+      defaultBranch: data.default_branch,
+      stars: data.stargazers_count,
+      forks: data.forks_count,
+      openIssues: data.open_issues_count,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+      webUrl: data.html_url,
+      cloneUrl: `https://github.com/${this.owner}/${this.repo}.git`,
+    };
+  }
+
+  async getAuthorAssociation(login: string): Promise<AuthorAssociation> {
+    try {
+      const { data } = await this.octokit.repos.getCollaboratorPermissionLevel({ owner: this.owner, repo: this.repo, username: login });
+      return ROLE_ASSOCIATIONS[data.role_name] ?? ROLE_ASSOCIATIONS[data.permission] ?? 'NONE';
+    } catch (error) {
+      if (isNotFound(error)) {
+        return 'NONE';
+      }
+      throw error;
+    }
+  }
+
+  async listLanguages(): Promise<Record<string, number>> {
+    const { data } = await this.octokit.repos.listLanguages({ owner: this.owner, repo: this.repo });
+    return data;
+  }
+
+  async listRecentCommits(limit: number): Promise<ForgeCommit[]> {
+    const { data } = await this.octokit.repos.listCommits({ owner: this.owner, repo: this.repo, per_page: limit });
+    return data.map(commit => ({
+      sha: commit.sha,
+      message: commit.commit.message,
+      author: commit.commit.author?.name ?? null,
+    }));
+  }
+
+  async listDirectory(path: string, ref?: string): Promise<ForgeTreeEntry[]> {
+    const { data } = await this.octokit.repos.getContent({ owner: this.owner, repo: this.repo, path, ref });
+    if (!Array.isArray(data)) {
+      return [];
+    }
+    return data.map(item => ({ path: item.path, type: item.type === 'dir' ? 'dir' : 'file' }));
+  }
+
+  async listTree(branch: string): Promise<ForgeTreeEntry[]> {
+    const { data: branchData } = await this.octokit.repos.getBranch({ owner: this.owner, repo: this.repo, branch });
+    const { data: tree } = await this.octokit.git.getTree({
+      owner: this.owner,
+      repo: this.repo,
+      tree_sha: branchData.commit.sha,
+      recursive: 'true'
+    });
+    return tree.tree
+      .filter(item => item.path && (item.type === 'blob' || item.type === 'tree'))
+      .map(item => ({ path: item.path!, type: item.type === 'tree' ? 'dir' : 'file' }));
+  }
+
+  async getFileContent(path: string, ref?: string): Promise<string | null> {
+    try {
+      const { data } = await this.octokit.repos.getContent({ owner: this.owner, repo: this.repo, path, ref });
+      if (!('content' in data) || !data.content) {
+        return null;
+      }
+      return Buffer.from(data.content, 'base64').toString('utf-8');
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async branchExists(branch: string): Promise<boolean> {
+    try {
+      await this.octokit.repos.getBranch({ owner: this.owner, repo: this.repo, branch });
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async countCommitsAhead(branch: string, base: string): Promise<number> {
+    const { data } = await this.octokit.repos.compareCommitsWithBasehead({ owner: this.owner, repo: this.repo, basehead: `${base}...${branch}` });
+    return data.ahead_by;
+  }
+
+  async deleteBranch(branch: string): Promise<void> {
+    await this.octokit.git.deleteRef({ owner: this.owner, repo: this.repo, ref: `heads/${branch}` });
+  }
+
+  async postComment(target: CommentTarget, body: string): Promise<void> {
+    await this.octokit.issues.createComment({ owner: this.owner, repo: this.repo, issue_number: target.number, body });
+  }
+
+  async listComments(target: CommentTarget, limit: number): Promise<ForgeComment[]> {
+    // Comments come oldest first, fetch enough of them to return the latest ones
+    const comments = await this.octokit.paginate(this.octokit.issues.listComments, {
+      owner: this.owner,
+      repo: this.repo,
+      issue_number: target.number,
+      per_page: 100
+    });
+    return comments
+      .slice(-limit)
+      .reverse()
+      .map(comment => ({
+        id: comment.id,
+        author: comment.user?.login ?? null,
+        body: comment.body ?? '',
+        createdAt: comment.created_at,
+      }));
+  }
+
+  async getIssue(issueNumber: number): Promise<ForgeIssue> {
+    const { data } = await this.octokit.issues.get({ owner: this.owner, repo: this.repo, issue_number: issueNumber });
+    return toForgeIssue(data);
+  }
+
+  async createIssue(input: CreateIssueInput): Promise<ForgeIssue> {
+    const { data } = await this.octokit.issues.create({
+      owner: this.owner,
+      repo: this.repo,
+      title: input.title,
+      body: input.body,
+      labels: input.labels,
+      milestone: input.milestone
+    });
+    return toForgeIssue(data);
+  }
+
+  async setIssueMilestone(issueNumber: number, milestoneNumber: number): Promise<void> {
+    await this.octokit.issues.update({ owner: this.owner, repo: this.repo, issue_number: issueNumber, milestone: milestoneNumber });
+  }
+
+  async addLabels(issueNumber: number, labels: string[]): Promise<void> {
+    await this.octokit.issues.addLabels({ owner: this.owner, repo: this.repo, issue_number: issueNumber, labels });
+  }
+
+  async removeLabel(issueNumber: number, label: string): Promise<void> {
+    try {
+      await this.octokit.issues.removeLabel({ owner: this.owner, repo: this.repo, issue_number: issueNumber, name: label });
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+  }
+
+  async assignIssue(issueNumber: number, assignees: string[]): Promise<void> {
+    await this.octokit.issues.update({ owner: this.owner, repo: this.repo, issue_number: issueNumber, assignees });
+  }
+
+  async unassignIssue(issueNumber: number, assignees: string[]): Promise<void> {
+    await this.octokit.issues.removeAssignees({ owner: this.owner, repo: this.repo, issue_number: issueNumber, assignees });
+  }
+
+  async closeIssue(issueNumber: number): Promise<void> {
+    await this.octokit.issues.update({ owner: this.owner, repo: this.repo, issue_number: issueNumber, state: 'closed' });
+  }
+
+  async createMilestone(input: CreateMilestoneInput): Promise<ForgeMilestone> {
+    const { data } = await this.octokit.issues.createMilestone({
+      owner: this.owner,
+      repo: this.repo,
+      title: input.title,
+      description: input.description,
+      due_on: input.dueOn?.toISOString()
+    });
+    return toForgeMilestone(data);
+  }
+
+  async getMilestone(milestoneNumber: number): Promise<ForgeMilestone | null> {
+    try {
+      const { data } = await this.octokit.issues.getMilestone({ owner: this.owner, repo: this.repo, milestone_number: milestoneNumber });
+      return toForgeMilestone(data);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async updateMilestoneDescription(milestoneNumber: number, description: string): Promise<ForgeMilestone> {
+    const { data } = await this.octokit.issues.updateMilestone({ owner: this.owner, repo: this.repo, milestone_number: milestoneNumber, description });
+    return toForgeMilestone(data);
+  }
+
+  async closeMilestone(milestoneNumber: number): Promise<void> {
+    await this.octokit.issues.updateMilestone({ owner: this.owner, repo: this.repo, milestone_number: milestoneNumber, state: 'closed' });
+  }
+
+  async listMilestoneIssues(milestoneNumber: number): Promise<ForgeIssue[]> {
+    const issues = await this.octokit.paginate(this.octokit.issues.listForRepo, {
+      owner: this.owner,
+      repo: this.repo,
+      milestone: milestoneNumber.toString(),
+      state: 'all',
+      per_page: 100
+    });
+    // The issues endpoint also returns pull requests
+    return issues.filter(issue => !issue.pull_request).map(toForgeIssue);
+  }
+
+  async getPullRequest(number: number): Promise<ForgePullRequest | null> {
+    try {
+      const { data } = await this.octokit.pulls.get({ owner: this.owner, repo: this.repo, pull_number: number });
+      return toForgePullRequest(data);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async listPullRequestChanges(pullRequest: ForgePullRequest): Promise<ForgeFileChange[]> {
+    const { data } = await this.octokit.repos.compareCommits({
+      owner: this.owner,
+      repo: this.repo,
+      base: pullRequest.baseSha,
+      head: pullRequest.headSha
+    });
+    return (data.files ?? []).map(file => ({ path: file.filename, patch: file.patch ?? null }));
+  }
+
+  async createPullRequest(input: CreatePullRequestInput): Promise<ForgePullRequest> {
+    const { data } = await this.octokit.pulls.create({
+      owner: this.owner,
+      repo: this.repo,
+      title: input.title,
+      body: input.body,
+      head: input.head,
+      base: input.base
+    });
+    return toForgePullRequest(data);
+  }
+
+  getAuthenticatedCloneUrl(): string | null {
+    return null;
+  }
+}
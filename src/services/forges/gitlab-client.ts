@@ -0,0 +1,474 @@
+// src/services/forges/gitlab-client.ts
+
+import type { AuthorAssociation } from "../../lib/command-permissions";
+import {
+  CommentTarget,
+  CreateIssueInput,
+  CreateMilestoneInput,
+  CreatePullRequestInput,
+  ForgeApiError,
+  ForgeClient,
+  ForgeComment,
+  ForgeCommit,
+  ForgeFileChange,
+  ForgeIssue,
+  ForgeMilestone,
+  ForgePullRequest,
+  ForgeRepository,
+  ForgeTreeEntry,
+} from "./types";
+
+export interface GitLabConfig {
+  // Instance URL without the /api/v4 suffix
+  baseUrl: string;
+  // Personal, project or group access token with the api scope
+  token: string;
+}
+
+// Recursive trees are paginated, stop before huge repositories exhaust the rate limit
+const MAX_TREE_PAGES = 50;
+
+// Lowest member access level of each association: Owner, Maintainer, Developer, Reporter
+const ACCESS_LEVEL_ASSOCIATIONS: Array<[number, AuthorAssociation]> = [
+  [50, 'OWNER'],
+  [40, 'MEMBER'],
+  [30, 'COLLABORATOR'],
+  [20, 'CONTRIBUTOR'],
+];
+
+/**
+ * Reads the GitLab connection settings
+ * @throws Error when GITLAB_TOKEN is missing
+ */
+export function getGitLabConfig(env: Record<string, string | undefined> = process.env): GitLabConfig {
+  if (!env.GITLAB_TOKEN) {
+    throw new Error("GitLab token not configured");
+  }
+  return {
+    baseUrl: (env.GITLAB_URL || 'https://gitlab.com').replace(/\/+$/, ''),
+    token: env.GITLAB_TOKEN,
+  };
+}
+
+// Fields of the GitLab API responses the client reads
+
+interface GitLabUser {
+  id: number;
+  username: string;
+}
+
+interface GitLabIssue {
+  iid: number;
+  title: string;
+  description: string | null;
+  state: string;
+  labels?: string[];
+  assignees?: GitLabUser[];
+  milestone?: { iid: number } | null;
+  web_url: string;
+}
+
+interface GitLabMilestone {
+  // Global ID the API addresses the milestone by
+  id: number;
+  iid: number;
+  title: string;
+  description: string | null;
+  due_date: string | null;
+  web_url: string;
+}
+
+interface GitLabMergeRequest {
+  iid: number;
+  title: string;
+  description: string | null;
+  source_branch: string;
+  target_branch: string;
+  sha: string;
+  diff_refs?: { head_sha: string; base_sha: string } | null;
+  web_url: string;
+}
+
+interface GitLabProject {
+  path_with_namespace: string;
+  path: string;
+  description: string | null;
+  default_branch?: string | null;
+  star_count?: number;
+  forks_count?: number;
+  open_issues_count?: number;
+  created_at?: string;
+  last_activity_at?: string;
+  web_url: string;
+  http_url_to_repo: string;
+}
+
+interface GitLabCommit {
+  id: string;
+  title: string;
+  message?: string;
+  author_name?: string | null;
+}
+
+interface GitLabTreeEntry {
+  path: string;
+  type: 'tree' | 'blob' | 'commit';
+}
+
+interface GitLabNote {
+  id: number;
+  // Label and milestone changes recorded by GitLab
+  system: boolean;
+  author?: { username: string } | null;
+  body: string | null;
+  created_at: string;
+}
+
+interface GitLabDiff {
+  new_path: string;
+  diff: string;
+}
+
+function toForgeIssue(issue: GitLabIssue): ForgeIssue {
+  return {
+    number: issue.iid,
+    title: issue.title,
+    body: issue.description ?? '',
+    state: issue.state === 'closed' ? 'closed' : 'open',
+    labels: issue.labels ?? [],
+    assignees: (issue.assignees ?? []).map(assignee => assignee.username),
+    milestone: issue.milestone?.iid ?? null,
+    url: issue.web_url,
+  };
+}
+
+function toForgeMilestone(milestone: GitLabMilestone): ForgeMilestone {
+  return {
+    number: milestone.iid,
+    title: milestone.title,
+    description: milestone.description ?? '',
+    dueOn: milestone.due_date ?? null,
+    url: milestone.web_url,
+  };
+}
+
+function toForgePullRequest(mergeRequest: GitLabMergeRequest): ForgePullRequest {
+  return {
+    number: mergeRequest.iid,
+    title: mergeRequest.title,
+    body: mergeRequest.description ?? '',
+    headBranch: mergeRequest.source_branch,
+    baseBranch: mergeRequest.target_branch,
+    headSha: mergeRequest.diff_refs?.head_sha ?? mergeRequest.sha,
+    baseSha: mergeRequest.diff_refs?.base_sha ?? '',
+    url: mergeRequest.web_url,
+  };
+}
+
+/**
+ * Forge client for GitLab's REST API (v4). Merge requests play the role of pull requests
+ * and notes the role of comments.
+ */
+export class GitLabForgeClient implements ForgeClient {
+  readonly kind = 'gitlab' as const;
+  private defaultBranch?: string;
+
+  constructor(
+    private readonly config: GitLabConfig,
+    readonly owner: string,
+    readonly repo: string
+  ) {}
+
+  private get projectPath(): string {
+    return `/projects/${encodeURIComponent(`${this.owner}/${this.repo}`)}`;
+  }
+
+  private async request(method: string, path: string, body?: unknown): Promise<Response> {
+    const response = await fetch(`${this.config.baseUrl}/api/v4${path}`, {
+      method,
+      headers: {
+        'PRIVATE-TOKEN': this.config.token,
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {})
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new ForgeApiError(`GitLab API ${method} ${path} failed: ${response.status} ${detail}`.trim(), response.status);
+    }
+    return response;
+  }
+
+  private async requestJson<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await this.request(method, path, body);
+    return await response.json() as T;
+  }
+
+  // Resolves to null instead of throwing when the resource doesn't exist
+  private async findJson<T = unknown>(path: string): Promise<T | null> {
+    try {
+      return await this.requestJson<T>('GET', path);
+    } catch (error) {
+      if (error instanceof ForgeApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async getDefaultBranch(): Promise<string> {
+    if (!this.defaultBranch) {
+      this.defaultBranch = (await this.getRepository()).defaultBranch;
+    }
+    return this.defaultBranch;
+  }
+
+  // The API addresses milestones by their global ID, URLs show the project-level iid
+  private async findMilestone(milestoneNumber: number): Promise<GitLabMilestone | null> {
+    const milestones = await this.requestJson<GitLabMilestone[]>('GET', `${this.projectPath}/milestones?iids[]=${milestoneNumber}`);
+    return milestones[0] ?? null;
+  }
+
+  private async getMilestoneId(milestoneNumber: number): Promise<number> {
+    const milestone = await this.findMilestone(milestoneNumber);
+    if (!milestone) {
+      throw new ForgeApiError(`GitLab milestone ${milestoneNumber} not found in ${this.owner}/${this.repo}`, 404);
+    }
+    return milestone.id;
+  }
+
+  forRepository(owner: string, repo: string): ForgeClient {
+    return new GitLabForgeClient(this.config, owner, repo);
+  }
+
+  async getRepository(): Promise<ForgeRepository> {
+    const [project, languages] = await Promise.all([
+      this.requestJson<GitLabProject>('GET', this.projectPath),
+      this.listLanguages()
+    ]);
+    const [language] = Object.entries(languages).sort((a, b) => b[1] - a[1]);
+
+    this.defaultBranch = project.default_branch ?? 'main';
+    return {
+      fullName: project.path_with_namespace,
+      name: project.path,
+      description: project.description || null,
+      language: language?.[0] ?? null,
+      defaultBranch: this.defaultBranch!,
+      stars: project.star_count ?? 0,
+      forks: project.forks_count ?? 0,
+      openIssues: project.open_issues_count ?? 0,
+      createdAt: project.created_at ?? null,
+      updatedAt: project.last_activity_at ?? null,
+      webUrl: project.web_url,
+      cloneUrl: project.http_url_to_repo,
+    };
+  }
+
+  async getAuthorAssociation(login: string): Promise<AuthorAssociation> {
+    const [user] = await this.requestJson<GitLabUser[]>('GET', `/users?username=${encodeURIComponent(login)}`);
+    // members/all includes the members inherited from the parent groups
+    const member = user ? await this.findJson<{ access_level: number }>(`${this.projectPath}/members/all/${user.id}`) : null;
+    const level = member?.access_level ?? 0;
+    return ACCESS_LEVEL_ASSOCIATIONS.find(([minimum]) => level >= minimum)?.[1] ?? 'NONE';
+  }
+
+  async listLanguages(): Promise<Record<string, number>> {
+    return await this.requestJson<Record<string, number>>('GET', `${this.projectPath}/languages`);
+  }
+
+  async listRecentCommits(limit: number): Promise<ForgeCommit[]> {
+    const commits = await this.requestJson<GitLabCommit[]>('GET', `${this.projectPath}/repository/commits?per_page=${limit}`);
+    return commits.map(commit => ({
+      sha: commit.id,
+      message: commit.message ?? commit.title,
+      author: commit.author_name ?? null,
+    }));
+  }
+
+  async listDirectory(path: string, ref?: string): Promise<ForgeTreeEntry[]> {
+    const query = new URLSearchParams({ per_page: '100', ref: ref ?? await this.getDefaultBranch() });
+    if (path) {
+      query.set('path', path);
+    }
+    const entries = await this.requestJson<GitLabTreeEntry[]>('GET', `${this.projectPath}/repository/tree?${query}`);
+    return entries.map(entry => ({ path: entry.path, type: entry.type === 'tree' ? 'dir' : 'file' }));
+  }
+
+  async listTree(branch: string): Promise<ForgeTreeEntry[]> {
+    const entries: ForgeTreeEntry[] = [];
+    let page = '1';
+
+    for (let count = 0; page && count < MAX_TREE_PAGES; count++) {
+      const query = new URLSearchParams({ recursive: 'true', per_page: '100', ref: branch, page });
+      const response = await this.request('GET', `${this.projectPath}/repository/tree?${query}`);
+      const pageEntries = await response.json() as GitLabTreeEntry[];
+      entries.push(...pageEntries.map(entry => ({ path: entry.path, type: entry.type === 'tree' ? 'dir' as const : 'file' as const })));
+      page = response.headers.get('x-next-page') ?? '';
+    }
+
+    return entries;
+  }
+
+  async getFileContent(path: string, ref?: string): Promise<string | null> {
+    const query = new URLSearchParams({ ref: ref ?? await this.getDefaultBranch() });
+    try {
+      const response = await this.request('GET', `${this.projectPath}/repository/files/${encodeURIComponent(path)}/raw?${query}`);
+      return await response.text();
+    } catch (error) {
+      if (error instanceof ForgeApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async branchExists(branch: string): Promise<boolean> {
+    return await this.findJson(`${this.projectPath}/repository/branches/${encodeURIComponent(branch)}`) !== null;
+  }
+
+  async countCommitsAhead(branch: string, base: string): Promise<number> {
+    const query = new URLSearchParams({ from: base, to: branch });
+    const comparison = await this.requestJson<{ commits?: unknown[] }>('GET', `${this.projectPath}/repository/compare?${query}`);
+    return (comparison.commits ?? []).length;
+  }
+
+  async deleteBranch(branch: string): Promise<void> {
+    await this.request('DELETE', `${this.projectPath}/repository/branches/${encodeURIComponent(branch)}`);
+  }
+
+  async postComment(target: CommentTarget, body: string): Promise<void> {
+    const collection = target.isPullRequest ? 'merge_requests' : 'issues';
+    await this.requestJson('POST', `${this.projectPath}/${collection}/${target.number}/notes`, { body });
+  }
+
+  async listComments(target: CommentTarget, limit: number): Promise<ForgeComment[]> {
+    const collection = target.isPullRequest ? 'merge_requests' : 'issues';
+    const query = new URLSearchParams({ sort: 'desc', order_by: 'created_at', per_page: String(Math.min(limit, 100)) });
+    const notes = await this.requestJson<GitLabNote[]>('GET', `${this.projectPath}/${collection}/${target.number}/notes?${query}`);
+    return notes
+      .filter(note => !note.system)
+      .map(note => ({
+        id: note.id,
+        author: note.author?.username ?? null,
+        body: note.body ?? '',
+        createdAt: note.created_at,
+      }));
+  }
+
+  async getIssue(issueNumber: number): Promise<ForgeIssue> {
+    return toForgeIssue(await this.requestJson<GitLabIssue>('GET', `${this.projectPath}/issues/${issueNumber}`));
+  }
+
+  async createIssue(input: CreateIssueInput): Promise<ForgeIssue> {
+    const issue = await this.requestJson<GitLabIssue>('POST', `${this.projectPath}/issues`, {
+      title: input.title,
+      description: input.body,
+      labels: input.labels?.join(','),
+      milestone_id: input.milestone !== undefined ? await this.getMilestoneId(input.milestone) : undefined
+    });
+    return toForgeIssue(issue);
+  }
+
+  async setIssueMilestone(issueNumber: number, milestoneNumber: number): Promise<void> {
+    await this.requestJson('PUT', `${this.projectPath}/issues/${issueNumber}`, {
+      milestone_id: await this.getMilestoneId(milestoneNumber)
+    });
+  }
+
+  async addLabels(issueNumber: number, labels: string[]): Promise<void> {
+    await this.requestJson('PUT', `${this.projectPath}/issues/${issueNumber}`, { add_labels: labels.join(',') });
+  }
+
+  async removeLabel(issueNumber: number, label: string): Promise<void> {
+    await this.requestJson('PUT', `${this.projectPath}/issues/${issueNumber}`, { remove_labels: label });
+  }
+
+  async assignIssue(issueNumber: number, assignees: string[]): Promise<void> {
+    // Assignees are set by user ID, look the usernames up first
+    const assigneeIds = await Promise.all(assignees.map(async username => {
+      const [user] = await this.requestJson<GitLabUser[]>('GET', `/users?username=${encodeURIComponent(username)}`);
+      if (!user) {
+        throw new ForgeApiError(`GitLab user ${username} not found`, 404);
+      }
+      return user.id;
+    }));
+    await this.requestJson('PUT', `${this.projectPath}/issues/${issueNumber}`, { assignee_ids: assigneeIds });
+  }
+
+  async unassignIssue(issueNumber: number, assignees: string[]): Promise<void> {
+    const issue = await this.requestJson<GitLabIssue>('GET', `${this.projectPath}/issues/${issueNumber}`);
+    const remainingIds = (issue.assignees ?? [])
+      .filter(assignee => !assignees.includes(assignee.username))
+      .map(assignee => assignee.id);
+    // 0 clears the assignees, an empty list is ignored by older GitLab versions
+    await this.requestJson('PUT', `${this.projectPath}/issues/${issueNumber}`, { assignee_ids: remainingIds.length > 0 ? remainingIds : [0] });
+  }
+
+  async closeIssue(issueNumber: number): Promise<void> {
+    await this.requestJson('PUT', `${this.projectPath}/issues/${issueNumber}`, { state_event: 'close' });
+  }
+
+  async createMilestone(input: CreateMilestoneInput): Promise<ForgeMilestone> {
+    const milestone = await this.requestJson<GitLabMilestone>('POST', `${this.projectPath}/milestones`, {
+      title: input.title,
+      description: input.description,
+      // GitLab milestones have a due date, not a due time
+      due_date: input.dueOn?.toISOString().slice(0, 10)
+    });
+    return toForgeMilestone(milestone);
+  }
+
+  async getMilestone(milestoneNumber: number): Promise<ForgeMilestone | null> {
+    const milestone = await this.findMilestone(milestoneNumber);
+    return milestone ? toForgeMilestone(milestone) : null;
+  }
+
+  async updateMilestoneDescription(milestoneNumber: number, description: string): Promise<ForgeMilestone> {
+    const milestoneId = await this.getMilestoneId(milestoneNumber);
+    const milestone = await this.requestJson<GitLabMilestone>('PUT', `${this.projectPath}/milestones/${milestoneId}`, { description });
+    return toForgeMilestone(milestone);
+  }
+
+  async closeMilestone(milestoneNumber: number): Promise<void> {
+    const milestoneId = await this.getMilestoneId(milestoneNumber);
+    await this.requestJson('PUT', `${this.projectPath}/milestones/${milestoneId}`, { state_event: 'close' });
+  }
+
+  async listMilestoneIssues(milestoneNumber: number): Promise<ForgeIssue[]> {
+    const milestoneId = await this.getMilestoneId(milestoneNumber);
+    const issues = await this.requestJson<GitLabIssue[]>('GET', `${this.projectPath}/milestones/${milestoneId}/issues?per_page=100`);
+    return issues.map(toForgeIssue);
+  }
+
+  async getPullRequest(number: number): Promise<ForgePullRequest | null> {
+    const mergeRequest = await this.findJson<GitLabMergeRequest>(`${this.projectPath}/merge_requests/${number}`);
+    return mergeRequest ? toForgePullRequest(mergeRequest) : null;
+  }
+
+  async listPullRequestChanges(pullRequest: ForgePullRequest): Promise<ForgeFileChange[]> {
+    const diffs = await this.requestJson<GitLabDiff[]>('GET', `${this.projectPath}/merge_requests/${pullRequest.number}/diffs?per_page=100`);
+    return diffs.map(diff => ({
+      path: diff.new_path,
+      patch: diff.diff ? diff.diff : null,
+    }));
+  }
+
+  async createPullRequest(input: CreatePullRequestInput): Promise<ForgePullRequest> {
+    const mergeRequest = await this.requestJson<GitLabMergeRequest>('POST', `${this.projectPath}/merge_requests`, {
+      title: input.title,
+      description: input.body,
+      source_branch: input.head,
+      target_branch: input.base
+    });
+    return toForgePullRequest(mergeRequest);
+  }
+
+  getAuthenticatedCloneUrl(): string | null {
+    const url = new URL(`${this.config.baseUrl}/${this.owner}/${this.repo}.git`);
+    url.username = 'oauth2';
+    url.password = this.config.token;
+    return url.toString();
+  }
+}
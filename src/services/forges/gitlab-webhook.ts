@@ -0,0 +1,104 @@
+// src/services/forges/gitlab-webhook.ts
+
+import crypto from "crypto";
+import { computeContentHash } from "../delivery-ledger";
+import { WebhookEvent } from "../event-router";
+
+/**
+ * Fields of GitLab Note Hook and Merge Request Hook payloads used by the handlers
+ */
+export interface GitLabWebhookPayload {
+  object_kind: string;
+  user?: { username: string };
+  project?: { id: number; path_with_namespace: string };
+  object_attributes?: {
+    id: number;
+    iid?: number;
+    action?: string;
+    note?: string;
+    noteable_type?: string;
+    title?: string;
+    description?: string | null;
+    updated_at?: string;
+  };
+  issue?: { iid: number };
+  merge_request?: { iid: number };
+}
+
+/**
+ * Verify the X-Gitlab-Token header against the configured secret.
+ * GitLab sends the secret itself rather than a signature, compared in constant time.
+ *
+ * @param token The X-Gitlab-Token header
+ * @returns boolean indicating if the token is valid
+ */
+export function verifyGitLabToken(token: string | null, secret: string | undefined = process.env.GITLAB_WEBHOOK_SECRET): boolean {
+  if (!secret) {
+    console.error("GITLAB_WEBHOOK_SECRET environment variable not set");
+    return false;
+  }
+  if (!token) {
+    console.warn("Missing GitLab webhook token");
+    return false;
+  }
+
+  // Hash both sides so tokens of different lengths can be compared in constant time
+  const expected = crypto.createHash('sha256').update(secret, 'utf8').digest();
+  const received = crypto.createHash('sha256').update(token, 'utf8').digest();
+  return crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Splits a GitLab project path into the owner (namespace, possibly nested) and repo parts
+ */
+export function splitProjectPath(pathWithNamespace: string): { owner: string; repo: string } | null {
+  const separator = pathWithNamespace.lastIndexOf('/');
+  if (separator <= 0 || separator === pathWithNamespace.length - 1) {
+    return null;
+  }
+  return { owner: pathWithNamespace.slice(0, separator), repo: pathWithNamespace.slice(separator + 1) };
+}
+
+function getGitLabAction(payload: GitLabWebhookPayload): string | null {
+  return payload.object_attributes?.action ?? (payload.object_kind === 'note' ? 'create' : null);
+}
+
+/**
+ * Every update of a note or merge request is a new event, so updates include the update time
+ */
+function getSubjectRevision(payload: GitLabWebhookPayload, action: string | null): string {
+  const updatedAt = payload.object_attributes?.updated_at;
+  if (action === 'update' && updatedAt) {
+    return `${action}@${updatedAt}`;
+  }
+  return action ?? payload.object_kind;
+}
+
+/**
+ * Normalizes a GitLab webhook delivery into the shape the event router works with.
+ * The event name is the object_kind (note, merge_request) and the action comes from the
+ * object attributes (notes without one are creations).
+ *
+ * @param deliveryId The X-Gitlab-Event-UUID header
+ * @param payload The parsed JSON body
+ */
+export function normalizeGitLabEvent(deliveryId: string | null, payload: GitLabWebhookPayload): WebhookEvent<GitLabWebhookPayload> {
+  const attributes = payload.object_attributes;
+  const action = getGitLabAction(payload);
+  const project = payload.project?.path_with_namespace ? splitProjectPath(payload.project.path_with_namespace) : null;
+
+  return {
+    name: payload.object_kind,
+    action,
+    deliveryId,
+    installationId: null,
+    owner: project?.owner ?? null,
+    repo: project?.repo ?? null,
+    sender: payload.user?.username ?? null,
+    // GitLab IDs can collide with GitHub ones, keep the subjects apart in the ledger
+    contentHash: attributes?.id !== undefined
+      ? computeContentHash(`gitlab:${payload.object_kind}:${attributes.id}`, getSubjectRevision(payload, action))
+      : null,
+    payload
+  };
+}
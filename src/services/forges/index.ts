@@ -0,0 +1,32 @@
+// src/services/forges/index.ts
+// Forge clients let tasks work on repositories hosted outside GitHub
+
+export * from "./types";
+export { GitHubForgeClient } from "./github-client";
+export { GitLabForgeClient, getGitLabConfig } from "./gitlab-client";
+export type { GitLabConfig } from "./gitlab-client";
+export { normalizeGitLabEvent, verifyGitLabToken } from "./gitlab-webhook";
+export type { GitLabWebhookPayload } from "./gitlab-webhook";
+export { GiteaForgeClient, getGiteaConfig } from "./gitea-client";
+export type { GiteaConfig } from "./gitea-client";
+export { normalizeGiteaEvent, verifyGiteaSignature } from "./gitea-webhook";
+export type { GiteaWebhookPayload } from "./gitea-webhook";
+
+/**
+ * Tasks that work through a ForgeClient and can run for commands from any forge.
+ * The others still talk to GitHub directly.
+ */
+export const FORGE_NEUTRAL_TASKS: readonly string[] = [
+  'plan-task',
+  'plan-approval-task',
+  'plan-refinement-task',
+  'plan-cancellation-task',
+  'plan-execution-task',
+  'full-code-review',
+  'codex-task',
+  'command-feedback-task',
+  'help-task',
+  'status-task',
+  'config-task',
+  'stop-task',
+];
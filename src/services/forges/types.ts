@@ -0,0 +1,184 @@
+// src/services/forges/types.ts
+
+import type { AuthorAssociation } from "../../lib/command-permissions";
+import { ForgeKind } from "../task-types";
+
+/**
+ * Issue or pull/merge request a comment is posted on
+ */
+export interface CommentTarget {
+  number: number;
+  // Required on forges that number issues and merge requests separately
+  isPullRequest?: boolean;
+}
+
+export interface ForgeRepository {
+  fullName: string;
+  name: string;
+  description: string | null;
+  language: string | null;
+  defaultBranch: string;
+  stars: number;
+  forks: number;
+  openIssues: number;
+  createdAt: string | null;
+  updatedAt: string | null;
+  webUrl: string;
+  // Unauthenticated HTTPS clone URL
+  cloneUrl: string;
+}
+
+export interface ForgeTreeEntry {
+  path: string;
+  type: 'file' | 'dir';
+}
+
+export interface ForgeCommit {
+  sha: string;
+  message: string;
+  author: string | null;
+}
+
+export interface ForgeIssue {
+  number: number;
+  title: string;
+  body: string;
+  state: 'open' | 'closed';
+  labels: string[];
+  assignees: string[];
+  milestone: number | null;
+  url: string;
+}
+
+export interface ForgeComment {
+  id: number;
+  author: string | null;
+  body: string;
+  createdAt: string;
+}
+
+export interface ForgeMilestone {
+  number: number;
+  title: string;
+  description: string;
+  dueOn: string | null;
+  url: string;
+}
+
+export interface ForgePullRequest {
+  number: number;
+  title: string;
+  body: string;
+  headBranch: string;
+  baseBranch: string;
+  headSha: string;
+  baseSha: string;
+  url: string;
+}
+
+export interface ForgeFileChange {
+  path: string;
+  // Unified diff of the file, null for binary or oversized changes
+  patch: string | null;
+}
+
+export interface CreateIssueInput {
+  title: string;
+  body: string;
+  labels?: string[];
+  milestone?: number;
+}
+
+export interface CreateMilestoneInput {
+  title: string;
+  description: string;
+  dueOn?: Date;
+}
+
+export interface CreatePullRequestInput {
+  title: string;
+  body: string;
+  head: string;
+  base: string;
+}
+
+/**
+ * Repository operations the tasks need, implemented once per forge.
+ * A client is bound to the repository the command came from.
+ */
+export interface ForgeClient {
+  readonly kind: ForgeKind;
+  readonly owner: string;
+  readonly repo: string;
+
+  // Client for another repository of the same forge, with the same credentials
+  forRepository(owner: string, repo: string): ForgeClient;
+  getRepository(): Promise<ForgeRepository>;
+  /**
+   * How a user relates to the repository: their access level mapped to the GitHub author
+   * associations command permissions are written in, NONE without access
+   */
+  getAuthorAssociation(login: string): Promise<AuthorAssociation>;
+  /**
+   * Size of each language in the repository. Units differ between forges
+   * (bytes on GitHub, percent on GitLab), only compare values of one call.
+   */
+  listLanguages(): Promise<Record<string, number>>;
+  listRecentCommits(limit: number): Promise<ForgeCommit[]>;
+  // Entries of one directory, the root when path is empty
+  listDirectory(path: string, ref?: string): Promise<ForgeTreeEntry[]>;
+  // Every file and directory of the branch, recursively
+  listTree(branch: string): Promise<ForgeTreeEntry[]>;
+  // Decoded file content, null when the file doesn't exist
+  getFileContent(path: string, ref?: string): Promise<string | null>;
+  branchExists(branch: string): Promise<boolean>;
+  // Commits on branch that base doesn't have
+  countCommitsAhead(branch: string, base: string): Promise<number>;
+  deleteBranch(branch: string): Promise<void>;
+
+  postComment(target: CommentTarget, body: string): Promise<void>;
+  // Most recent comments first
+  listComments(target: CommentTarget, limit: number): Promise<ForgeComment[]>;
+  getIssue(issueNumber: number): Promise<ForgeIssue>;
+  createIssue(input: CreateIssueInput): Promise<ForgeIssue>;
+  setIssueMilestone(issueNumber: number, milestoneNumber: number): Promise<void>;
+  addLabels(issueNumber: number, labels: string[]): Promise<void>;
+  // Does nothing when the issue doesn't carry the label
+  removeLabel(issueNumber: number, label: string): Promise<void>;
+  assignIssue(issueNumber: number, assignees: string[]): Promise<void>;
+  unassignIssue(issueNumber: number, assignees: string[]): Promise<void>;
+  closeIssue(issueNumber: number): Promise<void>;
+
+  /**
+   * Milestones are addressed by the number shown in their URL: the per-repository number
+   * on GitHub and GitLab, the ID on Gitea
+   */
+  createMilestone(input: CreateMilestoneInput): Promise<ForgeMilestone>;
+  // Null when the milestone doesn't exist
+  getMilestone(milestoneNumber: number): Promise<ForgeMilestone | null>;
+  updateMilestoneDescription(milestoneNumber: number, description: string): Promise<ForgeMilestone>;
+  closeMilestone(milestoneNumber: number): Promise<void>;
+  // Open and closed issues of the milestone
+  listMilestoneIssues(milestoneNumber: number): Promise<ForgeIssue[]>;
+
+  // Null when no pull/merge request has that number
+  getPullRequest(number: number): Promise<ForgePullRequest | null>;
+  listPullRequestChanges(pullRequest: ForgePullRequest): Promise<ForgeFileChange[]>;
+  createPullRequest(input: CreatePullRequestInput): Promise<ForgePullRequest>;
+
+  /**
+   * Clone URL carrying the forge credentials, for codex to clone and push with.
+   * Null when codex authenticates on its own (GitHub App installations).
+   */
+  getAuthenticatedCloneUrl(): string | null;
+}
+
+/**
+ * Raised by forge clients when the forge API answers with an error status
+ */
+export class ForgeApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ForgeApiError';
+  }
+}
@@ -0,0 +1,212 @@
+// src/services/installation-registry.ts
+
+import { createStateStore, StateStore } from "./state-store";
+
+/**
+ * What we know about one installation of the GitHub App
+ */
+export interface InstallationRecord {
+  installationId: number;
+  account: string;
+  accountType: string | null;
+  // Full names (owner/repo) of the repositories the installation can access
+  repositories: string[];
+  installedAt: number;
+  updatedAt: number;
+  // Set when the app was uninstalled; the record is kept for admin views
+  removedAt: number | null;
+}
+
+/**
+ * An installation as GitHub reports it
+ */
+export interface InstallationLookup {
+  installationId: number;
+  account: string;
+  accountType: string | null;
+}
+
+/**
+ * Asks GitHub about installations whose webhooks never reached this deployment
+ */
+export interface InstallationResolver {
+  // Resolve to null when the installation doesn't exist or was removed
+  getInstallation(installationId: number): Promise<InstallationLookup | null>;
+  // Resolve to null when the app isn't installed on the repository
+  getRepositoryInstallation(owner: string, repo: string): Promise<InstallationLookup | null>;
+}
+
+function toLookup(data: { id: number; account: { login?: string; name?: string | null; type?: string } | null }): InstallationLookup {
+  return {
+    installationId: data.id,
+    account: data.account?.login ?? data.account?.name ?? 'unknown',
+    accountType: data.account?.type ?? null,
+  };
+}
+
+// GitHub answers 404 for installations and repositories the app can't see
+async function orNotFound<T>(lookup: () => Promise<T>): Promise<T | null> {
+  try {
+    return await lookup();
+  } catch (error) {
+    if ((error as { status?: number }).status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Looks installations up through the GitHub App API
+ */
+export const gitHubInstallationResolver: InstallationResolver = {
+  async getInstallation(installationId) {
+    const { createAppOctokit } = await import("../trigger/github-auth");
+    return orNotFound(async () => {
+      const { data } = await createAppOctokit().apps.getInstallation({ installation_id: installationId });
+      return data.suspended_at ? null : toLookup(data);
+    });
+  },
+
+  async getRepositoryInstallation(owner, repo) {
+    const { createAppOctokit } = await import("../trigger/github-auth");
+    return orNotFound(async () => {
+      const { data } = await createAppOctokit().apps.getRepoInstallation({ owner, repo });
+      return data.suspended_at ? null : toLookup(data);
+    });
+  },
+};
+
+/**
+ * Records installations of the app and the repositories they cover.
+ * Webhooks keep the records up to date; installations they missed are looked up on GitHub
+ * and recorded, so the registry works as a cache.
+ */
+export class InstallationRegistry {
+  constructor(
+    private readonly store: StateStore<InstallationRecord> = createStateStore<InstallationRecord>('installations'),
+    private readonly resolver: InstallationResolver = gitHubInstallationResolver
+  ) {}
+
+  /**
+   * Records a new installation, or a reinstallation of a removed one
+   */
+  async recordInstallation(
+    installationId: number,
+    account: string,
+    accountType: string | null,
+    repositories: string[]
+  ): Promise<InstallationRecord> {
+    const now = Date.now();
+    const existing = await this.get(installationId);
+    const record: InstallationRecord = {
+      installationId,
+      account,
+      accountType,
+      repositories: [...new Set(repositories)].sort(),
+      installedAt: existing && !existing.removedAt ? existing.installedAt : now,
+      updatedAt: now,
+      removedAt: null
+    };
+
+    await this.store.set(this.key(installationId), record);
+    return record;
+  }
+
+  /**
+   * Adds and removes repositories of an installation
+   * @returns The updated record, or undefined for installations we never saw being created
+   */
+  async updateRepositories(installationId: number, added: string[], removed: string[]): Promise<InstallationRecord | undefined> {
+    const existing = await this.get(installationId);
+    if (!existing) {
+      return undefined;
+    }
+
+    const repositories = new Set(existing.repositories);
+    added.forEach(repository => repositories.add(repository));
+    removed.forEach(repository => repositories.delete(repository));
+
+    const record = { ...existing, repositories: [...repositories].sort(), updatedAt: Date.now() };
+    await this.store.set(this.key(installationId), record);
+    return record;
+  }
+
+  async markRemoved(installationId: number): Promise<void> {
+    const existing = await this.get(installationId);
+    if (existing) {
+      const now = Date.now();
+      await this.store.set(this.key(installationId), { ...existing, removedAt: now, updatedAt: now });
+    }
+  }
+
+  async get(installationId: number): Promise<InstallationRecord | undefined> {
+    return this.store.get(this.key(installationId));
+  }
+
+  /**
+   * Finds an active installation, asking GitHub when it was never recorded
+   * @returns The record, or undefined when the installation doesn't exist or was removed
+   */
+  async resolve(installationId: number): Promise<InstallationRecord | undefined> {
+    const existing = await this.get(installationId);
+    if (existing) {
+      return existing.removedAt ? undefined : existing;
+    }
+
+    const found = await this.resolver.getInstallation(installationId);
+    return found ? this.recordInstallation(found.installationId, found.account, found.accountType, []) : undefined;
+  }
+
+  /**
+   * Checks whether an active installation covers a repository, asking GitHub when the record doesn't list it
+   */
+  async coversRepository(installationId: number, owner: string, repo: string): Promise<boolean> {
+    const fullName = `${owner}/${repo}`;
+    const existing = await this.get(installationId);
+    if (existing?.removedAt) {
+      return false;
+    }
+    if (existing?.repositories.some(repository => repository.toLowerCase() === fullName.toLowerCase())) {
+      return true;
+    }
+
+    const found = await this.resolver.getRepositoryInstallation(owner, repo);
+    if (found?.installationId !== installationId) {
+      return false;
+    }
+
+    if (existing) {
+      await this.updateRepositories(installationId, [fullName], []);
+    } else {
+      await this.recordInstallation(installationId, found.account, found.accountType, [fullName]);
+    }
+    return true;
+  }
+
+  /**
+   * Lists installations, most recently updated first
+   */
+  async list(includeRemoved: boolean = false): Promise<InstallationRecord[]> {
+    return (await this.store.entries())
+      .map(([, record]) => record)
+      .filter(record => includeRemoved || !record.removedAt)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  private key(installationId: number): string {
+    return `installation:${installationId}`;
+  }
+}
+
+let _registry: InstallationRegistry | null = null;
+
+/**
+ * Shared registry instance used by the webhook route
+ */
+export function getInstallationRegistry(): InstallationRegistry {
+  if (!_registry) {
+    _registry = new InstallationRegistry();
+  }
+  return _registry;
+}
@@ -0,0 +1,134 @@
+// src/services/run-registry.ts
+
+import { createStateStore, StateStore } from "./state-store";
+import { ForgeKind } from "./task-types";
+
+// Commands are rarely edited or deleted after a day; older entries are swept
+export const COMMENT_RUN_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Expired records are swept after this many recordings
+const PRUNE_INTERVAL = 100;
+
+/**
+ * A run started for a command comment
+ */
+export interface CommentRun {
+  taskId: string;
+  runId: string;
+}
+
+/**
+ * Runs started by one comment, together with the command text that started them
+ */
+export interface CommentRunRecord {
+  commentId: number;
+  // Forge of the comment, GitHub when unset; comment IDs of different forges can collide
+  forge?: ForgeKind;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  // Set when the forge reported it; on GitLab merge requests are numbered apart from issues
+  isPullRequest?: boolean;
+  message: string;
+  runs: CommentRun[];
+  recordedAt: number;
+}
+
+/**
+ * The issue or pull request thread a command was written in
+ */
+export type CommentThread = Pick<CommentRunRecord, 'owner' | 'repo' | 'issueNumber' | 'forge' | 'isPullRequest'>;
+
+// GitLab numbers merge requests apart from issues, on the other forges the number alone names the thread
+function threadKey(thread: CommentThread): string {
+  const forge = thread.forge ?? 'github';
+  const separator = forge === 'gitlab' && thread.isPullRequest ? '!' : '#';
+  return `${forge}:${thread.owner}/${thread.repo}${separator}${thread.issueNumber}`;
+}
+
+/**
+ * Tracks which runs each command comment started, so that editing or deleting
+ * the comment can cancel them.
+ */
+export class RunRegistry {
+  private recordsSincePrune = 0;
+
+  constructor(
+    private readonly store: StateStore<CommentRunRecord> = createStateStore<CommentRunRecord>('run-registry'),
+    private readonly retentionMs: number = COMMENT_RUN_RETENTION_MS
+  ) {}
+
+  /**
+   * Records the runs started by a comment, replacing any earlier record
+   */
+  async recordCommentRuns(record: Omit<CommentRunRecord, 'recordedAt'>): Promise<void> {
+    if (++this.recordsSincePrune >= PRUNE_INTERVAL) {
+      this.recordsSincePrune = 0;
+      await this.prune();
+    }
+
+    await this.store.set(this.key(record.commentId, record.forge), { ...record, recordedAt: Date.now() });
+  }
+
+  /**
+   * Looks up the runs started by a comment
+   * @returns The record, or undefined when the comment started nothing or the record expired
+   */
+  async getCommentRuns(commentId: number, forge?: ForgeKind): Promise<CommentRunRecord | undefined> {
+    const record = await this.store.get(this.key(commentId, forge));
+    if (record && Date.now() - record.recordedAt > this.retentionMs) {
+      await this.store.delete(this.key(commentId, forge));
+      return undefined;
+    }
+    return record;
+  }
+
+  /**
+   * Lists the unexpired records of the commands written in one issue or pull request thread
+   * @returns The records, oldest first
+   */
+  async getThreadRuns(thread: CommentThread): Promise<CommentRunRecord[]> {
+    const now = Date.now();
+    const key = threadKey(thread);
+    return (await this.store.entries())
+      .map(([, record]) => record)
+      .filter(record => threadKey(record) === key)
+      .filter(record => now - record.recordedAt <= this.retentionMs)
+      .sort((a, b) => a.recordedAt - b.recordedAt);
+  }
+
+  async forgetComment(commentId: number, forge?: ForgeKind): Promise<void> {
+    await this.store.delete(this.key(commentId, forge));
+  }
+
+  /**
+   * Removes records older than the retention window
+   * @returns The number of removed records
+   */
+  async prune(now: number = Date.now()): Promise<number> {
+    let removed = 0;
+    for (const [key, record] of await this.store.entries()) {
+      if (now - record.recordedAt > this.retentionMs) {
+        await this.store.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private key(commentId: number, forge: ForgeKind = 'github'): string {
+    return `${forge}:comment:${commentId}`;
+  }
+}
+
+let _registry: RunRegistry | null = null;
+
+/**
+ * Shared registry instance used by the webhook route
+ */
+export function getRunRegistry(): RunRegistry {
+  if (!_registry) {
+    _registry = new RunRegistry();
+  }
+  return _registry;
+}
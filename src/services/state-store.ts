@@ -0,0 +1,159 @@
+// src/services/state-store.ts
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+/**
+ * Minimal key/value persistence used by the webhook layer for state that has to
+ * survive between deliveries (delivery ledger, run tracking, registries).
+ */
+export interface StateStore<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  /**
+   * Stores the value only when the key is not present yet.
+   * @returns true if the value was stored, false if the key already existed
+   */
+  setIfAbsent(key: string, value: T): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  entries(): Promise<Array<[string, T]>>;
+}
+
+/**
+ * In-process store, used in tests and as a fallback when no state directory is available
+ */
+export class MemoryStateStore<T> implements StateStore<T> {
+  private data = new Map<string, T>();
+
+  async get(key: string): Promise<T | undefined> {
+    return this.data.get(key);
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async setIfAbsent(key: string, value: T): Promise<boolean> {
+    if (this.data.has(key)) {
+      return false;
+    }
+    this.data.set(key, value);
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async entries(): Promise<Array<[string, T]>> {
+    return Array.from(this.data.entries());
+  }
+}
+
+/**
+ * JSON file backed store. All operations on one file are serialized through a
+ * promise chain and writes go through a temp file + rename so a crash never
+ * leaves a half-written ledger behind.
+ */
+export class FileStateStore<T> implements StateStore<T> {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async get(key: string): Promise<T | undefined> {
+    return this.serialize(() => this.read()[key]);
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    await this.serialize(() => {
+      const data = this.read();
+      data[key] = value;
+      this.write(data);
+    });
+  }
+
+  async setIfAbsent(key: string, value: T): Promise<boolean> {
+    return this.serialize(() => {
+      const data = this.read();
+      if (Object.prototype.hasOwnProperty.call(data, key)) {
+        return false;
+      }
+      data[key] = value;
+      this.write(data);
+      return true;
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.serialize(() => {
+      const data = this.read();
+      if (Object.prototype.hasOwnProperty.call(data, key)) {
+        delete data[key];
+        this.write(data);
+      }
+    });
+  }
+
+  async entries(): Promise<Array<[string, T]>> {
+    return this.serialize(() => Object.entries(this.read()));
+  }
+
+  private serialize<R>(operation: () => R): Promise<R> {
+    const result = this.queue.then(operation);
+    // Keep the chain alive even if one operation fails
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private read(): Record<string, T> {
+    try {
+      const raw = fs.readFileSync(this.filePath, 'utf8');
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`State file ${this.filePath} could not be read, starting empty:`, error instanceof Error ? error.message : 'Unknown error');
+      }
+      return {};
+    }
+  }
+
+  private write(data: Record<string, T>): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data), 'utf8');
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Directory used for file backed stores. It has to outlive deployments and be shared by every
+ * instance, or deliveries get processed twice and runs and tokens are forgotten, so production
+ * refuses to start without STATE_STORE_DIR. Elsewhere it defaults to a folder in the OS temp directory.
+ */
+export function getStateDirectory(): string {
+  if (process.env.STATE_STORE_DIR) {
+    return process.env.STATE_STORE_DIR;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('STATE_STORE_DIR must point to a persistent directory shared by all instances (or set STATE_STORE=memory)');
+  }
+  return path.join(os.tmpdir(), 'uwularpy-state');
+}
+
+/**
+ * Creates the configured store for the given namespace.
+ * Set STATE_STORE=memory to keep everything in-process (e.g. local development).
+ */
+export function createStateStore<T>(namespace: string): StateStore<T> {
+  if (!/^[a-z0-9-]+$/.test(namespace)) {
+    throw new Error(`Invalid state store namespace: ${namespace}`);
+  }
+
+  if (process.env.STATE_STORE === 'memory') {
+    return new MemoryStateStore<T>();
+  }
+
+  return new FileStateStore<T>(path.join(getStateDirectory(), `${namespace}.json`));
+}
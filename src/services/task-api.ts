@@ -0,0 +1,185 @@
+// src/services/task-api.ts
+
+import crypto from "crypto";
+import { ApiTokenRecord, ApiTokenRegistry, getApiTokenRegistry } from "./api-token-registry";
+import { getInstallationRegistry, InstallationRegistry } from "./installation-registry";
+import { ForgeContext, generateRequestId } from "./task-types";
+import { triggerTask } from "./trigger-client";
+
+// GitHub caps comment bodies at this length, API messages get the same limit
+const MAX_MESSAGE_LENGTH = 65536;
+
+/**
+ * Raised for requests the task API rejects, carrying the HTTP status to answer with
+ */
+export class TaskApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'TaskApiError';
+  }
+}
+
+/**
+ * A validated request to start a task
+ */
+export interface TaskApiRequest {
+  taskId: string;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  message: string;
+  // GitHub user mentioned in result comments, defaults to the token label
+  requester?: string;
+}
+
+/**
+ * Status of a run as reported by the status route
+ */
+export interface TaskRunStatus {
+  runId: string;
+  taskId: string;
+  status: string;
+  isCompleted: boolean;
+  isSuccess: boolean;
+  createdAt: string;
+  finishedAt: string | null;
+  output?: unknown;
+  error?: string;
+}
+
+/**
+ * Extracts the token from an "Authorization: Bearer <token>" header
+ */
+export function parseBearerToken(header: string | null): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Resolves the token of a request to its record
+ * @throws TaskApiError (401) when the token is missing or unknown
+ */
+export async function authenticateApiRequest(
+  authorization: string | null,
+  tokens: ApiTokenRegistry = getApiTokenRegistry()
+): Promise<ApiTokenRecord> {
+  const token = parseBearerToken(authorization);
+  const record = token ? await tokens.authenticate(token) : undefined;
+  if (!record) {
+    throw new TaskApiError('Invalid or missing API token', 401);
+  }
+  return record;
+}
+
+/**
+ * Checks the bearer token of a token management request against TASK_API_ADMIN_TOKEN
+ * @throws TaskApiError (401) when the token doesn't match or no admin token is configured
+ */
+export function verifyAdminRequest(authorization: string | null, adminToken: string | undefined = process.env.TASK_API_ADMIN_TOKEN): void {
+  const token = parseBearerToken(authorization);
+  if (!adminToken || !token) {
+    throw new TaskApiError('Invalid or missing admin token', 401);
+  }
+
+  // Hash both sides so tokens of different lengths can be compared in constant time
+  const expected = crypto.createHash('sha256').update(adminToken, 'utf8').digest();
+  const received = crypto.createHash('sha256').update(token, 'utf8').digest();
+  if (!crypto.timingSafeEqual(expected, received)) {
+    throw new TaskApiError('Invalid or missing admin token', 401);
+  }
+}
+
+const isName = (value: unknown): value is string => typeof value === 'string' && /^[A-Za-z0-9_.-]+$/.test(value);
+
+/**
+ * Validates the JSON body of a trigger request
+ * @param allowedTaskIds Tasks that may be started through the API
+ * @throws TaskApiError (400) describing the first invalid field
+ */
+export function validateTaskRequest(body: any, allowedTaskIds: readonly string[]): TaskApiRequest {
+  if (!body || typeof body !== 'object') {
+    throw new TaskApiError('Request body must be a JSON object', 400);
+  }
+
+  const { taskId, owner, repo, issueNumber, message = '', requester } = body;
+  if (typeof taskId !== 'string' || !allowedTaskIds.includes(taskId)) {
+    throw new TaskApiError(`Unknown task "${taskId}", expected one of: ${allowedTaskIds.join(', ')}`, 400);
+  }
+  if (!isName(owner) || !isName(repo)) {
+    throw new TaskApiError('owner and repo must be GitHub account and repository names', 400);
+  }
+  if (!Number.isInteger(issueNumber) || issueNumber <= 0) {
+    throw new TaskApiError('issueNumber must be a positive integer', 400);
+  }
+  if (typeof message !== 'string' || message.length > MAX_MESSAGE_LENGTH) {
+    throw new TaskApiError(`message must be a string of at most ${MAX_MESSAGE_LENGTH} characters`, 400);
+  }
+  if (requester !== undefined && !isName(requester)) {
+    throw new TaskApiError('requester must be a GitHub user name', 400);
+  }
+
+  return { taskId, owner, repo, issueNumber, message, requester };
+}
+
+/**
+ * Starts a task for a repository of the token's installation
+ * @throws TaskApiError (403) when the repository isn't part of the installation
+ */
+export async function triggerApiTask(
+  token: ApiTokenRecord,
+  request: TaskApiRequest,
+  installations: InstallationRegistry = getInstallationRegistry()
+): Promise<{ runId: string }> {
+  const fullName = `${request.owner}/${request.repo}`.toLowerCase();
+  if (!await installations.coversRepository(token.installationId, request.owner, request.repo)) {
+    throw new TaskApiError(`Repository ${request.owner}/${request.repo} is not covered by this token's installation`, 403);
+  }
+
+  const context: ForgeContext = {
+    owner: request.owner,
+    repo: request.repo,
+    issueNumber: request.issueNumber,
+    requester: request.requester ?? token.label,
+    installationId: token.installationId,
+    requestTimestamp: new Date().toISOString(),
+    requestId: generateRequestId(),
+    message: request.message,
+  };
+
+  const run = await triggerTask(request.taskId, context);
+  console.log(`Triggered ${request.taskId} task for ${fullName}#${request.issueNumber} with API token ${token.tokenId}, run ID: ${run.id}`);
+  return { runId: run.id };
+}
+
+/**
+ * Reads the status of a run started for the token's installation.
+ * Runs of other installations are reported as missing.
+ * @throws TaskApiError (404) when the run doesn't exist or belongs to another installation
+ */
+export async function getApiRunStatus(token: ApiTokenRecord, runId: string): Promise<TaskRunStatus> {
+  const { runs } = await import("@trigger.dev/sdk/v3");
+
+  let run;
+  try {
+    run = await runs.retrieve(runId);
+  } catch (error) {
+    console.warn(`Failed to retrieve run ${runId}:`, error instanceof Error ? error.message : 'Unknown error');
+    throw new TaskApiError('Run not found', 404);
+  }
+
+  if (run.payload?.installationId !== token.installationId) {
+    throw new TaskApiError('Run not found', 404);
+  }
+
+  return {
+    runId: run.id,
+    taskId: run.taskIdentifier,
+    status: run.status,
+    isCompleted: run.isCompleted,
+    isSuccess: run.isSuccess,
+    createdAt: run.createdAt.toISOString(),
+    finishedAt: run.finishedAt ? run.finishedAt.toISOString() : null,
+    output: run.isSuccess ? run.output : undefined,
+    error: run.error?.message,
+  };
+}
@@ -0,0 +1,163 @@
+// src/services/task-dispatcher.ts
+
+import { DeliveryLedger, getDeliveryLedger } from "./delivery-ledger";
+import { getChangedCommentId, TaskDispatch, WebhookEvent } from "./event-router";
+import { CommentRunRecord, getRunRegistry, RunRegistry } from "./run-registry";
+import { cancelRunIfActive, triggerTask } from "./trigger-client";
+
+/**
+ * A run started for a dispatch
+ */
+export interface TriggeredRun {
+  taskId: string;
+  runId: string;
+}
+
+export type DispatchOutcome =
+  | { status: 'duplicate'; reason?: 'delivery' | 'content' }
+  // An edit that left the command as it was; the running command is kept
+  | { status: 'unchanged' }
+  | { status: 'triggered'; runs: TriggeredRun[]; cancelled: TriggeredRun[] };
+
+/**
+ * Builds the Trigger.dev idempotency key for a dispatch.
+ * The index keeps several dispatches of the same task from one event apart.
+ */
+export function buildIdempotencyKey(taskId: string, contentHash: string, index: number): string {
+  return index === 0 ? `${taskId}:${contentHash}` : `${taskId}:${contentHash}:${index}`;
+}
+
+/**
+ * The part of the idempotency keys shared by the runs of an event: its content hash, or the delivery ID
+ * for events without a subject, such as installations
+ */
+function getIdempotencyBase(event: WebhookEvent): string | null {
+  return event.contentHash ?? (event.deliveryId ? `delivery:${event.deliveryId}` : null);
+}
+
+/**
+ * The command text of a comment's dispatches, one line per command
+ */
+function commandText(dispatches: TaskDispatch[]): string {
+  return dispatches.map(dispatch => dispatch.context.message ?? '').join('\n');
+}
+
+/**
+ * Checks whether an edit kept the commands that started the recorded runs
+ */
+function isSameCommand(previous: CommentRunRecord, dispatches: TaskDispatch[]): boolean {
+  return dispatches.length > 0 &&
+    commandText(dispatches) === previous.message &&
+    dispatches.every(dispatch => previous.runs.some(run => run.taskId === dispatch.taskId));
+}
+
+/**
+ * Cancels the runs a comment started that are still in flight
+ */
+async function cancelCommentRuns(record: CommentRunRecord): Promise<TriggeredRun[]> {
+  const cancelled: TriggeredRun[] = [];
+  for (const run of record.runs) {
+    try {
+      if (await cancelRunIfActive(run.runId)) {
+        console.log(`Cancelled ${run.taskId} run ${run.runId} started by comment ${record.commentId}`);
+        cancelled.push(run);
+      }
+    } catch (error) {
+      // A run we cannot cancel must not stop the corrected command from starting
+      console.warn(`Failed to cancel run ${run.runId}:`, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+  return cancelled;
+}
+
+/**
+ * Claims the delivery in the ledger and triggers every dispatch.
+ * When triggering fails the claim is released so GitHub's retry can go through;
+ * runs that did start are protected by their idempotency keys.
+ *
+ * For edited and deleted comments the runs started by the previous version of the
+ * comment are cancelled first, unless an edit kept the same command.
+ *
+ * Dispatches are triggered in order; chained ones get the ID of the run triggered before them.
+ */
+export async function dispatchTasks(
+  event: WebhookEvent,
+  dispatches: TaskDispatch[],
+  ledger: DeliveryLedger = getDeliveryLedger(),
+  registry: RunRegistry = getRunRegistry()
+): Promise<DispatchOutcome> {
+  const changedCommentId = getChangedCommentId(event);
+  const previous = changedCommentId !== null ? await registry.getCommentRuns(changedCommentId) : undefined;
+
+  if (dispatches.length === 0 && !previous) {
+    return { status: 'triggered', runs: [], cancelled: [] };
+  }
+
+  if (previous && event.action === 'edited' && isSameCommand(previous, dispatches)) {
+    console.log(`Comment ${changedCommentId} was edited without changing its command`);
+    return { status: 'unchanged' };
+  }
+
+  const contentHash = event.contentHash;
+  const idempotencyBase = getIdempotencyBase(event);
+
+  if (idempotencyBase) {
+    const claim = await ledger.claim(event.deliveryId, contentHash, event.name);
+    if (claim.duplicate) {
+      console.log(`Duplicate delivery ${event.deliveryId} ignored (matched by ${claim.reason})`);
+      return { status: 'duplicate', reason: claim.reason };
+    }
+  }
+
+  let cancelled: TriggeredRun[] = [];
+  if (previous) {
+    cancelled = await cancelCommentRuns(previous);
+    await registry.forgetComment(previous.commentId, previous.forge);
+  }
+
+  const runs: TriggeredRun[] = [];
+  try {
+    for (const [index, dispatch] of dispatches.entries()) {
+      // Chained commands wait for the run started before them
+      const previousRun = runs[runs.length - 1];
+      const context = dispatch.context.chain && previousRun
+        ? { ...dispatch.context, chain: { ...dispatch.context.chain, previousRunId: previousRun.runId } }
+        : dispatch.context;
+      const runHandle = await triggerTask(dispatch.taskId, context, {
+        idempotencyKey: idempotencyBase ? buildIdempotencyKey(dispatch.taskId, idempotencyBase, index) : undefined
+      });
+      console.log(`Triggered ${dispatch.taskId} task for #${dispatch.context.issueNumber}, run ID: ${runHandle.id}`);
+      runs.push({ taskId: dispatch.taskId, runId: runHandle.id });
+    }
+  } catch (error) {
+    if (idempotencyBase) {
+      await ledger.release(event.deliveryId, contentHash);
+    }
+    throw error;
+  }
+
+  await recordCommentRuns(dispatches, runs, registry);
+
+  return { status: 'triggered', runs, cancelled };
+}
+
+/**
+ * Remembers which runs each command comment started
+ */
+async function recordCommentRuns(dispatches: TaskDispatch[], runs: TriggeredRun[], registry: RunRegistry): Promise<void> {
+  const { context } = dispatches[0] ?? {};
+  if (!context?.commentId) {
+    return;
+  }
+
+  await registry.recordCommentRuns({
+    commentId: context.commentId,
+    ...(context.forge ? { forge: context.forge } : {}),
+    owner: context.owner,
+    repo: context.repo,
+    issueNumber: context.issueNumber,
+    ...(context.isPullRequest !== undefined ? { isPullRequest: context.isPullRequest } : {}),
+    message: commandText(dispatches),
+    runs
+  });
+}
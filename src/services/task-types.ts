@@ -1,19 +1,106 @@
 // src/services/task-types.ts
 
+import type { CommandOptions } from "../lib/command-grammar";
+import type { CommandPermission } from "../lib/command-permissions";
+
+/**
+ * Location of a pull request review comment that carried a command
+ */
+export interface ReviewCommentContext {
+  commentId: number;
+  // Top-level comment of the review thread, replies are posted against it
+  threadCommentId: number;
+  path: string;
+  startLine: number | null;
+  line: number | null;
+  diffHunk: string;
+  commitId: string;
+  headBranch: string;
+  headRepository: string;
+}
+
+/**
+ * Failed check that started a CI failure analysis
+ */
+export interface CiFailureContext {
+  headBranch: string;
+  headSha: string;
+  checkSuiteId: number;
+  checkName: string;
+}
+
 /**
- * Interface for GitHub context to be passed to the worker
+ * Place of a command in a comment that carried several
  */
-export interface GitHubContext {
+export interface CommandChainContext {
+  // Run of the command written before this one, filled in by the dispatcher; it has to finish first
+  previousRunId?: string;
+  // Chained with "&&": the command is skipped when the previous one didn't succeed
+  requiresSuccess: boolean;
+}
+
+/**
+ * A run started by an earlier command of the thread
+ */
+export interface ThreadRun {
+  taskId: string;
+  runId: string;
+  // Text of the command that started the run
+  command: string;
+  // When the command was dispatched, in ms since the epoch
+  requestedAt: number;
+}
+
+/**
+ * Code forges commands can come from
+ */
+export type ForgeKind = 'github' | 'gitlab' | 'gitea';
+
+/**
+ * Interface for the forge context to be passed to the worker.
+ * Outside GitHub there is no installation, so installationId is 0. On GitLab the owner is the project namespace.
+ */
+export interface ForgeContext {
   owner: string;
   repo: string;
   issueNumber: number;
   requester: string;
   installationId: number;
+  // Forge the command came from, GitHub when unset
+  forge?: ForgeKind;
+  // Issues and merge requests are numbered separately on GitLab: tells which one issueNumber is.
+  // Unset when the forge shares the numbering (GitHub) and the kind wasn't known to the handler.
+  isPullRequest?: boolean;
   requestTimestamp?: string;
   requestId?: string;
   message?: string;
+  // Comment that carried the command, used to cancel its runs when it is edited or deleted
+  commentId?: number;
+  // Set when the command was written on a diff line of a pull request
+  reviewComment?: ReviewCommentContext;
+  // Set for CI failure analysis of bot-created pull requests
+  ciFailure?: CiFailureContext;
+  // Repository onboarding only creates the labels when false, e.g. for installs on many repositories
+  welcomeIssue?: boolean;
+  // Flags of the command, e.g. maxIssues for "plan --max-issues 5"
+  commandOptions?: CommandOptions;
+  // Invalid flags of the command, answered by the command feedback task
+  commandErrors?: string[];
+  // Commands offered when the intent of a free-form request was unclear, answered by the command feedback task
+  commandSuggestions?: string[];
+  // Permission the requester lacked for the command, answered by the command feedback task with a refusal
+  deniedPermission?: CommandPermission;
+  // Set for every command but the first of a comment with several commands
+  chain?: CommandChainContext;
+  // Runs started from the thread, for commands that declare threadRuns; only the webhook layer tracks them
+  threadRuns?: ThreadRun[];
 }
 
+/**
+ * Context of commands from GitHub, the forge most tasks were written for
+ */
+export type GitHubContext = ForgeContext;
+
 /**
  * Interface for repository statistics
  */
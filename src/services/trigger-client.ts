@@ -19,11 +19,37 @@ export function getClient(): TriggerClient {
   return _client;
 }
 
+/**
+ * Options forwarded to Trigger.dev when starting a run
+ */
+export interface TriggerTaskOptions {
+  // Runs triggered with the same key are deduplicated by Trigger.dev
+  idempotencyKey?: string;
+}
+
 // Export the tasks module for v3 API
-export async function triggerTask(taskId: string, payload: any) {
+export async function triggerTask(taskId: string, payload: any, options: TriggerTaskOptions = {}) {
   // Dynamically import the tasks module to avoid circular dependencies
   const { tasks } = await import("@trigger.dev/sdk/v3");
   
   // Use the trigger method from the tasks module
-  return await tasks.trigger(taskId, payload);
+  return await tasks.trigger(taskId, payload, {
+    idempotencyKey: options.idempotencyKey
+  });
+}
+
+/**
+ * Cancels a run unless it already finished
+ * @returns true if the run was cancelled, false if it had already completed
+ */
+export async function cancelRunIfActive(runId: string): Promise<boolean> {
+  const { runs } = await import("@trigger.dev/sdk/v3");
+
+  const run = await runs.retrieve(runId);
+  if (run.isCompleted) {
+    return false;
+  }
+
+  await runs.cancel(runId);
+  return true;
 }
@@ -223,11 +223,49 @@ I'm updating the development plan based on your feedback. This may take a moment
 - Or provide additional \`@l refine [feedback]\` for further changes
 `;
 
-export const PLAN_CANCELLED_TEMPLATE = (): string => `
+export const PLAN_REFINED_TEMPLATE = (
+  milestoneUrl: string,
+  changes: {
+    added: Array<{ item: string; section: string }>;
+    removed: Array<{ item: string; section: string }>;
+    reprioritized: Array<{ item: string; from: string; to: string }>;
+  }
+): string => `
+## ✏️ Plan Refined
+
+**Updated Plan:** [View Milestone](${milestoneUrl})
+${changes.added.length + changes.removed.length + changes.reprioritized.length === 0 ? `
+The feedback didn't change any planned item.
+` : ''}${changes.added.length > 0 ? `
+### ➕ Added
+${changes.added.map(change => `- ${change.item} *(${change.section})*`).join('\n')}
+` : ''}${changes.removed.length > 0 ? `
+### ➖ Removed
+${changes.removed.map(change => `- ~~${change.item}~~ *(${change.section})*`).join('\n')}
+` : ''}${changes.reprioritized.length > 0 ? `
+### ↕️ Reprioritized
+${changes.reprioritized.map(change => `- ${change.item}: ${change.from} → ${change.to}`).join('\n')}
+` : ''}
+### Next Steps:
+- Comment \`@l approve\` to create the issues of the updated plan
+- Or provide additional \`@l refine [feedback]\` for further changes
+`;
+
+export const PLAN_CANCELLED_TEMPLATE = (
+  undone?: {
+    milestoneUrl: string;
+    closedIssues: number[];
+    stoppedIssues: number[];
+    keptIssues: number[];
+  }
+): string => `
 ## ❌ Development Plan Cancelled
 
 The AI development plan has been cancelled as requested.
-
+${undone ? `
+### ↩️ What Was Undone
+- Closed the [plan milestone](${undone.milestoneUrl})
+${undone.closedIssues.length > 0 ? `- Closed ${undone.closedIssues.length} issue(s) that weren't started: ${undone.closedIssues.map(number => `#${number}`).join(', ')}\n` : ''}${undone.stoppedIssues.length > 0 ? `- Unassigned Copilot from ${undone.stoppedIssues.length} issue(s) in progress: ${undone.stoppedIssues.map(number => `#${number}`).join(', ')}\n` : ''}${undone.keptIssues.length > 0 ? `- Left ${undone.keptIssues.length} issue(s) that people are working on: ${undone.keptIssues.map(number => `#${number}`).join(', ')}\n` : ''}` : ''}
 ### Want to try again?
 - Comment \`@l plan [your specific need]\` to create a new plan
 - Example: \`@l plan add user authentication\`
@@ -235,3 +273,44 @@ The AI development plan has been cancelled as requested.
 
 I'm here when you're ready! 🤖
 `;
+
+export const ISSUE_TRIAGE_TEMPLATE = (
+  category: string,
+  labels: string[],
+  duplicates: Array<{ number: number; title: string; similarity: number }>,
+  owners: string[]
+): string => `
+## 🏷️ Issue Triage
+
+Thanks for opening this issue! It looks like a **${category}**.
+
+${labels.length > 0 ? `**Labels applied:** ${labels.map(label => `\`${label}\``).join(', ')}` : '**Labels applied:** none'}
+${duplicates.length > 0 ? `
+### 🔁 Possible Duplicates
+${duplicates.map(duplicate => `- #${duplicate.number} ${duplicate.title} (${Math.round(duplicate.similarity * 100)}% similar)`).join('\n')}
+
+If one of these describes the same problem, please close this issue in favour of it.
+` : ''}${owners.length > 0 ? `
+### 👥 Suggested Owners
+${owners.join(' ')}
+` : ''}
+---
+*Automatically triaged by uwularpy* 🤖`;
+
+export const WELCOME_ISSUE_TEMPLATE = (repository: string, detectedConfig: Array<[string, string]>, commandHelp: string): string => `
+## 👋 uwularpy is installed on ${repository}!
+
+Mention me in any issue, pull request or review comment to get started.
+
+${commandHelp}
+
+Commands written on a diff line of a pull request apply to that code.
+
+### ⚙️ Detected Configuration
+${detectedConfig.map(([name, value]) => `- **${name}:** ${value}`).join('\n')}
+
+### 🏷️ Labels
+I created the labels used by the planning workflow (\`copilot-assigned\`, \`pr-created\`, \`critical\`, ...). Feel free to change their colors.
+
+---
+*Feel free to close this issue once you've read it* 🤖`;
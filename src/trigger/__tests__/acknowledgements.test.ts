@@ -0,0 +1,115 @@
+import { acknowledgeCompletion, acknowledgeStart } from '../acknowledgements';
+import { GitHubContext } from '../../services/task-types';
+
+jest.mock('@trigger.dev/sdk/v3', () => ({
+  ...jest.requireActual('@trigger.dev/sdk/v3'),
+  logger: { log: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+function createOctokit(files: Record<string, string> = {}) {
+  return {
+    repos: {
+      getContent: jest.fn().mockImplementation(async ({ repo, path }: { repo: string; path: string }) => {
+        const content = files[`${repo}:${path}`];
+        if (content === undefined) {
+          throw Object.assign(new Error('Not Found'), { status: 404 });
+        }
+        return { data: { content: Buffer.from(content).toString('base64') } };
+      })
+    },
+    reactions: {
+      createForIssueComment: jest.fn().mockResolvedValue({ data: { id: 1 } }),
+      createForPullRequestReviewComment: jest.fn().mockResolvedValue({ data: { id: 2 } }),
+      deleteForIssueComment: jest.fn().mockResolvedValue({}),
+      deleteForPullRequestComment: jest.fn().mockResolvedValue({})
+    },
+    issues: { createComment: jest.fn().mockResolvedValue({}) },
+    pulls: { createReplyForReviewComment: jest.fn().mockResolvedValue({}) }
+  };
+}
+
+const payload: GitHubContext = {
+  owner: 'test-owner',
+  repo: 'test-repo',
+  issueNumber: 42,
+  requester: 'octocat',
+  installationId: 456,
+  commentId: 99
+};
+
+describe('Acknowledgements', () => {
+  const originalVerboseRepos = process.env.ACK_VERBOSE_REPOS;
+
+  afterEach(() => {
+    process.env.ACK_VERBOSE_REPOS = originalVerboseRepos;
+  });
+
+  it('should react with eyes instead of posting a comment', async () => {
+    const octokit = createOctokit();
+
+    const acknowledgement = await acknowledgeStart(octokit as any, payload, 'see you, devving...');
+
+    expect(acknowledgement).toEqual({ mode: 'reaction', reactionId: 1 });
+    expect(octokit.reactions.createForIssueComment).toHaveBeenCalledWith(
+      expect.objectContaining({ comment_id: 99, content: 'eyes' })
+    );
+    expect(octokit.issues.createComment).not.toHaveBeenCalled();
+  });
+
+  it('should swap the eyes reaction for the outcome', async () => {
+    const octokit = createOctokit();
+
+    await acknowledgeCompletion(octokit as any, payload, { mode: 'reaction', reactionId: 1 }, 'failure');
+
+    expect(octokit.reactions.deleteForIssueComment).toHaveBeenCalledWith(
+      expect.objectContaining({ comment_id: 99, reaction_id: 1 })
+    );
+    expect(octokit.reactions.createForIssueComment).toHaveBeenCalledWith(
+      expect.objectContaining({ content: 'confused' })
+    );
+  });
+
+  it('should react on review comments through the pull request API', async () => {
+    const octokit = createOctokit();
+    const reviewPayload = { ...payload, reviewComment: { threadCommentId: 99 } as any };
+
+    await acknowledgeStart(octokit as any, reviewPayload, 'see you, devving...');
+    await acknowledgeCompletion(octokit as any, reviewPayload, { mode: 'reaction', reactionId: 2 }, 'success');
+
+    expect(octokit.reactions.createForPullRequestReviewComment).toHaveBeenCalledWith(
+      expect.objectContaining({ content: 'rocket' })
+    );
+    expect(octokit.reactions.deleteForPullRequestComment).toHaveBeenCalled();
+  });
+
+  it('should post the verbose message for repositories that prefer comments', async () => {
+    process.env.ACK_VERBOSE_REPOS = 'test-owner/*';
+    const octokit = createOctokit();
+
+    const acknowledgement = await acknowledgeStart(octokit as any, payload, 'see you, devving...');
+    await acknowledgeCompletion(octokit as any, payload, acknowledgement, 'success');
+
+    expect(acknowledgement).toEqual({ mode: 'comment' });
+    expect(octokit.issues.createComment).toHaveBeenCalledWith(expect.objectContaining({ body: 'see you, devving...' }));
+    expect(octokit.reactions.createForIssueComment).not.toHaveBeenCalled();
+  });
+
+  it('should post the verbose message when the repository configuration asks for it', async () => {
+    const verbose = createOctokit({ '.github:uwularpy.yml': 'acknowledgements:\n  verbose: true\n' });
+    expect(await acknowledgeStart(verbose as any, payload, 'started')).toEqual({ mode: 'comment' });
+
+    // The repository's file overrides the environment default
+    process.env.ACK_VERBOSE_REPOS = 'test-owner/*';
+    const quiet = createOctokit({ 'test-repo:.github/uwularpy.yml': 'acknowledgements:\n  verbose: false\n' });
+    expect(await acknowledgeStart(quiet as any, payload, 'started')).toEqual({ mode: 'reaction', reactionId: 1 });
+  });
+
+  it('should fall back to a comment when the command has no comment', async () => {
+    const octokit = createOctokit();
+
+    const acknowledgement = await acknowledgeStart(octokit as any, { ...payload, commentId: undefined }, 'started');
+
+    expect(acknowledgement.mode).toBe('comment');
+    expect(octokit.issues.createComment).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,34 @@
+import { buildConfigReport } from '../config-implementation';
+
+describe('Config report', () => {
+  it('should list the files, the enforced settings and the resolved configuration', () => {
+    const report = buildConfigReport({
+      config: {
+        plan: { maxIssues: 5 },
+        review: { tone: 'strict', files: undefined },
+        codex: {},
+        fileOperations: { customDangerousPatterns: [{ pattern: /eval\(/, severity: 40, description: 'eval call' }] }
+      },
+      layers: [
+        { source: 'acme/.github:uwularpy.yml', config: {}, enforce: ['plan.maxIssues'], errors: [] },
+        { source: 'acme/api:.github/uwularpy.yml', config: {}, enforce: [], errors: ['Unknown setting: plan.milestone'] }
+      ],
+      enforced: [{ setting: 'plan.maxIssues', source: 'acme/.github:uwularpy.yml' }],
+      errors: ['Alias cycle: ship -> release -> ship']
+    });
+
+    expect(report).toContain('- `acme/.github:uwularpy.yml`\n- `acme/api:.github/uwularpy.yml`: **ignored**, Unknown setting: plan.milestone');
+    expect(report).toContain('- `plan.maxIssues`, by `acme/.github:uwularpy.yml`');
+    expect(report).toContain('Ignored once the files were merged:\n- Alias cycle: ship -> release -> ship');
+    expect(report).toContain('plan:\n  maxIssues: 5\nreview:\n  tone: strict\n');
+    expect(report).toContain('pattern: eval\\(');
+    expect(report).not.toContain('codex');
+  });
+
+  it('should say when nothing is configured', () => {
+    const report = buildConfigReport({ config: {}, layers: [], enforced: [], errors: [] });
+
+    expect(report).toContain('No configuration files found');
+    expect(report).toContain('Every setting has its default value.');
+  });
+});
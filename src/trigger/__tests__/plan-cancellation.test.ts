@@ -0,0 +1,48 @@
+import { planCancellation } from '../plan-cancellation-implementation';
+import { PLAN_CANCELLED_TEMPLATE } from '../../templates/issue-templates';
+import { ForgeIssue } from '../../services/forges';
+
+function issue(number: number, overrides: Partial<ForgeIssue> = {}): ForgeIssue {
+  return {
+    number,
+    title: `Issue ${number}`,
+    body: 'Details\n\n<!-- uwularpy:plan-issue -->',
+    state: 'open',
+    labels: [],
+    assignees: [],
+    milestone: 3,
+    url: `https://github.com/acme/api/issues/${number}`,
+    ...overrides
+  };
+}
+
+describe('Plan cancellation', () => {
+  it('should close unstarted issues, stop Copilot and keep issues people work on', () => {
+    const cancellation = planCancellation([
+      issue(1),
+      issue(2, { labels: ['copilot-assigned'] }),
+      issue(3, { assignees: ['Copilot'] }),
+      issue(4, { assignees: ['alice'] }),
+      issue(5, { state: 'closed' }),
+      issue(6, { body: 'Written by a person' })
+    ]);
+
+    expect(cancellation.close.map(candidate => candidate.number)).toEqual([1]);
+    expect(cancellation.stop.map(candidate => candidate.number)).toEqual([2, 3]);
+    expect(cancellation.keep.map(candidate => candidate.number)).toEqual([4]);
+  });
+
+  it('should summarize what was undone', () => {
+    const reply = PLAN_CANCELLED_TEMPLATE({
+      milestoneUrl: 'https://github.com/acme/api/milestone/3',
+      closedIssues: [1],
+      stoppedIssues: [2, 3],
+      keptIssues: []
+    });
+
+    expect(reply).toContain('[plan milestone](https://github.com/acme/api/milestone/3)');
+    expect(reply).toContain("Closed 1 issue(s) that weren't started: #1");
+    expect(reply).toContain('Unassigned Copilot from 2 issue(s) in progress: #2, #3');
+    expect(reply).not.toContain('Left');
+  });
+});
@@ -0,0 +1,52 @@
+import { diffPlans } from '../plan-refinement-implementation';
+import { PLAN_REFINED_TEMPLATE } from '../../templates/issue-templates';
+
+const plan = {
+  repositoryOverview: 'A webhook bot',
+  criticalFixes: ['Validate webhook signatures [Size: S, Priority: Must]'],
+  missingComponents: ['Rate limiting for the API [Size: M, Priority: Should]'],
+  requiredImprovements: ['Split the plan task into modules [Size: L, Priority: Could]'],
+  innovationIdeas: ['Dashboard of running tasks']
+};
+
+describe('Plan refinement', () => {
+  it('should list added, removed and reprioritized items', () => {
+    const refined = {
+      ...plan,
+      criticalFixes: [...plan.criticalFixes, 'Rate limiting for the API [Size: M, Priority: Should].'],
+      missingComponents: ['Audit log of commands'],
+      innovationIdeas: []
+    };
+
+    expect(diffPlans(plan, refined)).toEqual({
+      added: [{ item: 'Audit log of commands', section: 'Missing Components' }],
+      removed: [{ item: 'Dashboard of running tasks', section: 'Innovation Ideas' }],
+      reprioritized: [{
+        item: 'Rate limiting for the API [Size: M, Priority: Should].',
+        from: 'Missing Components',
+        to: 'Critical Fixes'
+      }]
+    });
+  });
+
+  it('should report an unchanged plan', () => {
+    const changes = diffPlans(plan, { ...plan });
+    const summary = PLAN_REFINED_TEMPLATE('https://github.com/acme/api/milestone/3', changes);
+
+    expect(changes).toEqual({ added: [], removed: [], reprioritized: [] });
+    expect(summary).toContain("didn't change any planned item");
+    expect(summary).not.toContain('### ➕ Added');
+  });
+
+  it('should summarize the changes in the reply', () => {
+    const summary = PLAN_REFINED_TEMPLATE('https://github.com/acme/api/milestone/3', {
+      added: [{ item: 'Audit log', section: 'Missing Components' }],
+      removed: [],
+      reprioritized: [{ item: 'Rate limiting', from: 'Missing Components', to: 'Critical Fixes' }]
+    });
+
+    expect(summary).toContain('- Audit log *(Missing Components)*');
+    expect(summary).toContain('- Rate limiting: Missing Components → Critical Fixes');
+    expect(summary).not.toContain('### ➖ Removed');
+  });
+});
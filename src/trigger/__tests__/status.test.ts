@@ -0,0 +1,50 @@
+import { buildStatusReport, formatElapsed, RunStatus } from '../status-implementation';
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+function runStatus(overrides: Partial<RunStatus>): RunStatus {
+  return {
+    taskId: 'plan-task',
+    runId: 'run_1',
+    command: 'plan',
+    requestedAt: now.getTime() - 10 * 60 * 1000,
+    status: 'COMPLETED',
+    isCompleted: true,
+    ...overrides
+  };
+}
+
+describe('Status report', () => {
+  it('should format elapsed time', () => {
+    expect(formatElapsed(40 * 1000)).toBe('40s');
+    expect(formatElapsed(192 * 1000)).toBe('3m 12s');
+    expect(formatElapsed(65 * 60 * 1000)).toBe('1h 5m');
+  });
+
+  it('should list runs newest first with their phase and elapsed time', () => {
+    const report = buildStatusReport([
+      runStatus({
+        phase: 'milestone_created',
+        startedAt: new Date('2026-03-01T11:50:00Z'),
+        finishedAt: new Date('2026-03-01T11:58:30Z')
+      }),
+      runStatus({ taskId: 'codex-task', runId: 'run_2', command: 'dev fix the login', status: 'EXECUTING', isCompleted: false, startedAt: new Date('2026-03-01T11:57:00Z') })
+    ], {
+      milestone: { number: 3, title: 'AI Development Plan', description: '', dueOn: null, url: 'https://github.com/acme/api/milestone/3' },
+      open: 4,
+      closed: 2
+    }, now);
+
+    const rows = report.split('\n').filter(line => line.startsWith('| `'));
+    expect(report).toContain('1 run(s) in progress.');
+    expect(rows).toEqual([
+      '| `dev fix the login` | codex-task | **executing** | - | 3m 0s |',
+      '| `plan` | plan-task | completed | `milestone_created` | 8m 30s |'
+    ]);
+    expect(report).toContain('[AI Development Plan](https://github.com/acme/api/milestone/3): 2/6 issues closed, 4 open');
+  });
+
+  it('should say when the thread started nothing', () => {
+    expect(buildStatusReport([], null, now)).toContain('No runs were started from this thread');
+  });
+});
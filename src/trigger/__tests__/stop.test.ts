@@ -0,0 +1,73 @@
+import { runs } from '@trigger.dev/sdk/v3';
+import { buildStopReport, stopThreadRuns } from '../stop-implementation';
+import { ForgeClient } from '../../services/forges';
+import { GitHubContext } from '../../services/task-types';
+
+jest.mock('@trigger.dev/sdk/v3', () => ({
+  logger: { log: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+  runs: { retrieve: jest.fn(), cancel: jest.fn() }
+}));
+
+const mockRetrieve = runs.retrieve as jest.Mock;
+const mockCancel = runs.cancel as jest.Mock;
+
+function createForge(commitsAhead: number) {
+  return {
+    branchExists: jest.fn().mockResolvedValue(true),
+    getRepository: jest.fn().mockResolvedValue({ defaultBranch: 'main' }),
+    countCommitsAhead: jest.fn().mockResolvedValue(commitsAhead),
+    deleteBranch: jest.fn().mockResolvedValue(undefined)
+  };
+}
+
+const payload = {
+  owner: 'acme',
+  repo: 'api',
+  issueNumber: 12,
+  requester: 'alice',
+  installationId: 1,
+  threadRuns: [
+    { taskId: 'plan-task', runId: 'run_plan', command: 'plan', requestedAt: 1 },
+    { taskId: 'codex-task', runId: 'run_codex', command: 'dev fix the login', requestedAt: 2 }
+  ]
+} as GitHubContext;
+
+describe('Stop task', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRetrieve.mockImplementation(async (runId: string) => ({ isCompleted: runId === 'run_plan' }));
+  });
+
+  it('should cancel unfinished runs and delete the empty codex branch', async () => {
+    const forge = createForge(0);
+
+    const result = await stopThreadRuns(forge as unknown as ForgeClient, payload);
+
+    expect(mockCancel).toHaveBeenCalledTimes(1);
+    expect(mockCancel).toHaveBeenCalledWith('run_codex');
+    expect(forge.countCommitsAhead).toHaveBeenCalledWith('dev-issue-12', 'main');
+    expect(forge.deleteBranch).toHaveBeenCalledWith('dev-issue-12');
+    expect(result.deletedBranches).toEqual(['dev-issue-12']);
+    expect(buildStopReport(result, 'alice')).toContain('- Cancelled `dev fix the login` (codex-task, run `run_codex`)');
+  });
+
+  it('should keep a codex branch that has commits', async () => {
+    const forge = createForge(2);
+
+    const result = await stopThreadRuns(forge as unknown as ForgeClient, payload);
+
+    expect(forge.deleteBranch).not.toHaveBeenCalled();
+    expect(result.keptBranches).toEqual(['dev-issue-12']);
+  });
+
+  it('should report when nothing is running', async () => {
+    mockRetrieve.mockResolvedValue({ isCompleted: true });
+    const forge = createForge(0);
+
+    const result = await stopThreadRuns(forge as unknown as ForgeClient, payload);
+
+    expect(mockCancel).not.toHaveBeenCalled();
+    expect(forge.branchExists).not.toHaveBeenCalled();
+    expect(buildStopReport(result, 'alice')).toBe('@alice Nothing started from this thread is running.');
+  });
+});
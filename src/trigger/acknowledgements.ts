@@ -0,0 +1,130 @@
+// src/trigger/acknowledgements.ts
+
+import { logger } from "@trigger.dev/sdk/v3";
+import { Octokit } from "@octokit/rest";
+import { GitHubContext } from "../services/task-types";
+import { ForgeClient, GitHubForgeClient } from "../services/forges";
+import { postContextReply } from "./comment-replies";
+import { getCommentTarget } from "./forge-clients";
+import { readRepositoryConfig } from "./repository-config";
+
+type ReactionContent = '+1' | '-1' | 'laugh' | 'confused' | 'heart' | 'hooray' | 'rocket' | 'eyes';
+
+export type AcknowledgementOutcome = 'success' | 'failure';
+
+/**
+ * How a task acknowledged its command, needed to update the acknowledgement later
+ */
+export interface Acknowledgement {
+  mode: 'reaction' | 'comment';
+  reactionId?: number;
+}
+
+// GitHub only supports a fixed set of reactions: there is no ✅/❌, so 🚀 marks success and 😕 failure
+const OUTCOME_REACTIONS: Record<AcknowledgementOutcome, ReactionContent> = {
+  success: 'rocket',
+  failure: 'confused'
+};
+
+/**
+ * Checks whether a repository asked for "started" comments instead of reactions, with acknowledgements.verbose
+ * in its configuration files or, by default, by being listed in ACK_VERBOSE_REPOS
+ */
+export async function isVerboseRepository(forge: ForgeClient): Promise<boolean> {
+  const config = await readRepositoryConfig(forge);
+  return config.acknowledgements?.verbose ?? false;
+}
+
+async function addReaction(octokit: Octokit, payload: GitHubContext, content: ReactionContent): Promise<number> {
+  const { owner, repo, commentId, reviewComment } = payload;
+
+  const { data } = reviewComment
+    ? await octokit.reactions.createForPullRequestReviewComment({ owner, repo, comment_id: commentId!, content })
+    : await octokit.reactions.createForIssueComment({ owner, repo, comment_id: commentId!, content });
+  return data.id;
+}
+
+async function removeReaction(octokit: Octokit, payload: GitHubContext, reactionId: number): Promise<void> {
+  const { owner, repo, commentId, reviewComment } = payload;
+
+  if (reviewComment) {
+    await octokit.reactions.deleteForPullRequestComment({ owner, repo, comment_id: commentId!, reaction_id: reactionId });
+  } else {
+    await octokit.reactions.deleteForIssueComment({ owner, repo, comment_id: commentId!, reaction_id: reactionId });
+  }
+}
+
+/**
+ * Acknowledges that a task picked up its command with a 👀 reaction on the triggering comment.
+ * Falls back to posting the verbose message when the repository prefers comments or the
+ * command didn't come from a comment.
+ */
+export async function acknowledgeStart(octokit: Octokit, payload: GitHubContext, verboseMessage: string): Promise<Acknowledgement> {
+  if (payload.commentId && !await isVerboseRepository(new GitHubForgeClient(octokit, payload.owner, payload.repo))) {
+    try {
+      const reactionId = await addReaction(octokit, payload, 'eyes');
+      return { mode: 'reaction', reactionId };
+    } catch (error) {
+      logger.warn("Failed to add acknowledgement reaction, posting a comment instead", {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  await postContextReply(octokit, payload, verboseMessage);
+  return { mode: 'comment' };
+}
+
+/**
+ * Replaces the 👀 reaction with the outcome reaction. Results are still posted as comments by the task.
+ * Never throws: a failed reaction must not fail the task.
+ */
+export async function acknowledgeCompletion(
+  octokit: Octokit,
+  payload: GitHubContext,
+  acknowledgement: Acknowledgement | undefined,
+  outcome: AcknowledgementOutcome
+): Promise<void> {
+  if (acknowledgement?.mode !== 'reaction') {
+    return;
+  }
+
+  try {
+    if (acknowledgement.reactionId) {
+      await removeReaction(octokit, payload, acknowledgement.reactionId);
+    }
+    await addReaction(octokit, payload, OUTCOME_REACTIONS[outcome]);
+  } catch (error) {
+    logger.warn("Failed to update acknowledgement reaction", {
+      outcome,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * acknowledgeStart for tasks that run on any forge. Reactions are GitHub only for now,
+ * other forges get the verbose message as a comment.
+ */
+export async function acknowledgeStartOnForge(forge: ForgeClient, payload: GitHubContext, verboseMessage: string): Promise<Acknowledgement> {
+  if (forge instanceof GitHubForgeClient) {
+    return await acknowledgeStart(forge.octokit, payload, verboseMessage);
+  }
+
+  await forge.postComment(getCommentTarget(payload), verboseMessage);
+  return { mode: 'comment' };
+}
+
+/**
+ * acknowledgeCompletion for tasks that run on any forge
+ */
+export async function acknowledgeCompletionOnForge(
+  forge: ForgeClient,
+  payload: GitHubContext,
+  acknowledgement: Acknowledgement | undefined,
+  outcome: AcknowledgementOutcome
+): Promise<void> {
+  if (forge instanceof GitHubForgeClient) {
+    await acknowledgeCompletion(forge.octokit, payload, acknowledgement, outcome);
+  }
+}
@@ -0,0 +1,192 @@
+// src/trigger/ci-failure-analysis-implementation.ts
+
+import { logger } from "@trigger.dev/sdk/v3";
+import { Octokit } from "@octokit/rest";
+import { GitHubContext } from "../services/task-types";
+import { createAuthenticatedOctokit } from "./github-auth";
+import { codexRepositoryWithResult } from "../lib/codex";
+import { CiFailure, formatCiFailures, parseCiLog } from "../lib/ci-log-parser";
+
+// Hidden markers used to recognise our own comments on the pull request
+const ANALYSIS_MARKER = (sha: string) => `<!-- uwularpy:ci-analysis sha=${sha} -->`;
+const AUTOFIX_MARKER = '<!-- uwularpy:ci-autofix -->';
+
+// Only the tail of a job log is parsed, the errors are almost always there
+const MAX_LOG_LENGTH = 200 * 1024;
+
+const FAILED_CONCLUSIONS = ['failure', 'timed_out'];
+
+interface FailedCheckLog {
+  name: string;
+  url: string | null;
+  failures: CiFailure[];
+}
+
+/**
+ * Reads the auto-fix switch and attempt cap from the environment
+ */
+function getAutofixConfig(): { enabled: boolean; maxAttempts: number } {
+  const maxAttempts = parseInt(process.env.CI_AUTOFIX_MAX_ATTEMPTS ?? '', 10);
+  return {
+    enabled: process.env.CI_AUTOFIX_ENABLED === 'true',
+    maxAttempts: Number.isInteger(maxAttempts) && maxAttempts >= 0 ? maxAttempts : 2
+  };
+}
+
+/**
+ * Analyzes failed checks of a bot-created pull request, posts the root cause and
+ * optionally pushes a fix to the same branch
+ */
+export async function runCiFailureAnalysisTask(payload: GitHubContext) {
+  const { owner, repo, issueNumber, installationId, ciFailure } = payload;
+  if (!ciFailure) {
+    throw new Error("CI failure analysis requires the failed check in the payload");
+  }
+
+  logger.info("Starting CI failure analysis", { owner, repo, pullNumber: issueNumber, ciFailure });
+  const octokit = await createAuthenticatedOctokit(installationId);
+
+  const comments = await octokit.paginate(octokit.issues.listComments, {
+    owner,
+    repo,
+    issue_number: issueNumber,
+    per_page: 100
+  });
+
+  if (comments.some(comment => comment.body?.includes(ANALYSIS_MARKER(ciFailure.headSha)))) {
+    logger.info("Commit already analyzed", { headSha: ciFailure.headSha });
+    return { success: true, skipped: true };
+  }
+
+  const failedChecks = await collectFailedCheckLogs(octokit, owner, repo, ciFailure.headSha);
+  const failures = failedChecks.flatMap(check => check.failures);
+  const rootCause = await summarizeRootCause(failures);
+
+  const autofix = getAutofixConfig();
+  const attempts = comments.filter(comment => comment.body?.includes(AUTOFIX_MARKER)).length;
+  const willAutofix = autofix.enabled && failures.length > 0 && attempts < autofix.maxAttempts;
+
+  await octokit.issues.createComment({
+    owner,
+    repo,
+    issue_number: issueNumber,
+    body: `${ANALYSIS_MARKER(ciFailure.headSha)}
+## 🔴 CI failed on \`${ciFailure.headSha.slice(0, 7)}\`
+
+${rootCause ? `**Likely root cause:** ${rootCause}\n\n` : ''}${failedChecks.map(check => `### ${check.url ? `[${check.name}](${check.url})` : check.name}
+${formatCiFailures(check.failures)}`).join('\n\n')}
+
+${willAutofix
+    ? `I'll try to push a fix to \`${ciFailure.headBranch}\` (attempt ${attempts + 1}/${autofix.maxAttempts}).`
+    : autofix.enabled && attempts >= autofix.maxAttempts
+      ? `Auto-fix attempt limit reached (${autofix.maxAttempts}), a human needs to take a look.`
+      : ''}`
+  });
+
+  if (!willAutofix) {
+    return { success: true, failures: failures.length, autofixed: false };
+  }
+
+  const prompt = `The CI build of this branch fails with the following errors. Fix the code so that the build passes, without disabling tests or checks.
+
+${formatCiFailures(failures)}`;
+
+  const result = await codexRepositoryWithResult(
+    prompt,
+    `https://github.com/${owner}/${repo}.git`,
+    ciFailure.headBranch,
+    String(installationId),
+    { existingBranch: true }
+  );
+
+  await octokit.issues.createComment({
+    owner,
+    repo,
+    issue_number: issueNumber,
+    body: `${AUTOFIX_MARKER}
+${result.committed
+    ? `🔧 Pushed a fix attempt to \`${ciFailure.headBranch}\`: ${result.commitMessage}`
+    : `🔧 I couldn't find a change that fixes these errors.`}`
+  });
+
+  logger.info("CI auto-fix finished", { committed: result.committed, attempt: attempts + 1 });
+  return { success: true, failures: failures.length, autofixed: result.committed };
+}
+
+/**
+ * Collects the failed check runs of a commit and extracts the errors from their logs
+ */
+async function collectFailedCheckLogs(octokit: Octokit, owner: string, repo: string, headSha: string): Promise<FailedCheckLog[]> {
+  const { data } = await octokit.checks.listForRef({
+    owner,
+    repo,
+    ref: headSha,
+    filter: 'latest',
+    status: 'completed',
+    per_page: 100
+  });
+
+  const failedRuns = data.check_runs.filter(run => run.conclusion && FAILED_CONCLUSIONS.includes(run.conclusion));
+  const results: FailedCheckLog[] = [];
+
+  for (const run of failedRuns) {
+    let log = [run.output?.summary, run.output?.text].filter(Boolean).join('\n');
+
+    // Check runs created by GitHub Actions are jobs whose full log can be downloaded
+    if (run.app?.slug === 'github-actions') {
+      try {
+        const { data: jobLog } = await octokit.actions.downloadJobLogsForWorkflowRun({ owner, repo, job_id: run.id });
+        log = String(jobLog);
+      } catch (error) {
+        logger.warn("Failed to download job log", { job: run.name, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    results.push({
+      name: run.name,
+      url: run.html_url ?? null,
+      failures: parseCiLog(log.slice(-MAX_LOG_LENGTH))
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Asks OpenAI for a one-sentence root cause, returns null when unavailable
+ */
+async function summarizeRootCause(failures: CiFailure[]): Promise<string | null> {
+  const openaiApiKey = process.env.OPENAI_API_KEY;
+  if (!openaiApiKey || failures.length === 0) {
+    return null;
+  }
+
+  try {
+    const response = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${openaiApiKey}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({
+        model: "gpt-4o-mini",
+        messages: [
+          { role: "system", content: "You explain CI failures. Answer with one or two sentences naming the most likely root cause." },
+          { role: "user", content: formatCiFailures(failures) }
+        ],
+        temperature: 0.2,
+        max_tokens: 150
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content?.trim() || null;
+  } catch (error) {
+    logger.warn("Root cause summary failed", { error: error instanceof Error ? error.message : 'Unknown error' });
+    return null;
+  }
+}
@@ -4,51 +4,80 @@ import { logger } from "@trigger.dev/sdk/v3";
 import { Octokit } from "@octokit/rest";
 import { createAppAuth } from "@octokit/auth-app";
 import { GitHubContext, RepoStats } from "../services/task-types";
-import { codexRepository, getTopContributorsByMergedPRs } from "../lib/codex";
+import { codexRepository, codexRepositoryWithResult, getTopContributorsByMergedPRs } from "../lib/codex";
+import { describeReviewLocation, postContextReply, postForgeReply } from "./comment-replies";
+import {
+  Acknowledgement,
+  acknowledgeCompletion,
+  acknowledgeCompletionOnForge,
+  acknowledgeStart,
+  acknowledgeStartOnForge,
+} from "./acknowledgements";
+import { CommentTarget, ForgeClient, GitHubForgeClient } from "../services/forges";
+import { createForgeClient, getCommentTarget } from "./forge-clients";
+import { codexBranchName } from "./workflow-constants";
+import { loadRepositoryConfig } from "./repository-config";
+import { REPOSITORY_CONFIG_PATH } from "../lib/repository-config";
 
 // Export the implementation function
 export async function runCodexTask(payload: GitHubContext, ctx: any) {
   logger.log("Starting codexification process", { payload });
 
+  // Create a client for the forge the command came from
+  const forge = await createForgeClient(payload);
+
+  if (await isCodexDisabled(forge, payload)) {
+    return { success: false, reason: 'disabled' };
+  }
+
+  if (payload.reviewComment) {
+    return await runReviewCommentFix(payload);
+  }
+
+  let acknowledgement: Acknowledgement | undefined;
+
   try {
-    // Create an authenticated Octokit instance
-    const octokit = await createAuthenticatedOctokit(payload.installationId);
-    
-    // Post an immediate reply comment
-    await postReplyComment(octokit, payload.owner, payload.repo, payload.issueNumber);
-    logger.log("Posted initial reply comment");
+    // Acknowledge the command
+    acknowledgement = await acknowledgeStartOnForge(forge, payload, "see you, devving...");
+    logger.log("Acknowledged command", { mode: acknowledgement.mode });
     
     // Create a new branch name
-    const branchName = `dev-issue-${payload.issueNumber}`;
+    const branchName = codexBranchName(payload.issueNumber);
     logger.log("Using branch name", { branchName });
     
     // Clone and process the repository using codex
-    const repoUrl = `https://github.com/${payload.owner}/${payload.repo}.git`;
-    const repoDir = await codexRepository(payload.message ?? "", repoUrl, branchName, String(payload.installationId));
+    const repository = await forge.getRepository();
+    const repoDir = await codexRepository(
+      payload.message ?? "",
+      repository.cloneUrl,
+      branchName,
+      String(payload.installationId),
+      { cloneUrl: forge.getAuthenticatedCloneUrl() ?? undefined }
+    );
     logger.log("Processed repository", { repoDir });
     
-    // Gather repository statistics
+    // Gather repository statistics (GitHub only, they rely on the contents and contributors APIs)
     let repoStats: RepoStats | undefined;
-    try {
-      repoStats = await getRepositoryStatistics(octokit, payload.owner, payload.repo);
-      
-      // Get top contributors by merged PRs
-      const topContributors = getTopContributorsByMergedPRs(repoDir, 5);
-      if (repoStats && topContributors.length > 0) {
-        repoStats.topContributors = topContributors;
+    if (forge instanceof GitHubForgeClient) {
+      try {
+        repoStats = await getRepositoryStatistics(forge.octokit, payload.owner, payload.repo);
+        
+        // Get top contributors by merged PRs
+        const topContributors = getTopContributorsByMergedPRs(repoDir, 5);
+        if (repoStats && topContributors.length > 0) {
+          repoStats.topContributors = topContributors;
+        }
+        
+        logger.log("Gathered repository statistics", { repoStats });
+      } catch (statsError) {
+        logger.error("Error gathering repository statistics", { error: statsError });
+        // Continue with the process even if stats gathering fails
       }
-      
-      logger.log("Gathered repository statistics", { repoStats });
-    } catch (statsError) {
-      logger.error("Error gathering repository statistics", { error: statsError });
-      // Continue with the process even if stats gathering fails
     }
     
     // Create a pull request with the changes
     const prUrl = await createPullRequest(
-      octokit,
-      payload.owner,
-      payload.repo,
+      forge,
       branchName,
       payload.issueNumber,
       repoStats
@@ -58,15 +87,14 @@ export async function runCodexTask(payload: GitHubContext, ctx: any) {
 
     // Notify the requester about the PR
     await notifyRequester(
-      octokit,
-      payload.owner,
-      payload.repo,
-      payload.issueNumber,
+      forge,
+      getCommentTarget(payload),
       payload.requester,
       prUrl
     );
     
     logger.log("Notified requester", { requester: payload.requester });
+    await acknowledgeCompletionOnForge(forge, payload, acknowledgement, 'success');
 
     return {
       success: true,
@@ -77,12 +105,10 @@ export async function runCodexTask(payload: GitHubContext, ctx: any) {
     
     // Try to notify the requester about the error
     try {
-      const octokit = await createAuthenticatedOctokit(payload.installationId);
+      await acknowledgeCompletionOnForge(forge, payload, acknowledgement, 'failure');
       await postErrorComment(
-        octokit,
-        payload.owner,
-        payload.repo,
-        payload.issueNumber,
+        forge,
+        getCommentTarget(payload),
         payload.requester,
         "processing the repository",
         error
@@ -95,6 +121,84 @@ export async function runCodexTask(payload: GitHubContext, ctx: any) {
   }
 }
 
+// Repositories can turn @l dev off in their configuration file, the requester is told so
+async function isCodexDisabled(forge: ForgeClient, payload: GitHubContext): Promise<boolean> {
+  const config = await loadRepositoryConfig(forge);
+  if (config.codex?.enabled !== false) {
+    return false;
+  }
+  await postForgeReply(forge, payload, `@${payload.requester} \`@l dev\` is turned off for this repository in \`${REPOSITORY_CONFIG_PATH}\`.`);
+  return true;
+}
+
+// Push a fix for a diff line command to the pull request branch instead of opening a new PR
+async function runReviewCommentFix(payload: GitHubContext) {
+  const reviewComment = payload.reviewComment!;
+  const octokit = await createAuthenticatedOctokit(payload.installationId);
+  let acknowledgement: Acknowledgement | undefined;
+
+  try {
+    // Forks can't be pushed to with the installation token
+    if (reviewComment.headRepository !== `${payload.owner}/${payload.repo}`) {
+      await postContextReply(
+        octokit,
+        payload,
+        `@${payload.requester} I can only push fixes to branches of this repository, but this pull request comes from \`${reviewComment.headRepository}\`.`
+      );
+      return { success: false, reason: 'fork' };
+    }
+
+    acknowledgement = await acknowledgeStart(octokit, payload, "see you, devving on this hunk...");
+
+    const prompt = `${payload.message ?? ""}
+
+Only change the code shown below unless the fix strictly requires touching other lines.
+
+${describeReviewLocation(reviewComment)}`;
+
+    const repoUrl = `https://github.com/${payload.owner}/${payload.repo}.git`;
+    const result = await codexRepositoryWithResult(
+      prompt,
+      repoUrl,
+      reviewComment.headBranch,
+      String(payload.installationId),
+      { existingBranch: true }
+    );
+    logger.log("Processed review comment fix", { committed: result.committed, branch: reviewComment.headBranch });
+
+    await postContextReply(
+      octokit,
+      payload,
+      result.committed
+        ? `@${payload.requester} I pushed a fix to \`${reviewComment.headBranch}\`: ${result.commitMessage}`
+        : `@${payload.requester} I looked at this hunk but didn't find anything to change.`
+    );
+    await acknowledgeCompletion(octokit, payload, acknowledgement, 'success');
+
+    return {
+      success: true,
+      committed: result.committed,
+      branch: reviewComment.headBranch,
+    };
+  } catch (error) {
+    logger.error("Error in review comment fix", { error });
+
+    try {
+      await acknowledgeCompletion(octokit, payload, acknowledgement, 'failure');
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await postContextReply(
+        octokit,
+        payload,
+        `@${payload.requester} I encountered an error while pushing a fix for this hunk: \`${errorMessage}\`.`
+      );
+    } catch (notifyError) {
+      logger.error("Error notifying requester about failure", { error: notifyError });
+    }
+
+    throw error;
+  }
+}
+
 // Create an authenticated Octokit instance
 async function createAuthenticatedOctokit(installationId: number): Promise<any> {
   try {
@@ -122,36 +226,16 @@ async function createAuthenticatedOctokit(installationId: number): Promise<any>
   }
 }
 
-// Post an immediate reply comment
-async function postReplyComment(octokit: any, owner: string, repo: string, issueNumber: number): Promise<void> {
-  try {
-    // Post the reply comment
-    await octokit.issues.createComment({
-      owner,
-      repo,
-      issue_number: issueNumber,
-      body: "see you, devving..."
-    });
-    
-    logger.log(`Posted immediate reply to issue #${issueNumber}`);
-  } catch (error) {
-    logger.error('Error posting reply comment:', { error });
-    throw error; // Re-throw to be handled by the caller
-  }
-}
-
 // Post an error comment to notify the user
-async function postErrorComment(octokit: any, owner: string, repo: string, issueNumber: number, requester: string, action: string, error: any): Promise<void> {
+async function postErrorComment(forge: ForgeClient, target: CommentTarget, requester: string, action: string, error: any): Promise<void> {
   try {
     const errorMessage = error && error.message ? error.message : 'Unknown error';
-    await octokit.issues.createComment({
-      owner,
-      repo,
-      issue_number: issueNumber,
-      body: `@${requester} I encountered an error while ${action}: \`${errorMessage}\`. Please check the repository settings and try again.`
-    });
+    await forge.postComment(
+      target,
+      `@${requester} I encountered an error while ${action}: \`${errorMessage}\`. Please check the repository settings and try again.`
+    );
     
-    logger.log(`Posted error comment to issue #${issueNumber}`);
+    logger.log(`Posted error comment to issue #${target.number}`);
   } catch (commentError) {
     logger.error('Error posting error comment:', { error: commentError });
     // We don't throw here as this is already error handling
@@ -254,58 +338,50 @@ async function findAllMarkdownFiles(octokit: any, owner: string, repo: string, p
 
 // Create a pull request with the changes
 async function createPullRequest(
-  octokit: any,
-  owner: string,
-  repo: string,
+  forge: ForgeClient,
   branch: string,
   issueNumber: number,
   repoStats?: RepoStats
 ): Promise<string> {
+  const { owner, repo } = forge;
   // Maximum retry attempts
   const maxRetries = 3;
   let lastError = null;
   
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      logger.log(`Creating pull request attempt ${attempt}/${maxRetries}`, { owner, repo, branch });
+      logger.log(`Creating pull request attempt ${attempt}/${maxRetries}`, { owner, repo, branch, forge: forge.kind });
       
       // Verify the branch exists on the remote before creating the PR
+      let branchExists = false;
       try {
-        // Check if the branch exists
-        await octokit.repos.getBranch({
-          owner,
-          repo,
-          branch,
-        });
-        logger.log(`Confirmed branch "${branch}" exists on remote`);
+        branchExists = await forge.branchExists(branch);
       } catch (branchError) {
         logger.error(`Branch verification failed: ${branchError instanceof Error ? branchError.message : 'Unknown error'}`);
+      }
+      if (!branchExists) {
         throw new Error(`The branch "${branch}" does not exist on the remote repository. Push failed or repository is misconfigured.`);
       }
+      logger.log(`Confirmed branch "${branch}" exists on remote`);
       
       // Get repository information to determine the default branch
-      const { data: repoData } = await octokit.repos.get({
-        owner,
-        repo,
-      });
+      const repository = await forge.getRepository();
       
-      const defaultBranch = repoData.default_branch || 'main';
+      const defaultBranch = repository.defaultBranch || 'main';
       logger.log(`Using repository default branch: ${defaultBranch}`);
       
       // Refresh token if needed
-      if (attempt > 1) {
+      if (attempt > 1 && forge instanceof GitHubForgeClient) {
         logger.log("Refreshing GitHub authentication token before retry");
         try {
-          await octokit.auth();
+          await forge.octokit.auth();
         } catch (refreshError) {
           logger.warn(`Token refresh attempt failed: ${refreshError instanceof Error ? refreshError.message : 'Unknown error'}`);
         }
       }
       
       // Create the pull request
-      const { data: pr } = await octokit.pulls.create({
-        owner,
-        repo,
+      const pr = await forge.createPullRequest({
         title: `larpy dev for issue #${issueNumber}`,
         head: branch,
         base: defaultBranch,
@@ -319,8 +395,8 @@ ${formatRepositoryStatistics(repoStats)}
 `,
       });
       
-      logger.log(`Pull request created successfully: ${pr.html_url}`);
-      return pr.html_url;
+      logger.log(`Pull request created successfully: ${pr.url}`);
+      return pr.url;
     } catch (error) {
       lastError = error;
       logger.error(`Error creating pull request (attempt ${attempt}/${maxRetries}):`, { error });
@@ -357,20 +433,13 @@ ${formatRepositoryStatistics(repoStats)}
 
 // Notify the requester about the PR
 async function notifyRequester(
-  octokit: any,
-  owner: string,
-  repo: string,
-  issueNumber: number,
+  forge: ForgeClient,
+  target: CommentTarget,
   requester: string,
   prUrl: string
 ): Promise<void> {
   try {
-    await octokit.issues.createComment({
-      owner,
-      repo,
-      issue_number: issueNumber,
-      body: `@${requester} I've created a pull request: ${prUrl}`,
-    });
+    await forge.postComment(target, `@${requester} I've created a pull request: ${prUrl}`);
   } catch (error) {
     logger.error('Error notifying requester:', { error });
     throw error;
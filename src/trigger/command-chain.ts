@@ -0,0 +1,41 @@
+// src/trigger/command-chain.ts
+
+import { AbortTaskRunError, logger, runs, wait } from "@trigger.dev/sdk/v3";
+import { GitHubContext } from "../services/task-types";
+
+// How often the previous run is checked, waits this long are checkpointed and use no compute
+const POLL_INTERVAL_SECONDS = 15;
+// Give up on a previous command that runs longer than the slowest task may
+const MAX_WAIT_MS = 30 * 60 * 1000;
+
+/**
+ * Waits for the command written before this one in the same comment to finish.
+ * Returns at once for commands that aren't part of a chain.
+ * @throws AbortTaskRunError when a "&&" chained command didn't succeed, or the wait timed out;
+ * the run fails without retries, so commands chained after it are skipped too
+ */
+export async function waitForPreviousCommand(payload: GitHubContext): Promise<void> {
+  const chain = payload.chain;
+  if (!chain?.previousRunId) {
+    return;
+  }
+
+  const startedAt = Date.now();
+  logger.log("Waiting for the previous command of the comment", { previousRunId: chain.previousRunId });
+
+  for (;;) {
+    const run = await runs.retrieve(chain.previousRunId);
+    if (run.isCompleted) {
+      if (chain.requiresSuccess && !run.isSuccess) {
+        throw new AbortTaskRunError(`Skipped: the previous command (${run.taskIdentifier}) finished with status ${run.status}`);
+      }
+      logger.log("Previous command finished", { previousRunId: run.id, status: run.status });
+      return;
+    }
+
+    if (Date.now() - startedAt > MAX_WAIT_MS) {
+      throw new AbortTaskRunError(`Skipped: the previous command (${run.taskIdentifier}) is still running`);
+    }
+    await wait.for({ seconds: POLL_INTERVAL_SECONDS });
+  }
+}
@@ -0,0 +1,66 @@
+// src/trigger/command-feedback-implementation.ts
+
+import { logger } from "@trigger.dev/sdk/v3";
+import { GitHubContext } from "../services/task-types";
+import { describeCommandFlags, tokenizeCommand } from "../lib/command-grammar";
+import { findCommand } from "../lib/command-catalog";
+import { CommandPermission, describeCommandPermission } from "../lib/command-permissions";
+import { createForgeClient } from "./forge-clients";
+import { postForgeReply } from "./comment-replies";
+
+/**
+ * Builds the reply listing what is wrong with a command and the flags it accepts
+ */
+export function buildCommandFeedback(message: string, errors: string[], requester: string): string {
+  const command = findCommand(tokenizeCommand(message)[0] ?? '');
+  const problems = errors.map(error => `- ${error}`).join('\n');
+  const usage = command ? `\n\nFlags of \`${command.name}\`:\n${describeCommandFlags(command)}` : '';
+
+  return `@${requester} I didn't run \`${message}\`:\n${problems}${usage}`;
+}
+
+/**
+ * Builds the question asking which command an unclear request meant, one quick reply per command
+ */
+export function buildCommandClarification(message: string, suggestions: string[], requester: string): string {
+  const options = suggestions.map(name => {
+    const command = findCommand(name);
+    return `- \`@l ${name}\`${command ? ` - ${command.description}` : ''}`;
+  });
+
+  return `@${requester} I'm not sure what you meant by \`${message}\`. Did you mean one of these?\n${options.join('\n')}\n\nReply with the command to run it, or \`@l help\` to see all commands.`;
+}
+
+/**
+ * Builds the refusal for a command the requester isn't allowed to run
+ */
+export function buildPermissionRefusal(message: string, permission: CommandPermission, owner: string, requester: string): string {
+  return `@${requester} Sorry, I didn't run \`${message}\`: in this repository it can only be started by ${describeCommandPermission(permission, owner)}. A maintainer can run it for you.`;
+}
+
+/**
+ * Answers a command whose flags failed validation or that the requester isn't allowed to run,
+ * or asks which command an unclear request meant. Nothing else is started.
+ */
+export async function runCommandFeedbackTask(payload: GitHubContext) {
+  const errors = payload.commandErrors ?? [];
+  const suggestions = payload.commandSuggestions ?? [];
+  const forge = await createForgeClient(payload);
+
+  if (payload.deniedPermission) {
+    logger.log("Refusing a command the requester may not run", { message: payload.message, permission: payload.deniedPermission });
+    await postForgeReply(forge, payload, buildPermissionRefusal(payload.message ?? '', payload.deniedPermission, payload.owner, payload.requester));
+    return { success: true, denied: true };
+  }
+
+  if (errors.length === 0 && suggestions.length > 0) {
+    logger.log("Asking which command was meant", { message: payload.message, suggestions });
+    await postForgeReply(forge, payload, buildCommandClarification(payload.message ?? '', suggestions, payload.requester));
+    return { success: true, suggestions };
+  }
+
+  logger.log("Reporting invalid command flags", { message: payload.message, errors });
+  await postForgeReply(forge, payload, buildCommandFeedback(payload.message ?? '', errors, payload.requester));
+
+  return { success: true, errors };
+}
@@ -0,0 +1,61 @@
+import { logger } from "@trigger.dev/sdk/v3";
+import { Octokit } from "@octokit/rest";
+import { GitHubContext, ReviewCommentContext } from "../services/task-types";
+import { ForgeClient, GitHubForgeClient } from "../services/forges";
+import { getCommentTarget } from "./forge-clients";
+
+/**
+ * Posts a reply where the command was written: in the review thread for diff line
+ * commands, otherwise as a regular issue/PR comment.
+ */
+export async function postContextReply(octokit: Octokit, payload: GitHubContext, body: string): Promise<void> {
+  const { owner, repo, issueNumber, reviewComment } = payload;
+
+  if (reviewComment) {
+    await octokit.pulls.createReplyForReviewComment({
+      owner,
+      repo,
+      pull_number: issueNumber,
+      comment_id: reviewComment.threadCommentId,
+      body
+    });
+    logger.log(`Replied in review thread ${reviewComment.threadCommentId} on PR #${issueNumber}`);
+    return;
+  }
+
+  await octokit.issues.createComment({
+    owner,
+    repo,
+    issue_number: issueNumber,
+    body
+  });
+}
+
+/**
+ * postContextReply for tasks that run on any forge. Review thread replies are GitHub only,
+ * other forges get a comment on the issue or merge request.
+ */
+export async function postForgeReply(forge: ForgeClient, payload: GitHubContext, body: string): Promise<void> {
+  if (forge instanceof GitHubForgeClient) {
+    await postContextReply(forge.octokit, payload, body);
+    return;
+  }
+
+  await forge.postComment(getCommentTarget(payload), body);
+}
+
+/**
+ * Describes the diff location of a review comment for AI prompts
+ */
+export function describeReviewLocation(reviewComment: ReviewCommentContext): string {
+  const lines = reviewComment.startLine && reviewComment.line && reviewComment.startLine !== reviewComment.line
+    ? `lines ${reviewComment.startLine}-${reviewComment.line}`
+    : `line ${reviewComment.line ?? reviewComment.startLine ?? 'unknown'}`;
+
+  return `File: ${reviewComment.path} (${lines})
+
+Diff hunk:
+\`\`\`diff
+${reviewComment.diffHunk}
+\`\`\``;
+}
@@ -0,0 +1,75 @@
+// src/trigger/config-implementation.ts
+
+import { logger } from "@trigger.dev/sdk/v3";
+import yaml from "js-yaml";
+import { GitHubContext } from "../services/task-types";
+import { ResolvedRepositoryConfig } from "../lib/repository-config";
+import { createForgeClient } from "./forge-clients";
+import { postForgeReply } from "./comment-replies";
+import { resolveForgeRepositoryConfig } from "./repository-config";
+
+// Drops empty sections and prints regular expressions as their source, which is how the files write them
+function toPrintable(value: unknown): unknown {
+  if (value instanceof RegExp) {
+    return value.source;
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPrintable);
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .map(([key, item]) => [key, toPrintable(item)] as const)
+      .filter(([, item]) => item !== undefined);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+  return value;
+}
+
+/**
+ * Builds the config reply: the files the configuration was resolved from, the enforced settings and the result
+ */
+export function buildConfigReport(resolved: ResolvedRepositoryConfig): string {
+  const sections = ['### Resolved Configuration'];
+
+  if (resolved.layers.length === 0) {
+    sections.push('No configuration files found, using the defaults of the environment.');
+  } else {
+    const files = resolved.layers.map(layer => layer.errors.length > 0
+      ? `- \`${layer.source}\`: **ignored**, ${layer.errors.join('; ')}`
+      : `- \`${layer.source}\``);
+    sections.push(`Files, from the lowest precedence to the highest, over the defaults of the environment:\n${files.join('\n')}`);
+  }
+
+  if (resolved.errors.length > 0) {
+    sections.push(`Ignored once the files were merged:\n${resolved.errors.map(error => `- ${error}`).join('\n')}`);
+  }
+
+  if (resolved.enforced.length > 0) {
+    const enforced = resolved.enforced.map(({ setting, source }) => `- \`${setting}\`, by \`${source}\``);
+    sections.push(`Enforced settings:\n${enforced.join('\n')}`);
+  }
+
+  const printable = toPrintable(resolved.config);
+  sections.push(printable === undefined
+    ? 'Every setting has its default value.'
+    : `\`\`\`yaml\n${yaml.dump(printable).trimEnd()}\n\`\`\``);
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Answers @l config with the repository's resolved configuration
+ */
+export async function runConfigTask(payload: GitHubContext) {
+  const forge = await createForgeClient(payload);
+  logger.log("Resolving repository configuration", { owner: forge.owner, repo: forge.repo });
+
+  const resolved = await resolveForgeRepositoryConfig(forge);
+  await postForgeReply(forge, payload, buildConfigReport(resolved));
+
+  return {
+    success: true,
+    layers: resolved.layers.map(layer => layer.source),
+    invalid: resolved.layers.filter(layer => layer.errors.length > 0).length,
+  };
+}
@@ -0,0 +1,36 @@
+// src/trigger/forge-clients.ts
+
+import { ForgeContext } from "../services/task-types";
+import {
+  CommentTarget,
+  ForgeClient,
+  getGiteaConfig,
+  getGitLabConfig,
+  GiteaForgeClient,
+  GitHubForgeClient,
+  GitLabForgeClient,
+} from "../services/forges";
+
+/**
+ * Creates the client for the forge a command came from
+ */
+export async function createForgeClient(payload: ForgeContext): Promise<ForgeClient> {
+  switch (payload.forge ?? 'github') {
+    case 'gitlab':
+      return new GitLabForgeClient(getGitLabConfig(), payload.owner, payload.repo);
+    case 'gitea':
+      return new GiteaForgeClient(getGiteaConfig(), payload.owner, payload.repo);
+    case 'github': {
+      // Loaded lazily so modules that only need getCommentTarget don't pull in @octokit/rest
+      const { createAuthenticatedOctokit } = await import("./github-auth");
+      return new GitHubForgeClient(await createAuthenticatedOctokit(payload.installationId), payload.owner, payload.repo);
+    }
+  }
+}
+
+/**
+ * The issue or pull/merge request the command was written on
+ */
+export function getCommentTarget(payload: ForgeContext): CommentTarget {
+  return { number: payload.issueNumber, isPullRequest: payload.isPullRequest };
+}
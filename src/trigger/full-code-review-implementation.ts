@@ -1,66 +1,95 @@
 import { logger } from "@trigger.dev/sdk/v3";
 import { Octokit } from "@octokit/rest";
-import { createAppAuth } from "@octokit/auth-app";
 import { GitHubContext } from "../services/task-types";
+import { ForgeClient, ForgePullRequest, GitHubForgeClient } from "../services/forges";
+import { createForgeClient, getCommentTarget } from "./forge-clients";
+import { loadRepositoryConfig } from "./repository-config";
 import { COPILOT_USERNAME } from "./workflow-constants";
 import { sanitizeMermaidDiagramsInResponse } from "../lib/ai-sanitizer";
+import { getReviewConfig, ReviewTone } from "../lib/config";
+
+// Appended to the review prompts when a repository asks for another tone than the playful default
+const REVIEW_TONE_INSTRUCTIONS: Record<ReviewTone, string> = {
+  playful: '',
+  neutral: '\nTONE OVERRIDE: ignore the humour, roasting and banter instructions above. Write in a neutral, professional tone.',
+  strict: '\nTONE OVERRIDE: ignore the humour, roasting and banter instructions above. Be terse and strict: list every problem with its severity and the fix, nothing else.',
+};
 
 // Export the full code review implementation
 export async function runFullCodeReviewTask(payload: GitHubContext, ctx: any) {
   logger.log("Starting full code review task", { payload });
-  const { owner, repo, issueNumber, installationId } = payload;
+  const { issueNumber } = payload;
+
+  // Create a client for the forge the command came from
+  const forge = await createForgeClient(payload);
 
-  // Create authenticated Octokit
-  const octokit = await createAuthenticatedOctokit(installationId);
+  // Without --files, the review paths of the repository's configuration apply
+  const config = await loadRepositoryConfig(forge);
+  const files = payload.commandOptions?.files ?? config.review?.files;
+  const reviewPayload = files ? { ...payload, commandOptions: { ...payload.commandOptions, files } } : payload;
 
-  // Determine if this is a PR or Issue context by attempting to fetch PR details
-  let isPullRequest = false;
-  let pr: any = null;
+  // Determine if this is a PR or Issue context, by attempting to fetch PR details when the
+  // handler couldn't tell (issues and merge requests don't share numbers on GitLab)
+  let pr: ForgePullRequest | null = null;
   
-  try {
-    const prResponse = await octokit.pulls.get({ owner, repo, pull_number: issueNumber });
-    pr = prResponse.data;
-    isPullRequest = true;
-    logger.log("Context identified as Pull Request", { prNumber: issueNumber });
-  } catch (error) {
-    logger.log("Context identified as Issue (not PR)", { issueNumber });
-    isPullRequest = false;
+  if (payload.isPullRequest !== false) {
+    try {
+      pr = await forge.getPullRequest(issueNumber);
+    } catch (error) {
+      logger.warn("Failed to fetch pull request", { issueNumber, error: error instanceof Error ? error.message : String(error) });
+    }
   }
 
-  if (isPullRequest && pr) {
+  if (pr) {
+    logger.log("Context identified as Pull Request", { prNumber: issueNumber });
     // Execute existing PR workflow
-    return await runPRCodeReview(octokit, payload, pr);
+    return await runPRCodeReview(forge, reviewPayload, pr);
   } else {
+    logger.log("Context identified as Issue (not PR)", { issueNumber });
     // Execute new Issue workflow
-    return await runIssueCodeReview(octokit, payload);
+    return await runIssueCodeReview(forge, reviewPayload);
   }
 }
 
+/**
+ * Checks whether a file is one of the given paths or inside one of them
+ */
+function isUnderPaths(filePath: string, paths: string[]): boolean {
+  return paths.some(path => {
+    const prefix = path.replace(/^\.?\/+/, '').replace(/\/+$/, '');
+    return prefix === '' || filePath === prefix || filePath.startsWith(`${prefix}/`);
+  });
+}
+
 // Existing PR workflow extracted to separate function
-async function runPRCodeReview(octokit: Octokit, payload: GitHubContext, pr: any) {
-  const { owner, repo, issueNumber } = payload;
-  const baseSha = pr.base.sha;
-  const headSha = pr.head.sha;
+async function runPRCodeReview(forge: ForgeClient, payload: GitHubContext, pr: ForgePullRequest) {
+  const target = { number: pr.number, isPullRequest: true };
+  const baseSha = pr.baseSha;
+  const headSha = pr.headSha;
 
   // Compare commits to get changed files and patches
   logger.log("Comparing commits", { baseSha, headSha });
-  const { data: compare } = await octokit.repos.compareCommits({ owner, repo, base: baseSha, head: headSha });
+  const allChangedFiles = await forge.listPullRequestChanges(pr);
   
   // Check if there are files to review
-  if (!compare.files || compare.files.length === 0) {
-    logger.warn("No files found in PR", { compareUrl: compare.html_url });
-    await octokit.issues.createComment({
-      owner,
-      repo,
-      issue_number: issueNumber,
-      body: "⚠️ No files to review were found in this PR. The diff may be empty."
-    });
+  if (allChangedFiles.length === 0) {
+    logger.warn("No files found in PR", { prUrl: pr.url });
+    await forge.postComment(target, "⚠️ No files to review were found in this PR. The diff may be empty.");
     return { success: false, reason: "no_files_to_review" };
   }
+
+  // Limit the review to the paths given with --files or configured for the repository
+  const paths = payload.commandOptions?.files;
+  const changedFiles = paths ? allChangedFiles.filter(file => isUnderPaths(file.path, paths)) : allChangedFiles;
+  if (changedFiles.length === 0) {
+    logger.warn("No changed files match --files", { paths });
+    await forge.postComment(target, `⚠️ None of the files changed in this PR are under ${paths!.map(path => `\`${path}\``).join(', ')}.`);
+    return { success: false, reason: "no_files_match_paths" };
+  }
   
   logger.log("Found files to review", { 
-    fileCount: compare.files.length,
-    filesUrl: compare.html_url
+    fileCount: changedFiles.length,
+    prUrl: pr.url
   });
 
   // Gather original file contents with better filtering and error handling
@@ -70,8 +99,8 @@ async function runPRCodeReview(octokit: Octokit, payload: GitHubContext, pr: any
   // Skip binary files and common non-code files
   const skipExtensions = ['.json', '.png', '.jpg', '.jpeg', '.gif', '.svg', '.ico', '.woff', '.woff2', '.ttf', '.eot', '.pdf'];
   
-  for (const file of compare.files) {
-    const f = file.filename;
+  for (const file of changedFiles) {
+    const f = file.path;
     
     // Skip files with extensions in the skip list
     if (skipExtensions.some(ext => f.endsWith(ext))) {
@@ -86,18 +115,15 @@ async function runPRCodeReview(octokit: Octokit, payload: GitHubContext, pr: any
     }
 
     try {
-      const { data: contentData } = await octokit.repos.getContent({ owner, repo, path: f, ref: headSha });
-      // contentData.content is base64-encoded string
-      const blob: any = contentData;
+      const content = await forge.getFileContent(f, headSha);
       
-      // Skip if no content or size too large (>100KB)
-      if (!blob.content || blob.size > 1000000000) {
+      // Skip if no content or size too large
+      if (!content || content.length > 1000000000) {
         skippedFiles.push(f);
         continue;
       }
       
-      const buf = Buffer.from(blob.content || '', 'base64');
-      originalFiles.push({ filename: f, content: buf.toString('utf-8') });
+      originalFiles.push({ filename: f, content });
     } catch (err) {
       logger.error("Error fetching file content", { file: f, error: err instanceof Error ? err.message : String(err) });
       skippedFiles.push(f);
@@ -113,17 +139,12 @@ async function runPRCodeReview(octokit: Octokit, payload: GitHubContext, pr: any
   // Ensure we have files to review after filtering
   if (originalFiles.length === 0) {
     logger.warn("No reviewable files after filtering", { skippedFiles });
-    await octokit.issues.createComment({
-      owner,
-      repo,
-      issue_number: issueNumber,
-      body: "⚠️ No reviewable code files were found in this PR. The changes may only include binary or non-code files."
-    });
+    await forge.postComment(target, "⚠️ No reviewable code files were found in this PR. The changes may only include binary or non-code files.");
     return { success: false, reason: "no_reviewable_files" };
   }
 
   // Build diff string
-  const diff = (compare.files || [])
+  const diff = changedFiles
     .map(f => f.patch)
     .filter(Boolean)
     .join('\n');
@@ -134,12 +155,7 @@ async function runPRCodeReview(octokit: Octokit, payload: GitHubContext, pr: any
   
   if (diffSize > MAX_DIFF_SIZE) {
     logger.warn("Diff is too large for review", { diffSize });
-    await octokit.issues.createComment({
-      owner,
-      repo,
-      issue_number: issueNumber,
-      body: `⚠️ This PR is too large for automated review (${Math.round(diffSize/1000)}KB). Please break it down into smaller changes.`
-    });
+    await forge.postComment(target, `⚠️ This PR is too large for automated review (${Math.round(diffSize/1000)}KB). Please break it down into smaller changes.`);
     return { success: false, reason: "diff_too_large" };
   }
   
@@ -204,7 +220,7 @@ Avoid any escape characters or parentheses in both node names and labels    one
   const requestBody = {
     model: "gpt-4.1-mini",
     messages: [
-      { role: "system", content: systemMsg },
+      { role: "system", content: systemMsg + REVIEW_TONE_INSTRUCTIONS[getReviewConfig().tone ?? 'playful'] },
       { role: "user", content: userMsg }
     ]
   };
@@ -287,27 +303,19 @@ Avoid any escape characters or parentheses in both node names and labels    one
   // Sanitize any Mermaid diagrams in the response before posting
   const sanitizedCommentBody = sanitizeMermaidDiagramsInResponse(commentBody);
   
-  await octokit.issues.createComment({
-    owner,
-    repo,
-    issue_number: issueNumber,
-    body: sanitizedCommentBody
-  });
+  await forge.postComment(target, sanitizedCommentBody);
 
   return { success: true };
 }
 
 // New Issue workflow implementation
-async function runIssueCodeReview(octokit: Octokit, payload: GitHubContext) {
+async function runIssueCodeReview(forge: ForgeClient, payload: GitHubContext) {
   const { owner, repo, issueNumber } = payload;
+  const target = getCommentTarget(payload);
   
   try {
     // 1. Fetch the issue details to get the original intention
-    const { data: issue } = await octokit.issues.get({
-      owner,
-      repo,
-      issue_number: issueNumber,
-    });
+    const issue = await forge.getIssue(issueNumber);
 
     logger.log("Fetched issue details", { 
       issueTitle: issue.title,
@@ -318,7 +326,7 @@ async function runIssueCodeReview(octokit: Octokit, payload: GitHubContext) {
     const enhancedIntention = await enhanceIssueIntention(issue.title, issue.body || "", owner, repo);
     
     // 3. Perform full project code review with focus on the intention
-    const projectReview = await performFullProjectReview(octokit, owner, repo, enhancedIntention);
+    const projectReview = await performFullProjectReview(forge, enhancedIntention);
     
     // 4. Construct the final comment with enhanced intention and review
     const finalComment = `# 🔍 Full Code Review - Issue Analysis
@@ -339,15 +347,12 @@ ${projectReview}
     const sanitizedFinalComment = sanitizeMermaidDiagramsInResponse(finalComment);
 
     // 6. Post the comment
-    await octokit.issues.createComment({
-      owner,
-      repo,
-      issue_number: issueNumber,
-      body: sanitizedFinalComment
-    });
+    await forge.postComment(target, sanitizedFinalComment);
 
-    // 7. Assign the issue to copilot
-    await assignIssueToCopilot(octokit, owner, repo, issue);
+    // 7. Assign the issue to copilot (Copilot only works on GitHub)
+    if (forge instanceof GitHubForgeClient) {
+      await assignIssueToCopilot(forge.octokit, owner, repo, issue);
+    }
 
     logger.log("Successfully completed issue code review workflow", { issueNumber });
     
@@ -365,12 +370,10 @@ ${projectReview}
     });
     
     // Post error comment
-    await octokit.issues.createComment({
-      owner,
-      repo,
-      issue_number: issueNumber,
-      body: `🛑 Error performing full code review analysis. Please try again later.\n\nError: ${error instanceof Error ? error.message : "Unknown error"}`
-    });
+    await forge.postComment(
+      target,
+      `🛑 Error performing full code review analysis. Please try again later.\n\nError: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
     
     throw error;
   }
@@ -473,11 +476,12 @@ Please elaborate on the user's intention and provide comprehensive implementatio
 }
 
 // Helper function to perform full project code review
-async function performFullProjectReview(octokit: Octokit, owner: string, repo: string, focusIntention: string): Promise<string> {
+async function performFullProjectReview(forge: ForgeClient, focusIntention: string): Promise<string> {
+  const { owner, repo } = forge;
   try {
     // Get repository structure and key files
-    const repoStructure = await getRepositoryStructure(octokit, owner, repo);
-    const keyFiles = await getKeyProjectFiles(octokit, owner, repo);
+    const repoStructure = await getRepositoryStructure(forge);
+    const keyFiles = await getKeyProjectFiles(forge);
     
     // Perform AI analysis of the full project with focus on the intention
     const systemPrompt = `You are THE BEST code architect and full-stack reviewer AKA LARP-PROJECT-ANALYZER-3000.
@@ -536,7 +540,7 @@ Please provide comprehensive analysis and implementation steps focused on accomp
         body: JSON.stringify({
           model: "gpt-4.1-mini",
           messages: [
-            { role: "system", content: systemPrompt },
+            { role: "system", content: systemPrompt + REVIEW_TONE_INSTRUCTIONS[getReviewConfig().tone ?? 'playful'] },
             { role: "user", content: userPrompt }
           ],
           max_tokens: 32000,
@@ -594,18 +598,14 @@ Please provide comprehensive analysis and implementation steps focused on accomp
 }
 
 // Helper function to get repository structure
-async function getRepositoryStructure(octokit: Octokit, owner: string, repo: string): Promise<string> {
+async function getRepositoryStructure(forge: ForgeClient): Promise<string> {
   try {
-    const { data: contents } = await octokit.repos.getContent({
-      owner,
-      repo,
-      path: "",
-    });
+    const contents = await forge.listDirectory("");
 
-    if (Array.isArray(contents)) {
+    if (contents.length > 0) {
       const structure = contents
         .slice(0, 20) // Limit to first 20 items
-        .map(item => `- ${item.name} (${item.type})`)
+        .map(item => `- ${item.path} (${item.type})`)
         .join('\n');
       
       return `Repository root structure:\n${structure}`;
@@ -619,20 +619,15 @@ async function getRepositoryStructure(octokit: Octokit, owner: string, repo: str
 }
 
 // Helper function to get key project files
-async function getKeyProjectFiles(octokit: Octokit, owner: string, repo: string): Promise<string> {
+async function getKeyProjectFiles(forge: ForgeClient): Promise<string> {
   const keyFiles = ['package.json', 'README.md', 'tsconfig.json', 'src/index.ts', 'src/app.ts'];
   const fileContents: string[] = [];
 
   for (const filePath of keyFiles) {
     try {
-      const { data: fileData } = await octokit.repos.getContent({
-        owner,
-        repo,
-        path: filePath,
-      });
+      const content = await forge.getFileContent(filePath);
 
-      if ('content' in fileData && fileData.content) {
-        const content = Buffer.from(fileData.content, 'base64').toString('utf-8');
+      if (content) {
         const truncatedContent = content.length > 1000 ? content.substring(0, 1000) + '...' : content;
         fileContents.push(`### ${filePath}\n\`\`\`\n${truncatedContent}\n\`\`\``);
       }
@@ -648,7 +643,7 @@ async function getKeyProjectFiles(octokit: Octokit, owner: string, repo: string)
 }
 
 // Helper function to assign issue to copilot
-async function assignIssueToCopilot(octokit: Octokit, owner: string, repo: string, issue: any): Promise<void> {
+async function assignIssueToCopilot(octokit: Octokit, owner: string, repo: string, issue: { number: number; title: string }): Promise<void> {
   try {
     // Try to assign the issue to the copilot user
     let assignmentSuccess = false;
@@ -694,17 +689,3 @@ async function assignIssueToCopilot(octokit: Octokit, owner: string, repo: strin
     // Don't throw error to avoid failing the whole workflow
   }
 }
-
-// Helper to create authenticated Octokit instance
-async function createAuthenticatedOctokit(installationId: number): Promise<Octokit> {
-  const appId = process.env.GITHUB_APP_ID;
-  const privateKey = process.env.GITHUB_PRIVATE_KEY?.replace(/\\n/g, '\n');
-  if (!appId || !privateKey) {
-    throw new Error("GitHub App credentials not found in environment variables");
-  }
-
-  return new Octokit({
-    authStrategy: createAppAuth,
-    auth: { appId: Number(appId), privateKey, installationId }
-  });
-}
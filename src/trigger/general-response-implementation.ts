@@ -4,6 +4,7 @@ import { logger } from "@trigger.dev/sdk/v3";
 import { GitHubContext } from "../services/task-types";
 import { createAuthenticatedOctokit } from "./github-auth";
 import { sanitizeMermaidDiagramsInResponse } from "../lib/ai-sanitizer";
+import { describeReviewLocation, postContextReply } from "./comment-replies";
 
 interface ConversationMessage {
   author: string;
@@ -30,11 +31,12 @@ export async function runGeneralResponseTask(payload: GitHubContext, ctx: any) {
     const botQuestions = identifyBotQuestions(conversation, payload.message || '');
     
     // Generate response using GPT-4-turbo (using gpt-4 as GPT-4.1-nano isn't available yet)
-    const response = await generateContextualResponse(conversation, botQuestions, payload.message || '');
+    const reviewLocation = payload.reviewComment ? describeReviewLocation(payload.reviewComment) : undefined;
+    const response = await generateContextualResponse(conversation, botQuestions, payload.message || '', reviewLocation);
     logger.log("Generated contextual response");
     
     // Post the response as a comment
-    await postResponseComment(octokit, payload.owner, payload.repo, payload.issueNumber, response);
+    await postResponseComment(octokit, payload, response);
     logger.log("Posted response comment successfully");
     
     return {
@@ -52,9 +54,7 @@ export async function runGeneralResponseTask(payload: GitHubContext, ctx: any) {
       const octokit = await createAuthenticatedOctokit(payload.installationId);
       await postResponseComment(
         octokit, 
-        payload.owner, 
-        payload.repo, 
-        payload.issueNumber, 
+        payload, 
         "I encountered an error while analyzing the conversation. Please try again or use a specific command like `@l plan` or `@l review`."
       );
     } catch (fallbackError) {
@@ -164,7 +164,8 @@ function identifyBotQuestions(conversation: ConversationMessage[], currentMessag
 async function generateContextualResponse(
   conversation: ConversationMessage[], 
   botQuestions: ConversationMessage[], 
-  currentMessage: string
+  currentMessage: string,
+  reviewLocation?: string
 ): Promise<string> {
   try {
     const openaiApiKey = process.env.OPENAI_API_KEY;
@@ -183,6 +184,11 @@ async function generateContextualResponse(
       ? `\n\nSpecific questions/requests directed at me:\n${botQuestions.map(q => `${q.author}: ${q.body}`).join('\n')}`
       : '';
     
+    // Commands written on a diff line are about that code
+    const reviewLocationText = reviewLocation
+      ? `\n\nThe user wrote this on a line of the pull request diff. Focus your answer on this code:\n${reviewLocation}`
+      : '';
+    
     const systemPrompt = `You are uwularpy, a helpful GitHub bot assistant. You help developers with code reviews, planning, and general development questions.
 
 Your capabilities include:
@@ -202,7 +208,7 @@ Guidelines:
 6. If the conversation is about a specific technical issue, provide guidance
 7. If unclear what they want, ask clarifying questions or suggest specific commands
 
-Current user message: "${currentMessage}"`;
+Current user message: "${currentMessage}"${reviewLocationText}`;
 
     const userPrompt = `Conversation history:
 ${conversationText}${botQuestionsText}
@@ -255,25 +261,18 @@ Please analyze this conversation and provide a helpful response. Focus on:
 }
 
 /**
- * Posts the generated response as a comment on the issue/PR
+ * Posts the generated response as a comment on the issue/PR, or in the review thread it came from
  */
 async function postResponseComment(
   octokit: any, 
-  owner: string, 
-  repo: string, 
-  issueNumber: number, 
+  payload: GitHubContext, 
   response: string
 ): Promise<void> {
   try {
     // Sanitize any Mermaid diagrams in the response before posting
     const sanitizedResponse = sanitizeMermaidDiagramsInResponse(response);
     
-    await octokit.rest.issues.createComment({
-      owner,
-      repo,
-      issue_number: issueNumber,
-      body: sanitizedResponse
-    });
+    await postContextReply(octokit, payload, sanitizedResponse);
     
   } catch (error) {
     logger.error("Error posting response comment", { error });
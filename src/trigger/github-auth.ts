@@ -42,16 +42,9 @@ async function retryWithBackoff<T>(
 }
 
 /**
- * Create an authenticated Octokit instance using GitHub App credentials
- * Shared utility to eliminate code duplication across implementations
+ * Reads and validates the GitHub App credentials from the environment
  */
-export async function createAuthenticatedOctokit(installationId: number): Promise<Octokit> {
-  // Validate installation ID
-  if (!installationId || typeof installationId !== 'number' || installationId <= 0) {
-    logger.error("Invalid installation ID provided", { installationId });
-    throw new Error("Invalid installation ID");
-  }
-
+function readAppCredentials(): { appId: number; privateKey: string } {
   // Get and validate environment variables
   const appId = process.env.GITHUB_APP_ID;
   const privateKey = process.env.GITHUB_PRIVATE_KEY;
@@ -83,6 +76,22 @@ export async function createAuthenticatedOctokit(installationId: number): Promis
     throw new Error("Invalid private key format");
   }
 
+  return { appId: appIdNumber, privateKey: processedPrivateKey };
+}
+
+/**
+ * Create an authenticated Octokit instance using GitHub App credentials
+ * Shared utility to eliminate code duplication across implementations
+ */
+export async function createAuthenticatedOctokit(installationId: number): Promise<Octokit> {
+  // Validate installation ID
+  if (!installationId || typeof installationId !== 'number' || installationId <= 0) {
+    logger.error("Invalid installation ID provided", { installationId });
+    throw new Error("Invalid installation ID");
+  }
+
+  const { appId: appIdNumber, privateKey: processedPrivateKey } = readAppCredentials();
+
   try {
     const octokit = new Octokit({
       authStrategy: createAppAuth,
@@ -114,9 +123,20 @@ export async function createAuthenticatedOctokit(installationId: number): Promis
     logger.error("Failed to create or test authenticated Octokit instance", { 
       error: error instanceof Error ? error.message : 'Unknown error',
       installationId,
-      hasAppId: !!appId,
-      hasPrivateKey: !!privateKey
+      appId: appIdNumber
     });
     throw new Error(`Authentication failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
+
+/**
+ * Create an Octokit instance authenticated as the GitHub App itself, for the /app endpoints
+ * that look up installations
+ */
+export function createAppOctokit(): Octokit {
+  const { appId, privateKey } = readAppCredentials();
+  return new Octokit({
+    authStrategy: createAppAuth,
+    auth: { appId, privateKey }
+  });
+}
@@ -0,0 +1,20 @@
+// src/trigger/help-implementation.ts
+
+import { logger } from "@trigger.dev/sdk/v3";
+import { GitHubContext } from "../services/task-types";
+import { renderCommandHelp } from "../lib/command-catalog";
+import { createForgeClient } from "./forge-clients";
+import { postForgeReply } from "./comment-replies";
+
+/**
+ * Answers @l help and @l help <command> from the command catalog
+ */
+export async function runHelpTask(payload: GitHubContext) {
+  const topic = (payload.message ?? '').trim().replace(/^help\b/i, '').trim();
+  logger.log("Rendering command help", { topic: topic || 'all' });
+
+  const forge = await createForgeClient(payload);
+  await postForgeReply(forge, payload, renderCommandHelp(topic || undefined));
+
+  return { success: true, topic: topic || null };
+}
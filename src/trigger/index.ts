@@ -1,4 +1,4 @@
 // src/trigger/index.ts
 // This file re-exports task definitions to avoid circular dependencies
 
-export { codexTask, fullCodeReviewTask, planTask, planApprovalTask, planExecutionTask, prMonitoringTask, prMergeProgressionTask } from "./task-registry";
+export { codexTask, fullCodeReviewTask, planTask, planApprovalTask, planRefinementTask, planCancellationTask, planExecutionTask, prMonitoringTask, prMergeProgressionTask, issueTriageTask, ciFailureAnalysisTask, repositoryOnboardingTask, commandFeedbackTask, helpTask, statusTask, configTask, stopTask } from "./task-registry";
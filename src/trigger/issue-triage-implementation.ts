@@ -0,0 +1,198 @@
+// src/trigger/issue-triage-implementation.ts
+
+import { logger } from "@trigger.dev/sdk/v3";
+import { Octokit } from "@octokit/rest";
+import { GitHubContext } from "../services/task-types";
+import { createAuthenticatedOctokit } from "./github-auth";
+import { ISSUE_LABELS } from "./plan-implementation";
+import { ISSUE_TRIAGE_TEMPLATE } from "../templates/issue-templates";
+import {
+  IssueCategory,
+  IssueClassification,
+  DuplicateCandidate,
+  classifyIssueByKeywords,
+  findDuplicateCandidates,
+  parseCodeOwners,
+  findCodeOwners,
+  extractMentionedPaths,
+  getTriageConfig
+} from "../lib/issue-triage";
+
+// Locations GitHub reads CODEOWNERS from, in order of precedence
+const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+const CATEGORY_LABELS: Record<IssueCategory, string> = {
+  bug: ISSUE_LABELS.BUG,
+  feature: ISSUE_LABELS.FEATURE,
+  question: ISSUE_LABELS.QUESTION
+};
+
+const KNOWN_LABELS = new Set<string>(Object.values(ISSUE_LABELS));
+
+/**
+ * Runs the triage task for a newly opened issue
+ */
+export async function runIssueTriageTask(payload: GitHubContext) {
+  logger.info("Starting issue triage", { owner: payload.owner, repo: payload.repo, issueNumber: payload.issueNumber });
+  const { owner, repo, issueNumber, installationId } = payload;
+
+  const config = getTriageConfig(owner, repo);
+  if (!config.enabled) {
+    logger.info("Issue triage disabled for repository", { owner, repo });
+    return { success: true, skipped: true };
+  }
+
+  const octokit = await createAuthenticatedOctokit(installationId);
+  const { data: issue } = await octokit.issues.get({ owner, repo, issue_number: issueNumber });
+
+  const classification = await classifyIssue(issue.title, issue.body);
+  logger.info("Classified issue", { ...classification });
+
+  const labels = [CATEGORY_LABELS[classification.category], ...classification.labels]
+    .filter((label, index, all) => KNOWN_LABELS.has(label) && all.indexOf(label) === index);
+
+  if (config.applyLabels && labels.length > 0) {
+    await octokit.issues.addLabels({ owner, repo, issue_number: issueNumber, labels });
+    logger.info("Applied triage labels", { labels });
+  }
+
+  const duplicates = config.detectDuplicates
+    ? await findDuplicates(octokit, owner, repo, issue, config.duplicateThreshold, config.maxDuplicates)
+    : [];
+
+  const owners = config.suggestOwners
+    ? await suggestOwners(octokit, owner, repo, issue.body)
+    : [];
+
+  if (config.postComment) {
+    await octokit.issues.createComment({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      body: ISSUE_TRIAGE_TEMPLATE(
+        classification.category,
+        config.applyLabels ? labels : [],
+        duplicates,
+        owners
+      )
+    });
+  }
+
+  return {
+    success: true,
+    category: classification.category,
+    labels,
+    duplicates: duplicates.map(duplicate => duplicate.number),
+    owners
+  };
+}
+
+/**
+ * Classifies the issue with OpenAI, falling back to keyword heuristics
+ */
+async function classifyIssue(title: string, body: string | null | undefined): Promise<IssueClassification> {
+  const fallback = classifyIssueByKeywords(title, body);
+
+  try {
+    const openaiApiKey = process.env.OPENAI_API_KEY;
+    if (!openaiApiKey) {
+      throw new Error("OpenAI API key not configured");
+    }
+
+    const response = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${openaiApiKey}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({
+        model: "gpt-4o-mini",
+        messages: [
+          {
+            role: "system",
+            content: `You triage GitHub issues. Respond with JSON only:
+{
+  "category": "bug|feature|question",
+  "confidence": 0.0-1.0,
+  "security": true|false,
+  "critical": true|false
+}`
+          },
+          { role: "user", content: `Title: ${title}\n\n${(body ?? '').slice(0, 4000)}` }
+        ],
+        temperature: 0.2,
+        max_tokens: 100
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const result = JSON.parse(data.choices?.[0]?.message?.content ?? '');
+    if (!['bug', 'feature', 'question'].includes(result.category)) {
+      throw new Error(`Unexpected category: ${result.category}`);
+    }
+
+    return {
+      category: result.category,
+      confidence: typeof result.confidence === 'number' ? result.confidence : 0.7,
+      labels: [
+        ...(result.security ? [ISSUE_LABELS.SECURITY] : []),
+        ...(result.critical ? [ISSUE_LABELS.CRITICAL] : [])
+      ]
+    };
+  } catch (error) {
+    logger.warn("AI issue classification failed, using keyword fallback", {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return fallback;
+  }
+}
+
+/**
+ * Lists recent open issues and returns the ones with similar titles
+ */
+async function findDuplicates(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  issue: { number: number; title: string },
+  threshold: number,
+  limit: number
+): Promise<DuplicateCandidate[]> {
+  try {
+    const { data: openIssues } = await octokit.issues.listForRepo({
+      owner,
+      repo,
+      state: 'open',
+      per_page: 100
+    });
+    return findDuplicateCandidates(issue, openIssues, threshold, limit);
+  } catch (error) {
+    logger.warn("Duplicate detection failed", { error: error instanceof Error ? error.message : 'Unknown error' });
+    return [];
+  }
+}
+
+/**
+ * Suggests owners from CODEOWNERS for the paths mentioned in the issue
+ */
+async function suggestOwners(octokit: Octokit, owner: string, repo: string, body: string | null | undefined): Promise<string[]> {
+  for (const path of CODEOWNERS_PATHS) {
+    try {
+      const { data } = await octokit.repos.getContent({ owner, repo, path });
+      if (Array.isArray(data) || !('content' in data)) {
+        continue;
+      }
+
+      const rules = parseCodeOwners(Buffer.from(data.content, 'base64').toString('utf-8'));
+      return findCodeOwners(rules, extractMentionedPaths(body));
+    } catch {
+      // Not present at this location, try the next one
+    }
+  }
+
+  return [];
+}
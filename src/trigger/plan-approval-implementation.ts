@@ -1,9 +1,10 @@
 import { logger } from "@trigger.dev/sdk/v3";
 import { Octokit } from "@octokit/rest";
-import { GitHubContext } from "../services/task-types";
-import { createAuthenticatedOctokit } from "./github-auth";
+import { ForgeContext } from "../services/task-types";
+import { CommentTarget, ForgeClient, ForgeIssue, ForgeMilestone, GitHubForgeClient } from "../services/forges";
+import { createForgeClient, getCommentTarget } from "./forge-clients";
 import { BOT_USERNAME } from "./workflow-constants";
-import { findMostRecentMilestoneEnhanced, findMilestonesByDate } from "../lib/milestone-finder";
+import { findMostRecentMilestoneEnhanced, findMilestonesByDate, GitHubMilestone } from "../lib/milestone-finder";
 import {
   CRITICAL_ISSUE_TEMPLATE,
   MISSING_COMPONENT_TEMPLATE,
@@ -14,53 +15,15 @@ import {
 } from "../templates/issue-templates";
 import {
   ISSUE_LABELS,
-  ISSUE_PRIORITIES
+  ISSUE_PRIORITIES,
+  PlanApprovalOptions,
+  readPlanOptions
 } from "./plan-implementation";
 
-// Define interfaces for GitHub objects
-interface GitHubMilestone {
-  id: number;
-  number: number;
-  title: string;
-  description: string | null;
-  state: 'open' | 'closed';
-  url: string;
-  html_url: string;
-  due_on: string | null;
-  created_at: string;
-  updated_at: string;
-}
-
-interface GitHubIssue {
-  id: number;
-  number: number;
-  title: string;
-  body: string | null;
-  state: 'open' | 'closed';
-  url: string;
-  html_url: string;
-  labels: GitHubLabel[];
-  assignees: GitHubUser[];
-  milestone: GitHubMilestone | null;
-  created_at: string;
-  updated_at: string;
-}
-
-interface GitHubLabel {
-  id: number;
-  name: string;
-  color: string;
-  description: string | null;
-}
-
-interface GitHubUser {
-  id: number;
-  login: string;
-  avatar_url: string;
-  html_url: string;
-}
-
-interface PlanAnalysis {
+/**
+ * Plan sections as read back from a milestone description
+ */
+export interface PlanAnalysis {
   missingComponents: string[];
   criticalFixes: string[];
   requiredImprovements: string[];
@@ -68,6 +31,16 @@ interface PlanAnalysis {
   repositoryOverview: string;
 }
 
+// Marks the issues created from a plan, so cancelling the plan only closes what the bot created
+const PLAN_ISSUE_MARKER = '<!-- uwularpy:plan-issue -->';
+
+/**
+ * Checks whether an issue was created by approving a plan
+ */
+export function isPlanIssue(issue: ForgeIssue): boolean {
+  return issue.body.includes(PLAN_ISSUE_MARKER);
+}
+
 interface IssueTemplate {
   title: string;
   body: string;
@@ -76,54 +49,23 @@ interface IssueTemplate {
 }
 
 // Export the plan approval implementation function
-export async function runPlanApprovalTask(payload: GitHubContext, ctx: any) {
+export async function runPlanApprovalTask(payload: ForgeContext, ctx: any) {
   logger.info("Starting plan approval task - decomposing milestone into issues", { payload });
-  const { owner, repo, issueNumber, installationId } = payload;
+  const target = getCommentTarget(payload);
 
   try {
-    // Create authenticated Octokit
-    const octokit = await createAuthenticatedOctokit(installationId);
+    const forge = await createForgeClient(payload);
 
     // Find the most recent milestone using enhanced search with fallbacks
-    let milestone = await findMostRecentMilestone(octokit, owner, repo, issueNumber);
-    
-    // If standard search fails, try enhanced search with broader parameters
-    if (!milestone) {
-      logger.info("Standard milestone search failed, trying enhanced search");
-      milestone = await findMostRecentMilestoneEnhanced(octokit, owner, repo, issueNumber, {
-        includeAllUsers: true, // Search all users, not just bot
-        debugMode: true, // Enable detailed logging
-        searchDepth: 500 // Increase search depth
-      });
-    }
-    
-    // If still no milestone found, try date-based search as last resort
-    if (!milestone) {
-      logger.info("Enhanced search failed, trying date-based search");
-      const recentMilestones = await findMilestonesByDate(octokit, owner, repo, 14); // Last 14 days
-      if (recentMilestones.length > 0) {
-        milestone = recentMilestones[0]; // Use most recent
-        if (milestone) {
-          logger.info("Found milestone using date-based search", { 
-            milestoneNumber: milestone.number,
-            title: milestone.title 
-          });
-        }
-      }
-    }
+    const milestone = await findPlanMilestone(forge, payload);
     
     if (!milestone) {
-      await octokit.issues.createComment({
-        owner,
-        repo,
-        issue_number: issueNumber,
-        body: "❌ **No Recent Milestone Found**\n\nI couldn't find a recent milestone to approve after trying multiple search methods:\n- Comment-based search\n- Enhanced pattern matching\n- Date-based milestone search\n\nPlease run `@l plan` first to create a milestone, or ensure the milestone reference is clearly visible in recent comments."
-      });
+      await forge.postComment(target, "❌ **No Recent Milestone Found**\n\nI couldn't find a recent milestone to approve after trying multiple search methods:\n- Comment-based search\n- Enhanced pattern matching\n- Date-based milestone search\n\nPlease run `@l plan` first to create a milestone, or ensure the milestone reference is clearly visible in recent comments.");
       return { success: false, error: "No milestone found after comprehensive search" };
     }
 
     // Search for mermaid diagrams in the thread
-    const mermaidDiagrams = await findMermaidDiagrams(octokit, owner, repo, issueNumber);
+    const mermaidDiagrams = await findMermaidDiagrams(forge, target);
     
     // Add mermaid diagram information to the response
     if (mermaidDiagrams.length > 0) {
@@ -133,23 +75,21 @@ export async function runPlanApprovalTask(payload: GitHubContext, ctx: any) {
     // Parse milestone description to extract analysis
     const analysis = parseMilestoneDescription(milestone.description || '');
     
-    // Generate basic issues from the milestone analysis
-    const basicIssues = generateIssuesFromAnalysis(analysis, milestone.number);
+    // Generate basic issues from the milestone analysis, limited and labelled by the plan command's flags
+    const basicIssues = applyPlanOptions(
+      generateIssuesFromAnalysis(analysis, milestone.number),
+      readPlanOptions(milestone.description || '')
+    );
     
     // Validate milestone number before creating issues
     if (!milestone.number || milestone.number <= 0) {
       logger.error("Invalid milestone number", { milestoneNumber: milestone.number });
-      await octokit.issues.createComment({
-        owner,
-        repo,
-        issue_number: issueNumber,
-        body: "❌ **Invalid Milestone**\n\nThe milestone found has an invalid number. Please try creating a new plan."
-      });
+      await forge.postComment(target, "❌ **Invalid Milestone**\n\nThe milestone found has an invalid number. Please try creating a new plan.");
       return { success: false, error: "Invalid milestone number" };
     }
 
     // Extract repository context for better enhancement suggestions
-    const repositoryContext = await extractRepositoryContext(octokit, owner, repo, analysis);
+    const repositoryContext = await extractRepositoryContext(forge, analysis);
 
     // Enhance issues with detailed implementation guidance using GPT-4.1-nano
     logger.info("Enhancing issues with detailed implementation guidance", { 
@@ -165,10 +105,10 @@ export async function runPlanApprovalTask(payload: GitHubContext, ctx: any) {
     });
     
     // Create issues and link them to the milestone
-    const createdIssues = await createGitHubIssues(octokit, owner, repo, issues, milestone.number);
+    const createdIssues = await createMilestoneIssues(forge, issues, milestone.number);
     
     // Verify all issues are properly attached to the milestone
-    const attachmentResults = await verifyMilestoneAttachments(octokit, owner, repo, createdIssues, milestone.number);
+    const attachmentResults = await verifyMilestoneAttachments(forge, createdIssues, milestone.number);
     
     logger.info("Milestone attachment verification completed", {
       totalIssues: createdIssues.length,
@@ -180,7 +120,7 @@ export async function runPlanApprovalTask(payload: GitHubContext, ctx: any) {
     let finalAttachmentResults = attachmentResults;
     if (attachmentResults.failed > 0) {
       logger.info("Attempting to fix failed milestone attachments");
-      const fixedCount = await retryMilestoneAttachments(octokit, owner, repo, attachmentResults.failures, milestone.number);
+      const fixedCount = await retryMilestoneAttachments(forge, attachmentResults.failures, milestone.number);
       
       // Update results
       finalAttachmentResults = {
@@ -197,10 +137,10 @@ export async function runPlanApprovalTask(payload: GitHubContext, ctx: any) {
     }
     
     // Post task overview and ask for confirmation, including mermaid diagram info
-    await postTaskOverviewAndConfirmation(octokit, owner, repo, issueNumber, milestone, createdIssues, finalAttachmentResults, mermaidDiagrams);
+    await postTaskOverviewAndConfirmation(forge, target, milestone, createdIssues, finalAttachmentResults, mermaidDiagrams);
     
     logger.info("Plan approval task completed", { 
-      milestoneId: milestone.id,
+      milestoneNumber: milestone.number,
       issuesCreated: createdIssues.length,
       mermaidDiagramsFound: mermaidDiagrams.length
     });
@@ -218,13 +158,8 @@ export async function runPlanApprovalTask(payload: GitHubContext, ctx: any) {
     
     // Try to post error comment
     try {
-      const octokit = await createAuthenticatedOctokit(installationId);
-      await octokit.issues.createComment({
-        owner,
-        repo,
-        issue_number: issueNumber,
-        body: `❌ **Plan Approval Failed**\n\nSorry, I encountered an error while processing your approval:\n\`\`\`\n${error instanceof Error ? error.message : 'Unknown error'}\n\`\`\``
-      });
+      const forge = await createForgeClient(payload);
+      await forge.postComment(target, `❌ **Plan Approval Failed**\n\nSorry, I encountered an error while processing your approval:\n\`\`\`\n${error instanceof Error ? error.message : 'Unknown error'}\n\`\`\``);
     } catch (commentError) {
       logger.error("Failed to post error comment", { commentError });
     }
@@ -233,45 +168,94 @@ export async function runPlanApprovalTask(payload: GitHubContext, ctx: any) {
   }
 }
 
-// Create authenticated Octokit instance
+/**
+ * Finds the plan milestone a command in the thread refers to: the one linked most recently
+ * in the thread, else on GitHub the best match of a broader search
+ * @param searchRepository Whether to fall back to the broader search
+ */
+export async function findPlanMilestone(forge: ForgeClient, payload: ForgeContext, searchRepository: boolean = true): Promise<ForgeMilestone | null> {
+  const milestone = await findMostRecentMilestone(forge, getCommentTarget(payload));
+
+  // The enhanced and date-based searches read GitHub directly
+  if (!milestone && searchRepository && forge instanceof GitHubForgeClient) {
+    return await findMilestoneWithFallbacks(forge.octokit, payload.owner, payload.repo, payload.issueNumber);
+  }
+  return milestone;
+}
+
+function toForgeMilestone(milestone: GitHubMilestone): ForgeMilestone {
+  return {
+    number: milestone.number,
+    title: milestone.title,
+    description: milestone.description ?? '',
+    dueOn: milestone.due_on,
+    url: milestone.html_url,
+  };
+}
+
+// Searches GitHub more broadly when the thread doesn't link the milestone
+async function findMilestoneWithFallbacks(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  issueNumber: number
+): Promise<ForgeMilestone | null> {
+  // Try enhanced search with broader parameters
+  logger.info("Standard milestone search failed, trying enhanced search");
+  let milestone: GitHubMilestone | null = await findMostRecentMilestoneEnhanced(octokit, owner, repo, issueNumber, {
+    includeAllUsers: true, // Search all users, not just bot
+    debugMode: true, // Enable detailed logging
+    searchDepth: 500 // Increase search depth
+  });
+  
+  // If still no milestone found, try date-based search as last resort
+  if (!milestone) {
+    logger.info("Enhanced search failed, trying date-based search");
+    const recentMilestones = await findMilestonesByDate(octokit, owner, repo, 14); // Last 14 days
+    if (recentMilestones.length > 0) {
+      milestone = recentMilestones[0]; // Use most recent
+      if (milestone) {
+        logger.info("Found milestone using date-based search", { 
+          milestoneNumber: milestone.number,
+          title: milestone.title 
+        });
+      }
+    }
+  }
+  
+  return milestone ? toForgeMilestone(milestone) : null;
+}
+
 // Find the most recent milestone created by looking at recent comments
 async function findMostRecentMilestone(
-  octokit: Octokit, 
-  owner: string, 
-  repo: string, 
-  issueNumber: number
-): Promise<GitHubMilestone | null> {
+  forge: ForgeClient, 
+  target: CommentTarget
+): Promise<ForgeMilestone | null> {
+  const issueNumber = target.number;
   try {
     logger.info("Searching for milestone in recent comments", { issueNumber });
     
     // Get recent comments to find milestone URL (increased to 200 for long threads)
-    const { data: comments } = await octokit.issues.listComments({
-      owner,
-      repo,
-      issue_number: issueNumber,
-      per_page: 200,
-      sort: 'created',
-      direction: 'desc'
-    });
+    const comments = await forge.listComments(target, 200);
     
     logger.info(`Found ${comments.length} comments to search`, { issueNumber });
     
     // Track all milestones found and their creation times
-    const foundMilestones: Array<{ milestone: GitHubMilestone; commentCreatedAt: string }> = [];
+    const foundMilestones: Array<{ milestone: ForgeMilestone; commentCreatedAt: string }> = [];
     
     // Look for milestone URL in recent comments with improved patterns
     for (const comment of comments) {
       if (comment.body) {
-        logger.debug(`Checking comment from ${comment.user?.login || 'unknown'}`, { 
+        logger.debug(`Checking comment from ${comment.author || 'unknown'}`, { 
           commentId: comment.id,
-          createdAt: comment.created_at,
+          createdAt: comment.createdAt,
           bodyLength: comment.body.length 
         });
         
         // Extract milestone URL with multiple patterns
         const milestoneUrlPatterns = [
           /https:\/\/github\.com\/[^\/]+\/[^\/]+\/milestone\/(\d+)/g,
-          /\/milestone\/(\d+)/g,
+          /\/milestones?\/(\d+)/g,
           /milestone(?:\s+#?)?(\d+)/ig
         ];
         
@@ -287,21 +271,19 @@ async function findMostRecentMilestone(
                 });
                 
                 // Get the milestone details
-                const { data: milestone } = await octokit.issues.getMilestone({
-                  owner,
-                  repo,
-                  milestone_number: milestoneNumber
-                });
+                const milestone = await forge.getMilestone(milestoneNumber);
+                if (!milestone) {
+                  logger.warn(`Milestone #${milestoneNumber} does not exist`);
+                  continue;
+                }
                 
                 foundMilestones.push({
-                  milestone: milestone as GitHubMilestone,
-                  commentCreatedAt: comment.created_at
+                  milestone,
+                  commentCreatedAt: comment.createdAt
                 });
                 
                 logger.info(`Successfully retrieved milestone #${milestoneNumber}`, {
-                  title: milestone.title,
-                  state: milestone.state,
-                  createdAt: milestone.created_at
+                  title: milestone.title
                 });
                 
               } catch (milestoneError) {
@@ -318,7 +300,7 @@ async function findMostRecentMilestone(
     if (foundMilestones.length === 0) {
       logger.warn("No milestone URLs found in recent comments", { 
         commentsSearched: comments.length,
-        botComments: comments.filter(c => c.user?.login === BOT_USERNAME).length
+        botComments: comments.filter(c => c.author === BOT_USERNAME).length
       });
       return null;
     }
@@ -347,7 +329,7 @@ async function findMostRecentMilestone(
 }
 
 // Parse milestone description to extract analysis data
-function parseMilestoneDescription(description: string): PlanAnalysis {
+export function parseMilestoneDescription(description: string): PlanAnalysis {
   logger.info("Parsing milestone description to extract analysis");
   
   // Default fallback analysis if parsing fails
@@ -386,22 +368,14 @@ function parseMilestoneDescription(description: string): PlanAnalysis {
 
 // Find and extract mermaid diagrams from thread comments
 async function findMermaidDiagrams(
-  octokit: Octokit,
-  owner: string,
-  repo: string,
-  issueNumber: number
+  forge: ForgeClient,
+  target: CommentTarget
 ): Promise<string[]> {
+  const issueNumber = target.number;
   try {
     logger.info("Searching for mermaid diagrams in thread", { issueNumber });
     
-    const { data: comments } = await octokit.issues.listComments({
-      owner,
-      repo,
-      issue_number: issueNumber,
-      per_page: 200,
-      sort: 'created',
-      direction: 'desc'
-    });
+    const comments = await forge.listComments(target, 200);
     
     const mermaidDiagrams: string[] = [];
     
@@ -417,7 +391,7 @@ async function findMermaidDiagrams(
             mermaidDiagrams.push(diagramContent);
             logger.info(`Found mermaid diagram in comment ${comment.id}`, {
               diagramLength: diagramContent.length,
-              author: comment.user?.login
+              author: comment.author
             });
           }
         }
@@ -515,6 +489,23 @@ function generateIssuesFromAnalysis(analysis: PlanAnalysis, milestoneNumber: num
   return issues;
 }
 
+/**
+ * Applies the --max-issues and --labels flags of the plan command.
+ * Issues are generated most important first, so the limit drops the least important ones.
+ */
+function applyPlanOptions(issues: IssueTemplate[], options: PlanApprovalOptions): IssueTemplate[] {
+  const limited = options.maxIssues !== undefined ? issues.slice(0, options.maxIssues) : issues;
+  if (limited.length < issues.length) {
+    logger.info("Limiting issues to --max-issues", { generated: issues.length, maxIssues: options.maxIssues });
+  }
+
+  const extraLabels = options.labels ?? [];
+  return limited.map(issue => ({
+    ...issue,
+    labels: [...new Set([...issue.labels, ...extraLabels])]
+  }));
+}
+
 /**
  * Enhances issue bodies with detailed implementation guidance using GPT-4.1-nano
  * @param issues Array of basic issue templates to enhance
@@ -683,17 +674,15 @@ Please transform this into a comprehensive, actionable GitHub issue with detaile
   }
 }
 
-// Create GitHub Issues with milestone linking
-async function createGitHubIssues(
-  octokit: Octokit, 
-  owner: string, 
-  repo: string, 
+// Create issues with milestone linking
+async function createMilestoneIssues(
+  forge: ForgeClient, 
   issues: IssueTemplate[],
   milestoneNumber: number
-): Promise<GitHubIssue[]> {
-  logger.info("Creating GitHub issues linked to milestone", { count: issues.length, milestoneNumber });
+): Promise<ForgeIssue[]> {
+  logger.info("Creating issues linked to milestone", { count: issues.length, milestoneNumber });
 
-  const createdIssues: GitHubIssue[] = [];
+  const createdIssues: ForgeIssue[] = [];
   
   // Process issues in batches to respect rate limits
   const BATCH_SIZE = 3;
@@ -711,40 +700,29 @@ async function createGitHubIssues(
           milestone: milestoneNumber
         });
 
-        const { data: issue } = await octokit.issues.create({
-          owner,
-          repo,
+        const issue = await forge.createIssue({
           title: issueTemplate.title,
-          body: issueTemplate.body,
+          body: `${issueTemplate.body}\n\n${PLAN_ISSUE_MARKER}`,
           labels: issueTemplate.labels,
           milestone: milestoneNumber
         });
 
         // Verify milestone attachment immediately after creation
-        if (issue.milestone?.number !== milestoneNumber) {
+        if (issue.milestone !== milestoneNumber) {
           logger.warn(`Milestone attachment failed during creation`, {
             expected: milestoneNumber,
-            actual: issue.milestone?.number,
+            actual: issue.milestone,
             issueNumber: issue.number
           });
           
           // Attempt immediate fix
           try {
-            await octokit.issues.update({
-              owner,
-              repo,
-              issue_number: issue.number,
-              milestone: milestoneNumber
-            });
+            await forge.setIssueMilestone(issue.number, milestoneNumber);
             
             // Re-fetch to verify fix
-            const { data: fixedIssue } = await octokit.issues.get({
-              owner,
-              repo,
-              issue_number: issue.number
-            });
+            const fixedIssue = await forge.getIssue(issue.number);
             
-            if (fixedIssue.milestone?.number === milestoneNumber) {
+            if (fixedIssue.milestone === milestoneNumber) {
               logger.info(`✅ Fixed milestone attachment immediately for issue #${issue.number}`);
               // Update the issue object with fixed milestone
               issue.milestone = fixedIssue.milestone;
@@ -762,10 +740,10 @@ async function createGitHubIssues(
           issueNumber: issue.number, 
           title: issue.title,
           milestone: milestoneNumber,
-          attachedMilestone: issue.milestone?.number
+          attachedMilestone: issue.milestone
         });
 
-        return issue as GitHubIssue;
+        return issue;
 
       } catch (error) {
         logger.error(`Error creating issue ${issueIndex + 1}`, { 
@@ -802,18 +780,14 @@ async function createGitHubIssues(
 
 /**
  * Verifies that all created issues are properly attached to the milestone
- * @param octokit GitHub API client
- * @param owner Repository owner
- * @param repo Repository name
+ * @param forge Client of the repository
  * @param issues Created issues to verify
  * @param expectedMilestoneNumber Expected milestone number
  * @returns Object with successful and failed attachment counts
  */
 async function verifyMilestoneAttachments(
-  octokit: Octokit,
-  owner: string,
-  repo: string,
-  issues: GitHubIssue[],
+  forge: ForgeClient,
+  issues: ForgeIssue[],
   expectedMilestoneNumber: number
 ): Promise<{ successful: number; failed: number; failures: Array<{ issueNumber: number; title: string }> }> {
   logger.info("Verifying milestone attachments", { 
@@ -828,20 +802,16 @@ async function verifyMilestoneAttachments(
   for (const issue of issues) {
     try {
       // Re-fetch the issue to get current milestone state
-      const { data: currentIssue } = await octokit.issues.get({
-        owner,
-        repo,
-        issue_number: issue.number
-      });
+      const currentIssue = await forge.getIssue(issue.number);
 
-      if (currentIssue.milestone?.number === expectedMilestoneNumber) {
+      if (currentIssue.milestone === expectedMilestoneNumber) {
         successful++;
         logger.debug(`✅ Issue #${issue.number} correctly attached to milestone ${expectedMilestoneNumber}`);
       } else {
         failed++;
         failures.push({ issueNumber: issue.number, title: issue.title });
         logger.warn(`❌ Issue #${issue.number} not attached to milestone ${expectedMilestoneNumber}`, {
-          currentMilestone: currentIssue.milestone?.number,
+          currentMilestone: currentIssue.milestone,
           expectedMilestone: expectedMilestoneNumber
         });
       }
@@ -857,17 +827,13 @@ async function verifyMilestoneAttachments(
 
 /**
  * Attempts to fix milestone attachment for issues that failed
- * @param octokit GitHub API client
- * @param owner Repository owner
- * @param repo Repository name
+ * @param forge Client of the repository
  * @param failedIssues Issues that failed milestone attachment
  * @param milestoneNumber Target milestone number
  * @returns Number of successfully fixed attachments
  */
 async function retryMilestoneAttachments(
-  octokit: Octokit,
-  owner: string,
-  repo: string,
+  forge: ForgeClient,
   failedIssues: Array<{ issueNumber: number; title: string }>,
   milestoneNumber: number
 ): Promise<number> {
@@ -881,21 +847,12 @@ async function retryMilestoneAttachments(
   for (const failedIssue of failedIssues) {
     try {
       // Update the issue to attach it to the milestone
-      await octokit.issues.update({
-        owner,
-        repo,
-        issue_number: failedIssue.issueNumber,
-        milestone: milestoneNumber
-      });
+      await forge.setIssueMilestone(failedIssue.issueNumber, milestoneNumber);
       
       // Verify the fix worked
-      const { data: updatedIssue } = await octokit.issues.get({
-        owner,
-        repo,
-        issue_number: failedIssue.issueNumber
-      });
+      const updatedIssue = await forge.getIssue(failedIssue.issueNumber);
       
-      if (updatedIssue.milestone?.number === milestoneNumber) {
+      if (updatedIssue.milestone === milestoneNumber) {
         fixed++;
         logger.info(`✅ Fixed milestone attachment for issue #${failedIssue.issueNumber}`);
       } else {
@@ -911,31 +868,22 @@ async function retryMilestoneAttachments(
 
 // Extracts repository context for better enhancement suggestions
 async function extractRepositoryContext(
-  octokit: Octokit,
-  owner: string,
-  repo: string,
+  forge: ForgeClient,
   analysis: PlanAnalysis
 ): Promise<string> {
+  const { owner, repo } = forge;
   try {
     logger.info("Extracting repository context for enhancement");
 
     // Get repository information
-    const { data: repository } = await octokit.repos.get({
-      owner,
-      repo
-    });
+    const repository = await forge.getRepository();
 
     // Get package.json to understand the tech stack
     let packageJsonContent = '';
     try {
-      const { data: packageJson } = await octokit.repos.getContent({
-        owner,
-        repo,
-        path: 'package.json'
-      });
+      const content = await forge.getFileContent('package.json');
       
-      if ('content' in packageJson) {
-        const content = Buffer.from(packageJson.content, 'base64').toString('utf8');
+      if (content) {
         const parsed = JSON.parse(content);
         packageJsonContent = `
 **Tech Stack:**
@@ -950,14 +898,9 @@ async function extractRepositoryContext(
     // Get README.md for project overview
     let readmeContent = '';
     try {
-      const { data: readme } = await octokit.repos.getContent({
-        owner,
-        repo,
-        path: 'README.md'
-      });
+      const content = await forge.getFileContent('README.md');
       
-      if ('content' in readme) {
-        const content = Buffer.from(readme.content, 'base64').toString('utf8');
+      if (content) {
         // Extract first few paragraphs for context
         const firstParagraphs = content.split('\n').slice(0, 10).join('\n');
         readmeContent = `
@@ -971,16 +914,12 @@ ${firstParagraphs.slice(0, 500)}${firstParagraphs.length > 500 ? '...' : ''}`;
     // Get recent commits to understand development patterns
     let recentActivity = '';
     try {
-      const { data: commits } = await octokit.repos.listCommits({
-        owner,
-        repo,
-        per_page: 5
-      });
+      const commits = await forge.listRecentCommits(5);
       
-      const commitMessages = commits.map(commit => commit.commit.message).join(', ');
+      const commitMessages = commits.map(commit => commit.message).join(', ');
       recentActivity = `
 **Recent Development:**
-- Repository: ${repository.full_name}
+- Repository: ${repository.fullName}
 - Language: ${repository.language || 'Unknown'}
 - Recent commits: ${commitMessages.slice(0, 200)}${commitMessages.length > 200 ? '...' : ''}`;
     } catch (error) {
@@ -991,8 +930,7 @@ ${firstParagraphs.slice(0, 500)}${firstParagraphs.length > 500 ? '...' : ''}`;
 **Repository Context for ${owner}/${repo}:**
 ${repository.description ? `- Description: ${repository.description}` : ''}
 - Primary Language: ${repository.language || 'Unknown'}
-- Repository Size: ${repository.size} KB
-- Open Issues: ${repository.open_issues_count}
+- Open Issues: ${repository.openIssues}
 ${packageJsonContent}
 ${readmeContent}
 ${recentActivity}
@@ -1024,12 +962,10 @@ ${recentActivity}
 
 // Post task overview and ask for confirmation
 async function postTaskOverviewAndConfirmation(
-  octokit: Octokit, 
-  owner: string, 
-  repo: string, 
-  issueNumber: number,
-  milestone: GitHubMilestone,
-  createdIssues: GitHubIssue[],
+  forge: ForgeClient, 
+  target: CommentTarget,
+  milestone: ForgeMilestone,
+  createdIssues: ForgeIssue[],
   attachmentResults?: { successful: number; failed: number; failures: Array<{ issueNumber: number; title: string }> },
   mermaidDiagrams?: string[]
 ): Promise<void> {
@@ -1037,12 +973,12 @@ async function postTaskOverviewAndConfirmation(
   // Sort issues by priority for better presentation
   const sortedIssues = createdIssues.sort((a, b) => {
     const priorityOrder = { 'critical': 0, 'high': 1, 'normal': 2, 'feature': 3 };
-    const aPriority = a.labels.some(l => l.name === ISSUE_LABELS.CRITICAL) ? 0 :
-                     a.labels.some(l => l.name === ISSUE_LABELS.MISSING_FEATURE) ? 1 :
-                     a.labels.some(l => l.name === ISSUE_LABELS.IMPROVEMENT) ? 2 : 3;
-    const bPriority = b.labels.some(l => l.name === ISSUE_LABELS.CRITICAL) ? 0 :
-                     b.labels.some(l => l.name === ISSUE_LABELS.MISSING_FEATURE) ? 1 :
-                     b.labels.some(l => l.name === ISSUE_LABELS.IMPROVEMENT) ? 2 : 3;
+    const aPriority = a.labels.some(l => l === ISSUE_LABELS.CRITICAL) ? 0 :
+                     a.labels.some(l => l === ISSUE_LABELS.MISSING_FEATURE) ? 1 :
+                     a.labels.some(l => l === ISSUE_LABELS.IMPROVEMENT) ? 2 : 3;
+    const bPriority = b.labels.some(l => l === ISSUE_LABELS.CRITICAL) ? 0 :
+                     b.labels.some(l => l === ISSUE_LABELS.MISSING_FEATURE) ? 1 :
+                     b.labels.some(l => l === ISSUE_LABELS.IMPROVEMENT) ? 2 : 3;
     return aPriority - bPriority;
   });
 
@@ -1072,10 +1008,10 @@ I've decomposed the milestone into ${createdIssues.length} actionable GitHub iss
 ### 📋 Task Overview (Execution Order)
 
 ${sortedIssues.map((issue, index) => {
-  const priority = issue.labels.some(l => l.name === ISSUE_LABELS.CRITICAL) ? '🚨 CRITICAL' :
-                   issue.labels.some(l => l.name === ISSUE_LABELS.MISSING_FEATURE) ? '⚡ HIGH' :
-                   issue.labels.some(l => l.name === ISSUE_LABELS.IMPROVEMENT) ? '🔧 NORMAL' : '💡 FEATURE';
-  return `${index + 1}. [#${issue.number}](${issue.html_url}) ${issue.title} (${priority})`;
+  const priority = issue.labels.some(l => l === ISSUE_LABELS.CRITICAL) ? '🚨 CRITICAL' :
+                   issue.labels.some(l => l === ISSUE_LABELS.MISSING_FEATURE) ? '⚡ HIGH' :
+                   issue.labels.some(l => l === ISSUE_LABELS.IMPROVEMENT) ? '🔧 NORMAL' : '💡 FEATURE';
+  return `${index + 1}. [#${issue.number}](${issue.url}) ${issue.title} (${priority})`;
 }).join('\n')}
 
 ### 🎯 Execution Plan
@@ -1092,12 +1028,7 @@ Issues will be assigned to GitHub Copilot sequentially based on priority and dep
 
 Reply with a positive confirmation (e.g., "y", "yes", "go", "lfg") to begin the automated workflow, or let me know if you'd like to modify anything first.`;
 
-  await octokit.issues.createComment({
-    owner,
-    repo,
-    issue_number: issueNumber,
-    body: overviewComment
-  });
+  await forge.postComment(target, overviewComment);
 
   logger.info("Posted task overview and confirmation request");
 }
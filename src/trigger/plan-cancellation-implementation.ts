@@ -0,0 +1,111 @@
+import { logger } from "@trigger.dev/sdk/v3";
+import { ForgeContext } from "../services/task-types";
+import { ForgeClient, ForgeIssue } from "../services/forges";
+import { createForgeClient, getCommentTarget } from "./forge-clients";
+import { COPILOT_USERNAME } from "./workflow-constants";
+import { findPlanMilestone, isPlanIssue } from "./plan-approval-implementation";
+import { PLAN_CANCELLED_TEMPLATE } from "../templates/issue-templates";
+
+// Label the execution workflow puts on the issue Copilot works on
+const COPILOT_ASSIGNED_LABEL = 'copilot-assigned';
+
+/**
+ * What cancelling a plan does to the issues created from it
+ */
+export interface CancellationPlan {
+  // Not started yet: closed
+  close: ForgeIssue[];
+  // Being worked on by Copilot: label removed and Copilot unassigned, the issue stays open
+  stop: ForgeIssue[];
+  // Assigned to people: left as they are
+  keep: ForgeIssue[];
+}
+
+function isCopilot(assignee: string): boolean {
+  return assignee.replace(/^@/, '').toLowerCase() === COPILOT_USERNAME.replace(/^@/, '').toLowerCase();
+}
+
+/**
+ * Sorts the open issues the bot created for a milestone by what cancelling does to them.
+ * Issues people added to the milestone themselves are never touched.
+ */
+export function planCancellation(issues: ForgeIssue[]): CancellationPlan {
+  const plan: CancellationPlan = { close: [], stop: [], keep: [] };
+
+  for (const issue of issues) {
+    if (issue.state !== 'open' || !isPlanIssue(issue)) {
+      continue;
+    }
+
+    if (issue.labels.includes(COPILOT_ASSIGNED_LABEL) || issue.assignees.some(isCopilot)) {
+      plan.stop.push(issue);
+    } else if (issue.assignees.length > 0) {
+      plan.keep.push(issue);
+    } else {
+      plan.close.push(issue);
+    }
+  }
+  return plan;
+}
+
+// Takes Copilot off an issue it was working on
+async function stopCopilot(forge: ForgeClient, issue: ForgeIssue): Promise<void> {
+  await forge.removeLabel(issue.number, COPILOT_ASSIGNED_LABEL);
+
+  const copilotAssignees = issue.assignees.filter(isCopilot);
+  if (copilotAssignees.length > 0) {
+    await forge.unassignIssue(issue.number, copilotAssignees);
+  }
+}
+
+// Export the plan cancellation implementation function
+export async function runPlanCancellationTask(payload: ForgeContext) {
+  logger.info("Starting plan cancellation task", { payload });
+  const target = getCommentTarget(payload);
+
+  try {
+    const forge = await createForgeClient(payload);
+
+    // Only the milestone linked in the thread, a repository-wide search could close an unrelated one
+    const milestone = await findPlanMilestone(forge, payload, false);
+    if (!milestone) {
+      await forge.postComment(target, "❌ **No Recent Milestone Found**\n\nI couldn't find a plan milestone to cancel in this thread.");
+      return { success: false, error: "No milestone found" };
+    }
+
+    const cancellation = planCancellation(await forge.listMilestoneIssues(milestone.number));
+
+    for (const issue of cancellation.close) {
+      await forge.closeIssue(issue.number);
+    }
+    for (const issue of cancellation.stop) {
+      await stopCopilot(forge, issue);
+    }
+    await forge.closeMilestone(milestone.number);
+
+    const undone = {
+      milestoneUrl: milestone.url,
+      closedIssues: cancellation.close.map(issue => issue.number),
+      stoppedIssues: cancellation.stop.map(issue => issue.number),
+      keptIssues: cancellation.keep.map(issue => issue.number)
+    };
+    await forge.postComment(target, PLAN_CANCELLED_TEMPLATE(undone));
+
+    logger.info("Plan cancellation task completed", { milestoneNumber: milestone.number, ...undone });
+
+    return { success: true, milestone, ...undone };
+
+  } catch (error) {
+    logger.error("Error in plan cancellation task", { error });
+
+    // Try to post error comment
+    try {
+      const forge = await createForgeClient(payload);
+      await forge.postComment(target, `❌ **Plan Cancellation Failed**\n\nSorry, I encountered an error while cancelling the plan, it may be partly cancelled:\n\`\`\`\n${error instanceof Error ? error.message : 'Unknown error'}\n\`\`\``);
+    } catch (commentError) {
+      logger.error("Failed to post error comment", { commentError });
+    }
+
+    throw error;
+  }
+}
@@ -1,7 +1,7 @@
 import { logger } from "@trigger.dev/sdk/v3";
-import { Octokit } from "@octokit/rest";
-import { GitHubContext } from "../services/task-types";
-import { createAuthenticatedOctokit } from "./github-auth";
+import { ForgeContext } from "../services/task-types";
+import { CommentTarget, ForgeClient, ForgeIssue, ForgeMilestone } from "../services/forges";
+import { createForgeClient, getCommentTarget } from "./forge-clients";
 import { 
   BOT_USERNAME, 
   COPILOT_USERNAME, 
@@ -15,53 +15,11 @@ import {
   ISSUE_PRIORITIES
 } from "./plan-implementation";
 
-// Define interfaces for GitHub objects
-interface GitHubMilestone {
-  id: number;
-  number: number;
-  title: string;
-  description: string | null;
-  state: 'open' | 'closed';
-  url: string;
-  html_url: string;
-  due_on: string | null;
-  created_at: string;
-  updated_at: string;
-}
-
-interface GitHubIssue {
-  id: number;
-  number: number;
-  title: string;
-  body: string | null;
-  state: 'open' | 'closed';
-  url: string;
-  html_url: string;
-  labels: GitHubLabel[];
-  assignees: GitHubUser[];
-  milestone: GitHubMilestone | null;
-  created_at: string;
-  updated_at: string;
-}
-
-interface GitHubLabel {
-  id: number;
-  name: string;
-  color: string;
-  description: string | null;
-}
-
-interface GitHubUser {
-  id: number;
-  login: string;
-  avatar_url: string;
-  html_url: string;
-}
-
 // Export the plan execution implementation function
-export async function runPlanExecutionTask(payload: GitHubContext, ctx: any) {
+export async function runPlanExecutionTask(payload: ForgeContext, ctx: any) {
   logger.info("Starting plan execution task - initiating sequential workflow", { payload });
-  const { owner, repo, issueNumber, installationId } = payload;
+  const { owner, repo, issueNumber } = payload;
+  const target = getCommentTarget(payload);
 
   // Input validation and rate limiting for DoS protection
   const rateLimitKey = `plan-execution-${owner}-${repo}`;
@@ -76,32 +34,21 @@ export async function runPlanExecutionTask(payload: GitHubContext, ctx: any) {
   }, MAX_WORKFLOW_EXECUTION_TIME);
 
   try {
-    // Create authenticated Octokit
-    const octokit = await createAuthenticatedOctokit(installationId);
+    const forge = await createForgeClient(payload);
 
     // Find the milestone and its associated issues
-    const milestone = await findMostRecentMilestone(octokit, owner, repo, issueNumber);
+    const milestone = await findMostRecentMilestone(forge, target);
     
     if (!milestone) {
-      await octokit.issues.createComment({
-        owner,
-        repo,
-        issue_number: issueNumber,
-        body: "❌ **No Milestone Found**\n\nI couldn't find a milestone to work with. Please run the plan workflow from the beginning."
-      });
+      await forge.postComment(target, "❌ **No Milestone Found**\n\nI couldn't find a milestone to work with. Please run the plan workflow from the beginning.");
       return { success: false, error: "No milestone found" };
     }
 
     // Get all issues associated with this milestone
-    const milestoneIssues = await getMilestoneIssues(octokit, owner, repo, milestone.number);
+    const milestoneIssues = await getMilestoneIssues(forge, milestone.number);
     
     if (milestoneIssues.length === 0) {
-      await octokit.issues.createComment({
-        owner,
-        repo,
-        issue_number: issueNumber,
-        body: "❌ **No Issues Found**\n\nNo issues are associated with the milestone. Please run the approval step first."
-      });
+      await forge.postComment(target, "❌ **No Issues Found**\n\nNo issues are associated with the milestone. Please run the approval step first.");
       return { success: false, error: "No milestone issues found" };
     }
 
@@ -120,23 +67,18 @@ export async function runPlanExecutionTask(payload: GitHubContext, ctx: any) {
     const nextIssue = findNextIssueToAssign(sortedIssues);
     
     if (!nextIssue) {
-      await octokit.issues.createComment({
-        owner,
-        repo,
-        issue_number: issueNumber,
-        body: "✅ **All Issues Completed**\n\nAll issues in this milestone have been completed! The development plan has been fully executed."
-      });
+      await forge.postComment(target, "✅ **All Issues Completed**\n\nAll issues in this milestone have been completed! The development plan has been fully executed.");
       return { success: true, message: "All issues completed" };
     }
 
     // Assign the issue to GitHub Copilot
-    await assignIssueToCopilot(octokit, owner, repo, nextIssue);
+    await assignIssueToCopilot(forge, nextIssue);
     
     // Post workflow start comment
-    await postWorkflowStartComment(octokit, owner, repo, issueNumber, milestone, nextIssue, sortedIssues);
+    await postWorkflowStartComment(forge, target, milestone, nextIssue, sortedIssues);
     
     logger.info("Plan execution task completed - workflow started", { 
-      milestoneId: milestone.id,
+      milestoneNumber: milestone.number,
       nextIssueNumber: nextIssue.number,
       totalIssues: sortedIssues.length
     });
@@ -160,13 +102,8 @@ export async function runPlanExecutionTask(payload: GitHubContext, ctx: any) {
     
     // Try to post error comment
     try {
-      const octokit = await createAuthenticatedOctokit(installationId);
-      await octokit.issues.createComment({
-        owner,
-        repo,
-        issue_number: issueNumber,
-        body: `❌ **Plan Execution Failed**\n\nSorry, I encountered an error while starting the execution workflow:\n\`\`\`\n${error instanceof Error ? error.message : 'Unknown error'}\n\`\`\``
-      });
+      const forge = await createForgeClient(payload);
+      await forge.postComment(target, `❌ **Plan Execution Failed**\n\nSorry, I encountered an error while starting the execution workflow:\n\`\`\`\n${error instanceof Error ? error.message : 'Unknown error'}\n\`\`\``);
     } catch (commentError) {
       logger.error("Failed to post error comment", { commentError });
     }
@@ -179,38 +116,25 @@ export async function runPlanExecutionTask(payload: GitHubContext, ctx: any) {
 
 // Find the most recent milestone (same logic as approval task)
 async function findMostRecentMilestone(
-  octokit: Octokit, 
-  owner: string, 
-  repo: string, 
-  issueNumber: number
-): Promise<GitHubMilestone | null> {
+  forge: ForgeClient, 
+  target: CommentTarget
+): Promise<ForgeMilestone | null> {
   try {
     // Get recent comments to find milestone URL
-    const { data: comments } = await octokit.issues.listComments({
-      owner,
-      repo,
-      issue_number: issueNumber,
-      per_page: 20,
-      sort: 'created',
-      direction: 'desc'
-    });
+    const comments = await forge.listComments(target, 20);
     
     // Look for milestone URL in recent comments
     for (const comment of comments) {
-      if (comment.user?.login === BOT_USERNAME && comment.body) {
-        // Extract milestone URL pattern
-        const milestoneUrlMatch = comment.body.match(/https:\/\/github\.com\/[^\/]+\/[^\/]+\/milestone\/(\d+)/);
+      // Other forges run under an access token whose user name isn't known here
+      const isBotComment = forge.kind !== 'github' || comment.author === BOT_USERNAME;
+      if (isBotComment && comment.body) {
+        // Extract milestone URL pattern (/milestone/N on GitHub and Gitea, /-/milestones/N on GitLab)
+        const milestoneUrlMatch = comment.body.match(/https?:\/\/[^\s)]+\/milestones?\/(\d+)/);
         if (milestoneUrlMatch) {
           const milestoneNumber = parseInt(milestoneUrlMatch[1], 10);
           
           // Get the milestone details
-          const { data: milestone } = await octokit.issues.getMilestone({
-            owner,
-            repo,
-            milestone_number: milestoneNumber
-          });
-          
-          return milestone as GitHubMilestone;
+          return await forge.getMilestone(milestoneNumber);
         }
       }
     }
@@ -226,21 +150,11 @@ async function findMostRecentMilestone(
 
 // Get all issues associated with a milestone
 async function getMilestoneIssues(
-  octokit: Octokit, 
-  owner: string, 
-  repo: string, 
+  forge: ForgeClient, 
   milestoneNumber: number
-): Promise<GitHubIssue[]> {
+): Promise<ForgeIssue[]> {
   try {
-    const { data: issues } = await octokit.issues.listForRepo({
-      owner,
-      repo,
-      milestone: milestoneNumber.toString(),
-      state: 'all',
-      per_page: 100
-    });
-    
-    return issues as GitHubIssue[];
+    return await forge.listMilestoneIssues(milestoneNumber);
     
   } catch (error) {
     logger.error("Error fetching milestone issues", { error, milestoneNumber });
@@ -249,13 +163,13 @@ async function getMilestoneIssues(
 }
 
 // Sort issues by priority for execution order
-function sortIssuesByPriority(issues: GitHubIssue[]): GitHubIssue[] {
+function sortIssuesByPriority(issues: ForgeIssue[]): ForgeIssue[] {
   return issues.sort((a, b) => {
     // Priority order: critical -> high -> normal -> feature
-    const getPriority = (issue: GitHubIssue): number => {
-      if (issue.labels.some(l => l.name === ISSUE_LABELS.CRITICAL)) return 0;
-      if (issue.labels.some(l => l.name === ISSUE_LABELS.MISSING_FEATURE)) return 1;
-      if (issue.labels.some(l => l.name === ISSUE_LABELS.IMPROVEMENT)) return 2;
+    const getPriority = (issue: ForgeIssue): number => {
+      if (issue.labels.some(l => l === ISSUE_LABELS.CRITICAL)) return 0;
+      if (issue.labels.some(l => l === ISSUE_LABELS.MISSING_FEATURE)) return 1;
+      if (issue.labels.some(l => l === ISSUE_LABELS.IMPROVEMENT)) return 2;
       return 3; // feature
     };
     
@@ -272,31 +186,24 @@ function sortIssuesByPriority(issues: GitHubIssue[]): GitHubIssue[] {
 }
 
 // Find the next issue to assign (first open, unassigned issue without copilot-assigned label)
-function findNextIssueToAssign(sortedIssues: GitHubIssue[]): GitHubIssue | null {
+function findNextIssueToAssign(sortedIssues: ForgeIssue[]): ForgeIssue | null {
   return sortedIssues.find(issue => 
     issue.state === 'open' && 
     issue.assignees.length === 0 &&
-    !issue.labels.some(label => label.name === 'copilot-assigned')
+    !issue.labels.some(label => label === 'copilot-assigned')
   ) || null;
 }
 
 // Assign an issue to GitHub Copilot
 async function assignIssueToCopilot(
-  octokit: Octokit, 
-  owner: string, 
-  repo: string, 
-  issue: GitHubIssue
+  forge: ForgeClient, 
+  issue: ForgeIssue
 ): Promise<void> {
   try {
     // Try to assign the issue to the "copilot" user if it exists
     let assignmentSuccess = false;
     try {
-      await octokit.issues.update({
-        owner,
-        repo,
-        issue_number: issue.number,
-        assignees: [COPILOT_USERNAME]
-      });
+      await forge.assignIssue(issue.number, [COPILOT_USERNAME]);
       assignmentSuccess = true;
       logger.info(`Successfully assigned issue to '${COPILOT_USERNAME}' user`, { 
         issueNumber: issue.number
@@ -313,11 +220,7 @@ async function assignIssueToCopilot(
       ? `🤖 **Assigned to GitHub Copilot**\n\n@${COPILOT_USERNAME} This issue has been automatically assigned to you as part of the AI development plan workflow.`
       : `🤖 **Assigned to GitHub Copilot**\n\n@${COPILOT_USERNAME} This issue has been automatically assigned to you as part of the AI development plan workflow.\n\n*Note: Could not assign you directly, but you are tagged here for notification.*`;
     
-    await octokit.issues.createComment({
-      owner,
-      repo,
-      issue_number: issue.number,
-      body: `${assignmentMessage}
+    await forge.postComment({ number: issue.number }, `${assignmentMessage}
 
 Please implement the solution according to the requirements and create a pull request when ready.
 
@@ -331,16 +234,10 @@ Please implement the solution according to the requirements and create a pull re
 **Next Steps:**
 1. Implement the required changes
 2. Create a pull request
-3. I will automatically post "@l r" to trigger the review process`
-    });
+3. I will automatically post "@l r" to trigger the review process`);
     
     // Add a label to indicate Copilot assignment
-    await octokit.issues.addLabels({
-      owner,
-      repo,
-      issue_number: issue.number,
-      labels: ['copilot-assigned']
-    });
+    await forge.addLabels(issue.number, ['copilot-assigned']);
     
     logger.info("Assigned issue to GitHub Copilot", { 
       issueNumber: issue.number,
@@ -359,25 +256,23 @@ Please implement the solution according to the requirements and create a pull re
 
 // Post workflow start comment
 async function postWorkflowStartComment(
-  octokit: Octokit, 
-  owner: string, 
-  repo: string, 
-  issueNumber: number,
-  milestone: GitHubMilestone,
-  currentIssue: GitHubIssue,
-  allIssues: GitHubIssue[]
+  forge: ForgeClient, 
+  target: CommentTarget,
+  milestone: ForgeMilestone,
+  currentIssue: ForgeIssue,
+  allIssues: ForgeIssue[]
 ): Promise<void> {
   
   const currentIndex = allIssues.findIndex(issue => issue.number === currentIssue.number) + 1;
   
   const workflowComment = `## 🚀 Workflow Started!
 
-I've initiated the automated development workflow for milestone [${milestone.title}](${milestone.html_url}).
+I've initiated the automated development workflow for milestone [${milestone.title}](${milestone.url}).
 
 ### 📋 Current Status
 
 **Currently Working On:**
-[#${currentIssue.number}](${currentIssue.html_url}) ${currentIssue.title} (Issue ${currentIndex}/${allIssues.length})
+[#${currentIssue.number}](${currentIssue.url}) ${currentIssue.title} (Issue ${currentIndex}/${allIssues.length})
 
 ### 🔄 Workflow Process
 
@@ -392,10 +287,10 @@ Each issue will go through these automated steps:
 ### 📊 Remaining Issues Queue
 
 ${allIssues.slice(currentIndex).map((issue, index) => {
-  const priority = issue.labels.some(l => l.name === ISSUE_LABELS.CRITICAL) ? '🚨' :
-                   issue.labels.some(l => l.name === ISSUE_LABELS.MISSING_FEATURE) ? '⚡' :
-                   issue.labels.some(l => l.name === ISSUE_LABELS.IMPROVEMENT) ? '🔧' : '💡';
-  return `${currentIndex + index + 1}. [#${issue.number}](${issue.html_url}) ${issue.title} ${priority}`;
+  const priority = issue.labels.some(l => l === ISSUE_LABELS.CRITICAL) ? '🚨' :
+                   issue.labels.some(l => l === ISSUE_LABELS.MISSING_FEATURE) ? '⚡' :
+                   issue.labels.some(l => l === ISSUE_LABELS.IMPROVEMENT) ? '🔧' : '💡';
+  return `${currentIndex + index + 1}. [#${issue.number}](${issue.url}) ${issue.title} ${priority}`;
 }).join('\n')}
 
 ### 🎯 Monitoring
@@ -407,12 +302,7 @@ I'll monitor pull request activity and automatically manage the workflow progres
 
 The workflow will continue automatically until all issues are completed and merged.`;
 
-  await octokit.issues.createComment({
-    owner,
-    repo,
-    issue_number: issueNumber,
-    body: workflowComment
-  });
+  await forge.postComment(target, workflowComment);
 
   logger.info("Posted workflow start comment");
 }
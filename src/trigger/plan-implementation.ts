@@ -1,7 +1,10 @@
 import { logger } from "@trigger.dev/sdk/v3";
 import { Octokit } from "@octokit/rest";
 import { GitHubContext } from "../services/task-types";
-import { createAuthenticatedOctokit } from "./github-auth";
+import { Acknowledgement, acknowledgeCompletionOnForge, acknowledgeStartOnForge } from "./acknowledgements";
+import { ForgeClient, ForgeCommit, ForgeMilestone, ForgeRepository, ForgeTreeEntry } from "../services/forges";
+import { createForgeClient, getCommentTarget } from "./forge-clients";
+import { loadRepositoryConfig } from "./repository-config";
 import { 
   MAX_REPO_ANALYSIS_FILES,
   checkRateLimit
@@ -19,6 +22,8 @@ import {
   PLAN_CANCELLED_TEMPLATE
 } from "../templates/issue-templates";
 import { createIdeaGenerationConfig, selectModelForUser, generateAIResponse } from "../lib/openai-operations";
+import { CommandOptions } from "../lib/command-grammar";
+import { parseCommand } from "../lib/command-parser";
 
 // Define interfaces for GitHub objects to improve type safety
 interface GitHubMilestone {
@@ -159,7 +164,8 @@ export const ISSUE_LABELS = {
   IMPROVEMENT: 'improvement',
   TECHNICAL_DEBT: 'technical-debt',
   FEATURE: 'feature',
-  INNOVATION: 'innovation'
+  INNOVATION: 'innovation',
+  QUESTION: 'question'
 } as const;
 
 export const ISSUE_PRIORITIES = {
@@ -169,6 +175,50 @@ export const ISSUE_PRIORITIES = {
   FEATURE: 'feature'
 } as const;
 
+const DEFAULT_MILESTONE_DUE_DAYS = 7;
+
+/**
+ * Flags of the plan command that apply when the plan is approved
+ */
+export type PlanApprovalOptions = Pick<CommandOptions, 'maxIssues' | 'labels'>;
+
+// The approval runs as a separate task, so these options travel in the milestone description
+const PLAN_OPTIONS_MARKER = /<!-- uwularpy:plan-options (\{.*\}) -->/;
+
+/**
+ * Hidden marker recording the approval options of a plan, empty when there are none
+ */
+export function buildPlanOptionsMarker(options: CommandOptions): string {
+  const { maxIssues, labels } = options;
+  if (maxIssues === undefined && !labels?.length) {
+    return '';
+  }
+  // Escape ">" so a label can't close the comment
+  const json = JSON.stringify({ maxIssues, labels }).replace(/>/g, '\\u003e');
+  return `\n\n<!-- uwularpy:plan-options ${json} -->`;
+}
+
+/**
+ * Reads the approval options recorded by buildPlanOptionsMarker
+ */
+export function readPlanOptions(description: string): PlanApprovalOptions {
+  const match = description.match(PLAN_OPTIONS_MARKER);
+  if (!match) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(match[1]);
+    return {
+      maxIssues: Number.isInteger(parsed.maxIssues) && parsed.maxIssues > 0 ? parsed.maxIssues : undefined,
+      labels: Array.isArray(parsed.labels) ? parsed.labels.filter((label: unknown) => typeof label === 'string') : undefined,
+    };
+  } catch (error) {
+    logger.warn("Ignoring malformed plan options marker", { error: error instanceof Error ? error.message : 'Unknown error' });
+    return {};
+  }
+}
+
 // Define interfaces for the plan structure
 interface PlanAnalysis {
   repositoryOverview: string;
@@ -189,24 +239,20 @@ interface IssueTemplate {
 /**
  * Extracts user query from plan command message
  * @param message The full message from the command
- * @returns The user query or empty string if not found
+ * @returns The user query without the command flags, or empty string if not found
  */
 function extractUserQueryFromMessage(message: string): string {
   if (!message) return '';
   
-  // Look for plan command followed by user query
-  const planCommandMatch = message.match(/^(plan|planning|analyze)\s+(.+)$/i);
-  if (planCommandMatch) {
-    return planCommandMatch[2].trim();
-  }
-  
-  return '';
+  // Look for plan command followed by user query, with its code as the user wrote it
+  const parsed = parseCommand(`@l ${message}`);
+  return parsed.args?.name === 'plan' ? parsed.userQuery ?? '' : '';
 }
 
 // Export the plan implementation function
 export async function runPlanTask(payload: GitHubContext, ctx: any) {
   logger.info("Starting repository plan task - creating milestone only", { payload });
-  const { owner, repo, issueNumber, installationId, requester } = payload;
+  const { owner, repo, requester } = payload;
 
   // Rate limiting for expensive plan operations
   const rateLimitKey = `plan-creation-${owner}-${repo}`;
@@ -215,21 +261,27 @@ export async function runPlanTask(payload: GitHubContext, ctx: any) {
     throw new Error("Rate limit exceeded for plan creation");
   }
 
+  let acknowledgement: Acknowledgement | undefined;
+  let forge: ForgeClient | undefined;
+
   try {
-    // Create authenticated Octokit
-    const octokit = await createAuthenticatedOctokit(installationId);
+    // Create a client for the forge the command came from
+    forge = await createForgeClient(payload);
     
     // Extract user query from the message if available
     const userQuery = extractUserQueryFromMessage(payload.message || '');
-    logger.info("Extracted user query", { userQuery: userQuery || 'none', requester });
+    // The flags of the command take precedence over the plan defaults of the repository
+    const config = await loadRepositoryConfig(forge);
+    const options = { ...config.plan, ...payload.commandOptions };
+    logger.info("Extracted user query", { userQuery: userQuery || 'none', requester, options });
     
-    // Post an immediate reply comment
-    await postReplyComment(octokit, owner, repo, issueNumber);
-    logger.info("Posted initial reply comment");
+    // Acknowledge the command
+    acknowledgement = await acknowledgeStartOnForge(forge, payload, INITIAL_REPLY_TEMPLATE());
+    logger.info("Acknowledged plan command", { mode: acknowledgement.mode });
 
     // Phase 1: Repository Ingestion
     logger.info("Phase 1: Starting repository ingestion");
-    const repositoryContent = await ingestRepository(octokit, owner, repo);
+    const repositoryContent = await ingestRepository(forge);
     
     // Phase 2: Comprehensive Analysis
     logger.info("Phase 2: Starting comprehensive analysis");
@@ -237,15 +289,16 @@ export async function runPlanTask(payload: GitHubContext, ctx: any) {
     
     // Phase 3: Create GitHub Milestone ONLY
     logger.info("Phase 3: Creating GitHub milestone");
-    const milestone = await createProjectMilestone(octokit, owner, repo, analysis);
+    const milestone = await createProjectMilestone(forge, analysis, options);
     
     // Post milestone URL as response (sole response per requirements)
-    await postMilestoneUrlComment(octokit, owner, repo, issueNumber, milestone);
+    await postMilestoneUrlComment(forge, payload, milestone);
     
     logger.info("Plan task completed - milestone created", { 
-      milestoneId: milestone.id,
-      milestoneUrl: milestone.html_url
+      milestoneNumber: milestone.number,
+      milestoneUrl: milestone.url
     });
+    await acknowledgeCompletionOnForge(forge, payload, acknowledgement, 'success');
     
     return { 
       success: true, 
@@ -258,13 +311,12 @@ export async function runPlanTask(payload: GitHubContext, ctx: any) {
     
     // Try to post error comment
     try {
-      const octokit = await createAuthenticatedOctokit(installationId);
-      await octokit.issues.createComment({
-        owner,
-        repo,
-        issue_number: issueNumber,
-        body: `❌ **Plan Generation Failed**\n\nSorry, I encountered an error while generating the development plan:\n\`\`\`\n${error instanceof Error ? error.message : 'Unknown error'}\n\`\`\``
-      });
+      forge = forge ?? await createForgeClient(payload);
+      await acknowledgeCompletionOnForge(forge, payload, acknowledgement, 'failure');
+      await forge.postComment(
+        getCommentTarget(payload),
+        `❌ **Plan Generation Failed**\n\nSorry, I encountered an error while generating the development plan:\n\`\`\`\n${error instanceof Error ? error.message : 'Unknown error'}\n\`\`\``
+      );
     } catch (commentError) {
       logger.error("Failed to post error comment", { commentError });
     }
@@ -273,19 +325,9 @@ export async function runPlanTask(payload: GitHubContext, ctx: any) {
   }
 }
 
-// Create authenticated Octokit instance with enhanced security validation
-// Post immediate reply comment
-async function postReplyComment(octokit: Octokit, owner: string, repo: string, issueNumber: number): Promise<void> {
-  await octokit.issues.createComment({
-    owner,
-    repo,
-    issue_number: issueNumber,
-    body: INITIAL_REPLY_TEMPLATE()
-  });
-}
-
 // Phase 1: Repository Ingestion with improved performance and error handling
-async function ingestRepository(octokit: Octokit, owner: string, repo: string): Promise<string> {
+async function ingestRepository(forge: ForgeClient): Promise<string> {
+  const { owner, repo } = forge;
   logger.info("Ingesting repository contents");
   
   const config = getPlanConfig();
@@ -294,59 +336,42 @@ async function ingestRepository(octokit: Octokit, owner: string, repo: string):
     // Parallelize initial API calls for better performance
     const [repoData, languages, commits] = await Promise.all([
       retryWithBackoff(
-        () => octokit.repos.get({ owner, repo }),
+        () => forge.getRepository(),
         config.retryAttempts,
         config.retryDelay,
         "Repository metadata fetch"
       ),
       retryWithBackoff(
-        () => octokit.repos.listLanguages({ owner, repo }),
+        () => forge.listLanguages(),
         config.retryAttempts,
         config.retryDelay,
         "Languages fetch"
       ),
       retryWithBackoff(
-        () => octokit.repos.listCommits({ owner, repo, per_page: 10 }),
+        () => forge.listRecentCommits(10),
         config.retryAttempts,
         config.retryDelay,
         "Recent commits fetch"
       )
     ]);
     
-    // Get the commit SHA of the default branch for tree access
-    const { data: defaultBranchData } = await retryWithBackoff(
-      () => octokit.repos.getBranch({
-        owner,
-        repo,
-        branch: repoData.data.default_branch
-      }),
-      config.retryAttempts,
-      config.retryDelay,
-      "Default branch commit fetch"
-    );
-    
-    // Get repository structure using recursive tree with proper commit SHA
-    const { data: tree } = await retryWithBackoff(
-      () => octokit.git.getTree({
-        owner,
-        repo,
-        tree_sha: defaultBranchData.commit.sha,
-        recursive: 'true'
-      }),
+    // Get repository structure of the default branch
+    let tree = await retryWithBackoff(
+      () => forge.listTree(repoData.defaultBranch),
       config.retryAttempts,
       config.retryDelay,
       "Repository tree fetch"
     );
     
     // DoS protection: Limit the number of files analyzed
-    if (tree.tree.length > MAX_REPO_ANALYSIS_FILES) {
-      logger.warn(`Repository has ${tree.tree.length} files, limiting analysis to ${MAX_REPO_ANALYSIS_FILES} for performance`, {
+    if (tree.length > MAX_REPO_ANALYSIS_FILES) {
+      logger.warn(`Repository has ${tree.length} files, limiting analysis to ${MAX_REPO_ANALYSIS_FILES} for performance`, {
         owner,
         repo,
-        totalFiles: tree.tree.length
+        totalFiles: tree.length
       });
       // Truncate to prevent excessive processing
-      tree.tree = tree.tree.slice(0, MAX_REPO_ANALYSIS_FILES);
+      tree = tree.slice(0, MAX_REPO_ANALYSIS_FILES);
     }
     
     // Get key files content in parallel (limited to prevent rate limiting)
@@ -360,18 +385,14 @@ async function ingestRepository(octokit: Octokit, owner: string, repo: string):
       
       const batchPromises = batch.map(async (fileName) => {
         try {
-          const { data: fileData } = await retryWithBackoff(
-            () => octokit.repos.getContent({ owner, repo, path: fileName }),
+          const content = await retryWithBackoff(
+            () => forge.getFileContent(fileName),
             2, // Fewer retries for individual files
             config.retryDelay,
             `File fetch: ${fileName}`
           );
           
-          if ('content' in fileData && fileData.content) {
-            const content = Buffer.from(fileData.content, 'base64').toString('utf-8');
-            return { fileName, content };
-          }
-          return null;
+          return content ? { fileName, content } : null;
         } catch (error) {
           logger.warn(`File ${fileName} not found or inaccessible, skipping`, {
             error: error instanceof Error ? error.message : 'Unknown error'
@@ -395,17 +416,17 @@ async function ingestRepository(octokit: Octokit, owner: string, repo: string):
     
     // Build comprehensive repository summary with content truncation
     const repoSummary = buildRepositorySummary(
-      repoData.data,
-      tree.tree,
-      languages.data,
-      commits.data,
+      repoData,
+      tree,
+      languages,
+      commits,
       fileContents,
       config.maxContentLength
     );
     
     logger.info("Repository ingestion completed", { 
       summaryLength: repoSummary.length,
-      filesAnalyzed: tree.tree.length,
+      filesAnalyzed: tree.length,
       keyFilesFound: Object.keys(fileContents).length
     });
     
@@ -423,50 +444,53 @@ async function ingestRepository(octokit: Octokit, owner: string, repo: string):
 
 // Helper function to build repository summary with content management
 function buildRepositorySummary(
-  repoData: any,
-  treeItems: any[],
-  languages: any,
-  commits: any[],
+  repoData: ForgeRepository,
+  treeItems: ForgeTreeEntry[],
+  languages: Record<string, number>,
+  commits: ForgeCommit[],
   fileContents: { [key: string]: string },
   maxContentLength: number
 ): string {
+  // Language sizes are bytes on GitHub and percentages on GitLab, shares read the same for both
+  const languageTotal = Object.values(languages).reduce((sum, size) => sum + size, 0) || 1;
+
   const summary = `
-# Repository Analysis for ${repoData.owner.login}/${repoData.name}
+# Repository Analysis for ${repoData.fullName}
 
 ## Repository Metadata
 - **Name**: ${repoData.name}
 - **Description**: ${repoData.description || 'No description'}
 - **Primary Language**: ${repoData.language || 'Unknown'}
-- **Stars**: ${repoData.stargazers_count}
-- **Forks**: ${repoData.forks_count}
-- **Open Issues**: ${repoData.open_issues_count}
-- **Default Branch**: ${repoData.default_branch}
-- **Created**: ${repoData.created_at}
-- **Last Updated**: ${repoData.updated_at}
+- **Stars**: ${repoData.stars}
+- **Forks**: ${repoData.forks}
+- **Open Issues**: ${repoData.openIssues}
+- **Default Branch**: ${repoData.defaultBranch}
+- **Created**: ${repoData.createdAt ?? 'Unknown'}
+- **Last Updated**: ${repoData.updatedAt ?? 'Unknown'}
 
 ## Languages Distribution
-${Object.entries(languages).map(([lang, bytes]) => `- ${lang}: ${bytes} bytes`).join('\n')}
+${Object.entries(languages).map(([lang, size]) => `- ${lang}: ${(size / languageTotal * 100).toFixed(1)}%`).join('\n')}
 
 ## Repository Structure (${treeItems.length} files total)
 ${treeItems
-  .filter((item: any) => item.type === 'tree') // Only directories
+  .filter(item => item.type === 'dir') // Only directories
   .slice(0, 20) // Limit to prevent overwhelming LLM
-  .map((item: any) => `- 📁 ${item.path}`)
+  .map(item => `- 📁 ${item.path}`)
   .join('\n')}
 
 ### Key Files Found:
 ${treeItems
-  .filter((item: any) => item.type === 'blob' && (
-    item.path!.endsWith('.md') ||
-    item.path!.endsWith('.json') ||
-    item.path!.endsWith('.yml') ||
-    item.path!.endsWith('.yaml') ||
-    item.path!.includes('config') ||
-    item.path!.includes('README') ||
-    item.path!.includes('LICENSE')
+  .filter(item => item.type === 'file' && (
+    item.path.endsWith('.md') ||
+    item.path.endsWith('.json') ||
+    item.path.endsWith('.yml') ||
+    item.path.endsWith('.yaml') ||
+    item.path.includes('config') ||
+    item.path.includes('README') ||
+    item.path.includes('LICENSE')
   ))
   .slice(0, 30)
-  .map((item: any) => `- 📄 ${item.path}`)
+  .map(item => `- 📄 ${item.path}`)
   .join('\n')}
 
 ## Key File Contents
@@ -479,7 +503,7 @@ ${truncateContent(content, Math.floor(maxContentLength / Object.keys(fileContent
 `).join('\n')}
 
 ## Recent Commits
-${commits.map((commit: any) => `- ${commit.sha.slice(0, 7)}: ${commit.commit.message.split('\n')[0]} (${commit.commit.author?.name})`).join('\n')}
+${commits.map(commit => `- ${commit.sha.slice(0, 7)}: ${commit.message.split('\n')[0]} (${commit.author})`).join('\n')}
 `;
 
   return truncateContent(summary, maxContentLength);
@@ -817,16 +841,17 @@ FOCUS: Prioritize critical issues over new features. Address security, performan
   }
 }
 
-// Phase 3: Create GitHub Milestone
+// Phase 3: Create Milestone
 // Uses unique timestamp-based title to prevent duplicate milestone errors
 // when multiple plans are created on the same day
-async function createProjectMilestone(octokit: Octokit, owner: string, repo: string, analysis: PlanAnalysis): Promise<GitHubMilestone> {
-  logger.info("Creating GitHub milestone");
+async function createProjectMilestone(forge: ForgeClient, analysis: PlanAnalysis, options: CommandOptions = {}): Promise<ForgeMilestone> {
+  logger.info("Creating milestone", { forge: forge.kind });
 
   const currentDate = new Date();
-  const dueDate = new Date(currentDate.getTime() + 7 * 24 * 60 * 60 * 1000); // 7 days from now
+  const dueInDays = options.dueInDays ?? DEFAULT_MILESTONE_DUE_DAYS;
+  const dueDate = new Date(currentDate.getTime() + dueInDays * 24 * 60 * 60 * 1000);
 
-  const milestoneDescription = MILESTONE_DESCRIPTION_TEMPLATE(analysis, currentDate);
+  const milestoneDescription = MILESTONE_DESCRIPTION_TEMPLATE(analysis, currentDate) + buildPlanOptionsMarker(options);
 
   try {
     // Generate unique milestone title with timestamp and random component to avoid duplicates
@@ -834,16 +859,14 @@ async function createProjectMilestone(octokit: Octokit, owner: string, repo: str
     const randomSuffix = Math.random().toString(36).substr(2, 4); // 4 random characters
     const uniqueTitle = `AI Development Plan - ${timestamp}-${randomSuffix}`;
     
-    const { data: milestone } = await octokit.issues.createMilestone({
-      owner,
-      repo,
+    const milestone = await forge.createMilestone({
       title: uniqueTitle,
       description: milestoneDescription,
-      due_on: dueDate.toISOString()
+      dueOn: dueDate
     });
 
-    logger.info("Milestone created successfully", { milestoneId: milestone.id });
-    return milestone as GitHubMilestone;
+    logger.info("Milestone created successfully", { milestoneNumber: milestone.number });
+    return milestone;
 
   } catch (error) {
     logger.error("Error creating milestone", { error });
@@ -1010,20 +1033,13 @@ async function createGitHubIssues(octokit: Octokit, owner: string, repo: string,
 
 // Post milestone URL comment (sole response per requirements)
 async function postMilestoneUrlComment(
-  octokit: Octokit, 
-  owner: string, 
-  repo: string, 
-  issueNumber: number,
-  milestone: GitHubMilestone
+  forge: ForgeClient,
+  payload: GitHubContext,
+  milestone: ForgeMilestone
 ): Promise<void> {
-  const milestoneUrl = milestone.html_url;
+  const milestoneUrl = milestone.url;
   
-  await octokit.issues.createComment({
-    owner,
-    repo,
-    issue_number: issueNumber,
-    body: MILESTONE_CREATED_TEMPLATE(milestoneUrl)
-  });
+  await forge.postComment(getCommentTarget(payload), MILESTONE_CREATED_TEMPLATE(milestoneUrl));
 
   logger.info("Posted milestone URL comment", { milestoneUrl });
 }
@@ -0,0 +1,186 @@
+import { logger } from "@trigger.dev/sdk/v3";
+import { ForgeContext } from "../services/task-types";
+import { ForgeClient } from "../services/forges";
+import { Acknowledgement, acknowledgeCompletionOnForge, acknowledgeStartOnForge } from "./acknowledgements";
+import { createForgeClient, getCommentTarget } from "./forge-clients";
+import { findPlanMilestone, parseMilestoneDescription, PlanAnalysis } from "./plan-approval-implementation";
+import { buildPlanOptionsMarker, readPlanOptions } from "./plan-implementation";
+import {
+  MILESTONE_DESCRIPTION_TEMPLATE,
+  PLAN_REFINEMENT_TEMPLATE,
+  PLAN_REFINED_TEMPLATE
+} from "../templates/issue-templates";
+import { DEFAULT_CONFIG, generateAIResponse, selectModelForUser } from "../lib/openai-operations";
+
+type PlanSection = 'criticalFixes' | 'missingComponents' | 'requiredImprovements' | 'innovationIdeas';
+
+// Sections in priority order, titled as in the milestone description
+const PLAN_SECTIONS: ReadonlyArray<[PlanSection, string]> = [
+  ['criticalFixes', 'Critical Fixes'],
+  ['missingComponents', 'Missing Components'],
+  ['requiredImprovements', 'Required Improvements'],
+  ['innovationIdeas', 'Innovation Ideas'],
+];
+
+/**
+ * What a refinement changed in a plan. Items are matched by their text, so a reworded
+ * item counts as removed and added; an item that moved to another section was reprioritized.
+ */
+export interface PlanChanges {
+  added: Array<{ item: string; section: string }>;
+  removed: Array<{ item: string; section: string }>;
+  reprioritized: Array<{ item: string; from: string; to: string }>;
+}
+
+function normalizeItem(item: string): string {
+  return item.toLowerCase().replace(/\s+/g, ' ').replace(/[.\s]+$/, '').trim();
+}
+
+/**
+ * Compares the items of two versions of a plan
+ */
+export function diffPlans(before: PlanAnalysis, after: PlanAnalysis): PlanChanges {
+  const sectionOf = (analysis: PlanAnalysis) => {
+    const sections = new Map<string, string>();
+    for (const [key, title] of PLAN_SECTIONS) {
+      for (const item of analysis[key]) {
+        sections.set(normalizeItem(item), title);
+      }
+    }
+    return sections;
+  };
+  const beforeSections = sectionOf(before);
+  const afterSections = sectionOf(after);
+
+  const changes: PlanChanges = { added: [], removed: [], reprioritized: [] };
+  for (const [key, title] of PLAN_SECTIONS) {
+    for (const item of after[key]) {
+      const previous = beforeSections.get(normalizeItem(item));
+      if (!previous) {
+        changes.added.push({ item, section: title });
+      } else if (previous !== title) {
+        changes.reprioritized.push({ item, from: previous, to: title });
+      }
+    }
+    for (const item of before[key]) {
+      if (!afterSections.has(normalizeItem(item))) {
+        changes.removed.push({ item, section: title });
+      }
+    }
+  }
+  return changes;
+}
+
+/**
+ * The feedback after the command word, e.g. "focus on security" for "refine focus on security"
+ */
+function extractFeedback(message: string): string {
+  return message.trim().replace(/^\S+\s*/, '');
+}
+
+// Reworks the plan with the model, keeping the items the feedback doesn't concern
+async function refineAnalysis(analysis: PlanAnalysis, feedback: string, requester: string): Promise<PlanAnalysis> {
+  const systemPrompt = `You are an Engineering Manager revising a development plan after feedback from the team.
+
+Apply the feedback to the plan:
+- Add, remove or reword items only where the feedback asks for it
+- Keep every other item exactly as written, so the changes stay easy to review
+- Sections are priority tiers, from criticalFixes (highest) to innovationIdeas (lowest): move an item to another section to change its priority
+- Keep the "[Size: ..., Priority: ...]" annotations of items up to date
+
+Return the revised plan as JSON with the same fields:
+{
+  "repositoryOverview": "string",
+  "criticalFixes": ["string"],
+  "missingComponents": ["string"],
+  "requiredImprovements": ["string"],
+  "innovationIdeas": ["string"]
+}`;
+
+  const userPrompt = `Current plan:\n${JSON.stringify(analysis, null, 2)}\n\nFeedback:\n"${feedback}"`;
+  const response = await generateAIResponse(userPrompt, systemPrompt, { ...DEFAULT_CONFIG, model: selectModelForUser(requester) });
+
+  let refined: Record<string, unknown>;
+  try {
+    refined = JSON.parse(response.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim());
+  } catch (parseError) {
+    logger.error("Failed to parse refined plan as JSON", {
+      parseError: parseError instanceof Error ? parseError.message : 'Unknown parse error',
+      responseLength: response.length
+    });
+    throw new Error("Invalid JSON response from OpenAI");
+  }
+
+  const result: PlanAnalysis = {
+    repositoryOverview: typeof refined.repositoryOverview === 'string' ? refined.repositoryOverview : analysis.repositoryOverview,
+    criticalFixes: [],
+    missingComponents: [],
+    requiredImprovements: [],
+    innovationIdeas: []
+  };
+  for (const [key] of PLAN_SECTIONS) {
+    const items = refined[key];
+    if (!Array.isArray(items)) {
+      throw new Error(`Invalid refined plan: field ${key} must be an array`);
+    }
+    result[key] = items.filter((item): item is string => typeof item === 'string' && item.trim().length > 0);
+  }
+  return result;
+}
+
+// Export the plan refinement implementation function
+export async function runPlanRefinementTask(payload: ForgeContext) {
+  logger.info("Starting plan refinement task", { payload });
+  const target = getCommentTarget(payload);
+  const feedback = extractFeedback(payload.message || '');
+
+  let acknowledgement: Acknowledgement | undefined;
+  let forge: ForgeClient | undefined;
+
+  try {
+    forge = await createForgeClient(payload);
+
+    // Only the milestone linked in the thread, a repository-wide search could rewrite an unrelated one
+    const milestone = await findPlanMilestone(forge, payload, false);
+    if (!milestone) {
+      await forge.postComment(target, "❌ **No Recent Milestone Found**\n\nI couldn't find a plan milestone linked in this thread. Please run `@l plan` here first to create one.");
+      return { success: false, error: "No milestone found" };
+    }
+
+    acknowledgement = await acknowledgeStartOnForge(forge, payload, PLAN_REFINEMENT_TEMPLATE(milestone.url, feedback));
+
+    const analysis = parseMilestoneDescription(milestone.description);
+    const refined = await refineAnalysis(analysis, feedback, payload.requester);
+    const changes = diffPlans(analysis, refined);
+
+    // The approval options of the plan command still apply to the refined plan
+    const description = MILESTONE_DESCRIPTION_TEMPLATE(refined, new Date()) + buildPlanOptionsMarker(readPlanOptions(milestone.description));
+    await forge.updateMilestoneDescription(milestone.number, description);
+
+    await forge.postComment(target, PLAN_REFINED_TEMPLATE(milestone.url, changes));
+    await acknowledgeCompletionOnForge(forge, payload, acknowledgement, 'success');
+
+    logger.info("Plan refinement task completed", {
+      milestoneNumber: milestone.number,
+      added: changes.added.length,
+      removed: changes.removed.length,
+      reprioritized: changes.reprioritized.length
+    });
+
+    return { success: true, milestone, changes };
+
+  } catch (error) {
+    logger.error("Error in plan refinement task", { error });
+
+    // Try to post error comment
+    try {
+      forge = forge ?? await createForgeClient(payload);
+      await acknowledgeCompletionOnForge(forge, payload, acknowledgement, 'failure');
+      await forge.postComment(target, `❌ **Plan Refinement Failed**\n\nSorry, I encountered an error while refining the plan, the milestone is unchanged:\n\`\`\`\n${error instanceof Error ? error.message : 'Unknown error'}\n\`\`\``);
+    } catch (commentError) {
+      logger.error("Failed to post error comment", { commentError });
+    }
+
+    throw error;
+  }
+}
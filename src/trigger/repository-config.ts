@@ -0,0 +1,58 @@
+// src/trigger/repository-config.ts
+
+import { logger } from "@trigger.dev/sdk/v3";
+import { ForgeClient } from "../services/forges";
+import { GlobalConfig, resetConfig, setGlobalConfig } from "../lib/config";
+import {
+  ConfigReference,
+  formatConfigReference,
+  ResolvedRepositoryConfig,
+  resolveRepositoryConfigLayers
+} from "../lib/repository-config";
+
+/**
+ * Resolves the repository's configuration from the default branches of the organization's .github repository,
+ * the repositories its file extends and the repository itself. Unreadable or invalid files are left out.
+ */
+export async function resolveForgeRepositoryConfig(forge: ForgeClient): Promise<ResolvedRepositoryConfig> {
+  const readFile = async (reference: ConfigReference): Promise<string | null> => {
+    try {
+      return await forge.forRepository(reference.owner, reference.repo).getFileContent(reference.path);
+    } catch (error) {
+      logger.warn("Failed to read a configuration file", {
+        source: formatConfigReference(reference),
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  };
+
+  const resolved = await resolveRepositoryConfigLayers(forge.owner, forge.repo, readFile);
+  for (const layer of resolved.layers.filter(candidate => candidate.errors.length > 0)) {
+    logger.warn("Ignoring invalid configuration file", { source: layer.source, errors: layer.errors });
+  }
+  if (resolved.errors.length > 0) {
+    logger.warn("Ignoring invalid aliases of the merged configuration", { errors: resolved.errors });
+  }
+  return resolved;
+}
+
+/**
+ * Reads the repository's configuration merged over the organization's and the environment defaults.
+ * Missing, unreadable or invalid files leave the layers below them in place.
+ */
+export async function readRepositoryConfig(forge: ForgeClient): Promise<GlobalConfig> {
+  return (await resolveForgeRepositoryConfig(forge)).config;
+}
+
+/**
+ * Loads the repository's configuration at task start and makes it the global configuration,
+ * so the file, git and code generation helpers the task calls use it too
+ */
+export async function loadRepositoryConfig(forge: ForgeClient): Promise<GlobalConfig> {
+  const config = await readRepositoryConfig(forge);
+  resetConfig();
+  setGlobalConfig(config);
+  logger.info("Loaded repository configuration", { owner: forge.owner, repo: forge.repo });
+  return config;
+}
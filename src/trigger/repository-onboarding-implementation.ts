@@ -0,0 +1,143 @@
+// src/trigger/repository-onboarding-implementation.ts
+
+import { logger } from "@trigger.dev/sdk/v3";
+import { Octokit } from "@octokit/rest";
+import { GitHubContext } from "../services/task-types";
+import { createAuthenticatedOctokit } from "./github-auth";
+import { ISSUE_LABELS } from "./plan-implementation";
+import { WELCOME_ISSUE_TEMPLATE } from "../templates/issue-templates";
+import { renderCommandHelp } from "../lib/command-catalog";
+import { getTriageConfig } from "../lib/issue-triage";
+
+// Marks the welcome issue so that reinstalling doesn't open another one
+export const ONBOARDING_LABEL = 'uwularpy-onboarding';
+
+const WELCOME_ISSUE_TITLE = '👋 Welcome to uwularpy';
+
+/**
+ * Labels used by the plan, PR and review workflows
+ */
+export const WORKFLOW_LABELS: Array<{ name: string; color: string; description: string }> = [
+  { name: 'copilot-assigned', color: '6f42c1', description: 'Assigned to Copilot by the plan workflow' },
+  { name: 'pr-created', color: '0e8a16', description: 'A pull request was opened for this issue' },
+  { name: 'completed', color: '0e8a16', description: 'Work on this issue is complete' },
+  { name: 'merged', color: '5319e7', description: 'The pull request for this issue was merged' },
+  { name: 'full-code-review-complete', color: 'c2e0c6', description: 'A full code review was posted' },
+  { name: ISSUE_LABELS.CRITICAL, color: 'b60205', description: 'Needs immediate attention' },
+  { name: ISSUE_LABELS.BUG, color: 'd73a4a', description: "Something isn't working" },
+  { name: ISSUE_LABELS.SECURITY, color: 'ee0701', description: 'Security issue' },
+  { name: ISSUE_LABELS.ENHANCEMENT, color: 'a2eeef', description: 'New feature or request' },
+  { name: ISSUE_LABELS.MISSING_FEATURE, color: 'fbca04', description: 'Essential component the project is missing' },
+  { name: ISSUE_LABELS.IMPROVEMENT, color: '1d76db', description: 'Improves existing code' },
+  { name: ISSUE_LABELS.TECHNICAL_DEBT, color: 'e99695', description: 'Code quality and maintenance' },
+  { name: ISSUE_LABELS.FEATURE, color: '84b6eb', description: 'Feature work' },
+  { name: ISSUE_LABELS.INNOVATION, color: 'f9d0c4', description: 'Idea for a new capability' },
+  { name: ISSUE_LABELS.QUESTION, color: 'd876e3', description: 'Further information is requested' },
+  { name: ONBOARDING_LABEL, color: 'ededed', description: 'uwularpy welcome issue' },
+];
+
+/**
+ * Prepares a newly installed repository: creates the workflow labels and opens a welcome issue,
+ * unless the repository has issues turned off or the install covered too many repositories
+ */
+export async function runRepositoryOnboardingTask(payload: GitHubContext) {
+  const { owner, repo, installationId } = payload;
+  logger.info("Starting repository onboarding", { owner, repo, installationId });
+
+  const octokit = await createAuthenticatedOctokit(installationId);
+
+  const createdLabels = await ensureLabels(octokit, owner, repo);
+  logger.info("Workflow labels ready", { created: createdLabels });
+
+  if (payload.welcomeIssue === false) {
+    logger.info("Welcome issue skipped for a bulk install", { owner, repo });
+    return { success: true, createdLabels, welcomeIssue: null };
+  }
+
+  const { data: repository } = await octokit.repos.get({ owner, repo });
+  if (!repository.has_issues) {
+    logger.info("Issues are disabled, no welcome issue", { owner, repo });
+    return { success: true, createdLabels, welcomeIssue: null };
+  }
+
+  const { data: existing } = await octokit.issues.listForRepo({
+    owner,
+    repo,
+    labels: ONBOARDING_LABEL,
+    state: 'all',
+    per_page: 1
+  });
+  if (existing.length > 0) {
+    logger.info("Welcome issue already exists", { issueNumber: existing[0].number });
+    return { success: true, createdLabels, welcomeIssue: existing[0].number };
+  }
+
+  const detectedConfig = await detectConfiguration(octokit, repository);
+  const { data: issue } = await octokit.issues.create({
+    owner,
+    repo,
+    title: WELCOME_ISSUE_TITLE,
+    body: WELCOME_ISSUE_TEMPLATE(`${owner}/${repo}`, detectedConfig, renderCommandHelp()),
+    labels: [ONBOARDING_LABEL]
+  });
+
+  logger.info("Opened welcome issue", { issueNumber: issue.number });
+  return { success: true, createdLabels, welcomeIssue: issue.number };
+}
+
+/**
+ * Creates the workflow labels that don't exist yet
+ * @returns The names of the created labels
+ */
+async function ensureLabels(octokit: Octokit, owner: string, repo: string): Promise<string[]> {
+  const existing = await octokit.paginate(octokit.issues.listLabelsForRepo, { owner, repo, per_page: 100 });
+  const existingNames = new Set(existing.map(label => label.name.toLowerCase()));
+
+  const created: string[] = [];
+  for (const label of WORKFLOW_LABELS) {
+    if (existingNames.has(label.name.toLowerCase())) {
+      continue;
+    }
+
+    try {
+      await octokit.issues.createLabel({ owner, repo, ...label });
+      created.push(label.name);
+    } catch (error) {
+      // A concurrent onboarding run may have created it
+      logger.warn("Failed to create label", { label: label.name, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Collects the settings that apply to the repository for the welcome issue
+ */
+async function detectConfiguration(
+  octokit: Octokit,
+  repository: { name: string; owner: { login: string }; default_branch: string; language: string | null }
+): Promise<Array<[string, string]>> {
+  const owner = repository.owner.login;
+  const repo = repository.name;
+  const triage = getTriageConfig(owner, repo);
+
+  let hasCodeOwners = false;
+  for (const path of ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS']) {
+    try {
+      await octokit.repos.getContent({ owner, repo, path });
+      hasCodeOwners = true;
+      break;
+    } catch {
+      // Not present at this location
+    }
+  }
+
+  return [
+    ['Default branch', `\`${repository.default_branch}\``],
+    ['Primary language', repository.language ?? 'not detected'],
+    ['Issue triage', triage.enabled ? 'enabled' : 'disabled'],
+    ['Owner suggestions', hasCodeOwners ? 'from CODEOWNERS' : 'no CODEOWNERS file found'],
+    ['CI auto-fix', process.env.CI_AUTOFIX_ENABLED === 'true' ? 'enabled' : 'disabled'],
+  ];
+}
@@ -0,0 +1,126 @@
+// src/trigger/status-implementation.ts
+
+import { logger, runs } from "@trigger.dev/sdk/v3";
+import { GitHubContext, ThreadRun } from "../services/task-types";
+import { ForgeMilestone } from "../services/forges";
+import { createForgeClient } from "./forge-clients";
+import { postForgeReply } from "./comment-replies";
+import { findPlanMilestone } from "./plan-approval-implementation";
+
+/**
+ * State of a thread run as reported by Trigger.dev
+ */
+export interface RunStatus extends ThreadRun {
+  status: string;
+  isCompleted: boolean;
+  // Phase the task reported in its output, e.g. "milestone_created"
+  phase?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+/**
+ * Open and closed issues of the thread's plan milestone
+ */
+export interface MilestoneProgress {
+  milestone: ForgeMilestone;
+  open: number;
+  closed: number;
+}
+
+/**
+ * Formats a duration as "1h 5m", "3m 12s" or "40s"
+ */
+export function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+/**
+ * Builds the status reply: the runs of the thread, newest first, and the plan milestone's progress
+ */
+export function buildStatusReport(statuses: RunStatus[], progress: MilestoneProgress | null, now: Date = new Date()): string {
+  const sections = ['### Workflow Status'];
+
+  if (statuses.length === 0) {
+    sections.push('No runs were started from this thread in the last 24 hours.');
+  } else {
+    const rows = [...statuses].reverse().map(run => {
+      const started = run.startedAt ?? new Date(run.requestedAt);
+      const elapsed = formatElapsed((run.finishedAt ?? now).getTime() - started.getTime());
+      const state = run.isCompleted ? run.status.toLowerCase() : `**${run.status.toLowerCase()}**`;
+      return `| \`${run.command.replace(/\|/g, '\\|')}\` | ${run.taskId} | ${state} | ${run.phase ? `\`${run.phase}\`` : '-'} | ${elapsed} |`;
+    });
+    const active = statuses.filter(run => !run.isCompleted).length;
+    sections.push(`${active > 0 ? `${active} run(s) in progress.` : 'Nothing is running.'}
+
+| Command | Task | Status | Phase | Elapsed |
+|---------|------|--------|-------|---------|
+${rows.join('\n')}`);
+  }
+
+  if (progress) {
+    const total = progress.open + progress.closed;
+    sections.push(`**Milestone:** [${progress.milestone.title}](${progress.milestone.url}): ${progress.closed}/${total} issues closed, ${progress.open} open`);
+  }
+
+  return sections.join('\n\n');
+}
+
+// Reads the state of a run, null when Trigger.dev doesn't know it anymore
+async function retrieveRunStatus(run: ThreadRun): Promise<RunStatus | null> {
+  try {
+    const details = await runs.retrieve(run.runId);
+    const output = details.isSuccess ? details.output as { phase?: unknown } | undefined : undefined;
+    return {
+      ...run,
+      status: details.status,
+      isCompleted: details.isCompleted,
+      phase: typeof output?.phase === 'string' ? output.phase : undefined,
+      startedAt: details.startedAt,
+      finishedAt: details.finishedAt,
+    };
+  } catch (error) {
+    logger.warn("Failed to retrieve run", { runId: run.runId, error: error instanceof Error ? error.message : 'Unknown error' });
+    return null;
+  }
+}
+
+/**
+ * Answers @l status with the runs started from the thread and the progress of its plan
+ */
+export async function runStatusTask(payload: GitHubContext) {
+  const threadRuns = (payload.threadRuns ?? []).filter(run => run.taskId !== 'status-task');
+  logger.log("Reporting workflow status", { runs: threadRuns.length });
+
+  const statuses: RunStatus[] = [];
+  for (const run of threadRuns) {
+    const status = await retrieveRunStatus(run);
+    if (status) {
+      statuses.push(status);
+    }
+  }
+
+  const forge = await createForgeClient(payload);
+  let progress: MilestoneProgress | null = null;
+  try {
+    // Only a milestone linked in the thread, a repository-wide guess would report another plan
+    const milestone = await findPlanMilestone(forge, payload, false);
+    if (milestone) {
+      const issues = await forge.listMilestoneIssues(milestone.number);
+      const closed = issues.filter(issue => issue.state === 'closed').length;
+      progress = { milestone, open: issues.length - closed, closed };
+    }
+  } catch (error) {
+    logger.warn("Failed to read the plan milestone", { error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+
+  await postForgeReply(forge, payload, buildStatusReport(statuses, progress));
+
+  return { success: true, runs: statuses.length, active: statuses.filter(run => !run.isCompleted).length };
+}
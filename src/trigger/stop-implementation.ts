@@ -0,0 +1,98 @@
+// src/trigger/stop-implementation.ts
+
+import { logger, runs } from "@trigger.dev/sdk/v3";
+import { GitHubContext, ThreadRun } from "../services/task-types";
+import { ForgeClient } from "../services/forges";
+import { createForgeClient } from "./forge-clients";
+import { postForgeReply } from "./comment-replies";
+import { codexBranchName } from "./workflow-constants";
+
+/**
+ * What @l stop did
+ */
+export interface StopResult {
+  cancelled: ThreadRun[];
+  // Runs that couldn't be cancelled
+  failed: ThreadRun[];
+  // Branches of cancelled runs that were deleted because the default branch already had all their commits
+  deletedBranches: string[];
+  // Branches of cancelled runs that were kept because they carry commits
+  keptBranches: string[];
+}
+
+/**
+ * Cancels the unfinished runs of the thread and removes the empty branches they left behind
+ */
+export async function stopThreadRuns(forge: ForgeClient, payload: GitHubContext): Promise<StopResult> {
+  const result: StopResult = { cancelled: [], failed: [], deletedBranches: [], keptBranches: [] };
+
+  for (const run of payload.threadRuns ?? []) {
+    try {
+      const details = await runs.retrieve(run.runId);
+      if (details.isCompleted) {
+        continue;
+      }
+      await runs.cancel(run.runId);
+      result.cancelled.push(run);
+    } catch (error) {
+      logger.warn("Failed to cancel run", { runId: run.runId, error: error instanceof Error ? error.message : 'Unknown error' });
+      result.failed.push(run);
+    }
+  }
+
+  // codex-task pushes its branch together with its commit, so a cancelled run leaves either no branch or one
+  // carrying its work, which is kept. A branch with no commits of its own is left over from an earlier, merged run.
+  if (result.cancelled.some(run => run.taskId === 'codex-task')) {
+    const branch = codexBranchName(payload.issueNumber);
+    try {
+      if (await forge.branchExists(branch)) {
+        const { defaultBranch } = await forge.getRepository();
+        if (await forge.countCommitsAhead(branch, defaultBranch) === 0) {
+          await forge.deleteBranch(branch);
+          result.deletedBranches.push(branch);
+        } else {
+          result.keptBranches.push(branch);
+        }
+      }
+    } catch (error) {
+      logger.warn("Failed to clean up branch", { branch, error: error instanceof Error ? error.message : 'Unknown error' });
+      result.keptBranches.push(branch);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Builds the reply confirming what was stopped
+ */
+export function buildStopReport(result: StopResult, requester: string): string {
+  if (result.cancelled.length === 0 && result.failed.length === 0) {
+    return `@${requester} Nothing started from this thread is running.`;
+  }
+
+  const lines = result.cancelled.map(run => `- Cancelled \`${run.command}\` (${run.taskId}, run \`${run.runId}\`)`);
+  lines.push(...result.failed.map(run => `- Couldn't cancel \`${run.command}\` (${run.taskId}, run \`${run.runId}\`)`));
+  lines.push(...result.deletedBranches.map(branch => `- Deleted branch \`${branch}\`, it had no commits of its own`));
+  lines.push(...result.keptBranches.map(branch => `- Kept branch \`${branch}\`, it has commits`));
+
+  return `@${requester} Stopped the runs of this thread:\n${lines.join('\n')}`;
+}
+
+/**
+ * Answers @l stop: cancels the runs started from the thread that are still going
+ */
+export async function runStopTask(payload: GitHubContext) {
+  logger.log("Stopping thread runs", { runs: payload.threadRuns?.length ?? 0 });
+
+  const forge = await createForgeClient(payload);
+  const result = await stopThreadRuns(forge, payload);
+  await postForgeReply(forge, payload, buildStopReport(result, payload.requester));
+
+  return {
+    success: result.failed.length === 0,
+    cancelled: result.cancelled.map(run => run.runId),
+    failed: result.failed.map(run => run.runId),
+    deletedBranches: result.deletedBranches
+  };
+}
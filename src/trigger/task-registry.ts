@@ -2,6 +2,7 @@
 
 import { task } from "@trigger.dev/sdk/v3";
 import { GitHubContext } from "../services/task-types";
+import { waitForPreviousCommand } from "./command-chain";
 
 // Export the task definition separately from the implementation
 // This helps break circular dependencies
@@ -23,6 +24,7 @@ export const codexTask = task({
   // Set a longer maxDuration for repository processing
   maxDuration: 600, // 20 minutes
   run: async (payload: GitHubContext, ctx) => {
+    await waitForPreviousCommand(payload);
     // Dynamically import the implementation to avoid circular dependencies
     const { runCodexTask } = await import("./codex-task");
     return await runCodexTask(payload, ctx);
@@ -34,6 +36,7 @@ export const fullCodeReviewTask = task({
   machine: "large-2x",
   maxDuration: 900, // 15 minutes
   run: async (payload: GitHubContext, { ctx }) => {
+    await waitForPreviousCommand(payload);
     const { runFullCodeReviewTask } = await import("./full-code-review-implementation");
     return await runFullCodeReviewTask(payload, ctx);
   },
@@ -44,6 +47,7 @@ export const planTask = task({
   machine: "large-2x",
   maxDuration: 1200, // 20 minutes for comprehensive repository analysis
   run: async (payload: GitHubContext, { ctx }) => {
+    await waitForPreviousCommand(payload);
     const { runPlanTask } = await import("./plan-implementation");
     return await runPlanTask(payload, ctx);
   },
@@ -54,11 +58,34 @@ export const planApprovalTask = task({
   machine: "large-2x",
   maxDuration: 600, // 10 minutes for milestone decomposition
   run: async (payload: GitHubContext, { ctx }) => {
+    await waitForPreviousCommand(payload);
     const { runPlanApprovalTask } = await import("./plan-approval-implementation");
     return await runPlanApprovalTask(payload, ctx);
   },
 });
 
+export const planRefinementTask = task({
+  id: "plan-refinement-task",
+  machine: "large-2x",
+  maxDuration: 300, // 5 minutes for reworking the plan
+  run: async (payload: GitHubContext) => {
+    await waitForPreviousCommand(payload);
+    const { runPlanRefinementTask } = await import("./plan-refinement-implementation");
+    return await runPlanRefinementTask(payload);
+  },
+});
+
+export const planCancellationTask = task({
+  id: "plan-cancellation-task",
+  machine: "small-1x",
+  maxDuration: 300, // 5 minutes for closing the plan's issues
+  run: async (payload: GitHubContext) => {
+    await waitForPreviousCommand(payload);
+    const { runPlanCancellationTask } = await import("./plan-cancellation-implementation");
+    return await runPlanCancellationTask(payload);
+  },
+});
+
 export const planExecutionTask = task({
   id: "plan-execution-task",
   machine: "large-2x",
@@ -94,7 +121,99 @@ export const generalResponseTask = task({
   machine: "small-1x", 
   maxDuration: 300, // 5 minutes for conversation analysis and response
   run: async (payload: GitHubContext, { ctx }) => {
+    await waitForPreviousCommand(payload);
     const { runGeneralResponseTask } = await import("./general-response-implementation");
     return await runGeneralResponseTask(payload, ctx);
   },
 });
+
+export const issueTriageTask = task({
+  id: "issue-triage-task",
+  machine: "small-1x",
+  maxDuration: 180, // 3 minutes for classification, duplicate search and labelling
+  run: async (payload: GitHubContext) => {
+    const { runIssueTriageTask } = await import("./issue-triage-implementation");
+    return await runIssueTriageTask(payload);
+  },
+});
+
+export const ciFailureAnalysisTask = task({
+  id: "ci-failure-analysis-task",
+  machine: "large-2x",
+  maxDuration: 900, // 15 minutes for log analysis and an optional fix attempt
+  run: async (payload: GitHubContext) => {
+    const { runCiFailureAnalysisTask } = await import("./ci-failure-analysis-implementation");
+    return await runCiFailureAnalysisTask(payload);
+  },
+});
+
+export const repositoryOnboardingTask = task({
+  id: "repository-onboarding-task",
+  machine: "small-1x",
+  maxDuration: 180, // 3 minutes for labels and the welcome issue
+  run: async (payload: GitHubContext) => {
+    const { runRepositoryOnboardingTask } = await import("./repository-onboarding-implementation");
+    return await runRepositoryOnboardingTask(payload);
+  },
+});
+
+export const commandFeedbackTask = task({
+  id: "command-feedback-task",
+  machine: "small-1x",
+  maxDuration: 60, // 1 minute, posts a single reply
+  run: async (payload: GitHubContext) => {
+    await waitForPreviousCommand(payload);
+    const { runCommandFeedbackTask } = await import("./command-feedback-implementation");
+    return await runCommandFeedbackTask(payload);
+  },
+});
+
+export const helpTask = task({
+  id: "help-task",
+  machine: "small-1x",
+  maxDuration: 60, // 1 minute, posts a single reply
+  run: async (payload: GitHubContext) => {
+    await waitForPreviousCommand(payload);
+    const { runHelpTask } = await import("./help-implementation");
+    return await runHelpTask(payload);
+  },
+});
+
+export const statusTask = task({
+  id: "status-task",
+  machine: "small-1x",
+  maxDuration: 120, // 2 minutes, reads run states and posts a single reply
+  run: async (payload: GitHubContext) => {
+    await waitForPreviousCommand(payload);
+    const { runStatusTask } = await import("./status-implementation");
+    return await runStatusTask(payload);
+  },
+});
+
+export const configTask = task({
+  id: "config-task",
+  machine: "small-1x",
+  maxDuration: 120, // 2 minutes, reads a few files and posts a single reply
+  run: async (payload: GitHubContext) => {
+    await waitForPreviousCommand(payload);
+    const { runConfigTask } = await import("./config-implementation");
+    return await runConfigTask(payload);
+  },
+});
+
+export const stopTask = task({
+  id: "stop-task",
+  machine: "small-1x",
+  maxDuration: 120, // 2 minutes, cancels runs and posts a single reply
+  // Doesn't wait for the commands before it: stopping them is the point
+  run: async (payload: GitHubContext) => {
+    const { runStopTask } = await import("./stop-implementation");
+    return await runStopTask(payload);
+  },
+});
+
+/**
+ * Tasks that scripts can start through the /api/tasks routes.
+ * Workflow steps that depend on earlier comments (approval, execution, PR progression) are left out.
+ */
+export const API_TRIGGERABLE_TASK_IDS: readonly string[] = [planTask.id, fullCodeReviewTask.id, codexTask.id];
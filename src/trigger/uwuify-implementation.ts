@@ -5,18 +5,21 @@ import { Octokit } from "@octokit/rest";
 import { createAppAuth } from "@octokit/auth-app";
 import { GitHubContext, RepoStats } from "../services/task-types";
 import { uwuifyRepository, getTopContributorsByMergedPRs } from "../lib/binary-uwuify";
+import { Acknowledgement, acknowledgeCompletion, acknowledgeStart } from "./acknowledgements";
 
 // Export the implementation function
 export async function runUwuifyTask(payload: GitHubContext, ctx: any) {
   logger.log("Starting uwuification process", { payload });
 
+  let acknowledgement: Acknowledgement | undefined;
+
   try {
     // Create an authenticated Octokit instance
     const octokit = await createAuthenticatedOctokit(payload.installationId);
     
-    // Post an immediate reply comment
-    await postReplyComment(octokit, payload.owner, payload.repo, payload.issueNumber);
-    logger.log("Posted initial reply comment");
+    // Acknowledge the command
+    acknowledgement = await acknowledgeStart(octokit, payload, "see you, uwuing...");
+    logger.log("Acknowledged command", { mode: acknowledgement.mode });
     
     // Create a new branch name
     const branchName = `uwuify-issue-${payload.issueNumber}`;
@@ -67,6 +70,7 @@ export async function runUwuifyTask(payload: GitHubContext, ctx: any) {
     );
     
     logger.log("Notified requester", { requester: payload.requester });
+    await acknowledgeCompletion(octokit, payload, acknowledgement, 'success');
 
     return {
       success: true,
@@ -78,6 +82,7 @@ export async function runUwuifyTask(payload: GitHubContext, ctx: any) {
     // Try to notify the requester about the error
     try {
       const octokit = await createAuthenticatedOctokit(payload.installationId);
+      await acknowledgeCompletion(octokit, payload, acknowledgement, 'failure');
       await postErrorComment(
         octokit,
         payload.owner,
@@ -122,24 +127,6 @@ async function createAuthenticatedOctokit(installationId: number): Promise<any>
   }
 }
 
-// Post an immediate reply comment
-async function postReplyComment(octokit: any, owner: string, repo: string, issueNumber: number): Promise<void> {
-  try {
-    // Post the reply comment
-    await octokit.issues.createComment({
-      owner,
-      repo,
-      issue_number: issueNumber,
-      body: "see you, uwuing..."
-    });
-    
-    logger.log(`Posted immediate reply to issue #${issueNumber}`);
-  } catch (error) {
-    logger.error('Error posting reply comment:', { error });
-    throw error; // Re-throw to be handled by the caller
-  }
-}
-
 // Post an error comment to notify the user
 async function postErrorComment(octokit: any, owner: string, repo: string, issueNumber: number, requester: string, action: string, error: any): Promise<void> {
   try {
@@ -10,6 +10,9 @@ export const REVIEW_COMMAND = '@l r';
 // GitHub Copilot configuration
 export const COPILOT_USERNAME = '@copilot';
 
+// Branch codex-task pushes its changes for an issue to
+export const codexBranchName = (issueNumber: number): string => `dev-issue-${issueNumber}`;
+
 // Rate limiting and timing
 export const DEFAULT_RATE_LIMIT_DELAY = 1000; // 1 second between API calls
 export const MAX_API_CALLS_PER_MINUTE = 60;